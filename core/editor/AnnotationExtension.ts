@@ -0,0 +1,93 @@
+import { StateEffect, StateField, Extension, RangeSetBuilder, Text } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, WidgetType } from '@codemirror/view';
+import { InlineAnnotation } from './types';
+
+/**
+ * Replaces the current set of inline annotations (an empty array clears them)
+ */
+export const setAnnotationsEffect = StateEffect.define<InlineAnnotation[]>();
+
+class AnnotationWidget extends WidgetType {
+  constructor(private readonly annotation: InlineAnnotation) {
+    super();
+  }
+
+  eq(other: AnnotationWidget): boolean {
+    return other.annotation.value === this.annotation.value &&
+      other.annotation.count === this.annotation.count;
+  }
+
+  toDOM(): HTMLElement {
+    const span = document.createElement('span');
+    span.className = 'cm-inline-annotation';
+    span.textContent = this.annotation.count && this.annotation.count > 1
+      ? `${this.annotation.value} (×${this.annotation.count})`
+      : this.annotation.value;
+    span.title = this.annotation.value;
+    return span;
+  }
+
+  ignoreEvent(): boolean {
+    return true;
+  }
+}
+
+function buildDecorations(doc: Text, annotations: InlineAnnotation[]): DecorationSet {
+  const builder = new RangeSetBuilder<Decoration>();
+  const sorted = [...annotations].sort((a, b) => a.line - b.line);
+
+  let lastLine = 0;
+  for (const annotation of sorted) {
+    // RangeSetBuilder needs strictly ordered ranges: one widget per line
+    if (annotation.line < 1 || annotation.line > doc.lines || annotation.line === lastLine) continue;
+    lastLine = annotation.line;
+
+    const line = doc.line(annotation.line);
+    builder.add(line.to, line.to, Decoration.widget({
+      widget: new AnnotationWidget(annotation),
+      side: 1
+    }));
+  }
+
+  return builder.finish();
+}
+
+const annotationField = StateField.define<DecorationSet>({
+  create() {
+    return Decoration.none;
+  },
+  update(decorations, tr) {
+    // Keep annotations attached to their lines while the user edits
+    let next = decorations.map(tr.changes);
+
+    for (const effect of tr.effects) {
+      if (effect.is(setAnnotationsEffect)) {
+        next = buildDecorations(tr.newDoc, effect.value);
+      }
+    }
+
+    return next;
+  },
+  provide: field => EditorView.decorations.from(field)
+});
+
+const annotationTheme = EditorView.baseTheme({
+  '.cm-inline-annotation': {
+    marginLeft: '2em',
+    color: '#6a9955',
+    fontStyle: 'italic',
+    opacity: '0.85',
+    whiteSpace: 'pre',
+    pointerEvents: 'none'
+  },
+  '.cm-inline-annotation::before': {
+    content: '"// "'
+  }
+});
+
+/**
+ * Inline result annotations shown at the end of executed lines
+ */
+export function annotationExtension(): Extension {
+  return [annotationField, annotationTheme];
+}
@@ -3,12 +3,13 @@ import { javascript, autoCloseTags } from '@codemirror/lang-javascript';
 import { json } from '@codemirror/lang-json';
 import { css } from '@codemirror/lang-css';
 import { html } from '@codemirror/lang-html';
+import { python } from '@codemirror/legacy-modes/mode/python';
 import { oneDark } from '@codemirror/theme-one-dark';
 import { linter } from '@codemirror/lint';
 import { basicSetup } from 'codemirror';
 import { keymap } from '@codemirror/view';
 import { indentWithTab } from '@codemirror/commands';
-import { indentUnit } from '@codemirror/language';
+import { indentUnit, StreamLanguage } from '@codemirror/language';
 import { searchKeymap } from '@codemirror/search';
 import { LanguageType } from './types';
 import { CompletionService } from './CompletionService';
@@ -30,6 +31,8 @@ export class CodeMirrorExtensions {
         return css();
       case 'html':
         return html();
+      case 'python':
+        return StreamLanguage.define(python);
       default:
         return [javascript(), autoCloseTags];
     }
@@ -1,6 +1,6 @@
 import React, { useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
 import { CodeMirrorEditorEngine, EditorEngine } from './EditorEngine';
-import { EditorConfig, LanguageType, Position, Selection } from './types';
+import { EditorConfig, InlineAnnotation, LanguageType, Position, RuntimeErrorMarker, Selection, TestLineMarker } from './types';
 
 export interface EditorComponentProps {
   initialContent?: string;
@@ -18,6 +18,9 @@ export interface EditorComponentRef {
   focus(): void;
   getContent(): string;
   setContent(content: string): void;
+  setAnnotations(annotations: InlineAnnotation[]): void;
+  setTestMarkers(markers: TestLineMarker[]): void;
+  setRuntimeError(marker: RuntimeErrorMarker | null): void;
 }
 
 export const EditorComponent = forwardRef<EditorComponentRef, EditorComponentProps>(
@@ -44,7 +47,10 @@ export const EditorComponent = forwardRef<EditorComponentRef, EditorComponentPro
       getEditor: () => editorRef.current,
       focus: () => editorRef.current?.focus(),
       getContent: () => editorRef.current?.getContent() || '',
-      setContent: (content: string) => editorRef.current?.setContent(content)
+      setContent: (content: string) => editorRef.current?.setContent(content),
+      setAnnotations: (annotations: InlineAnnotation[]) => editorRef.current?.setAnnotations(annotations),
+      setTestMarkers: (markers: TestLineMarker[]) => editorRef.current?.setTestMarkers(markers),
+      setRuntimeError: (marker: RuntimeErrorMarker | null) => editorRef.current?.setRuntimeError(marker)
     }));
 
     useEffect(() => {
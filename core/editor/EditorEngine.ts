@@ -8,11 +8,17 @@ import {
   Buffer, 
   CompletionItem, 
   LanguageType, 
-  EditorConfig 
+  EditorConfig,
+  InlineAnnotation,
+  TestLineMarker,
+  RuntimeErrorMarker
 } from './types';
 import { LanguageDetectionService } from './LanguageDetectionService';
 import { BufferManager } from './BufferManager';
 import { CodeMirrorExtensions } from './CodeMirrorExtensions';
+import { annotationExtension, setAnnotationsEffect } from './AnnotationExtension';
+import { testMarkerExtension, setTestMarkersEffect } from './TestMarkerExtension';
+import { runtimeErrorExtension, setRuntimeError } from './RuntimeErrorExtension';
 import { DEFAULT_CONFIG } from './constants';
 
 export interface EditorEngine {
@@ -20,6 +26,7 @@ export interface EditorEngine {
   setContent(content: string): void;
   getContent(): string;
   getSelection(): Selection | null;
+  getCursor(): Position | null;
   setSelection(selection: Selection): void;
   
   // Language support
@@ -27,6 +34,12 @@ export interface EditorEngine {
   getLanguage(): LanguageType;
   updateLanguageFromContent(): void;
   
+  // Execution feedback
+  setAnnotations(annotations: InlineAnnotation[]): void;
+  clearAnnotations(): void;
+  setTestMarkers(markers: TestLineMarker[]): void;
+  setRuntimeError(marker: RuntimeErrorMarker | null): void;
+  
   // Event handling
   onChange(callback: (content: string) => void): void;
   onSelectionChange(callback: (selection: Selection | null) => void): void;
@@ -108,7 +121,7 @@ export class CodeMirrorEditorEngine implements EditorEngine {
       }
     });
 
-    return [...baseExtensions, updateListener];
+    return [...baseExtensions, annotationExtension(), testMarkerExtension(), runtimeErrorExtension(), updateListener];
   }
 
   private getSelectionFromState(state: EditorState): Selection | null {
@@ -183,6 +196,18 @@ export class CodeMirrorEditorEngine implements EditorEngine {
     return this.getSelectionFromState(this.view.state);
   }
 
+  getCursor(): Position | null {
+    if (!this.view) return null;
+
+    const state = this.view.state;
+    const head = state.selection.main.head;
+    const line = state.doc.lineAt(head);
+    return {
+      line: line.number - 1, // Convert to 0-based
+      column: head - line.from
+    };
+  }
+
   setSelection(selection: Selection): void {
     if (!this.view) return;
 
@@ -221,6 +246,24 @@ export class CodeMirrorEditorEngine implements EditorEngine {
     return buffer?.language || 'javascript';
   }
 
+  setAnnotations(annotations: InlineAnnotation[]): void {
+    this.view?.dispatch({ effects: setAnnotationsEffect.of(annotations) });
+  }
+
+  clearAnnotations(): void {
+    this.setAnnotations([]);
+  }
+
+  setTestMarkers(markers: TestLineMarker[]): void {
+    this.view?.dispatch({ effects: setTestMarkersEffect.of(markers) });
+  }
+
+  setRuntimeError(marker: RuntimeErrorMarker | null): void {
+    if (this.view) {
+      setRuntimeError(this.view, marker);
+    }
+  }
+
   onChange(callback: (content: string) => void): void {
     this.changeCallbacks.push(callback);
   }
@@ -17,6 +17,11 @@ export class LanguageDetectionService {
     const trimmedContent = content.trim();
     if (!trimmedContent) return 'javascript';
 
+    // Python before TypeScript: `import numpy as np` looks like a TypeScript cast
+    if (LANGUAGE_PATTERNS.python.patterns.some(pattern => pattern.test(content))) {
+      return 'python';
+    }
+
     // Check for TypeScript patterns first (more specific)
     if (LANGUAGE_PATTERNS.typescript.patterns.some(pattern => pattern.test(content))) {
       return 'typescript';
@@ -58,6 +63,7 @@ export class LanguageDetectionService {
       case 'json': return '.json';
       case 'css': return '.css';
       case 'html': return '.html';
+      case 'python': return '.py';
       default: return '.js';
     }
   }
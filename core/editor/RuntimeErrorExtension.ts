@@ -0,0 +1,43 @@
+import { Extension, Text } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { Diagnostic, lintGutter, setDiagnostics } from '@codemirror/lint';
+import { RuntimeErrorMarker } from './types';
+
+/**
+ * Diagnostic for a runtime error: from its column (or the start of the code
+ * on the line) to the end of the line
+ */
+function toDiagnostic(doc: Text, marker: RuntimeErrorMarker): Diagnostic | null {
+  if (marker.line < 1 || marker.line > doc.lines) return null;
+
+  const line = doc.line(marker.line);
+  const indent = line.text.length - line.text.trimStart().length;
+  const end = line.from + line.text.trimEnd().length;
+  const column = marker.column ? Math.min(marker.column - 1, line.length) : indent;
+  const from = Math.min(line.from + column, end);
+
+  return {
+    from,
+    to: Math.max(from, end),
+    severity: 'error',
+    source: 'runtime',
+    message: marker.message
+  };
+}
+
+/**
+ * Show a runtime error as a lint diagnostic (null clears it).
+ * Edits re-run the linter from CodeMirrorExtensions, which drops the
+ * diagnostic once the code no longer matches the run that produced it.
+ */
+export function setRuntimeError(view: EditorView, marker: RuntimeErrorMarker | null): void {
+  const diagnostic = marker && toDiagnostic(view.state.doc, marker);
+  view.dispatch(setDiagnostics(view.state, diagnostic ? [diagnostic] : []));
+}
+
+/**
+ * Gutter marker next to the line of a runtime error
+ */
+export function runtimeErrorExtension(): Extension {
+  return lintGutter();
+}
@@ -0,0 +1,111 @@
+import { StateEffect, StateField, Extension, RangeSet, RangeSetBuilder, Text } from '@codemirror/state';
+import { EditorView, GutterMarker, gutter } from '@codemirror/view';
+import { TestLineMarker } from './types';
+
+/**
+ * Replaces the current set of test markers (an empty array clears them)
+ */
+export const setTestMarkersEffect = StateEffect.define<TestLineMarker[]>();
+
+const STATUS_ICONS: Record<TestLineMarker['status'], string> = {
+  passed: '✓',
+  failed: '✗',
+  skipped: '○'
+};
+
+// A line with several tests shows the worst outcome
+const STATUS_RANK: Record<TestLineMarker['status'], number> = {
+  skipped: 0,
+  passed: 1,
+  failed: 2
+};
+
+class TestGutterMarker extends GutterMarker {
+  constructor(private readonly marker: TestLineMarker) {
+    super();
+  }
+
+  eq(other: TestGutterMarker): boolean {
+    return other.marker.status === this.marker.status && other.marker.title === this.marker.title;
+  }
+
+  toDOM(): HTMLElement {
+    const span = document.createElement('span');
+    span.className = `cm-test-marker cm-test-marker-${this.marker.status}`;
+    span.textContent = STATUS_ICONS[this.marker.status];
+    if (this.marker.title) {
+      span.title = this.marker.title;
+    }
+    return span;
+  }
+}
+
+function buildMarkers(doc: Text, markers: TestLineMarker[]): RangeSet<GutterMarker> {
+  const byLine = new Map<number, TestLineMarker>();
+  for (const marker of markers) {
+    if (marker.line < 1 || marker.line > doc.lines) continue;
+    const current = byLine.get(marker.line);
+    if (!current || STATUS_RANK[marker.status] > STATUS_RANK[current.status]) {
+      byLine.set(marker.line, marker);
+    }
+  }
+
+  const builder = new RangeSetBuilder<GutterMarker>();
+  for (const line of [...byLine.keys()].sort((a, b) => a - b)) {
+    const start = doc.line(line).from;
+    builder.add(start, start, new TestGutterMarker(byLine.get(line)!));
+  }
+  return builder.finish();
+}
+
+const testMarkerField = StateField.define<RangeSet<GutterMarker>>({
+  create() {
+    return RangeSet.empty;
+  },
+  update(markers, tr) {
+    // Keep markers attached to their lines while the user edits
+    let next = markers.map(tr.changes);
+
+    for (const effect of tr.effects) {
+      if (effect.is(setTestMarkersEffect)) {
+        next = buildMarkers(tr.newDoc, effect.value);
+      }
+    }
+
+    return next;
+  }
+});
+
+const testMarkerTheme = EditorView.baseTheme({
+  '.cm-test-gutter': {
+    minWidth: '1.2em',
+    textAlign: 'center'
+  },
+  '.cm-test-marker': {
+    fontWeight: 'bold',
+    cursor: 'default'
+  },
+  '.cm-test-marker-passed': {
+    color: '#4ec9b0'
+  },
+  '.cm-test-marker-failed': {
+    color: '#f14c4c'
+  },
+  '.cm-test-marker-skipped': {
+    color: '#858585'
+  }
+});
+
+/**
+ * Gutter with the pass/fail status of each test line after a test run
+ */
+export function testMarkerExtension(): Extension {
+  return [
+    testMarkerField,
+    gutter({
+      class: 'cm-test-gutter',
+      markers: view => view.state.field(testMarkerField)
+    }),
+    testMarkerTheme
+  ];
+}
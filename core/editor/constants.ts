@@ -35,6 +35,16 @@ export const LANGUAGE_PATTERNS = {
       /\w+:\s*[^;]+;/
     ]
   },
+  python: {
+    extensions: ['.py'],
+    patterns: [
+      /^\s*def\s+\w+\s*\(.*\)\s*(->\s*[^:]+)?:\s*$/m,
+      /^\s*from\s+[\w.]+\s+import\s+[\w*(]/m,
+      /^\s*class\s+\w+(\([^)]*\))?\s*:\s*$/m,
+      /^\s*(if|elif|while|for|with|try|except)\b[^{]*:\s*$/m,
+      /^\s*print\s*\(/m
+    ]
+  },
   html: {
     extensions: ['.html', '.htm'],
     patterns: [
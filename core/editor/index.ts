@@ -11,6 +11,9 @@ export { BufferManager } from './BufferManager';
 export { LanguageDetectionService } from './LanguageDetectionService';
 export { CompletionService } from './CompletionService';
 export { CodeMirrorExtensions } from './CodeMirrorExtensions';
+export { annotationExtension, setAnnotationsEffect } from './AnnotationExtension';
+export { testMarkerExtension, setTestMarkersEffect } from './TestMarkerExtension';
+export { runtimeErrorExtension, setRuntimeError } from './RuntimeErrorExtension';
 
 // Constants exports
 export { DEFAULT_CONFIG, LANGUAGE_PATTERNS } from './constants';
@@ -22,7 +25,10 @@ export type {
   Buffer,
   CompletionItem,
   LanguageType,
-  EditorConfig
+  EditorConfig,
+  InlineAnnotation,
+  TestLineMarker,
+  RuntimeErrorMarker
 } from './types';
 
 export { CompletionKind } from './types';
\ No newline at end of file
@@ -13,7 +13,7 @@ export interface Selection {
 export interface Buffer {
   id: string;
   content: string;
-  language: 'javascript' | 'typescript' | 'json' | 'css' | 'html';
+  language: 'javascript' | 'typescript' | 'json' | 'css' | 'html' | 'python';
   modified: boolean;
   path?: string;
   createdAt: Date;
@@ -40,7 +40,28 @@ export enum CompletionKind {
   Snippet = 'snippet'
 }
 
-export type LanguageType = 'javascript' | 'typescript' | 'json' | 'css' | 'html';
+// Value shown at the end of a line after execution
+export interface InlineAnnotation {
+  line: number; // 1-based
+  value: string;
+  count?: number;
+}
+
+// Status shown in the gutter next to a test after a test run
+export interface TestLineMarker {
+  line: number; // 1-based
+  status: 'passed' | 'failed' | 'skipped';
+  title?: string; // Tooltip, e.g. the test name and its failure message
+}
+
+// Where an uncaught error was thrown during the last run
+export interface RuntimeErrorMarker {
+  line: number; // 1-based
+  column?: number; // 1-based; the whole line is marked without it
+  message: string; // e.g. 'TypeError: x is not a function'
+}
+
+export type LanguageType = 'javascript' | 'typescript' | 'json' | 'css' | 'html' | 'python';
 
 export interface EditorConfig {
   theme: 'light' | 'dark';
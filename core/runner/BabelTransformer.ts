@@ -3,6 +3,7 @@
  */
 
 import type { BabelConfig } from './types.js';
+import type { SourceMap } from './babel/types.js';
 
 // Babel interface definition
 interface BabelGlobal {
@@ -24,7 +25,7 @@ interface WindowWithBabel extends Window {
 
 // Babel standalone will be loaded dynamically
 interface BabelTransformOptions {
-  presets?: string[];
+  presets?: Array<string | [string, object]>;
   plugins?: string[];
   filename?: string;
   sourceMaps?: boolean;
@@ -42,8 +43,25 @@ interface BabelStandalone {
   availablePlugins: string[];
 }
 
+// Transformed code and the source map of the transformation (null when there is none)
+export interface MappedCode {
+  code: string;
+  map: SourceMap | null;
+}
+
 let babel: BabelStandalone | null = null;
 
+// The env preset converts ES modules to CommonJS unless told otherwise
+function withModules(presets: string[], modules?: false): Array<string | [string, object]> {
+  return modules === false
+    ? presets.map(preset => preset === 'env' ? ['env', { modules: false }] as [string, object] : preset)
+    : presets;
+}
+
+function toSourceMap(map: unknown): SourceMap | null {
+  return map && typeof (map as SourceMap).mappings === 'string' ? map as SourceMap : null;
+}
+
 /**
  * Manager for Babel transformations
  */
@@ -231,25 +249,33 @@ export class BabelTransformer {
    * Transform JavaScript code
    */
   public transformJavaScript(code: string, config: Partial<BabelConfig> = {}): string {
+    return this.transformJavaScriptWithMap(code, config).code;
+  }
+
+  /**
+   * Transform JavaScript code, keeping the source map of the transformation
+   * so runtime stack traces can be mapped back
+   */
+  public transformJavaScriptWithMap(code: string, config: Partial<BabelConfig> = {}): MappedCode {
     if (!this.isInitialized || !babel) {
       console.warn('⚠️ Babel no inicializado, devolviendo código sin transformar');
-      return code;
+      return { code, map: null };
     }
 
     const options = {
-      presets: config.presets || ['env'],
+      presets: withModules(config.presets || ['env'], config.modules),
       plugins: config.plugins || [],
       filename: config.filename || 'script.js',
-      sourceMaps: false,
+      sourceMaps: true,
       compact: false
     };
 
     try {
       const result = babel.transform(code, options);
-      return result.code || code;
+      return result.code ? { code: result.code, map: toSourceMap(result.map) } : { code, map: null };
     } catch (error) {
       console.warn('⚠️ Error en transformación JavaScript, devolviendo código original:', error);
-      return code; // Return original code instead of throwing
+      return { code, map: null }; // Return original code instead of throwing
     }
   }
 
@@ -257,25 +283,33 @@ export class BabelTransformer {
    * Transform TypeScript code to JavaScript
    */
   public transformTypeScript(code: string, config: Partial<BabelConfig> = {}): string {
+    return this.transformTypeScriptWithMap(code, config).code;
+  }
+
+  /**
+   * Transform TypeScript code to JavaScript, keeping the source map of the transformation.
+   * The simple fallback transformation has no map.
+   */
+  public transformTypeScriptWithMap(code: string, config: Partial<BabelConfig> = {}): MappedCode {
     if (!this.isInitialized || !babel) {
       console.warn('⚠️ Babel no inicializado, usando transformación simple de TypeScript');
-      return this.simpleTypeScriptTransform(code);
+      return { code: this.simpleTypeScriptTransform(code), map: null };
     }
 
     const options = {
-      presets: ['typescript', ...(config.presets || ['env'])],
+      presets: withModules(['typescript', ...(config.presets || ['env'])], config.modules),
       plugins: config.plugins || [],
       filename: config.filename || 'script.ts',
-      sourceMaps: false,
+      sourceMaps: true,
       compact: false
     };
 
     try {
       const result = babel.transform(code, options);
-      return result.code || code;
+      return result.code ? { code: result.code, map: toSourceMap(result.map) } : { code, map: null };
     } catch (error) {
       console.warn('⚠️ Error en transformación TypeScript, usando transformación simple:', error);
-      return this.simpleTypeScriptTransform(code);
+      return { code: this.simpleTypeScriptTransform(code), map: null };
     }
   }
 
@@ -302,11 +336,22 @@ export class BabelTransformer {
    * Transform code based on language detection
    */
   public transformCode(code: string, language: 'javascript' | 'typescript' = 'javascript'): string {
+    return this.transformCodeWithMap(code, language).code;
+  }
+
+  /**
+   * Transform code based on language detection, keeping the source map
+   */
+  public transformCodeWithMap(
+    code: string,
+    language: 'javascript' | 'typescript' = 'javascript',
+    config: Partial<BabelConfig> = {}
+  ): MappedCode {
     if (language === 'typescript' || this.isTypeScript(code)) {
-      return this.transformTypeScript(code);
+      return this.transformTypeScriptWithMap(code, config);
     }
     
-    return this.transformJavaScript(code);
+    return this.transformJavaScriptWithMap(code, config);
   }
 
   /**
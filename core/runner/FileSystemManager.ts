@@ -2,7 +2,15 @@
  * FileSystemManager - Safe file system operations for WebContainer
  */
 
-import type { WebContainerInstance, FileSystemTree, FileSystemEntry } from './types.js';
+import type {
+  WebContainerInstance,
+  FileSystemTree,
+  FileSystemEntry,
+  ProjectFile,
+  WorkspaceSnapshotOptions,
+  WorkspaceSnapshotInfo
+} from './types.js';
+import { createWorkspaceSnapshot, readWorkspaceSnapshot, NODE_MODULES_EXCLUDES } from './WorkspaceSnapshot.js';
 
 /**
  * Manager for file system operations within WebContainer
@@ -15,16 +23,55 @@ export class FileSystemManager {
   }
 
   /**
-   * Mount a complete file system tree
+   * Mount a complete file system tree, at the root or inside an existing directory
    */
-  public async mountFiles(files: FileSystemTree): Promise<void> {
+  public async mountFiles(files: FileSystemTree, mountPoint?: string): Promise<void> {
     try {
-      await this.container.mount(files);
+      await this.container.mount(files, mountPoint ? { mountPoint } : undefined);
     } catch (error) {
       throw new Error(`Failed to mount files: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Export the working directory as a compressed snapshot, generated files
+   * and installed packages included (unless `includeNodeModules` is false)
+   */
+  public async exportSnapshot(options: WorkspaceSnapshotOptions = {}): Promise<Uint8Array> {
+    const includeNodeModules = options.includeNodeModules ?? true;
+
+    try {
+      const tree = await this.container.export('.', {
+        format: 'json',
+        excludes: includeNodeModules ? [] : NODE_MODULES_EXCLUDES
+      });
+      return await createWorkspaceSnapshot(tree, { includesNodeModules: includeNodeModules });
+    } catch (error) {
+      throw new Error(`Failed to export snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mount a snapshot over the working directory. Files it contains replace
+   * the existing ones; the rest are left in place.
+   */
+  public async importSnapshot(data: Uint8Array | ArrayBuffer): Promise<{ tree: FileSystemTree; info: WorkspaceSnapshotInfo }> {
+    const snapshot = await readWorkspaceSnapshot(data);
+    await this.mountFiles(snapshot.tree);
+    return snapshot;
+  }
+
+  /**
+   * Read a directory and everything below it as a tree
+   */
+  public async exportDirectory(path: string): Promise<FileSystemTree> {
+    try {
+      return await this.container.export(path, { format: 'json' });
+    } catch (error) {
+      throw new Error(`Failed to export ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Create a single file
    */
@@ -193,4 +240,47 @@ export class FileSystemManager {
 
     return tree;
   }
+
+  /**
+   * Get file system tree for a multi-file project.
+   * Paths may contain folders (`lib/math.js`), which become nested directories.
+   */
+  public getProjectTree(name: string, files: ProjectFile[], entryFile: string): FileSystemTree {
+    const tree: FileSystemTree = {
+      'package.json': {
+        file: {
+          contents: JSON.stringify({
+            name,
+            version: '1.0.0',
+            type: 'module',
+            scripts: {
+              start: 'node ' + entryFile,
+              dev: 'node --watch ' + entryFile
+            }
+          }, null, 2)
+        }
+      }
+    };
+
+    for (const { path, content } of files) {
+      const segments = path.split('/').filter(Boolean);
+      const fileName = segments.pop();
+      if (!fileName) {
+        continue;
+      }
+
+      let directory = tree;
+      for (const segment of segments) {
+        const entry = directory[segment];
+        if (!entry || !('directory' in entry)) {
+          directory[segment] = { directory: {} };
+        }
+        directory = (directory[segment] as { directory: FileSystemTree }).directory;
+      }
+
+      directory[fileName] = { file: { contents: content } };
+    }
+
+    return tree;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * IndexedDBBootSnapshot - Saved boot snapshot of the WebContainer backend
+ *
+ * Keeps the compressed workspace snapshot (the WorkspaceSnapshot format) that
+ * the container mounts when it boots, so it is still mounted after a reload.
+ * Under Electron the browser's IndexedDB lives in the app data directory.
+ */
+
+import { requestResult, transactionDone } from './IndexedDBPackageCache.js';
+
+const DATABASE_NAME = 'orbisjs-workspace';
+const DATABASE_VERSION = 1;
+const SNAPSHOTS_STORE = 'snapshots';
+const BOOT_SNAPSHOT_KEY = 'boot';
+
+/**
+ * Boot snapshot stored in the browser's IndexedDB
+ */
+export class IndexedDBBootSnapshot {
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Whether IndexedDB exists in this environment
+   */
+  public static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Compressed snapshot mounted on boot, or null when none was saved
+   */
+  public async load(): Promise<Uint8Array | null> {
+    const database = await this.open();
+    const store = database.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE);
+    const data = await requestResult(store.get(BOOT_SNAPSHOT_KEY) as IDBRequest<Uint8Array | undefined>);
+    return data || null;
+  }
+
+  /**
+   * Save the snapshot mounted on boot, replacing the previous one
+   */
+  public async save(data: Uint8Array): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(SNAPSHOTS_STORE, 'readwrite');
+    transaction.objectStore(SNAPSHOTS_STORE).put(data, BOOT_SNAPSHOT_KEY);
+    await transactionDone(transaction);
+  }
+
+  public async clear(): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(SNAPSHOTS_STORE, 'readwrite');
+    transaction.objectStore(SNAPSHOTS_STORE).delete(BOOT_SNAPSHOT_KEY);
+    await transactionDone(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SNAPSHOTS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Let a later call try again
+      this.database = null;
+      throw new Error(`Failed to open the workspace storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+
+    return this.database;
+  }
+}
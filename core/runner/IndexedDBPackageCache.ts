@@ -0,0 +1,133 @@
+/**
+ * IndexedDBPackageCache - Package cache of the WebContainer backend
+ *
+ * Each package is stored as a compressed snapshot of its node_modules
+ * directory (the WorkspaceSnapshot format). Metadata lives in its own object
+ * store so listing the cache never loads package contents.
+ */
+
+import type { CachedPackage, PackageCache } from './types.js';
+
+const DATABASE_NAME = 'orbisjs-package-cache';
+const DATABASE_VERSION = 1;
+const PACKAGES_STORE = 'packages';
+const CONTENTS_STORE = 'contents';
+
+function packageKey(name: string, version: string): string {
+  return `${name}@${version}`;
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Package cache stored in the browser's IndexedDB
+ */
+export class IndexedDBPackageCache implements PackageCache {
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Whether IndexedDB exists in this environment
+   */
+  public static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Metadata of every cached package
+   */
+  public async list(): Promise<CachedPackage[]> {
+    const database = await this.open();
+    const store = database.transaction(PACKAGES_STORE, 'readonly').objectStore(PACKAGES_STORE);
+    return requestResult(store.getAll() as IDBRequest<CachedPackage[]>);
+  }
+
+  /**
+   * Compressed contents of a cached package, or null when it isn't cached.
+   * Marks the package as used.
+   */
+  public async get(name: string, version: string): Promise<Uint8Array | null> {
+    const database = await this.open();
+    const transaction = database.transaction([PACKAGES_STORE, CONTENTS_STORE], 'readwrite');
+    const packages = transaction.objectStore(PACKAGES_STORE);
+    const key = packageKey(name, version);
+
+    const [entry, contents] = await Promise.all([
+      requestResult(packages.get(key) as IDBRequest<CachedPackage | undefined>),
+      requestResult(transaction.objectStore(CONTENTS_STORE).get(key) as IDBRequest<Uint8Array | undefined>)
+    ]);
+    if (!entry || !contents) {
+      return null;
+    }
+
+    packages.put({ ...entry, lastUsed: new Date() }, key);
+    await transactionDone(transaction);
+    return contents;
+  }
+
+  /**
+   * Store a package, replacing the same version if it was cached
+   */
+  public async put(entry: CachedPackage, contents: Uint8Array): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction([PACKAGES_STORE, CONTENTS_STORE], 'readwrite');
+    const key = packageKey(entry.name, entry.version);
+
+    transaction.objectStore(PACKAGES_STORE).put(entry, key);
+    transaction.objectStore(CONTENTS_STORE).put(contents, key);
+    await transactionDone(transaction);
+  }
+
+  public async evict(name: string, version?: string): Promise<void> {
+    const versions = version
+      ? [version]
+      : (await this.list()).filter(entry => entry.name === name).map(entry => entry.version);
+
+    const database = await this.open();
+    const transaction = database.transaction([PACKAGES_STORE, CONTENTS_STORE], 'readwrite');
+    for (const cachedVersion of versions) {
+      const key = packageKey(name, cachedVersion);
+      transaction.objectStore(PACKAGES_STORE).delete(key);
+      transaction.objectStore(CONTENTS_STORE).delete(key);
+    }
+    await transactionDone(transaction);
+  }
+
+  public async clear(): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction([PACKAGES_STORE, CONTENTS_STORE], 'readwrite');
+    transaction.objectStore(PACKAGES_STORE).clear();
+    transaction.objectStore(CONTENTS_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(PACKAGES_STORE);
+        request.result.createObjectStore(CONTENTS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Let a later call try again
+      this.database = null;
+      throw new Error(`Failed to open the package cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+
+    return this.database;
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * PackageCache - Serves repeat npm installs from packages installed before
+ *
+ * After a successful `npm install` each top-level package in node_modules is
+ * stored with its version and the other top-level packages it needs (nested
+ * node_modules travel with the package). A later install whose packages, and
+ * everything they need, are all cached copies them into node_modules instead
+ * of running npm: fast, and it works offline. The commands packages declare
+ * in `bin` are linked in node_modules/.bin again, as npm would. Where packages are stored
+ * depends on the backend: IndexedDB in the browser, the app data directory
+ * in Electron.
+ */
+
+import type { CachedPackage } from './types.js';
+
+// A package found in node_modules after an install
+export interface InstalledPackage {
+  name: string;
+  version: string;
+  requires: string[];
+  bin: Record<string, string>; // Command -> file in the package
+}
+
+// The bits of a file system needed to read node_modules (WebContainer fs, node:fs/promises)
+export interface PackageDirectoryReader {
+  readdir(path: string): Promise<string[]>;
+  readFile(path: string): Promise<string>;
+}
+
+/**
+ * npm package name of an import specifier ('lodash/fp' -> 'lodash',
+ * '@scope/pkg/x' -> '@scope/pkg'), or null for relative paths and built-ins
+ */
+export function getPackageName(specifier: string): string | null {
+  if (specifier.startsWith('.') || specifier.startsWith('/') || specifier.startsWith('node:')) {
+    return null;
+  }
+
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * Package names directly inside a node_modules directory, scoped ones included
+ */
+async function listPackageNames(reader: PackageDirectoryReader, directory: string): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await reader.readdir(directory);
+  } catch {
+    return [];
+  }
+
+  const names: string[] = [];
+  for (const entry of entries) {
+    if (entry.startsWith('.')) {
+      continue; // .bin, .package-lock.json
+    }
+    if (entry.startsWith('@')) {
+      const scoped = await reader.readdir(`${directory}/${entry}`).catch(() => [] as string[]);
+      names.push(...scoped.filter(name => !name.startsWith('.')).map(name => `${entry}/${name}`));
+    } else {
+      names.push(entry);
+    }
+  }
+  return names;
+}
+
+/**
+ * Top-level packages of a node_modules directory with the other top-level
+ * packages each one needs (dependencies not nested inside it)
+ */
+export async function readInstalledPackages(
+  reader: PackageDirectoryReader,
+  root: string = 'node_modules'
+): Promise<InstalledPackage[]> {
+  const names = await listPackageNames(reader, root);
+  const installed = new Set(names);
+  const packages: InstalledPackage[] = [];
+
+  for (const name of names) {
+    let manifest: {
+      version?: unknown;
+      bin?: unknown;
+      dependencies?: Record<string, string>;
+      optionalDependencies?: Record<string, string>;
+      peerDependencies?: Record<string, string>;
+    };
+    try {
+      manifest = JSON.parse(await reader.readFile(`${root}/${name}/package.json`));
+    } catch {
+      continue;
+    }
+    if (typeof manifest.version !== 'string') {
+      continue;
+    }
+
+    const nested = new Set(await listPackageNames(reader, `${root}/${name}/node_modules`));
+    const needed = Object.keys({
+      ...manifest.dependencies,
+      ...manifest.optionalDependencies,
+      ...manifest.peerDependencies
+    });
+    packages.push({
+      name,
+      version: manifest.version,
+      requires: needed.filter(dependency => dependency !== name && installed.has(dependency) && !nested.has(dependency)),
+      bin: readBinField(name, manifest.bin)
+    });
+  }
+
+  return packages;
+}
+
+/**
+ * Commands of a package.json `bin` field: a path alone is a command named
+ * after the package (without its scope). Names and paths that would leave
+ * node_modules/.bin or the package are skipped.
+ */
+function readBinField(name: string, bin: unknown): Record<string, string> {
+  const entries = typeof bin === 'string'
+    ? [[name.split('/').pop()!, bin]]
+    : bin && typeof bin === 'object' ? Object.entries(bin) : [];
+
+  const commands: Record<string, string> = {};
+  for (const [command, file] of entries) {
+    if (typeof file !== 'string' || !/^[\w@.-]+$/.test(command) || command.startsWith('.')) {
+      continue;
+    }
+    const target = file.replace(/\\/g, '/').split('/').filter(part => part && part !== '.');
+    if (target.length > 0 && !target.includes('..')) {
+      commands[command] = target.join('/');
+    }
+  }
+  return commands;
+}
+
+/**
+ * node_modules/.bin links of the given packages: command -> link target,
+ * relative to node_modules/.bin
+ */
+export function getBinLinks(packages: Array<Pick<CachedPackage, 'name' | 'bin'>>): Record<string, string> {
+  return Object.fromEntries(packages.flatMap(({ name, bin }) =>
+    Object.entries(bin ?? {}).map(([command, file]) => [command, `../${name}/${file}`])
+  ));
+}
+
+/**
+ * The cached entry of a package: the given version exactly, or the most
+ * recently cached one for 'latest' (ranges like ^4 aren't evaluated and
+ * only match the same text)
+ */
+export function findCachedPackage(cached: CachedPackage[], name: string, version: string = 'latest'): CachedPackage | undefined {
+  return cached
+    .filter(entry => entry.name === name && (version === 'latest' || entry.version === version))
+    .reduce<CachedPackage | undefined>(
+      (latest, entry) => (!latest || entry.cachedAt > latest.cachedAt ? entry : latest),
+      undefined
+    );
+}
+
+/**
+ * Everything an install of the requested packages (name -> version) would put
+ * in node_modules, taken from the cache. `missing` lists the packages
+ * (requested or needed) that aren't cached; npm has to run unless it is empty.
+ * Entries cached without their commands count as missing: their
+ * node_modules/.bin links couldn't be restored.
+ */
+export function resolveCachedPackages(
+  cached: CachedPackage[],
+  requested: Record<string, string>
+): { packages: CachedPackage[]; missing: string[] } {
+  const packages = new Map<string, CachedPackage>();
+  const missing = new Set<string>();
+  // Packages needed by others take whichever version is cached
+  const queue: Array<[string, string]> = Object.entries(requested);
+
+  while (queue.length > 0) {
+    const [name, version] = queue.shift()!;
+    if (packages.has(name) || missing.has(name)) {
+      continue;
+    }
+
+    const entry = findCachedPackage(cached, name, version);
+    if (!entry?.bin) {
+      missing.add(name);
+      continue;
+    }
+    packages.set(name, entry);
+    queue.push(...entry.requires.map((dependency): [string, string] => [dependency, 'latest']));
+  }
+
+  return { packages: [...packages.values()], missing: [...missing] };
+}
+
+/**
+ * package.json dependencies: pinned versions as given, the cached version
+ * for 'latest' when there is one
+ */
+export function pinDependencies(cached: CachedPackage[], requested: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(requested).map(([name, version]) => [
+    name,
+    version === 'latest' ? findCachedPackage(cached, name)?.version ?? 'latest' : version
+  ]));
+}
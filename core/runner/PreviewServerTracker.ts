@@ -0,0 +1,110 @@
+/**
+ * PreviewServerTracker - Keeps track of the ports opened inside WebContainer
+ */
+
+import type { WebContainerInstance, PreviewServer, PreviewServerEvent } from './types.js';
+
+export type PreviewServerListener = (servers: PreviewServer[], event: PreviewServerEvent) => void;
+
+/**
+ * Listens to the container's `port` and `server-ready` events so any process
+ * (createWebProject, `npm run dev` in a terminal, an Express snippet...) can be previewed
+ */
+export class PreviewServerTracker {
+  private container: WebContainerInstance;
+  private servers = new Map<number, PreviewServer>();
+  private listeners = new Set<PreviewServerListener>();
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(container: WebContainerInstance) {
+    this.container = container;
+  }
+
+  /**
+   * Start listening to container events
+   */
+  public start(): void {
+    if (this.unsubscribers.length > 0) {
+      return;
+    }
+
+    this.unsubscribers.push(
+      this.container.on('port', (port, type, url) => {
+        if (type === 'open') {
+          this.servers.set(port, { port, url, ready: false, openedAt: new Date() });
+          this.notify({ type: 'open', port });
+        } else {
+          this.servers.delete(port);
+          this.notify({ type: 'close', port });
+        }
+      }),
+      this.container.on('server-ready', (port, url) => {
+        const previous = this.servers.get(port);
+        this.servers.set(port, { port, url, ready: true, openedAt: previous?.openedAt || new Date() });
+        this.notify({ type: 'ready', port });
+      })
+    );
+  }
+
+  /**
+   * Stop listening and forget every server
+   */
+  public stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.servers.clear();
+    this.listeners.clear();
+  }
+
+  /**
+   * Open ports, oldest first
+   */
+  public getServers(): PreviewServer[] {
+    return [...this.servers.values()].sort((a, b) => a.openedAt.getTime() - b.openedAt.getTime());
+  }
+
+  /**
+   * Subscribe to port changes. Returns an unsubscribe function.
+   */
+  public subscribe(listener: PreviewServerListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Resolve once a server is ready on the given port (immediately if it already is)
+   */
+  public waitForServer(port: number, timeoutMs: number): Promise<PreviewServer> {
+    const existing = this.servers.get(port);
+    if (existing?.ready) {
+      return Promise.resolve(existing);
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        unsubscribe();
+        reject(new Error(`No server became ready on port ${port} after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      const unsubscribe = this.subscribe((_servers, event) => {
+        const server = this.servers.get(port);
+        if (event.port === port && server?.ready) {
+          clearTimeout(timeoutId);
+          unsubscribe();
+          resolve(server);
+        }
+      });
+    });
+  }
+
+  private notify(event: PreviewServerEvent): void {
+    const servers = this.getServers();
+    this.listeners.forEach(listener => {
+      try {
+        listener(servers, event);
+      } catch (error) {
+        console.warn('Error in preview server listener:', error);
+      }
+    });
+  }
+}
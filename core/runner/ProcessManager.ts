@@ -7,6 +7,8 @@ import type {
   WebContainerProcess, 
   ExecutionResult, 
   OutputEvent, 
+  OutputListener,
+  ExecuteOptions,
   ProcessStatus, 
   RunnerConfig 
 } from './types.js';
@@ -17,6 +19,11 @@ import type {
 export class ProcessManager {
   private container: WebContainerInstance;
   private currentProcess: WebContainerProcess | null = null;
+  private stopCurrentRun: (() => void) | null = null;
+  private inputWriter: WritableStreamDefaultWriter<string> | null = null;
+  private currentListener: OutputListener | undefined;
+  private flushPartialLine: (() => void) | null = null;
+  private backgroundProcesses = new Set<WebContainerProcess>();
   private outputBuffer: OutputEvent[] = [];
   private config: RunnerConfig;
 
@@ -37,7 +44,7 @@ export class ProcessManager {
   public async execute(
     command: string, 
     args: string[] = [], 
-    options: { cwd?: string; env?: Record<string, string> } = {}
+    options: ExecuteOptions = {}
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
     
@@ -55,12 +62,24 @@ export class ProcessManager {
       });
 
       this.currentProcess = process;
+      this.currentListener = options.onOutput;
+      this.inputWriter = process.input.getWriter();
+
+      // A fixture is the whole input: close stdin afterwards so readers see EOF
+      if (options.stdin !== undefined) {
+        await this.writeFixture(options.stdin);
+      }
+
+      // Resolved by kill() so a stopped run returns even if the exit code never arrives
+      const stopped = new Promise<null>(resolve => {
+        this.stopCurrentRun = () => resolve(null);
+      });
 
       // Set up output collection in parallel with process execution
-      const outputPromise = this.collectOutput(process);
+      const outputPromise = this.collectOutput(process, options.onOutput);
       
       // Wait for process completion with timeout
-      const exitCode = await this.waitForCompletion(process);
+      const exitCode = await this.waitForCompletion(process, stopped);
 
       // Wait a bit more for any remaining output
       await Promise.race([
@@ -71,11 +90,29 @@ export class ProcessManager {
       const duration = Date.now() - startTime;
       const output = this.getFormattedOutput();
 
+      if (exitCode === null) {
+        return {
+          success: false,
+          output,
+          error: 'Execution stopped by user',
+          duration,
+          timestamp: new Date(),
+          status: 'killed'
+        };
+      }
+
+      if (this.currentProcess === process) {
+        this.currentProcess = null;
+        this.stopCurrentRun = null;
+        this.releaseInput();
+      }
+
       return {
         success: exitCode === 0,
         output,
         duration,
-        timestamp: new Date()
+        timestamp: new Date(),
+        status: exitCode === 0 ? 'completed' : 'error'
       };
 
     } catch (error) {
@@ -86,11 +123,122 @@ export class ProcessManager {
         output: this.getFormattedOutput(),
         error: error instanceof Error ? error.message : 'Unknown execution error',
         duration,
-        timestamp: new Date()
+        timestamp: new Date(),
+        status: 'error'
       };
     }
   }
 
+  /**
+   * Start a long-running process (e.g. a web server) without waiting for it.
+   * It is not subject to the execution timeout and does not replace the current run;
+   * its output goes to the listener only.
+   */
+  public async spawnBackground(
+    command: string,
+    args: string[] = [],
+    options: ExecuteOptions = {}
+  ): Promise<WebContainerProcess> {
+    const process = await this.container.spawn(command, args, {
+      cwd: options.cwd || this.config.workingDirectory,
+      env: { ...options.env }
+    });
+
+    this.backgroundProcesses.add(process);
+    process.exit.then(() => this.backgroundProcesses.delete(process));
+
+    const onOutput = options.onOutput;
+    process.output.pipeTo(new WritableStream<string>({
+      write: data => {
+        for (const line of data.split(/\r?\n/)) {
+          if (line.trim() && onOutput) {
+            onOutput({ type: 'stdout', content: line, timestamp: new Date() });
+          }
+        }
+      }
+    })).catch(error => {
+      console.warn('Background process output closed:', error);
+    });
+
+    return process;
+  }
+
+  /**
+   * Kill every process started with spawnBackground
+   */
+  public killBackgroundProcesses(): void {
+    for (const process of this.backgroundProcesses) {
+      try {
+        process.kill();
+      } catch (error) {
+        console.warn('Error killing background process:', error);
+      }
+    }
+    this.backgroundProcesses.clear();
+  }
+
+  /**
+   * Send text to the running process stdin (a trailing newline is added).
+   * The text is echoed as 'stdin' output events so the transcript reads naturally.
+   * Returns false when no process is accepting input.
+   */
+  public async writeInput(text: string): Promise<boolean> {
+    const writer = this.inputWriter;
+    if (!writer) {
+      return false;
+    }
+
+    // The prompt before the input (e.g. readline.question) has no newline yet
+    this.flushPartialLine?.();
+
+    try {
+      await writer.write(text.endsWith('\n') ? text : `${text}\n`);
+    } catch (error) {
+      console.warn('Error writing to process input:', error);
+      return false;
+    }
+
+    for (const line of text.split(/\r?\n/)) {
+      this.addOutput('stdin', line, this.currentListener);
+    }
+    return true;
+  }
+
+  /**
+   * Write a stdin fixture and close the input stream
+   */
+  private async writeFixture(stdin: string): Promise<void> {
+    const writer = this.inputWriter;
+    if (!writer) {
+      return;
+    }
+
+    try {
+      if (stdin) {
+        await writer.write(stdin.endsWith('\n') ? stdin : `${stdin}\n`);
+      }
+      await writer.close();
+    } catch (error) {
+      console.warn('Error writing stdin fixture:', error);
+    } finally {
+      this.releaseInput();
+    }
+  }
+
+  /**
+   * Release the input writer of the current process
+   */
+  private releaseInput(): void {
+    if (this.inputWriter) {
+      try {
+        this.inputWriter.releaseLock();
+      } catch (error) {
+        console.warn('Error releasing input writer:', error);
+      }
+      this.inputWriter = null;
+    }
+  }
+
   /**
    * Install npm packages
    */
@@ -119,12 +267,12 @@ export class ProcessManager {
   /**
    * Collect output from process
    */
-  private async collectOutput(process: WebContainerProcess): Promise<void> {
+  private async collectOutput(process: WebContainerProcess, onOutput?: OutputListener): Promise<void> {
     const promises: Promise<void>[] = [];
 
     // Collect combined output (stdout + stderr)
     if (process.output) {
-      promises.push(this.readStream(process.output, 'stdout'));
+      promises.push(this.readStream(process.output, 'stdout', onOutput));
     }
 
     // Wait for all streams to complete or timeout
@@ -136,57 +284,56 @@ export class ProcessManager {
   }
 
   /**
-   * Read from a stream safely
+   * Read from a stream safely.
+   * Chunks are split into lines as they arrive so listeners see output live;
+   * a trailing partial line is held until its newline (or the end of the stream)
+   * and reported to the listener as a partial event meanwhile, so prompts show up.
    */
-  private async readStream(stream: ReadableStream<string>, type: 'stdout' | 'stderr'): Promise<void> {
+  private async readStream(
+    stream: ReadableStream<string>,
+    type: 'stdout' | 'stderr',
+    onOutput?: OutputListener
+  ): Promise<void> {
     const reader = stream.getReader();
+    let pending = '';
+
+    const flushPending = () => {
+      if (pending) {
+        this.addOutput(type, pending, onOutput);
+        pending = '';
+      }
+    };
+    this.flushPartialLine = flushPending;
     
     try {
-      let consecutiveEmptyReads = 0;
-      const maxEmptyReads = 10; // Prevent infinite loops
-      
-      while (consecutiveEmptyReads < maxEmptyReads) {
-        try {
-          const { done, value } = await Promise.race([
-            reader.read(),
-            new Promise<{ done: true; value: undefined }>((_, reject) => 
-              setTimeout(() => reject(new Error('Stream read timeout')), 5000)
-            )
-          ]);
-          
-          if (done) {
-            break;
-          }
-          
-          if (!value) {
-            consecutiveEmptyReads++;
-            continue;
-          }
-          
-          consecutiveEmptyReads = 0;
-          
+      let chunk = await reader.read();
+
+      while (!chunk.done) {
+        if (chunk.value) {
           // Handle string values from the stream
-          let text: string;
-          if (typeof value === 'string') {
-            text = value;
-          } else {
-            // Fallback to string conversion for non-string values
-            text = String(value || '');
-          }
-          
-          if (text.trim()) {
-            this.addOutput(type, text);
+          const text = typeof chunk.value === 'string' ? chunk.value : String(chunk.value);
+          const lines = (pending + text).split(/\r?\n/);
+          pending = lines.pop() ?? '';
+
+          for (const line of lines) {
+            this.addOutput(type, line, onOutput);
           }
-          
-        } catch (readError) {
-          if (readError instanceof Error && readError.message.includes('timeout')) {
-            console.warn(`Stream read timeout for ${type}`);
-            break;
+
+          if (pending) {
+            this.notifyPartial(type, pending, onOutput);
           }
-          throw readError;
         }
+
+        chunk = await reader.read();
       }
+    } catch (readError) {
+      console.warn(`Error reading ${type} stream:`, readError);
     } finally {
+      flushPending();
+      if (this.flushPartialLine === flushPending) {
+        this.flushPartialLine = null;
+      }
+      
       try {
         reader.releaseLock();
       } catch (error) {
@@ -196,39 +343,68 @@ export class ProcessManager {
   }
 
   /**
-   * Add output to buffer
+   * Add a single output line to the buffer and notify the live listener
    */
-  private addOutput(type: 'stdout' | 'stderr', content: string): void {
-    const lines = content.split('\n');
-    
-    for (const line of lines) {
-      if (line.trim()) {
-        this.outputBuffer.push({
-          type,
-          content: line,
-          timestamp: new Date()
-        });
-
-        // Limit buffer size
-        const maxSize = this.config.maxOutputSize || 1000;
-        if (this.outputBuffer.length > maxSize) {
-          this.outputBuffer.shift();
-        }
+  private addOutput(type: OutputEvent['type'], line: string, onOutput?: OutputListener): void {
+    if (!line.trim()) {
+      return;
+    }
+
+    const event: OutputEvent = {
+      type,
+      content: line,
+      timestamp: new Date()
+    };
+
+    this.outputBuffer.push(event);
+
+    // Limit buffer size
+    const maxSize = this.config.maxOutputSize || 1000;
+    if (this.outputBuffer.length > maxSize) {
+      this.outputBuffer.shift();
+    }
+
+    if (onOutput) {
+      try {
+        onOutput(event);
+      } catch (error) {
+        console.warn('Error in output listener:', error);
       }
     }
   }
 
   /**
-   * Wait for process completion with timeout
+   * Show an unfinished line to the live listener without buffering it
    */
-  private async waitForCompletion(process: WebContainerProcess): Promise<number> {
+  private notifyPartial(type: 'stdout' | 'stderr', content: string, onOutput?: OutputListener): void {
+    if (!onOutput || !content.trim()) {
+      return;
+    }
+
+    try {
+      onOutput({ type, content, timestamp: new Date(), partial: true });
+    } catch (error) {
+      console.warn('Error in output listener:', error);
+    }
+  }
+
+  /**
+   * Wait for process completion with timeout.
+   * Resolves with null when the run is stopped through kill().
+   */
+  private async waitForCompletion(
+    process: WebContainerProcess,
+    stopped: Promise<null>
+  ): Promise<number | null> {
     const timeoutMs = this.config.timeout || 30000;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
     
     try {
       const exitCode = await Promise.race([
         process.exit,
+        stopped,
         new Promise<number>((_, reject) => {
-          setTimeout(() => {
+          timeoutId = setTimeout(() => {
             reject(new Error(`Process timed out after ${timeoutMs}ms`));
           }, timeoutMs);
         })
@@ -245,6 +421,8 @@ export class ProcessManager {
       
       // For other errors, return non-zero exit code
       return 1;
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
@@ -270,6 +448,22 @@ export class ProcessManager {
     return 'running';
   }
 
+  /**
+   * Stop the running process on user request.
+   * The pending execute() call resolves with status 'killed' and keeps the output printed so far.
+   * Returns false when nothing was running.
+   */
+  public async kill(): Promise<boolean> {
+    if (!this.currentProcess) {
+      return false;
+    }
+
+    const stopRun = this.stopCurrentRun;
+    await this.killCurrentProcess();
+    stopRun?.();
+    return true;
+  }
+
   /**
    * Kill current process
    */
@@ -281,6 +475,8 @@ export class ProcessManager {
         console.warn('Error killing process:', error);
       }
       this.currentProcess = null;
+      this.stopCurrentRun = null;
+      this.releaseInput();
     }
   }
 
@@ -0,0 +1,128 @@
+/**
+ * ProjectCompiler - Turns editor tabs into the files a Node.js process can run
+ */
+
+import type { BabelTransformer } from './BabelTransformer.js';
+import type { ModernBabelTransformer } from './babel/ModernBabelTransformer.js';
+import { getEmittedPath, normalizeProjectPath } from './babel/ImportResolverPlugin.js';
+import { getModuleEntryPath } from './babel/ModuleFormatPlugin.js';
+import { SourceMapChain } from './babel/SourceMapResolver.js';
+import type { SourceMap } from './babel/types.js';
+import type { CompiledSource } from './RuntimeErrors.js';
+import type { ModuleFormat, ProjectFile } from './types.js';
+
+/**
+ * Compiles a project for any backend that runs plain Node.js: sources become
+ * ES modules and relative imports point at the emitted files.
+ */
+export class ProjectCompiler {
+  private modernTransformer: ModernBabelTransformer;
+  private babelTransformer: BabelTransformer;
+
+  constructor(modernTransformer: ModernBabelTransformer, babelTransformer: BabelTransformer) {
+    this.modernTransformer = modernTransformer;
+    this.babelTransformer = babelTransformer;
+  }
+
+  /**
+   * Compile every file of the project.
+   * The entry file's (already instrumented) code replaces its saved content;
+   * `entryMap` is the map of that instrumentation, so positions in the emitted
+   * entry still resolve to the tab. Files run as ES modules (CommonJS globals
+   * get their interop) except a CommonJS `entryFormat`, emitted as `.cjs`.
+   */
+  public async compile(
+    entry: string,
+    entryCode: string,
+    files: ProjectFile[],
+    { entryMap, entryFormat = 'esm' }: { entryMap?: SourceMap | null; entryFormat?: ModuleFormat } = {}
+  ): Promise<{ files: ProjectFile[]; entryFile: string; sources: CompiledSource[] }> {
+    const entryPath = normalizeProjectPath(entry);
+    const sources = new Map<string, string>();
+
+    for (const file of files) {
+      sources.set(normalizeProjectPath(file.path), file.content);
+    }
+    sources.set(entryPath, entryCode);
+
+    const projectPaths = [...sources.keys()];
+    const emitted: ProjectFile[] = [];
+    const compiled: CompiledSource[] = [];
+
+    for (const [path, content] of sources) {
+      const format = path === entryPath ? entryFormat : 'esm';
+      const output = await this.compileFile(path, content, projectPaths, format);
+      emitted.push(...output.files);
+      if (output.maps) {
+        compiled.push({
+          path: output.files[0].path,
+          source: path,
+          maps: new SourceMapChain(path === entryPath ? [entryMap, ...output.maps] : output.maps)
+        });
+      }
+    }
+
+    const entryFile = entryFormat === 'commonjs' ? getModuleEntryPath(entryPath, 'commonjs') : getEmittedPath(entryPath);
+    return { files: emitted, entryFile, sources: compiled };
+  }
+
+  /**
+   * Compile one project file into the file(s) written to the workspace.
+   * Scripts also return the source maps of each pass, in order.
+   */
+  private async compileFile(
+    path: string,
+    content: string,
+    projectPaths: string[],
+    format: ModuleFormat
+  ): Promise<{ files: ProjectFile[]; maps?: Array<SourceMap | null> }> {
+    // JSON stays readable from fs, and gets an ES module so `import data from './data.json'` works
+    if (path.endsWith('.json')) {
+      return {
+        files: [
+          { path, content },
+          { path: getEmittedPath(path), content: `export default ${content.trim() || 'null'};\n` }
+        ]
+      };
+    }
+
+    if (!/\.(m?js|jsx|ts|tsx)$/.test(path)) {
+      return { files: [{ path, content }] };
+    }
+
+    const isTypeScript = /\.tsx?$/.test(path);
+    const maps: Array<SourceMap | null> = [];
+    let code = content;
+
+    try {
+      const resolved = await this.modernTransformer.resolveImports(content, {
+        filename: path,
+        language: isTypeScript ? 'typescript' : 'javascript',
+        projectFiles: projectPaths,
+        // A CommonJS entry was already analyzed when it was instrumented
+        moduleFormat: format === 'esm' ? 'esm' : undefined
+      });
+      code = resolved.code;
+      maps.push(resolved.map || null);
+    } catch (resolveError) {
+      console.warn(`⚠️ No se pudieron resolver los imports de ${path}:`, resolveError);
+    }
+
+    // Node runs modern syntax natively; only strip types and JSX so ES modules stay intact
+    if (isTypeScript) {
+      const stripped = this.babelTransformer.transformTypeScriptWithMap(code, {
+        presets: path.endsWith('.tsx') ? ['react'] : [],
+        filename: path
+      });
+      code = stripped.code;
+      maps.push(stripped.map);
+    } else if (path.endsWith('.jsx')) {
+      const stripped = this.babelTransformer.transformJavaScriptWithMap(code, { presets: ['react'], filename: path });
+      code = stripped.code;
+      maps.push(stripped.map);
+    }
+
+    const emittedPath = format === 'commonjs' ? getModuleEntryPath(path, 'commonjs') : getEmittedPath(path);
+    return { files: [{ path: emittedPath, content: code }], maps };
+  }
+}
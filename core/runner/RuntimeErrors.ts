@@ -0,0 +1,158 @@
+/**
+ * RuntimeErrors - Uncaught errors of a run, traced back to the user's files
+ *
+ * Node reports an uncaught error on stderr as a `Name: message` line followed
+ * by `at` frames (SyntaxErrors add a `path:line` header above the code
+ * excerpt instead). Those positions point into the files Node ran, which went
+ * through instrumentation and Babel; each CompiledSource carries the source
+ * maps needed to walk them back to the tab they came from.
+ */
+
+import type { SourceMapChain } from './babel/SourceMapResolver.js';
+import type { RuntimeErrorDetails, RuntimeStackFrame } from './types.js';
+
+// A file written for Node to run and the passes that produced it
+export interface CompiledSource {
+  path: string; // Path of the emitted file, relative to the workspace
+  source: string; // Project path of the file the user wrote
+  maps: SourceMapChain;
+}
+
+// A frame as printed, before mapping; positions are 1-based
+interface RawFrame {
+  text: string;
+  functionName?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+const ERROR_HEADER = /^([A-Za-z_$][\w$]*)(?: \[[\w-]+\])?: ?(.*)$/;
+const FRAME_LINE = /^\s+at (.+)$/;
+const FRAME_WITH_NAME = /^(.+?) \((.+)\)$/;
+const FRAME_LOCATION = /^(.+):(\d+):(\d+)$/;
+// `/path/main.js:3` above the code excerpt of a SyntaxError
+const LOCATION_HEADER = /^((?:file:\/\/)?(?:\/|[A-Za-z]:[\\/]).*?):(\d+)$/;
+
+// Helpers injected by the instrumentation plugins are named `__orbis...`
+const HELPER_PREFIX = '__orbis';
+
+/**
+ * Find the last error printed with a stack trace in a block of output.
+ * Frames are returned exactly as printed; nothing is mapped yet.
+ */
+export function parseRuntimeError(output: string): {
+  name: string;
+  message: string;
+  frames: RawFrame[];
+  location?: { file: string; line: number };
+} | null {
+  const lines = output.split('\n');
+  let headerIndex = -1;
+
+  for (let index = lines.length - 2; index >= 0; index--) {
+    if (ERROR_HEADER.test(lines[index]) && FRAME_LINE.test(lines[index + 1])) {
+      headerIndex = index;
+      break;
+    }
+  }
+
+  if (headerIndex === -1) {
+    return null;
+  }
+
+  const [, name, message] = lines[headerIndex].match(ERROR_HEADER)!;
+  const frames: RawFrame[] = [];
+  for (let index = headerIndex + 1; index < lines.length; index++) {
+    const frame = lines[index].match(FRAME_LINE);
+    if (!frame) {
+      break;
+    }
+    frames.push(parseFrame(frame[1].trim()));
+  }
+
+  // The location header sits a few lines above: code excerpt, caret line, blank line
+  let location: { file: string; line: number } | undefined;
+  for (let index = headerIndex - 1; index >= Math.max(0, headerIndex - 5); index--) {
+    const header = lines[index].match(LOCATION_HEADER);
+    if (header) {
+      location = { file: header[1], line: Number(header[2]) };
+      break;
+    }
+  }
+
+  return { name, message, frames, location };
+}
+
+function parseFrame(text: string): RawFrame {
+  const named = text.match(FRAME_WITH_NAME);
+  const functionName = named ? named[1] : undefined;
+  const position = (named ? named[2] : text).match(FRAME_LOCATION);
+
+  if (!position) {
+    return { text, functionName };
+  }
+  return { text, functionName, file: position[1], line: Number(position[2]), column: Number(position[3]) };
+}
+
+/**
+ * The compiled source a printed file path belongs to. Paths are absolute at
+ * runtime (and may be file:// URLs), so they are matched by their ending.
+ */
+function findCompiledSource(file: string, sources: CompiledSource[]): CompiledSource | undefined {
+  const path = file.replace(/^file:\/\//, '').replace(/\\/g, '/');
+  return sources.find(source => path === source.path || path.endsWith(`/${source.path}`));
+}
+
+function isHelperFrame(frame: RawFrame): boolean {
+  const name = frame.functionName?.replace(/^(async|new) /, '');
+  return !!name && name.split('.').pop()!.startsWith(HELPER_PREFIX);
+}
+
+/**
+ * Parse the uncaught error in a run's output and map its frames back to the
+ * user's files. Frames of instrumentation helpers are dropped; frames in Node
+ * internals or packages keep no source. The error's position is that of the
+ * innermost frame that maps back, or of the SyntaxError header.
+ */
+export function resolveRuntimeError(output: string, sources: CompiledSource[]): RuntimeErrorDetails | null {
+  const parsed = parseRuntimeError(output);
+  if (!parsed) {
+    return null;
+  }
+
+  const frames = parsed.frames
+    .filter(frame => !isHelperFrame(frame))
+    .map(frame => resolveFrame(frame, sources));
+  const details: RuntimeErrorDetails = { name: parsed.name, message: parsed.message, frames };
+
+  const origin = frames.find(frame => frame.source && frame.line);
+  if (origin) {
+    return { ...details, source: origin.source, line: origin.line, column: origin.column };
+  }
+
+  const compiled = parsed.location && findCompiledSource(parsed.location.file, sources);
+  if (parsed.location && compiled) {
+    // Only a line is known: any mapping on it gives the original line
+    const position = compiled.maps.originalPositionFor(parsed.location.line, Number.MAX_SAFE_INTEGER);
+    if (position) {
+      return { ...details, source: compiled.source, line: position.line };
+    }
+  }
+
+  return details;
+}
+
+function resolveFrame(frame: RawFrame, sources: CompiledSource[]): RuntimeStackFrame {
+  const resolved: RuntimeStackFrame = { text: frame.text, functionName: frame.functionName };
+  const compiled = frame.file && findCompiledSource(frame.file, sources);
+  if (!compiled || !frame.line || !frame.column) {
+    return resolved;
+  }
+
+  const position = compiled.maps.originalPositionFor(frame.line, frame.column - 1);
+  if (!position) {
+    return resolved;
+  }
+  return { ...resolved, source: compiled.source, line: position.line, column: position.column + 1 };
+}
@@ -0,0 +1,90 @@
+/**
+ * RuntimeMarkers - Structured messages emitted by instrumented code
+ *
+ * Code running inside the container only has stdout to talk back to the
+ * editor, so helpers injected at transform time print single lines of the
+ * form `__ORBIS__:<channel>:<json>`. The runner pulls those lines out of the
+ * process output before it reaches the user.
+ */
+
+import type { OutputListener } from './types.js';
+
+export const RUNTIME_MARKER_PREFIX = '__ORBIS__:';
+
+export interface RuntimeMarker {
+  channel: string;
+  payload: unknown;
+}
+
+/**
+ * Build a marker line (without trailing newline)
+ */
+export function formatRuntimeMarker(channel: string, payload: unknown): string {
+  return `${RUNTIME_MARKER_PREFIX}${channel}:${JSON.stringify(payload)}`;
+}
+
+/**
+ * Split a single output line into the text printed before the marker and the
+ * marker itself. Returns null when the line carries no (valid) marker.
+ */
+export function parseRuntimeMarker(line: string): { text: string; marker: RuntimeMarker } | null {
+  const start = line.indexOf(RUNTIME_MARKER_PREFIX);
+  if (start === -1) {
+    return null;
+  }
+
+  const body = line.slice(start + RUNTIME_MARKER_PREFIX.length);
+  const separator = body.indexOf(':');
+  if (separator <= 0) {
+    return null;
+  }
+
+  try {
+    return {
+      text: line.slice(0, start),
+      marker: {
+        channel: body.slice(0, separator),
+        payload: JSON.parse(body.slice(separator + 1).trim())
+      }
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove every marker line from a block of output
+ */
+export function extractRuntimeMarkers(output: string): { output: string; markers: RuntimeMarker[] } {
+  const markers: RuntimeMarker[] = [];
+  const lines: string[] = [];
+
+  for (const line of output.split('\n')) {
+    const parsed = parseRuntimeMarker(line);
+    if (!parsed) {
+      lines.push(line);
+      continue;
+    }
+
+    markers.push(parsed.marker);
+    if (parsed.text.trim()) {
+      lines.push(parsed.text);
+    }
+  }
+
+  return { output: lines.join('\n'), markers };
+}
+
+/**
+ * Wrap a live output listener so marker lines never reach the user
+ */
+export function withoutRuntimeMarkers(onOutput: OutputListener): OutputListener {
+  return event => {
+    const parsed = parseRuntimeMarker(event.content);
+    if (!parsed) {
+      onOutput(event);
+    } else if (parsed.text.trim()) {
+      onOutput({ ...event, content: parsed.text });
+    }
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * TerminalSession - Interactive `jsh` shell inside the shared WebContainer
+ */
+
+import type { WebContainerInstance, WebContainerProcess, TerminalDimensions } from './types.js';
+
+/**
+ * Maximum characters of raw output kept to replay into a re-mounted view
+ */
+const MAX_REPLAY_LENGTH = 200000;
+
+export type TerminalDataListener = (data: string) => void;
+export type TerminalExitListener = (exitCode: number) => void;
+
+/**
+ * A shell process attached to a pseudoterminal.
+ * Output is raw terminal data (ANSI sequences included); input is written as typed.
+ */
+export class TerminalSession {
+  public readonly id: string;
+  public readonly title: string;
+  private container: WebContainerInstance;
+  private process: WebContainerProcess | null = null;
+  private writer: WritableStreamDefaultWriter<string> | null = null;
+  private dimensions: TerminalDimensions;
+  private env: Record<string, string>;
+  private replay = '';
+  private exitCode: number | null = null;
+  private dataListeners = new Set<TerminalDataListener>();
+  private exitListeners = new Set<TerminalExitListener>();
+
+  constructor(
+    container: WebContainerInstance,
+    id: string,
+    title: string,
+    dimensions: TerminalDimensions,
+    env: Record<string, string> = {}
+  ) {
+    this.container = container;
+    this.id = id;
+    this.title = title;
+    this.dimensions = dimensions;
+    this.env = env;
+  }
+
+  /**
+   * Spawn the shell and start forwarding its output
+   */
+  public async start(): Promise<void> {
+    if (this.process) {
+      return;
+    }
+
+    try {
+      this.process = await this.container.spawn('jsh', {
+        terminal: { ...this.dimensions },
+        env: this.env
+      });
+    } catch (error) {
+      throw new Error(`Failed to start terminal: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.writer = this.process.input.getWriter();
+
+    this.process.output.pipeTo(new WritableStream<string>({
+      write: data => this.emitData(data)
+    })).catch(error => {
+      console.warn('Terminal output stream closed:', error);
+    });
+
+    this.process.exit.then(exitCode => {
+      this.exitCode = exitCode;
+      this.releaseWriter();
+      this.process = null;
+      this.exitListeners.forEach(listener => listener(exitCode));
+    });
+  }
+
+  /**
+   * Send input to the shell (e.g. a command followed by '\r', or '\x03' for Ctrl+C)
+   */
+  public async write(data: string): Promise<void> {
+    if (!this.writer) {
+      return;
+    }
+
+    try {
+      await this.writer.write(data);
+    } catch (error) {
+      console.warn('Error writing to terminal:', error);
+    }
+  }
+
+  /**
+   * Resize the pseudoterminal so the shell wraps and redraws correctly
+   */
+  public resize(dimensions: TerminalDimensions): void {
+    if (dimensions.cols === this.dimensions.cols && dimensions.rows === this.dimensions.rows) {
+      return;
+    }
+
+    this.dimensions = dimensions;
+    this.process?.resize({ ...dimensions });
+  }
+
+  /**
+   * Subscribe to raw output. Returns an unsubscribe function.
+   */
+  public onData(listener: TerminalDataListener): () => void {
+    this.dataListeners.add(listener);
+    return () => this.dataListeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to shell exit. Returns an unsubscribe function.
+   */
+  public onExit(listener: TerminalExitListener): () => void {
+    this.exitListeners.add(listener);
+    return () => this.exitListeners.delete(listener);
+  }
+
+  /**
+   * Output received so far (capped), to restore a view that mounts late
+   */
+  public getReplay(): string {
+    return this.replay;
+  }
+
+  public isRunning(): boolean {
+    return this.process !== null;
+  }
+
+  public getExitCode(): number | null {
+    return this.exitCode;
+  }
+
+  public getDimensions(): TerminalDimensions {
+    return { ...this.dimensions };
+  }
+
+  /**
+   * Kill the shell and drop all listeners
+   */
+  public dispose(): void {
+    this.releaseWriter();
+    if (this.process) {
+      try {
+        this.process.kill();
+      } catch (error) {
+        console.warn('Error killing terminal process:', error);
+      }
+      this.process = null;
+    }
+    this.dataListeners.clear();
+    this.exitListeners.clear();
+  }
+
+  private emitData(data: string): void {
+    this.replay = (this.replay + data).slice(-MAX_REPLAY_LENGTH);
+    this.dataListeners.forEach(listener => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.warn('Error in terminal data listener:', error);
+      }
+    });
+  }
+
+  private releaseWriter(): void {
+    if (this.writer) {
+      try {
+        this.writer.releaseLock();
+      } catch (error) {
+        console.warn('Error releasing terminal input writer:', error);
+      }
+      this.writer = null;
+    }
+  }
+}
@@ -3,7 +3,9 @@
  * Based on official WebContainer API documentation
  */
 
-import type { WebContainerInstance, SingletonState } from './types.js';
+import type { WebContainerInstance, SingletonState, FileSystemTree } from './types.js';
+import { IndexedDBBootSnapshot } from './IndexedDBBootSnapshot.js';
+import { readWorkspaceSnapshot } from './WorkspaceSnapshot.js';
 
 // Global singleton symbol to prevent multiple instances
 const SINGLETON_KEY = Symbol.for('__ORBIS_WEBCONTAINER_SINGLETON__');
@@ -27,6 +29,7 @@ interface OrbisWindow extends Window {
 export class WebContainerManager {
   private static instance: WebContainerManager;
   private state: SingletonState;
+  private savedBootSnapshot = IndexedDBBootSnapshot.isAvailable() ? new IndexedDBBootSnapshot() : null;
 
   private constructor() {
     // Initialize global state
@@ -38,7 +41,9 @@ export class WebContainerManager {
         isBooting: false,
         bootPromise: null,
         bootCount: 0,
-        lastBootTime: 0
+        lastBootTime: 0,
+        bootSnapshot: null,
+        bootSnapshotLoaded: false
       };
     }
     
@@ -69,6 +74,57 @@ export class WebContainerManager {
     return this.state.isBooting;
   }
 
+  /**
+   * Set the file tree mounted into every instance booted from now on
+   * (a restored snapshot), or null to boot with an empty file system.
+   * `data` is the compressed snapshot, saved so the tree is mounted after a reload too.
+   */
+  public async setBootSnapshot(tree: FileSystemTree | null, data?: Uint8Array): Promise<void> {
+    this.state.bootSnapshot = tree;
+    // The saved snapshot is replaced: loading it later mustn't bring the old one back
+    this.state.bootSnapshotLoaded = true;
+
+    if (!this.savedBootSnapshot) {
+      return;
+    }
+
+    try {
+      if (tree && data) {
+        await this.savedBootSnapshot.save(data);
+      } else {
+        await this.savedBootSnapshot.clear();
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to save workspace snapshot:', error);
+    }
+  }
+
+  /**
+   * Check if new instances boot with a snapshot mounted
+   */
+  public hasBootSnapshot(): boolean {
+    return this.state.bootSnapshot !== null;
+  }
+
+  /**
+   * Load the snapshot saved by a previous session, once, before the first boot
+   */
+  private async loadBootSnapshot(): Promise<void> {
+    if (this.state.bootSnapshotLoaded || !this.savedBootSnapshot) {
+      return;
+    }
+    this.state.bootSnapshotLoaded = true;
+
+    try {
+      const data = await this.savedBootSnapshot.load();
+      if (data) {
+        this.state.bootSnapshot = (await readWorkspaceSnapshot(data)).tree;
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to load saved workspace snapshot:', error);
+    }
+  }
+
   /**
    * Initialize WebContainer instance
    * Uses singleton pattern to ensure only one instance exists
@@ -157,6 +213,18 @@ export class WebContainerManager {
         // Continue anyway, might still work
       }
 
+      // Restore the workspace snapshot, if one was set or saved
+      await this.loadBootSnapshot();
+      if (this.state.bootSnapshot) {
+        try {
+          await instance.mount(this.state.bootSnapshot);
+          console.log('📂 Workspace snapshot mounted');
+        } catch (mountError) {
+          console.warn('⚠️ Failed to mount workspace snapshot:', mountError);
+          // Boot with an empty file system instead
+        }
+      }
+
       console.log('🎉 WebContainer initialized successfully');
       return instance;
     } catch (error) {
@@ -6,12 +6,52 @@
 import { WebContainerManager } from './WebContainerManager.js';
 import { FileSystemManager } from './FileSystemManager.js';
 import { ProcessManager } from './ProcessManager.js';
+import { TerminalSession } from './TerminalSession.js';
+import { PreviewServerTracker, type PreviewServerListener } from './PreviewServerTracker.js';
 import { BabelTransformer } from './BabelTransformer.js';
+import { ModernBabelTransformer } from './babel/ModernBabelTransformer.js';
+import { collectAnnotations } from './babel/InstrumentationPlugin.js';
+import { findLoopGuardTrip } from './babel/LoopGuardPlugin.js';
+import { collectTestResults, withTestResults } from './babel/TestHarnessPlugin.js';
+import { collectBenchmarkResults } from './babel/BenchmarkPlugin.js';
+import { collectConsoleEntries } from './babel/ConsoleShimPlugin.js';
+import { getModuleEntryPath } from './babel/ModuleFormatPlugin.js';
+import { SourceMapChain } from './babel/SourceMapResolver.js';
+import type { SourceMap, TransformOptions } from './babel/types.js';
+import { ProjectCompiler } from './ProjectCompiler.js';
+import { extractRuntimeMarkers, withoutRuntimeMarkers } from './RuntimeMarkers.js';
+import { resolveRuntimeError, type CompiledSource } from './RuntimeErrors.js';
+import { createWorkspaceSnapshot, readWorkspaceSnapshot } from './WorkspaceSnapshot.js';
+import { getBinLinks, pinDependencies, readInstalledPackages, resolveCachedPackages } from './PackageCache.js';
+import { analyzeDependencies, formatDependencyList } from './babel/DependencyAnalyzer.js';
+import { IndexedDBPackageCache } from './IndexedDBPackageCache.js';
+import { PyodideRunner } from './python/PyodideRunner.js';
+import { ReplSession, type ReplSessionsListener } from './repl/ReplSession.js';
+import { createReplStatements } from './babel/ReplStatements.js';
 import type { 
+  CodeRunner,
   ExecutionResult, 
   SupportedLanguage,
   LanguageConfig,
-  RunnerConfig 
+  RunnerConfig,
+  RunCodeOptions,
+  LoopGuardOptions,
+  BenchmarkOptions,
+  ModuleFormatInfo,
+  OutputListener,
+  ProjectFile,
+  FileSystemTree,
+  TerminalDimensions,
+  PreviewServer,
+  WebContainerInstance,
+  WebContainerProcess,
+  WorkspaceSnapshotOptions,
+  WorkspaceSnapshotInfo,
+  CachedPackage,
+  PackageCache,
+  ResolvedDependency,
+  ReplEvaluateOptions,
+  ReplSessionInfo
 } from './types.js';
 
 /**
@@ -21,14 +61,16 @@ const LANGUAGE_CONFIGS: Record<SupportedLanguage, LanguageConfig> = {
   javascript: {
     extension: 'js',
     command: 'node',
-    args: ['--experimental-modules', '--no-warnings']
+    args: []
   },
   typescript: {
+    // Compiled to JavaScript before it runs
     extension: 'ts',
     command: 'node',
-    args: ['--loader', 'ts-node/esm', '--experimental-specifier-resolution=node']
+    args: []
   },
   python: {
+    // The container has no Python binary: runs go to PyodideRunner
     extension: 'py',
     command: 'python',
     args: []
@@ -40,16 +82,46 @@ const LANGUAGE_CONFIGS: Record<SupportedLanguage, LanguageConfig> = {
   }
 };
 
+/**
+ * Port used by createWebProject's static server
+ */
+const WEB_PROJECT_PORT = 3000;
+
+/**
+ * How long createWebProject waits for the server (npx may need to download `serve`)
+ */
+const WEB_SERVER_READY_TIMEOUT = 60000;
+
+/**
+ * How long a run waits for npm before it goes ahead without its dependencies
+ */
+const DEPENDENCY_INSTALL_TIMEOUT = 15000;
+
 /**
  * Main WebContainerRunner class
  * Provides a unified interface for safe code execution
  */
-export class WebContainerRunner {
+export class WebContainerRunner implements CodeRunner {
+  public readonly backend = 'webcontainer' as const;
   private containerManager: WebContainerManager;
   private fileSystemManager: FileSystemManager | null = null;
   private processManager: ProcessManager | null = null;
   private babelTransformer: BabelTransformer;
+  private modernTransformer: ModernBabelTransformer;
+  private projectCompiler: ProjectCompiler;
   private isInitialized = false;
+  private stopRequested = false;
+  private isRunningCode = false;
+  private terminalSessions = new Map<string, TerminalSession>();
+  private terminalCounter = 0;
+  private replSessions = new Map<string, ReplSession>();
+  private replListeners = new Set<ReplSessionsListener>();
+  private replDependencies: Record<string, string> = {}; // Installed for REPL sessions so far
+  private previewTracker: PreviewServerTracker | null = null;
+  private packageCache = IndexedDBPackageCache.isAvailable() ? new IndexedDBPackageCache() : null;
+  private webServerProcess: WebContainerProcess | null = null;
+  private pythonRunner: PyodideRunner;
+  private environment: Record<string, string> = {};
   private config: RunnerConfig;
 
   constructor(config: RunnerConfig = {}) {
@@ -63,6 +135,9 @@ export class WebContainerRunner {
 
     this.containerManager = WebContainerManager.getInstance();
     this.babelTransformer = BabelTransformer.getInstance();
+    this.modernTransformer = ModernBabelTransformer.getInstance();
+    this.projectCompiler = new ProjectCompiler(this.modernTransformer, this.babelTransformer);
+    this.pythonRunner = new PyodideRunner({ timeout: this.config.timeout, maxOutputSize: this.config.maxOutputSize });
   }
 
   /**
@@ -80,6 +155,8 @@ export class WebContainerRunner {
       // Initialize managers
       this.fileSystemManager = new FileSystemManager(container);
       this.processManager = new ProcessManager(container, this.config);
+      this.previewTracker = new PreviewServerTracker(container);
+      this.previewTracker.start();
 
       // Initialize Babel
       await this.babelTransformer.initialize();
@@ -105,66 +182,114 @@ export class WebContainerRunner {
   public async runCode(
     code: string, 
     language: SupportedLanguage = 'javascript',
-    options: { filename?: string; transform?: boolean } = {}
+    options: RunCodeOptions = {}
   ): Promise<ExecutionResult> {
     if (!this.isReady()) {
       throw new Error('Runner not initialized. Call initialize() first.');
     }
 
+    if (language === 'python') {
+      return this.pythonRunner.runCode(code, options);
+    }
+
     const filename = options.filename || `main.${LANGUAGE_CONFIGS[language].extension}`;
+    this.stopRequested = false;
+    this.isRunningCode = true;
 
     try {
       console.log(`🚀 Ejecutando código ${language}...`);
       
       // Prepare code
-      let processedCode = code;
+      const instrumentable = language === 'javascript' || language === 'typescript';
+      const benchmark = instrumentable ? this.resolveBenchmark(options.benchmark) : undefined;
+      const testMode = options.testMode === true && instrumentable && !benchmark;
+      // Test results take the place of value annotations; benchmarks run uninstrumented
+      const annotate = options.annotate !== false && instrumentable && !testMode && !benchmark;
+      const loopGuard = instrumentable && !benchmark ? this.resolveLoopGuard(options.loopGuard) : undefined;
+      // The console shim would add its own cost to every timed call
+      const consoleShim = options.inspectConsole !== false && instrumentable && !benchmark;
+      const projectFiles = options.files && (language === 'javascript' || language === 'typescript')
+        ? options.files
+        : null;
+      // Project files import each other, so they are always ES modules
+      const moduleFormat = projectFiles ? 'esm' : 'auto';
+      const instrumented = instrumentable
+        ? await this.instrumentCode(code, language, filename, { annotate, loopGuard, testHarness: testMode, benchmark, consoleShim, moduleFormat })
+        : { code, map: null };
+      const sourceCode = instrumented.code;
+      const onOutput = options.onOutput && withoutRuntimeMarkers(options.onOutput);
+      let processedCode = sourceCode;
+      let transformMap: SourceMap | null = null;
       
-      if (options.transform !== false && language === 'javascript') {
+      if (projectFiles) {
+        // Project mode compiles every file itself (see createProjectTree)
+      } else if (options.transform !== false && language === 'javascript') {
         try {
-          processedCode = this.babelTransformer.transformCode(code);
+          ({ code: processedCode, map: transformMap } = this.babelTransformer.transformCodeWithMap(sourceCode, 'javascript', { modules: false }));
         } catch (transformError) {
           console.warn('⚠️ Error en transformación Babel, usando código original:', transformError);
-          processedCode = code;
+          processedCode = sourceCode;
         }
       } else if (language === 'typescript') {
         try {
-          processedCode = this.babelTransformer.transformTypeScript(code);
+          ({ code: processedCode, map: transformMap } = this.babelTransformer.transformTypeScriptWithMap(sourceCode, { modules: false }));
         } catch (transformError) {
           console.warn('⚠️ Error en transformación TypeScript, usando código original:', transformError);
-          processedCode = code;
+          processedCode = sourceCode;
         }
       }
 
       // Create project structure
-      const projectTree = this.fileSystemManager!.getSimpleProjectTree(
-        'user-project',
-        filename,
-        processedCode,
-        language === 'javascript'
-      );
+      let entryFile = filename;
+      let projectTree: FileSystemTree;
+      let compiledSources: CompiledSource[] = [];
+
+      if (projectFiles) {
+        const project = await this.createProjectTree(filename, processedCode, projectFiles, instrumented.map);
+        entryFile = project.entryFile;
+        projectTree = project.tree;
+        compiledSources = project.sources;
+      } else {
+        if (instrumentable) {
+          // The extension tells Node the format, whatever the package.json `type`
+          entryFile = getModuleEntryPath(filename, instrumented.moduleFormat?.format || 'esm');
+          compiledSources = [{ path: entryFile, source: filename, maps: new SourceMapChain([instrumented.map, transformMap]) }];
+        }
+        projectTree = this.fileSystemManager!.getSimpleProjectTree(
+          'user-project',
+          entryFile,
+          processedCode,
+          language === 'javascript'
+        );
+      }
+
+      if (instrumented.moduleFormat) {
+        this.emitLog(onOutput, `Module format: ${instrumented.moduleFormat.reason}`);
+      }
 
       // Mount files
       console.log('📁 Montando archivos...');
       await this.fileSystemManager!.mountFiles(projectTree);
 
       // Install dependencies if needed (but don't wait too long)
-      if (this.hasDependencies(code)) {
+      // In test mode the harness has already dropped the vitest/jest imports
+      const entrySource = testMode ? sourceCode : code;
+      const { dependencies } = instrumentable
+        ? analyzeDependencies(
+          projectFiles ? [entrySource, ...projectFiles.map(file => file.content)] : entrySource,
+          options.dependencies
+        )
+        : { dependencies: [] };
+      if (dependencies.length > 0) {
         console.log('📦 Instalando dependencias...');
-        try {
-          const installResult = await Promise.race([
-            this.installDependencies(code),
-            new Promise<ExecutionResult>((_, reject) => 
-              setTimeout(() => reject(new Error('Dependency installation timeout')), 15000)
-            )
-          ]);
-          
-          if (!installResult.success) {
-            console.warn('⚠️ Instalación de dependencias falló, continuando sin ellas');
-          }
-        } catch (installError) {
-          console.warn('⚠️ Error instalando dependencias:', installError);
-          // Continue without dependencies
-        }
+        this.emitLog(onOutput, `Dependencies: ${formatDependencyList(dependencies)}`);
+        this.emitLog(onOutput, 'Installing dependencies...');
+        await this.installForRun(dependencies, options.env, onOutput);
+      }
+
+      // Stop was pressed while preparing: don't start the program at all
+      if (this.stopRequested) {
+        return this.createStoppedResult();
       }
 
       // Execute based on language
@@ -176,23 +301,53 @@ export class WebContainerRunner {
         case 'typescript':
           result = await this.processManager!.execute(
             LANGUAGE_CONFIGS[language].command,
-            [filename],
-            { cwd: '/' }
+            [...(LANGUAGE_CONFIGS[language].args || []), entryFile],
+            { cwd: '/', env: this.withEnvironment(options.env), onOutput, stdin: options.stdin }
           );
           break;
         
-        case 'python':
-          result = await this.processManager!.execute('python', [filename]);
-          break;
-        
         case 'shell':
-          result = await this.processManager!.execute('sh', ['-c', code]);
+          result = await this.processManager!.execute('sh', ['-c', code], {
+            env: this.withEnvironment(options.env),
+            onOutput,
+            stdin: options.stdin
+          });
           break;
         
         default:
           throw new Error(`Unsupported language: ${language}`);
       }
 
+      if (annotate || loopGuard || testMode || benchmark || consoleShim) {
+        const { output, markers } = extractRuntimeMarkers(result.output);
+        const trip = findLoopGuardTrip(markers);
+        result = { ...result, output };
+        if (annotate) {
+          result.annotations = collectAnnotations(markers);
+        }
+        if (testMode) {
+          result = withTestResults(result, collectTestResults(markers));
+        }
+        if (benchmark) {
+          result.benchmarks = collectBenchmarkResults(markers);
+        }
+        if (consoleShim) {
+          result.console = collectConsoleEntries(markers);
+        }
+        if (trip) {
+          // The guard's message names the loop's line; the stack trace on stderr doesn't
+          result = { ...result, success: false, error: trip.message, status: 'error' };
+        }
+      }
+
+      if (instrumented.moduleFormat) {
+        result.moduleFormat = instrumented.moduleFormat;
+      }
+
+      if (!result.success && result.status !== 'killed' && compiledSources.length > 0) {
+        result.errorDetails = resolveRuntimeError(result.output, compiledSources) || undefined;
+      }
+
       console.log(`✅ Ejecución completada en ${result.duration}ms`);
       return result;
 
@@ -205,7 +360,170 @@ export class WebContainerRunner {
         duration: 0,
         timestamp: new Date()
       };
+    } finally {
+      this.isRunningCode = false;
+    }
+  }
+
+  /**
+   * Install a run's dependencies without waiting too long: when npm fails or
+   * is slow the program runs anyway and reports the missing modules itself
+   */
+  private async installForRun(
+    dependencies: ResolvedDependency[],
+    env: Record<string, string> | undefined,
+    onOutput: OutputListener | undefined
+  ): Promise<void> {
+    try {
+      const installResult = await Promise.race([
+        this.installDependencies(dependencies, env, onOutput),
+        new Promise<ExecutionResult>((_, reject) => 
+          setTimeout(() => reject(new Error('Dependency installation timeout')), DEPENDENCY_INSTALL_TIMEOUT)
+        )
+      ]);
+      
+      if (!installResult.success) {
+        console.warn('⚠️ Instalación de dependencias falló, continuando sin ellas');
+      }
+    } catch (installError) {
+      console.warn('⚠️ Error instalando dependencias:', installError);
+      // Continue without dependencies
+    }
+  }
+
+  /**
+   * Instrument code so every top-level expression (and `//?` line) reports its value,
+   * and/or so runaway loops abort with the line that caused them, and/or so its
+   * describe/it/test calls run with the built-in test harness, and/or so its
+   * `// @bench` functions are timed.
+   * Instrumentation is best effort: on failure the code runs unannotated and any
+   * syntax error is reported by the runtime itself. The map traces runtime
+   * positions back through the pass; `moduleFormat` says how Node should load it.
+   */
+  private async instrumentCode(
+    code: string,
+    language: 'javascript' | 'typescript',
+    filename: string,
+    { annotate, loopGuard, testHarness, benchmark, consoleShim, moduleFormat }: {
+      annotate: boolean;
+      loopGuard?: LoopGuardOptions;
+      testHarness?: boolean;
+      benchmark?: BenchmarkOptions;
+      consoleShim?: boolean;
+      moduleFormat?: TransformOptions['moduleFormat'];
+    }
+  ): Promise<{ code: string; map: SourceMap | null; moduleFormat?: ModuleFormatInfo }> {
+    try {
+      const result = await this.modernTransformer.instrumentCode(code, {
+        language,
+        filename,
+        instrument: annotate,
+        loopGuard,
+        testHarness,
+        benchmark,
+        consoleShim,
+        moduleFormat
+      });
+      return { code: result.code, map: result.map || null, moduleFormat: result.metadata.moduleFormat };
+    } catch (instrumentError) {
+      console.warn('⚠️ No se pudo instrumentar el código, ejecutando sin anotaciones:', instrumentError);
+      return { code, map: null };
+    }
+  }
+
+  /**
+   * Limits for the loop guard, or undefined when it is off
+   */
+  private resolveLoopGuard(loopGuard: RunCodeOptions['loopGuard']): LoopGuardOptions | undefined {
+    if (!loopGuard) {
+      return undefined;
+    }
+    return loopGuard === true ? {} : loopGuard;
+  }
+
+  /**
+   * Benchmark settings, or undefined when not benchmarking
+   */
+  private resolveBenchmark(benchmark: RunCodeOptions['benchmark']): BenchmarkOptions | undefined {
+    if (!benchmark) {
+      return undefined;
     }
+    return benchmark === true ? {} : benchmark;
+  }
+
+  /**
+   * Build the workspace for a project run: every file is mounted, sources are
+   * compiled to ES modules and relative imports point at the emitted files.
+   */
+  private async createProjectTree(
+    entry: string,
+    entryCode: string,
+    files: ProjectFile[],
+    entryMap: SourceMap | null
+  ): Promise<{ tree: FileSystemTree; entryFile: string; sources: CompiledSource[] }> {
+    const project = await this.projectCompiler.compile(entry, entryCode, files, { entryMap });
+    return {
+      tree: this.fileSystemManager!.getProjectTree('user-project', project.files, project.entryFile),
+      entryFile: project.entryFile,
+      sources: project.sources
+    };
+  }
+
+  /**
+   * Notify a live output listener about a runner-level status message
+   */
+  private emitLog(onOutput: OutputListener | undefined, content: string): void {
+    onOutput?.({ type: 'log', content, timestamp: new Date() });
+  }
+
+  /**
+   * Stop the code started by runCode (or any other running process).
+   * The pending runCode call resolves with status 'killed' and the output printed so far.
+   */
+  public async stopExecution(): Promise<boolean> {
+    if (this.pythonRunner.isRunning()) {
+      return this.pythonRunner.stopExecution();
+    }
+    const replSession = [...this.replSessions.values()].find(session => session.isBusy());
+    if (replSession) {
+      return replSession.interrupt();
+    }
+    if (!this.isReady()) {
+      return false;
+    }
+
+    this.stopRequested = true;
+    const killed = await this.processManager!.kill();
+    return killed || this.isRunningCode;
+  }
+
+  /**
+   * Send a line of input to the code started by runCode.
+   * Returns false when nothing is running or its stdin was closed by a fixture.
+   */
+  public async writeInput(text: string): Promise<boolean> {
+    if (this.pythonRunner.isRunning()) {
+      return this.pythonRunner.writeInput(text);
+    }
+    if (!this.isReady()) {
+      return false;
+    }
+
+    return this.processManager!.writeInput(text);
+  }
+
+  /**
+   * Result for a run stopped before its process was spawned
+   */
+  private createStoppedResult(): ExecutionResult {
+    return {
+      success: false,
+      output: '',
+      error: 'Execution stopped by user',
+      duration: 0,
+      timestamp: new Date(),
+      status: 'killed'
+    };
   }
 
   /**
@@ -216,81 +534,222 @@ export class WebContainerRunner {
       throw new Error('Runner not initialized. Call initialize() first.');
     }
 
-    return this.processManager!.execute('npm', [command, ...args]);
+    return this.processManager!.execute('npm', [command, ...args], { env: this.withEnvironment() });
   }
 
   /**
-   * Install dependencies from package.json
+   * Install dependencies from package.json.
+   * The given packages are written to it first, unpinned ones at their cached
+   * version; when all of them (and what they need) are cached, they are
+   * mounted from the package cache and npm doesn't run. Packages npm installs
+   * are cached afterwards.
    */
-  public async installDependencies(code?: string): Promise<ExecutionResult> {
+  public async installDependencies(
+    dependencies: ResolvedDependency[] = [],
+    env?: Record<string, string>,
+    onOutput?: OutputListener
+  ): Promise<ExecutionResult> {
     if (!this.isReady()) {
       throw new Error('Runner not initialized. Call initialize() first.');
     }
 
+    const startTime = Date.now();
+
     // Create package.json if dependencies detected
-    if (code) {
-      const deps = this.extractDependencies(code);
-      if (deps.length > 0) {
-        await this.fileSystemManager!.createPackageJson({
-          name: 'user-project',
-          dependencies: deps.reduce((acc, dep) => ({ ...acc, [dep]: 'latest' }), {})
-        });
+    if (dependencies.length > 0) {
+      const requested = Object.fromEntries(dependencies.map(dep => [dep.name, dep.version]));
+      const cached = await this.listCachedPackages();
+      await this.fileSystemManager!.createPackageJson({
+        name: 'user-project',
+        dependencies: pinDependencies(cached, requested)
+      });
+
+      const { packages, missing } = resolveCachedPackages(cached, requested);
+      if (missing.length === 0 && await this.mountCachedPackages(packages)) {
+        const message = `Installed ${packages.length} package${packages.length === 1 ? '' : 's'} from the package cache`;
+        this.emitLog(onOutput, message);
+        return {
+          success: true,
+          output: message,
+          duration: Date.now() - startTime,
+          timestamp: new Date(),
+          status: 'completed'
+        };
       }
     }
 
-    return this.processManager!.execute('npm', ['install']);
+    const result = await this.processManager!.execute('npm', ['install'], { env: this.withEnvironment(env) });
+    if (result.success) {
+      // In the background: the program doesn't wait for the cache
+      this.cacheInstalledPackages().catch(error => {
+        console.warn('⚠️ Failed to cache installed packages:', error);
+      });
+    }
+    return result;
   }
 
   /**
-   * Check if code has dependencies
+   * Local cache that repeat installs are served from
    */
-  private hasDependencies(code: string): boolean {
-    const importPatterns = [
-      /import\s+.*\s+from\s+['"]([^'"]+)['"]/g,
-      /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
-      /import\s*\(\s*['"]([^'"]+)['"]\s*\)/g
-    ];
+  public getPackageCache(): PackageCache | null {
+    return this.packageCache;
+  }
 
-    return importPatterns.some(pattern => pattern.test(code));
+  private async listCachedPackages(): Promise<CachedPackage[]> {
+    try {
+      return this.packageCache ? await this.packageCache.list() : [];
+    } catch (error) {
+      console.warn('⚠️ Package cache unavailable:', error);
+      return [];
+    }
   }
 
   /**
-   * Extract dependencies from code
+   * Mount cached packages into node_modules and link their commands in
+   * node_modules/.bin. Returns false (and npm installs
+   * them instead) if any of them can't be read back.
    */
-  private extractDependencies(code: string): string[] {
-    const deps: string[] = [];
-    const importPatterns = [
-      /import\s+.*\s+from\s+['"]([^'"]+)['"]/g,
-      /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
-      /import\s*\(\s*['"]([^'"]+)['"]\s*\)/g
-    ];
+  private async mountCachedPackages(packages: CachedPackage[]): Promise<boolean> {
+    if (!this.packageCache) {
+      return false;
+    }
 
-    for (const pattern of importPatterns) {
-      let match;
-      while ((match = pattern.exec(code)) !== null) {
-        const dep = match[1];
-        if (!dep.startsWith('.') && !dep.startsWith('/')) {
-          deps.push(dep);
+    try {
+      for (const { name, version } of packages) {
+        const contents = await this.packageCache.get(name, version);
+        if (!contents) {
+          return false;
         }
+        const { tree } = await readWorkspaceSnapshot(contents);
+        const directory = `node_modules/${name}`;
+        await this.fileSystemManager!.createDirectory(directory);
+        await this.fileSystemManager!.mountFiles(tree, directory);
+      }
+
+      const links = Object.entries(getBinLinks(packages));
+      if (links.length > 0) {
+        await this.fileSystemManager!.createDirectory('node_modules/.bin');
+        await this.fileSystemManager!.mountFiles(
+          Object.fromEntries(links.map(([command, target]) => [command, { file: { symlink: target } }])),
+          'node_modules/.bin'
+        );
       }
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Failed to restore cached packages:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Store the node_modules packages the cache doesn't have yet
+   */
+  private async cacheInstalledPackages(): Promise<void> {
+    if (!this.packageCache || !this.fileSystemManager) {
+      return;
+    }
+
+    const fileSystem = this.fileSystemManager;
+    const cached = await this.packageCache.list();
+    const installed = await readInstalledPackages({
+      readdir: async path => (await fileSystem.listDirectory(path)).map(entry => entry.name),
+      readFile: path => fileSystem.readFile(path)
+    });
+
+    for (const pkg of installed) {
+      // Entries cached without their commands are stored again
+      if (cached.some(entry => entry.name === pkg.name && entry.version === pkg.version && entry.bin)) {
+        continue;
+      }
+
+      const tree = await fileSystem.exportDirectory(`node_modules/${pkg.name}`);
+      const contents = await createWorkspaceSnapshot(tree, { includesNodeModules: true });
+      const now = new Date();
+      await this.packageCache.put({ ...pkg, size: contents.byteLength, cachedAt: now, lastUsed: now }, contents);
+    }
+  }
+
+  /**
+   * Export the workspace (the container file system) as a compressed snapshot
+   */
+  public async exportSnapshot(options: WorkspaceSnapshotOptions = {}): Promise<Uint8Array> {
+    if (!this.isReady()) {
+      throw new Error('Runner not initialized. Call initialize() first.');
+    }
+
+    return this.fileSystemManager!.exportSnapshot(options);
+  }
+
+  /**
+   * Restore a snapshot into the running container. With `mountOnBoot` it is
+   * also mounted each time the container boots again (reset, backend switch,
+   * reload).
+   */
+  public async importSnapshot(
+    data: Uint8Array | ArrayBuffer,
+    options: { mountOnBoot?: boolean } = {}
+  ): Promise<WorkspaceSnapshotInfo> {
+    if (!this.isReady()) {
+      throw new Error('Runner not initialized. Call initialize() first.');
+    }
+
+    const { tree, info } = await this.fileSystemManager!.importSnapshot(data);
+    if (options.mountOnBoot) {
+      await this.containerManager.setBootSnapshot(tree, data instanceof Uint8Array ? data : new Uint8Array(data));
     }
+    return info;
+  }
+
+  /**
+   * Stop mounting the imported snapshot on boot
+   */
+  public async clearBootSnapshot(): Promise<void> {
+    await this.containerManager.setBootSnapshot(null);
+  }
 
-    return [...new Set(deps)];
+  /**
+   * Check if the container boots with a snapshot mounted
+   */
+  public hasBootSnapshot(): boolean {
+    return this.containerManager.hasBootSnapshot();
+  }
+
+  /**
+   * Set the workspace environment variables, passed to every process the runner
+   * starts: runs, npm commands, the preview server and new terminal sessions.
+   * Variables given to a single run (RunCodeOptions.env) take precedence.
+   */
+  public setEnvironment(env: Record<string, string>): void {
+    this.environment = { ...env };
+  }
+
+  /**
+   * Workspace environment with the variables of one run on top
+   */
+  private withEnvironment(env?: Record<string, string>): Record<string, string> {
+    return { ...this.environment, ...env };
   }
 
   /**
-   * Create a simple web project
+   * Create a simple web project and serve it on port 3000.
+   * The server keeps running in the background and shows up in the preview pane
+   * through the container's port events; extra files (other tabs) are mounted
+   * next to index.html so it can reference them.
    */
   public async createWebProject(
     html: string, 
-    js: string, 
-    css: string = ''
+    js: string = '', 
+    css: string = '',
+    files: ProjectFile[] = [],
+    options: { onOutput?: OutputListener; env?: Record<string, string> } = {}
   ): Promise<ExecutionResult> {
     if (!this.isReady()) {
       throw new Error('Runner not initialized. Call initialize() first.');
     }
 
-    const projectTree = {
+    const startTime = Date.now();
+    const projectTree: FileSystemTree = {
+      ...this.fileSystemManager!.getProjectTree('web-project', files, 'index.html'),
       'package.json': {
         file: {
           contents: JSON.stringify({
@@ -309,11 +768,13 @@ export class WebContainerRunner {
           contents: html
         }
       },
-      'index.js': {
-        file: {
-          contents: this.babelTransformer.transformCode(js)
+      ...(js && {
+        'index.js': {
+          file: {
+            contents: this.babelTransformer.transformCode(js)
+          }
         }
-      },
+      }),
       ...(css && {
         'styles.css': {
           file: {
@@ -324,9 +785,261 @@ export class WebContainerRunner {
     };
 
     await this.fileSystemManager!.mountFiles(projectTree);
-    await this.installDependencies();
+    await this.installDependencies([], options.env);
+
+    // Only one static server at a time: restart it with the new files
+    this.webServerProcess?.kill();
+
+    const serverOutput: string[] = [];
+    this.webServerProcess = await this.processManager!.spawnBackground(
+      'npx',
+      ['--yes', 'serve', '.', '--port', String(WEB_PROJECT_PORT)],
+      {
+        env: this.withEnvironment(options.env),
+        onOutput: event => {
+          serverOutput.push(event.content);
+          options.onOutput?.(event);
+        }
+      }
+    );
+
+    try {
+      const server = await this.previewTracker!.waitForServer(WEB_PROJECT_PORT, WEB_SERVER_READY_TIMEOUT);
+      return {
+        success: true,
+        output: [...serverOutput, `Preview ready at ${server.url}`].join('\n'),
+        duration: Date.now() - startTime,
+        timestamp: new Date(),
+        status: 'running'
+      };
+    } catch (error) {
+      this.webServerProcess?.kill();
+      this.webServerProcess = null;
+      return {
+        success: false,
+        output: serverOutput.join('\n'),
+        error: error instanceof Error ? error.message : 'Web server failed to start',
+        duration: Date.now() - startTime,
+        timestamp: new Date(),
+        status: 'error'
+      };
+    }
+  }
+
+  /**
+   * Servers currently listening inside the container
+   */
+  public getPreviewServers(): PreviewServer[] {
+    return this.previewTracker?.getServers() || [];
+  }
 
-    return this.processManager!.execute('npx', ['serve', '.', '--port', '3000']);
+  /**
+   * Subscribe to ports opened/closed by any process in the container.
+   * Returns an unsubscribe function.
+   */
+  public onPreviewServersChange(listener: PreviewServerListener): () => void {
+    if (!this.previewTracker) {
+      return () => undefined;
+    }
+    return this.previewTracker.subscribe(listener);
+  }
+
+  /**
+   * Open an interactive `jsh` shell in the same container the code runs in
+   */
+  public async createTerminalSession(
+    dimensions: TerminalDimensions = { cols: 80, rows: 24 }
+  ): Promise<TerminalSession> {
+    const container = this.containerManager.getInstance();
+    if (!this.isReady() || !container) {
+      throw new Error('Runner not initialized. Call initialize() first.');
+    }
+
+    this.terminalCounter++;
+    const session = new TerminalSession(
+      container,
+      `terminal-${Date.now()}-${this.terminalCounter}`,
+      `jsh ${this.terminalCounter}`,
+      dimensions,
+      this.withEnvironment()
+    );
+
+    await session.start();
+    this.terminalSessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Get the open terminal sessions, oldest first
+   */
+  public getTerminalSessions(): TerminalSession[] {
+    return [...this.terminalSessions.values()];
+  }
+
+  /**
+   * Kill a terminal session's shell and forget it
+   */
+  public closeTerminalSession(id: string): void {
+    const session = this.terminalSessions.get(id);
+    if (session) {
+      session.dispose();
+      this.terminalSessions.delete(id);
+    }
+  }
+
+  /**
+   * Evaluate JavaScript/TypeScript in a REPL session: a Node process that
+   * stays alive between calls, so variables and whatever the code set up are
+   * kept. Only the top-level statements that changed since the session's
+   * last run are evaluated, or all of them for a selection. The session
+   * starts on first use; stdin carries its requests, so input can't be sent.
+   */
+  public async evaluateInSession(
+    sessionId: string,
+    code: string,
+    language: SupportedLanguage = 'javascript',
+    options: ReplEvaluateOptions = {}
+  ): Promise<ExecutionResult> {
+    const container = this.containerManager.getInstance();
+    if (!this.isReady() || !container) {
+      throw new Error('Runner not initialized. Call initialize() first.');
+    }
+    if (language !== 'javascript' && language !== 'typescript') {
+      throw new Error(`REPL sessions only run JavaScript and TypeScript, not ${language}`);
+    }
+
+    const filename = options.filename || `main.${LANGUAGE_CONFIGS[language].extension}`;
+    const onOutput = options.onOutput && withoutRuntimeMarkers(options.onOutput);
+    const startTime = Date.now();
+
+    try {
+      // Types are stripped from the whole program at once: an import used only as a type goes away
+      const compiled = language === 'typescript'
+        ? this.babelTransformer.transformTypeScriptWithMap(code, { presets: [], filename })
+        : { code, map: null };
+      const statements = createReplStatements(compiled.code);
+
+      // Sessions share node_modules: what earlier runs installed stays in package.json
+      const { dependencies } = analyzeDependencies(code, options.dependencies);
+      const missing = dependencies.filter(dependency => this.replDependencies[dependency.name] !== dependency.version);
+      if (missing.length > 0) {
+        this.emitLog(onOutput, `Dependencies: ${formatDependencyList(missing)}`);
+        this.emitLog(onOutput, 'Installing dependencies...');
+        missing.forEach(dependency => {
+          this.replDependencies[dependency.name] = dependency.version;
+        });
+        const installed = Object.entries(this.replDependencies).map(([name, version]) => ({ name, version }));
+        await this.installForRun(installed, options.env, onOutput);
+      }
+
+      const session = this.getReplSession(sessionId, container);
+      session.setEnvironment(this.withEnvironment(options.env));
+      const pending = options.selection ? statements : session.getChangedStatements(statements);
+      this.emitLog(onOutput, options.selection
+        ? 'REPL session: evaluating the selection'
+        : pending.length > 0
+          ? `REPL session: ${pending.length} changed statement${pending.length === 1 ? '' : 's'}`
+          : 'REPL session: no statements changed since the last run');
+
+      const evaluation = await session.evaluate(pending, {
+        filename,
+        onOutput,
+        program: options.selection ? undefined : statements
+      });
+      const result: ExecutionResult = {
+        success: evaluation.success,
+        output: evaluation.output,
+        error: evaluation.error,
+        duration: Date.now() - startTime,
+        timestamp: new Date(),
+        status: evaluation.status
+      };
+      if (!evaluation.success && evaluation.status !== 'killed') {
+        const sources = [{ path: filename, source: filename, maps: new SourceMapChain([compiled.map]) }];
+        result.errorDetails = resolveRuntimeError(evaluation.output, sources) || undefined;
+      }
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        output: '',
+        error: error instanceof Error ? error.message : 'Unknown execution error',
+        duration: Date.now() - startTime,
+        timestamp: new Date(),
+        status: 'error'
+      };
+    }
+  }
+
+  /**
+   * Drop a REPL session's variables; its process keeps running
+   */
+  public async resetReplSession(sessionId: string): Promise<void> {
+    await this.replSessions.get(sessionId)?.reset();
+  }
+
+  /**
+   * Start a REPL session's process over (or start it, if it isn't running)
+   */
+  public async restartReplSession(sessionId: string): Promise<void> {
+    const container = this.containerManager.getInstance();
+    if (!this.isReady() || !container) {
+      throw new Error('Runner not initialized. Call initialize() first.');
+    }
+
+    await this.getReplSession(sessionId, container).restart();
+  }
+
+  /**
+   * Kill a REPL session's process and forget it
+   */
+  public closeReplSession(sessionId: string): void {
+    const session = this.replSessions.get(sessionId);
+    if (session) {
+      session.dispose();
+      this.replSessions.delete(sessionId);
+      this.notifyReplSessions();
+    }
+  }
+
+  /**
+   * State of every REPL session
+   */
+  public getReplSessions(): ReplSessionInfo[] {
+    return [...this.replSessions.values()].map(session => session.getInfo());
+  }
+
+  /**
+   * Subscribe to REPL sessions starting, stopping or evaluating.
+   * Returns an unsubscribe function.
+   */
+  public onReplSessionsChange(listener: ReplSessionsListener): () => void {
+    this.replListeners.add(listener);
+    return () => this.replListeners.delete(listener);
+  }
+
+  private getReplSession(sessionId: string, container: WebContainerInstance): ReplSession {
+    let session = this.replSessions.get(sessionId);
+    if (!session) {
+      session = new ReplSession(container, sessionId, {
+        timeout: this.config.timeout,
+        maxOutputSize: this.config.maxOutputSize
+      });
+      session.onChange(() => this.notifyReplSessions());
+      this.replSessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  private notifyReplSessions(): void {
+    const sessions = this.getReplSessions();
+    this.replListeners.forEach(listener => {
+      try {
+        listener(sessions);
+      } catch (error) {
+        console.warn('Error in REPL session listener:', error);
+      }
+    });
   }
 
   /**
@@ -344,6 +1057,17 @@ export class WebContainerRunner {
    * Cleanup resources
    */
   public async cleanup(): Promise<void> {
+    this.pythonRunner.cleanup();
+    this.terminalSessions.forEach(session => session.dispose());
+    this.terminalSessions.clear();
+    this.replSessions.forEach(session => session.dispose());
+    this.replSessions.clear();
+    this.replDependencies = {};
+    this.notifyReplSessions();
+    this.processManager?.killBackgroundProcesses();
+    this.webServerProcess = null;
+    this.previewTracker?.stop();
+    this.previewTracker = null;
     await this.containerManager.forceCleanup();
     this.isInitialized = false;
     this.fileSystemManager = null;
@@ -0,0 +1,175 @@
+/**
+ * WorkspaceSnapshot - The container file system as a single compressed file
+ *
+ * A snapshot is the FileSystemTree exported from the container (sources,
+ * generated files and, optionally, node_modules) written as JSON and
+ * gzip-compressed. Binary file contents don't survive JSON, so they are
+ * stored Base64-encoded and decoded again when the snapshot is read.
+ */
+
+import type { FileSystemTree, WorkspaceSnapshotInfo } from './types.js';
+
+const SNAPSHOT_FORMAT = 'orbis-workspace-snapshot';
+const SNAPSHOT_VERSION = 1;
+
+// Glob patterns given to `container.export` to leave installed packages out
+export const NODE_MODULES_EXCLUDES = ['**/node_modules/**'];
+
+// FileSystemTree as stored in the file: binary contents become `base64`
+type StoredNode =
+  | { directory: StoredTree }
+  | { file: { contents: string } }
+  | { file: { base64: string } }
+  | { file: { symlink: string } };
+
+interface StoredTree {
+  [name: string]: StoredNode;
+}
+
+interface SnapshotFile {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  createdAt: string;
+  includesNodeModules: boolean;
+  tree: StoredTree;
+}
+
+/**
+ * Serialize an exported tree into a gzip-compressed snapshot
+ */
+export async function createWorkspaceSnapshot(
+  tree: FileSystemTree,
+  options: { includesNodeModules: boolean }
+): Promise<Uint8Array> {
+  const snapshot: SnapshotFile = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    includesNodeModules: options.includesNodeModules,
+    tree: encodeTree(tree)
+  };
+
+  return transformBytes(new TextEncoder().encode(JSON.stringify(snapshot)), new CompressionStream('gzip'));
+}
+
+/**
+ * Decompress and validate a snapshot, returning the tree to mount
+ */
+export async function readWorkspaceSnapshot(
+  data: Uint8Array | ArrayBuffer
+): Promise<{ tree: FileSystemTree; info: WorkspaceSnapshotInfo }> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  let snapshot: Partial<SnapshotFile>;
+  try {
+    const json = await transformBytes(bytes, new DecompressionStream('gzip'));
+    snapshot = JSON.parse(new TextDecoder().decode(json));
+  } catch (error) {
+    throw new Error(`Invalid workspace snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (snapshot?.format !== SNAPSHOT_FORMAT || typeof snapshot.tree !== 'object' || !snapshot.tree) {
+    throw new Error('Invalid workspace snapshot: not an OrbisJS snapshot file');
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported workspace snapshot version ${snapshot.version}`);
+  }
+
+  let tree: FileSystemTree;
+  try {
+    tree = decodeTree(snapshot.tree);
+  } catch (error) {
+    throw new Error(`Invalid workspace snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return {
+    tree,
+    info: {
+      createdAt: new Date(snapshot.createdAt || 0),
+      includesNodeModules: !!snapshot.includesNodeModules,
+      fileCount: countFiles(tree),
+      size: bytes.byteLength
+    }
+  };
+}
+
+/**
+ * Number of files (and symlinks) in a tree
+ */
+export function countFiles(tree: FileSystemTree): number {
+  return Object.values(tree).reduce(
+    (count, node) => count + ('directory' in node ? countFiles(node.directory) : 1),
+    0
+  );
+}
+
+async function transformBytes(data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function encodeTree(tree: FileSystemTree): StoredTree {
+  const stored: StoredTree = {};
+
+  for (const [name, node] of Object.entries(tree)) {
+    if ('directory' in node) {
+      stored[name] = { directory: encodeTree(node.directory) };
+    } else if ('symlink' in node.file) {
+      stored[name] = { file: { symlink: node.file.symlink } };
+    } else if (typeof node.file.contents === 'string') {
+      stored[name] = { file: { contents: node.file.contents } };
+    } else {
+      stored[name] = { file: { base64: toBase64(node.file.contents) } };
+    }
+  }
+
+  return stored;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The file may come from anywhere, so every node is checked before it is mounted
+function decodeTree(stored: Record<string, unknown>, path = ''): FileSystemTree {
+  const tree: FileSystemTree = {};
+
+  for (const [name, node] of Object.entries(stored)) {
+    const nodePath = path + name;
+    if (isRecord(node) && isRecord(node.directory)) {
+      tree[name] = { directory: decodeTree(node.directory, `${nodePath}/`) };
+      continue;
+    }
+
+    const file = isRecord(node) && isRecord(node.file) ? node.file : null;
+    if (typeof file?.symlink === 'string') {
+      tree[name] = { file: { symlink: file.symlink } };
+    } else if (typeof file?.base64 === 'string') {
+      tree[name] = { file: { contents: fromBase64(file.base64) } };
+    } else if (typeof file?.contents === 'string') {
+      tree[name] = { file: { contents: file.contents } };
+    } else {
+      throw new Error(`malformed entry "${nodePath}"`);
+    }
+  }
+
+  return tree;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  // btoa takes a binary string; build it in chunks to stay under the argument limit
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
@@ -0,0 +1,167 @@
+// @vitest-environment node
+/**
+ * Package Cache Tests
+ * Verifies how installed packages are read from node_modules and which cached
+ * entries a repeat install is served from
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getPackageName,
+  readInstalledPackages,
+  findCachedPackage,
+  resolveCachedPackages,
+  pinDependencies,
+  getBinLinks,
+  type PackageDirectoryReader
+} from '../PackageCache';
+import type { CachedPackage } from '../types';
+
+/**
+ * Reader over an in-memory file system (path -> file contents)
+ */
+function memoryReader(files: Record<string, string>): PackageDirectoryReader {
+  return {
+    readdir: async directory => {
+      const prefix = `${directory}/`;
+      const names = Object.keys(files)
+        .filter(file => file.startsWith(prefix))
+        .map(file => file.slice(prefix.length).split('/')[0]);
+      if (names.length === 0) {
+        throw new Error(`ENOENT: ${directory}`);
+      }
+      return [...new Set(names)];
+    },
+    readFile: async file => {
+      if (!(file in files)) {
+        throw new Error(`ENOENT: ${file}`);
+      }
+      return files[file];
+    }
+  };
+}
+
+function cachedEntry(name: string, version: string, requires: string[] = [], cachedAt = 1): CachedPackage {
+  return { name, version, requires, bin: {}, size: 1, cachedAt: new Date(cachedAt), lastUsed: new Date(cachedAt) };
+}
+
+describe('PackageCache', () => {
+  describe('getPackageName', () => {
+    it('should take the package of bare and scoped specifiers', () => {
+      expect(getPackageName('lodash/fp')).toBe('lodash');
+      expect(getPackageName('@scope/pkg/sub/path')).toBe('@scope/pkg');
+      expect(getPackageName('./local')).toBeNull();
+      expect(getPackageName('node:fs')).toBeNull();
+    });
+  });
+
+  describe('readInstalledPackages', () => {
+    it('should list top-level and scoped packages with the top-level packages they need', async () => {
+      const packages = await readInstalledPackages(memoryReader({
+        'node_modules/.package-lock.json': '{}',
+        'node_modules/express/package.json': JSON.stringify({ version: '4.18.2', dependencies: { 'body-parser': '^1', debug: '2.6.9' } }),
+        'node_modules/express/node_modules/debug/package.json': JSON.stringify({ version: '2.6.9' }),
+        'node_modules/body-parser/package.json': JSON.stringify({ version: '1.20.1', peerDependencies: { '@types/node': '*' } }),
+        'node_modules/debug/package.json': JSON.stringify({ version: '4.3.4' }),
+        'node_modules/@types/node/package.json': JSON.stringify({ version: '20.0.0' }),
+        'node_modules/broken/package.json': '{ not json'
+      }));
+
+      expect(packages).toEqual([
+        { name: 'express', version: '4.18.2', requires: ['body-parser'], bin: {} },
+        { name: 'body-parser', version: '1.20.1', requires: ['@types/node'], bin: {} },
+        { name: 'debug', version: '4.3.4', requires: [], bin: {} },
+        { name: '@types/node', version: '20.0.0', requires: [], bin: {} }
+      ]);
+    });
+
+    it('should read the commands of the bin field', async () => {
+      const packages = await readInstalledPackages(memoryReader({
+        'node_modules/@scope/tool/package.json': JSON.stringify({ version: '1.0.0', bin: './bin/tool.js' }),
+        'node_modules/multi/package.json': JSON.stringify({ version: '1.0.0', bin: { one: 'one.js', '../escape': 'x.js', two: '../../outside.js' } })
+      }));
+
+      expect(packages.map(pkg => pkg.bin)).toEqual([
+        { tool: 'bin/tool.js' },
+        { one: 'one.js' }
+      ]);
+    });
+  });
+
+  describe('findCachedPackage', () => {
+    it('should pick the exact version, or the most recently cached one for latest', () => {
+      const cached = [
+        cachedEntry('react', '18.2.0', [], 3),
+        cachedEntry('react', '17.0.2', [], 1),
+        cachedEntry('react', '18.3.1', [], 2)
+      ];
+
+      expect(findCachedPackage(cached, 'react', '17.0.2')?.version).toBe('17.0.2');
+      expect(findCachedPackage(cached, 'react')?.version).toBe('18.2.0');
+      expect(findCachedPackage(cached, 'react', '^18')).toBeUndefined();
+    });
+  });
+
+  describe('resolveCachedPackages', () => {
+    it('should follow what each package requires, transitively', () => {
+      const cached = [
+        cachedEntry('express', '4.18.2', ['body-parser']),
+        cachedEntry('body-parser', '1.20.1', ['bytes']),
+        cachedEntry('bytes', '3.1.2'),
+        cachedEntry('unrelated', '1.0.0')
+      ];
+
+      const { packages, missing } = resolveCachedPackages(cached, { express: '4.18.2' });
+
+      expect(packages.map(pkg => pkg.name)).toEqual(['express', 'body-parser', 'bytes']);
+      expect(missing).toEqual([]);
+    });
+
+    it('should report missing packages, needed ones included', () => {
+      const cached = [cachedEntry('@scope/app', '1.0.0', ['@scope/core'])];
+
+      expect(resolveCachedPackages(cached, { '@scope/app': 'latest', lodash: '4.17.21' }).missing)
+        .toEqual(['lodash', '@scope/core']);
+      expect(resolveCachedPackages(cached, { '@scope/app': '2.0.0' }).missing).toEqual(['@scope/app']);
+    });
+
+    it('should use the latest cached version of needed packages', () => {
+      const cached = [
+        cachedEntry('app', '1.0.0', ['shared']),
+        cachedEntry('shared', '1.0.0', [], 1),
+        cachedEntry('shared', '2.0.0', [], 2)
+      ];
+
+      const { packages } = resolveCachedPackages(cached, { app: '1.0.0' });
+      expect(packages.find(pkg => pkg.name === 'shared')?.version).toBe('2.0.0');
+    });
+
+    it('should not serve entries cached without their commands', () => {
+      const cached = [{ ...cachedEntry('old', '1.0.0'), bin: undefined }];
+      expect(resolveCachedPackages(cached, { old: '1.0.0' }).missing).toEqual(['old']);
+    });
+  });
+
+  describe('pinDependencies', () => {
+    it('should pin latest to the cached version and keep the rest as given', () => {
+      const cached = [cachedEntry('react', '18.2.0'), cachedEntry('@scope/ui', '0.1.0')];
+
+      expect(pinDependencies(cached, { react: 'latest', '@scope/ui': 'latest', vue: 'latest', lodash: '^4' }))
+        .toEqual({ react: '18.2.0', '@scope/ui': '0.1.0', vue: 'latest', lodash: '^4' });
+    });
+  });
+
+  describe('getBinLinks', () => {
+    it('should point each command at its file from node_modules/.bin', () => {
+      expect(getBinLinks([
+        { name: 'typescript', bin: { tsc: 'bin/tsc', tsserver: 'bin/tsserver' } },
+        { name: '@scope/tool', bin: { tool: 'cli.js' } },
+        { name: 'legacy' }
+      ])).toEqual({
+        tsc: '../typescript/bin/tsc',
+        tsserver: '../typescript/bin/tsserver',
+        tool: '../@scope/tool/cli.js'
+      });
+    });
+  });
+});
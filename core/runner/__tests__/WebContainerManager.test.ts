@@ -0,0 +1,102 @@
+// @vitest-environment node
+/**
+ * WebContainer Manager Tests
+ * Verifies that the boot snapshot is saved and mounted again by the next session
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createWorkspaceSnapshot } from '../WorkspaceSnapshot';
+import type { FileSystemTree } from '../types';
+
+const saved = vi.hoisted(() => ({ data: null as Uint8Array | null }));
+const mounted = vi.hoisted(() => [] as unknown[]);
+
+vi.mock('../IndexedDBBootSnapshot', () => ({
+  IndexedDBBootSnapshot: class {
+    static isAvailable() {
+      return true;
+    }
+    async load() {
+      return saved.data;
+    }
+    async save(data: Uint8Array) {
+      saved.data = data;
+    }
+    async clear() {
+      saved.data = null;
+    }
+  }
+}));
+
+vi.mock('@webcontainer/api', () => ({
+  WebContainer: {
+    boot: async () => ({
+      fs: {
+        writeFile: async () => {},
+        readFile: async () => '',
+        rm: async () => {}
+      },
+      mount: async (tree: unknown) => {
+        mounted.push(tree);
+      },
+      teardown: () => {}
+    })
+  }
+}));
+
+const tree: FileSystemTree = { 'main.js': { file: { contents: "console.log('hi');\n" } } };
+
+// A new session: the manager and its singleton state start over
+async function newSession() {
+  vi.resetModules();
+  const { WebContainerManager } = await import('../WebContainerManager');
+  return WebContainerManager.getInstance();
+}
+
+describe('WebContainerManager', () => {
+  beforeEach(() => {
+    saved.data = null;
+    mounted.length = 0;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should mount the snapshot saved by a previous session on the first boot', async () => {
+    const previous = await newSession();
+    await previous.setBootSnapshot(tree, await createWorkspaceSnapshot(tree, { includesNodeModules: false }));
+
+    const manager = await newSession();
+    expect(manager.hasBootSnapshot()).toBe(false);
+    await manager.initialize();
+
+    expect(mounted).toEqual([tree]);
+    expect(manager.hasBootSnapshot()).toBe(true);
+  });
+
+  it('should boot empty once the snapshot is cleared', async () => {
+    const previous = await newSession();
+    await previous.setBootSnapshot(tree, await createWorkspaceSnapshot(tree, { includesNodeModules: false }));
+    await previous.setBootSnapshot(null);
+
+    const manager = await newSession();
+    await manager.initialize();
+
+    expect(saved.data).toBeNull();
+    expect(mounted).toEqual([]);
+    expect(manager.hasBootSnapshot()).toBe(false);
+  });
+
+  it('should boot empty when the saved snapshot is unreadable', async () => {
+    saved.data = new Uint8Array([1, 2, 3]);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const manager = await newSession();
+    await manager.initialize();
+
+    expect(mounted).toEqual([]);
+    expect(warn).toHaveBeenCalledWith('⚠️ Failed to load saved workspace snapshot:', expect.any(Error));
+  });
+});
@@ -0,0 +1,85 @@
+// @vitest-environment node
+/**
+ * Workspace Snapshot Tests
+ * Verifies that a tree survives a snapshot round trip and that malformed files are rejected
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createWorkspaceSnapshot, readWorkspaceSnapshot, countFiles } from '../WorkspaceSnapshot';
+import type { FileSystemTree } from '../types';
+
+async function gzipJson(value: unknown): Promise<Uint8Array> {
+  const stream = new Blob([JSON.stringify(value)]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function snapshotFile(tree: unknown): Promise<Uint8Array> {
+  return gzipJson({ format: 'orbis-workspace-snapshot', version: 1, createdAt: '2024-01-01T00:00:00.000Z', includesNodeModules: false, tree });
+}
+
+describe('WorkspaceSnapshot', () => {
+  describe('round trip', () => {
+    it('should restore text files, binary files and symlinks', async () => {
+      const binary = new Uint8Array(256).map((_, index) => index);
+      const tree: FileSystemTree = {
+        'main.js': { file: { contents: "console.log('hi');\n" } },
+        'logo.png': { file: { contents: binary } },
+        src: {
+          directory: {
+            'util.js': { file: { contents: 'export const one = 1;' } },
+            'current.js': { file: { symlink: './util.js' } }
+          }
+        }
+      };
+
+      const data = await createWorkspaceSnapshot(tree, { includesNodeModules: true });
+      const { tree: restored, info } = await readWorkspaceSnapshot(data);
+
+      expect(restored).toEqual(tree);
+      expect((restored['logo.png'] as { file: { contents: Uint8Array } }).file.contents).toBeInstanceOf(Uint8Array);
+      expect(info.includesNodeModules).toBe(true);
+      expect(info.fileCount).toBe(4);
+      expect(info.size).toBe(data.byteLength);
+    });
+
+    it('should accept the snapshot as an ArrayBuffer', async () => {
+      const data = await createWorkspaceSnapshot({ 'a.txt': { file: { contents: 'a' } } }, { includesNodeModules: false });
+      const { tree } = await readWorkspaceSnapshot(data.slice().buffer);
+
+      expect(tree).toEqual({ 'a.txt': { file: { contents: 'a' } } });
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject data that is not a gzip-compressed snapshot', async () => {
+      await expect(readWorkspaceSnapshot(new TextEncoder().encode('plain text'))).rejects.toThrow('Invalid workspace snapshot');
+      await expect(readWorkspaceSnapshot(await gzipJson({ tree: {} }))).rejects.toThrow('not an OrbisJS snapshot file');
+    });
+
+    it('should reject snapshots of another version', async () => {
+      const data = await gzipJson({ format: 'orbis-workspace-snapshot', version: 2, tree: {} });
+      await expect(readWorkspaceSnapshot(data)).rejects.toThrow('Unsupported workspace snapshot version 2');
+    });
+
+    it('should reject malformed nodes with the path of the entry', async () => {
+      await expect(readWorkspaceSnapshot(await snapshotFile({ x: {} }))).rejects.toThrow('Invalid workspace snapshot: malformed entry "x"');
+      await expect(readWorkspaceSnapshot(await snapshotFile({ src: { directory: { 'a.js': { file: { contents: 1 } } } } })))
+        .rejects.toThrow('malformed entry "src/a.js"');
+      await expect(readWorkspaceSnapshot(await snapshotFile({ x: null }))).rejects.toThrow('malformed entry "x"');
+    });
+
+    it('should reject invalid Base64 contents', async () => {
+      await expect(readWorkspaceSnapshot(await snapshotFile({ 'a.bin': { file: { base64: '***' } } })))
+        .rejects.toThrow('Invalid workspace snapshot');
+    });
+  });
+
+  describe('countFiles', () => {
+    it('should count files and symlinks in every directory', () => {
+      expect(countFiles({
+        a: { file: { contents: '' } },
+        b: { directory: { c: { file: { symlink: '../a' } }, d: { directory: {} } } }
+      })).toBe(2);
+    });
+  });
+});
@@ -3,7 +3,7 @@
  * Componentized version using modular architecture
  */
 
-import type { WebContainerRunner } from '../WebContainerRunner.js';
+import type { CodeRunner } from '../types.js';
 import type { ExecutionResult, SupportedLanguage } from '../types.js';
 import type {
   ExecutionStrategy,
@@ -14,6 +14,7 @@ import type {
   BeforeExecutionCallback,
   AfterExecutionCallback,
   ExecutionErrorCallback,
+  ExecutionOutputCallback,
   AutoExecutionConfig,
   ExecutionMetrics,
   ExecutionProgress,
@@ -29,6 +30,7 @@ import { FileWatcher } from './FileWatcher.js';
 import { MetricsCollector } from './MetricsCollector.js';
 import { IntelligentScheduler } from './IntelligentScheduler.js';
 import { BatchProcessor } from './BatchProcessor.js';
+import { LanguageDetector } from '../babel/LanguageDetector.js';
 
 /**
  * Default configuration for auto-execution
@@ -43,7 +45,7 @@ const DEFAULT_CONFIG: AutoExecutionConfig = {
     batchWindow: 2000,
     dependencyResolution: true
   },
-  watchPatterns: ['**/*.js', '**/*.ts', '**/*.jsx', '**/*.tsx'],
+  watchPatterns: ['**/*.js', '**/*.ts', '**/*.jsx', '**/*.tsx', '**/*.py'],
   ignorePatterns: ['**/node_modules/**', '**/dist/**', '**/.git/**'],
   debounceDelay: 1000,
   maxRetries: 3,
@@ -60,14 +62,23 @@ const DEFAULT_BATCH_CONFIG: BatchExecutionConfig = {
   parallelExecution: false // Sequential execution for better error tracking
 };
 
+// How long a cancelled run may take to report its killed result before giving up on it
+const CANCEL_GRACE_PERIOD = 2000;
+
 /**
  * AutoExecutionManager - Manages automatic code execution with file watching
  * Now using componentized architecture for better maintainability
  */
 export class AutoExecutionManager {
-  private _runner: WebContainerRunner;
+  private _runner: CodeRunner;
   private config: AutoExecutionConfig;
   private cancellationToken: SimpleCancellationToken | null = null;
+  private runningEntry: ExecutionQueueEntry | null = null;
+  private stdinFixtures = new Map<string, string>();
+  private loopGuardOverrides = new Map<string, boolean>();
+  private environments = new Map<string, Record<string, string>>();
+  private dependencyManifests = new Map<string, Record<string, string>>();
+  private languageDetector = new LanguageDetector();
   
   // Components
   private executionQueue: ExecutionQueue;
@@ -80,8 +91,9 @@ export class AutoExecutionManager {
   private beforeExecutionCallbacks: BeforeExecutionCallback[] = [];
   private afterExecutionCallbacks: AfterExecutionCallback[] = [];
   private executionErrorCallbacks: ExecutionErrorCallback[] = [];
+  private executionOutputCallbacks: ExecutionOutputCallback[] = [];
 
-  constructor(runner: WebContainerRunner, config: Partial<AutoExecutionConfig> = {}) {
+  constructor(runner: CodeRunner, config: Partial<AutoExecutionConfig> = {}) {
     this._runner = runner;
     this.config = { ...DEFAULT_CONFIG, ...config };
     
@@ -124,7 +136,7 @@ export class AutoExecutionManager {
   /**
    * Get the runner instance
    */
-  public get runner(): WebContainerRunner {
+  public get runner(): CodeRunner {
     return this._runner;
   }
 
@@ -268,7 +280,7 @@ export class AutoExecutionManager {
     console.log('🚀 executeNow called with:', { filePath, hasContent: !!content, runnerReady: this._runner.isReady() });
     
     if (!this._runner.isReady()) {
-      const error = 'WebContainerRunner is not ready';
+      const error = 'Runner is not ready';
       console.error('❌', error);
       throw new Error(error);
     }
@@ -301,10 +313,15 @@ export class AutoExecutionManager {
   public cancelExecution(): void {
     console.log('🛑 Cancelling execution...');
     
-    // Cancel current execution
+    // Cancel current execution and terminate its process
     if (this.cancellationToken) {
       this.cancellationToken.cancel();
     }
+    if (this.runningEntry) {
+      this._runner.stopExecution().catch(error => {
+        console.warn('⚠️ Failed to stop running process:', error);
+      });
+    }
     
     // Clear all queues and timers
     this.clearQueue();
@@ -396,6 +413,59 @@ export class AutoExecutionManager {
     this.executionErrorCallbacks.push(callback);
   }
 
+  /**
+   * Register live output callback, invoked for every line the running code prints
+   */
+  public onExecutionOutput(callback: ExecutionOutputCallback): void {
+    this.executionOutputCallbacks.push(callback);
+  }
+
+  /**
+   * Set the stdin fixture fed to every run of a file (undefined or empty removes it)
+   */
+  public setStdinFixture(filePath: string, stdin?: string): void {
+    if (stdin) {
+      this.stdinFixtures.set(filePath, stdin);
+    } else {
+      this.stdinFixtures.delete(filePath);
+    }
+  }
+
+  /**
+   * Set the environment variables of every run of a file (undefined removes them)
+   */
+  public setEnvironment(filePath: string, env?: Record<string, string>): void {
+    if (env) {
+      this.environments.set(filePath, env);
+    } else {
+      this.environments.delete(filePath);
+    }
+  }
+
+  /**
+   * Set the package versions (name -> version) of every run of a file; `// @version`
+   * comments in the code still take precedence (undefined removes them)
+   */
+  public setDependencies(filePath: string, dependencies?: Record<string, string>): void {
+    if (dependencies) {
+      this.dependencyManifests.set(filePath, dependencies);
+    } else {
+      this.dependencyManifests.delete(filePath);
+    }
+  }
+
+  /**
+   * Turn the loop guard on or off for a file (undefined restores the default: on,
+   * so a half-typed `while (true)` doesn't block the queue until the timeout)
+   */
+  public setLoopGuard(filePath: string, enabled?: boolean): void {
+    if (enabled === undefined) {
+      this.loopGuardOverrides.delete(filePath);
+    } else {
+      this.loopGuardOverrides.set(filePath, enabled);
+    }
+  }
+
   /**
    * Register progress callback
    */
@@ -566,16 +636,19 @@ export class AutoExecutionManager {
 
       // Check for cancellation before execution
       if (this.cancellationToken.isCancelled) {
-        return this.createCancelledResult();
+        return this.finishCancelled(entry, this.createCancelledResult());
       }
 
       // Execute the code
-      const result = await this.executeWithTimeout(entry);
+      this.runningEntry = entry;
+      const result = await this.executeWithTimeout(entry).finally(() => {
+        this.runningEntry = null;
+      });
       const duration = Date.now() - startTime;
       
       // Check for cancellation after execution
-      if (this.cancellationToken.isCancelled) {
-        return this.createCancelledResult();
+      if (this.cancellationToken.isCancelled || result.status === 'killed') {
+        return this.finishCancelled(entry, result);
       }
       
       // Update metrics and tracking
@@ -636,14 +709,16 @@ export class AutoExecutionManager {
       // Set up timeout
       const timeoutId = setTimeout(() => {
         console.warn(`⏰ Execution timeout for ${entry.filePath} after ${timeout}ms`);
+        this._runner.stopExecution().catch(() => undefined);
         reject(new Error(`Execution timeout after ${timeout}ms`));
       }, timeout);
       
-      // Set up cancellation
+      // Set up cancellation: the runner resolves with a killed result that keeps
+      // the output printed so far; fall back to an empty one if it never arrives
       const cancellationCallback = () => {
         clearTimeout(timeoutId);
         console.log(`🛑 Execution cancelled for ${entry.filePath}`);
-        resolve(this.createCancelledResult());
+        setTimeout(() => resolve(this.createCancelledResult()), CANCEL_GRACE_PERIOD);
       };
       
       if (this.cancellationToken) {
@@ -658,7 +733,24 @@ export class AutoExecutionManager {
       this._runner.runCode(
         entry.code,
         entry.language as SupportedLanguage,
-        { filename }
+        {
+          filename,
+          stdin: this.stdinFixtures.get(entry.filePath),
+          loopGuard: this.loopGuardOverrides.get(entry.filePath) ?? true,
+          env: this.environments.get(entry.filePath),
+          dependencies: this.dependencyManifests.get(entry.filePath),
+          // Test files run with the built-in harness, so saving a test re-runs it
+          testMode: this.languageDetector.isTestCode(entry.code),
+          onOutput: event => {
+            for (const callback of this.executionOutputCallbacks) {
+              try {
+                callback(entry, event);
+              } catch (error) {
+                console.warn('Error in execution output callback:', error);
+              }
+            }
+          }
+        }
       ).then(result => {
         clearTimeout(timeoutId);
         resolve(result);
@@ -678,10 +770,29 @@ export class AutoExecutionManager {
       output: '',
       error: 'Execution cancelled',
       duration: 0,
-      timestamp: new Date()
+      timestamp: new Date(),
+      status: 'killed'
     };
   }
 
+  /**
+   * Private: Report a cancelled execution to after-execution listeners so the UI
+   * leaves its running state, keeping any output produced before the stop
+   */
+  private async finishCancelled(entry: ExecutionQueueEntry, result: ExecutionResult): Promise<ExecutionResult> {
+    const cancelledResult: ExecutionResult = { ...result, success: false, status: 'killed' };
+
+    for (const callback of this.afterExecutionCallbacks) {
+      try {
+        await callback(entry, cancelledResult);
+      } catch (error) {
+        console.warn('Error in after execution callback:', error);
+      }
+    }
+
+    return cancelledResult;
+  }
+
   /**
    * Private: Create execution entry
    */
@@ -3,7 +3,7 @@
  * Defines interfaces for file watching, execution strategies, and status tracking
  */
 
-import type { ExecutionResult } from '../types.js';
+import type { ExecutionResult, OutputEvent } from '../types.js';
 
 // Execution strategies
 export interface ExecutionStrategy {
@@ -59,6 +59,7 @@ export interface FileChangeEvent {
 export type BeforeExecutionCallback = (entry: ExecutionQueueEntry) => Promise<boolean> | boolean;
 export type AfterExecutionCallback = (entry: ExecutionQueueEntry, result: ExecutionResult) => Promise<void> | void;
 export type ExecutionErrorCallback = (entry: ExecutionQueueEntry, error: Error) => Promise<void> | void;
+export type ExecutionOutputCallback = (entry: ExecutionQueueEntry, event: OutputEvent) => void;
 
 // Auto-execution configuration
 export interface AutoExecutionConfig {
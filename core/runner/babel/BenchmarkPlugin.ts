@@ -0,0 +1,312 @@
+/**
+ * BenchmarkPlugin - Times marked functions, or a whole program, inside the runtime
+ *
+ * Top-level functions preceded by a `// @bench` comment become benchmark
+ * candidates (called without arguments); without any marked function the whole program is the only
+ * candidate, named after the file. After the program body has run, every
+ * candidate is warmed up and then called in timed batches. The statistics of
+ * each one are printed as a runtime marker so the editor can show a ranked
+ * comparison table.
+ */
+
+import type { NodePath, PluginObj, PluginPass, types as BabelTypes } from '@babel/core';
+import type * as BabelCore from '@babel/core';
+import { RUNTIME_MARKER_PREFIX, type RuntimeMarker } from '../RuntimeMarkers.js';
+import type { BenchmarkOptions, BenchmarkResult } from '../types.js';
+
+export const BENCHMARK_CHANNEL = 'benchmark';
+
+export const DEFAULT_BENCHMARK: Required<BenchmarkOptions> = {
+  warmupTime: 200,
+  time: 1000,
+  minSamples: 10
+};
+
+// `// @bench` or `// @benchmark`, optionally followed by the name shown in the results
+const BENCH_TAG = /@bench(?:mark)?\b[ \t]*(.*)/;
+
+const RUN_BENCHMARKS_NAME = '__orbisRunBenchmarks';
+const PROGRAM_NAME = '__orbisBenchProgram';
+
+// Each timed sample calls the candidate enough times to last about this long
+const SAMPLE_TIME = 5;
+const MAX_SAMPLES = 1000;
+
+interface PluginAPI {
+  types: typeof BabelTypes;
+  template: typeof BabelCore.template;
+}
+
+interface Candidate {
+  name: string;
+  line: number;
+  fn: BabelTypes.Expression;
+}
+
+/**
+ * Benchmark runtime injected at the top of benchmarked programs.
+ * Kept ES5-compatible, like the annotation recorder.
+ */
+function createBenchmarkSource(options: Required<BenchmarkOptions>): string {
+  return `
+function __orbisBenchNow() {
+  return typeof performance !== 'undefined' && performance.now ? performance.now() : Date.now();
+}
+function __orbisBenchQuiet(quiet) {
+  var methods = ['log', 'info', 'debug', 'warn', 'error', 'table', 'dir'];
+  if (quiet) {
+    __orbisBenchQuiet.saved = methods.map(function (name) { return console[name]; });
+    methods.forEach(function (name) { console[name] = function () {}; });
+  } else if (__orbisBenchQuiet.saved) {
+    methods.forEach(function (name, index) { console[name] = __orbisBenchQuiet.saved[index]; });
+    __orbisBenchQuiet.saved = null;
+  }
+}
+function __orbisBenchIsThenable(value) {
+  return value !== null && (typeof value === 'object' || typeof value === 'function') && typeof value.then === 'function';
+}
+function __orbisBenchBatch(fn, size, isAsync) {
+  var start = __orbisBenchNow();
+  if (!isAsync) {
+    for (var i = 0; i < size; i++) { fn(); }
+    return __orbisBenchNow() - start;
+  }
+  var chain = Promise.resolve();
+  for (var j = 0; j < size; j++) { chain = chain.then(function () { return fn(); }); }
+  return chain.then(function () { return __orbisBenchNow() - start; });
+}
+function __orbisBenchStats(candidate, samples, iterations) {
+  var sorted = samples.slice().sort(function (a, b) { return a - b; });
+  var mean = samples.reduce(function (sum, value) { return sum + value; }, 0) / samples.length;
+  var variance = samples.length > 1
+    ? samples.reduce(function (sum, value) { return sum + (value - mean) * (value - mean); }, 0) / (samples.length - 1)
+    : 0;
+  var percentile = function (p) { return sorted[Math.min(sorted.length - 1, Math.ceil(p / 100 * sorted.length) - 1)]; };
+  return {
+    name: candidate.name, line: candidate.line, ops: mean > 0 ? 1000 / mean : 0, mean: mean, sd: Math.sqrt(variance),
+    p50: percentile(50), p75: percentile(75), p99: percentile(99), samples: samples.length, iterations: iterations
+  };
+}
+function __orbisBenchReport(result) {
+  var marker = '${RUNTIME_MARKER_PREFIX}${BENCHMARK_CHANNEL}:' + JSON.stringify(result);
+  if (typeof process !== 'undefined' && process.stdout && process.stdout.write) {
+    process.stdout.write(marker + '\\n');
+  } else {
+    console.log(marker);
+  }
+  if (result.error) {
+    console.log(result.name + ': failed (' + result.error + ')');
+  } else {
+    var rme = result.mean > 0 ? result.sd / result.mean * 100 : 0;
+    console.log(result.name + ' x ' + Math.round(result.ops).toLocaleString('en-US') + ' ops/sec ±' + rme.toFixed(2) + '% (' + result.samples + ' samples)');
+  }
+}
+function __orbisBenchCandidate(candidate) {
+  var state = { isAsync: false, samples: [], iterations: 0, size: 1 };
+  var start = __orbisBenchNow();
+  var first;
+  try {
+    first = candidate.fn();
+  } catch (error) {
+    return Promise.reject(error);
+  }
+  state.isAsync = __orbisBenchIsThenable(first);
+  var warmup = function () {
+    if (__orbisBenchNow() - start >= ${options.warmupTime}) {
+      return Promise.resolve();
+    }
+    return Promise.resolve(__orbisBenchBatch(candidate.fn, state.size, state.isAsync)).then(function (elapsed) {
+      // Grow batches until one lasts about ${SAMPLE_TIME}ms: timer resolution stops mattering
+      if (elapsed < ${SAMPLE_TIME}) { state.size *= 2; }
+      return warmup();
+    });
+  };
+  var measured = 0;
+  var measure = function () {
+    if ((measured >= ${options.time} && state.samples.length >= ${options.minSamples}) || state.samples.length >= ${MAX_SAMPLES}) {
+      return Promise.resolve();
+    }
+    return Promise.resolve(__orbisBenchBatch(candidate.fn, state.size, state.isAsync)).then(function (elapsed) {
+      measured += elapsed;
+      state.samples.push(elapsed / state.size);
+      state.iterations += state.size;
+      return measure();
+    });
+  };
+  return Promise.resolve(first).then(warmup).then(measure).then(function () {
+    return __orbisBenchStats(candidate, state.samples, state.iterations);
+  });
+}
+function ${RUN_BENCHMARKS_NAME}(candidates) {
+  var results = [];
+  console.log('Benchmarking ' + candidates.length + ' candidate' + (candidates.length === 1 ? '' : 's') + '...');
+  ${RUN_BENCHMARKS_NAME}.run = candidates.reduce(function (chain, candidate) {
+    return chain.then(function () {
+      __orbisBenchQuiet(true);
+      return __orbisBenchCandidate(candidate).then(function (result) {
+        __orbisBenchQuiet(false);
+        results.push(result);
+        __orbisBenchReport(result);
+      }, function (error) {
+        __orbisBenchQuiet(false);
+        var failed = { name: candidate.name, line: candidate.line, ops: 0, mean: 0, sd: 0, p50: 0, p75: 0, p99: 0, samples: 0, iterations: 0, error: error && error.message !== undefined ? String(error.message) : String(error) };
+        results.push(failed);
+        __orbisBenchReport(failed);
+      });
+    });
+  }, Promise.resolve()).then(function () {
+    var ranked = results.filter(function (result) { return !result.error; }).sort(function (a, b) { return b.ops - a.ops; });
+    if (ranked.length > 1) {
+      console.log('Fastest is ' + ranked[0].name);
+    }
+    return results;
+  });
+  return ${RUN_BENCHMARKS_NAME}.run;
+}
+`;
+}
+
+/**
+ * Babel plugin that benchmarks `// @bench` functions, or the whole program
+ */
+export function benchmarkPlugin(
+  { types: t, template }: PluginAPI,
+  options: BenchmarkOptions = {}
+): PluginObj<PluginPass> {
+  const settings = { ...DEFAULT_BENCHMARK, ...options };
+
+  const getTag = (node: BabelTypes.Node): string | null => {
+    for (const comment of node.leadingComments || []) {
+      const match = BENCH_TAG.exec(comment.value);
+      if (match) {
+        return match[1].replace(/\*\/?$/, '').trim();
+      }
+    }
+    return null;
+  };
+
+  // Marked top-level functions: declarations and `const name = () => ...`
+  const findCandidates = (body: NodePath<BabelTypes.Statement>[]): Candidate[] => {
+    const candidates: Candidate[] = [];
+    for (const statement of body) {
+      const tag = getTag(statement.node);
+      const declaration = statement.isExportNamedDeclaration() ? statement.node.declaration : statement.node;
+      if (tag === null || !declaration) {
+        continue;
+      }
+
+      const line = statement.node.loc?.start.line ?? 0;
+      if (t.isFunctionDeclaration(declaration) && declaration.id) {
+        candidates.push({ name: tag || declaration.id.name, line, fn: t.identifier(declaration.id.name) });
+      } else if (t.isVariableDeclaration(declaration)) {
+        for (const declarator of declaration.declarations) {
+          if (t.isIdentifier(declarator.id) && (t.isFunction(declarator.init))) {
+            candidates.push({ name: tag || declarator.id.name, line, fn: t.identifier(declarator.id.name) });
+          }
+        }
+      }
+    }
+    return candidates;
+  };
+
+  // Without marked functions the program body itself is timed (imports stay at the top)
+  const wrapProgram = (path: NodePath<BabelTypes.Program>, name: string): Candidate => {
+    let hasTopLevelAwait = false;
+    path.traverse({
+      AwaitExpression(awaitPath) {
+        if (!awaitPath.getFunctionParent()) {
+          hasTopLevelAwait = true;
+        }
+      },
+      ForOfStatement(forPath) {
+        if (forPath.node.await && !forPath.getFunctionParent()) {
+          hasTopLevelAwait = true;
+        }
+      }
+    });
+
+    const statements: BabelTypes.Statement[] = [];
+    for (const statement of path.get('body')) {
+      const { node } = statement;
+      if (t.isImportDeclaration(node)) {
+        continue;
+      }
+      if (t.isExportNamedDeclaration(node)) {
+        if (node.declaration) {
+          statements.push(node.declaration);
+        }
+      } else if (t.isExportDefaultDeclaration(node)) {
+        const declaration = node.declaration;
+        statements.push(t.isExpression(declaration) ? t.expressionStatement(declaration) : declaration as BabelTypes.Statement);
+      } else if (!t.isExportAllDeclaration(node)) {
+        statements.push(node as BabelTypes.Statement);
+      }
+      statement.remove();
+    }
+
+    const wrapper = t.functionDeclaration(t.identifier(PROGRAM_NAME), [], t.blockStatement(statements));
+    wrapper.async = hasTopLevelAwait;
+    path.pushContainer('body', wrapper);
+    return { name, line: 0, fn: t.identifier(PROGRAM_NAME) };
+  };
+
+  return {
+    name: 'orbis-benchmark',
+    visitor: {
+      Program: {
+        exit(path, state) {
+          let candidates = findCandidates(path.get('body'));
+          if (candidates.length === 0) {
+            const filename = state.file.opts.filename || 'program';
+            candidates = [wrapProgram(path, filename.split(/[\\/]/).pop() || filename)];
+          }
+
+          path.pushContainer('body', t.expressionStatement(t.callExpression(t.identifier(RUN_BENCHMARKS_NAME), [
+            t.arrayExpression(candidates.map(candidate => t.objectExpression([
+              t.objectProperty(t.identifier('name'), t.stringLiteral(candidate.name)),
+              t.objectProperty(t.identifier('line'), t.numericLiteral(candidate.line)),
+              t.objectProperty(t.identifier('fn'), candidate.fn)
+            ])))
+          ])));
+          path.unshiftContainer('body', template.statements.ast(createBenchmarkSource(settings)));
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Narrow a runtime marker payload to a benchmark result
+ */
+export function isBenchmarkResult(payload: unknown): payload is BenchmarkResult {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    typeof (payload as BenchmarkResult).name === 'string' &&
+    typeof (payload as BenchmarkResult).ops === 'number' &&
+    typeof (payload as BenchmarkResult).mean === 'number'
+  );
+}
+
+/**
+ * Benchmark results in the order they ran
+ */
+export function collectBenchmarkResults(markers: RuntimeMarker[]): BenchmarkResult[] {
+  return markers
+    .filter(marker => marker.channel === BENCHMARK_CHANNEL)
+    .map(marker => marker.payload)
+    .filter(isBenchmarkResult);
+}
+
+/**
+ * Sort results from fastest to slowest; `relative` is how many times slower
+ * than the fastest each one is. Failed candidates go last.
+ */
+export function rankBenchmarks(results: BenchmarkResult[]): BenchmarkResult[] {
+  const measured = results.filter(result => !result.error && result.ops > 0).sort((a, b) => b.ops - a.ops);
+  const fastest = measured[0]?.ops ?? 0;
+  return [
+    ...measured.map((result, index) => ({ ...result, rank: index + 1, relative: fastest / result.ops })),
+    ...results.filter(result => result.error || result.ops <= 0)
+  ];
+}
@@ -0,0 +1,477 @@
+/**
+ * ConsoleShimPlugin - Captures console calls as structured entries
+ *
+ * The runtime wraps the global console so every call is still printed as
+ * usual and, in addition, reported as a runtime marker with its level, the
+ * serialized arguments, the call site and a timestamp. Arguments become
+ * inspectable trees (objects, arrays, Maps, Sets, class instances, Errors,
+ * circular references) instead of Node's flattened text. console.table,
+ * console.group and console.time keep their structure too.
+ *
+ * Calls written in the program are tagged with their source line; calls made
+ * from other modules fall back to the first stack frame outside the shim.
+ */
+
+import type { NodePath, PluginObj, PluginPass, types as BabelTypes } from '@babel/core';
+import type * as BabelCore from '@babel/core';
+import { RUNTIME_MARKER_PREFIX, type RuntimeMarker } from '../RuntimeMarkers.js';
+import type { ConsoleEntry } from '../types.js';
+
+export const CONSOLE_CHANNEL = 'console';
+
+const CONSOLE_AT_NAME = '__orbisConsoleAt';
+const STATE_NAME = '__orbisConsoleState';
+
+// Console methods reported by the shim; any other method is left untouched
+const SHIMMED_METHODS = [
+  'log', 'info', 'debug', 'warn', 'error', 'trace', 'dir', 'table',
+  'group', 'groupCollapsed', 'groupEnd', 'time', 'timeLog', 'timeEnd',
+  'count', 'countReset', 'assert'
+];
+
+// Serialization limits keep marker lines small enough for huge structures
+const MAX_DEPTH = 6;
+const MAX_CONTAINER_ENTRIES = 100;
+const MAX_STRING_LENGTH = 10000;
+const MAX_TABLE_ROWS = 200;
+// Past this many entries the output is only printed as text
+const MAX_CONSOLE_ENTRIES = 2000;
+
+interface PluginAPI {
+  types: typeof BabelTypes;
+  template: typeof BabelCore.template;
+}
+
+/**
+ * Console runtime injected at the top of the program.
+ * Kept ES5-compatible, like the annotation recorder.
+ */
+const CONSOLE_SOURCE = `
+var ${STATE_NAME} = { original: {}, tagged: {}, timers: {}, counts: {}, depth: 0, line: 0, busy: false, recorded: 0 };
+function __orbisConsoleNow() {
+  return typeof performance !== 'undefined' && performance.now ? performance.now() : Date.now();
+}
+function __orbisConsoleClassName(value) {
+  var proto = Object.getPrototypeOf(value);
+  if (proto === null) {
+    return '[Object: null prototype]';
+  }
+  var ctor = proto.constructor;
+  return (typeof ctor === 'function' && ctor.name) || 'Object';
+}
+function __orbisConsoleSerialize(value, level, path, ids) {
+  var type = typeof value;
+  if (value === null) {
+    return { kind: 'null', preview: 'null' };
+  }
+  if (type === 'undefined') {
+    return { kind: 'undefined', preview: 'undefined' };
+  }
+  if (type === 'string') {
+    return { kind: 'string', preview: value.length > ${MAX_STRING_LENGTH} ? value.slice(0, ${MAX_STRING_LENGTH}) + '…' : value };
+  }
+  if (type === 'number') {
+    return { kind: 'number', preview: value === 0 && 1 / value < 0 ? '-0' : String(value) };
+  }
+  if (type === 'boolean') {
+    return { kind: 'boolean', preview: String(value) };
+  }
+  if (type === 'bigint') {
+    return { kind: 'bigint', preview: String(value) + 'n' };
+  }
+  if (type === 'symbol') {
+    return { kind: 'symbol', preview: value.toString() };
+  }
+  if (type === 'function') {
+    var source = '';
+    try { source = Function.prototype.toString.call(value); } catch (error) {}
+    var isClass = /^class[\\s{]/.test(source);
+    var preview = isClass
+      ? '[class ' + (value.name || '(anonymous)') + ']'
+      : value.name ? '[Function: ' + value.name + ']' : '[Function (anonymous)]';
+    return { kind: 'function', className: value.name || undefined, preview: preview };
+  }
+  if (value instanceof Date) {
+    return { kind: 'date', preview: isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString() };
+  }
+  if (value instanceof RegExp) {
+    return { kind: 'regexp', preview: String(value) };
+  }
+
+  var className = __orbisConsoleClassName(value);
+  if (path.indexOf(value) !== -1) {
+    var target = ids.indexOf(value);
+    if (target === -1) {
+      target = ids.push(value) - 1;
+    }
+    return { kind: 'circular', className: className, id: target + 1, preview: '[Circular *' + (target + 1) + ']' };
+  }
+
+  var result;
+  var isView = typeof ArrayBuffer !== 'undefined' && ArrayBuffer.isView && ArrayBuffer.isView(value) && !(value instanceof DataView);
+  if (Array.isArray(value) || isView) {
+    result = { kind: 'array', className: className, size: value.length, preview: className + '(' + value.length + ')' };
+  } else if (typeof Map !== 'undefined' && value instanceof Map) {
+    result = { kind: 'map', className: className, size: value.size, preview: className + '(' + value.size + ')' };
+  } else if (typeof Set !== 'undefined' && value instanceof Set) {
+    result = { kind: 'set', className: className, size: value.size, preview: className + '(' + value.size + ')' };
+  } else if (value instanceof Error) {
+    var errorName = String(value.name || className);
+    result = { kind: 'error', className: className, preview: value.message ? errorName + ': ' + value.message : errorName };
+    if (typeof value.stack === 'string') {
+      result.stack = value.stack;
+    }
+  } else {
+    result = { kind: 'object', className: className, preview: className === 'Object' ? '{…}' : className };
+  }
+
+  // Past the depth limit only the preview is sent
+  if (level >= ${MAX_DEPTH}) {
+    return result;
+  }
+
+  var entries = [];
+  var nextPath = path.concat([value]);
+  var child = function (item) { return __orbisConsoleSerialize(item, level + 1, nextPath, ids); };
+  var full = function () { return entries.length >= ${MAX_CONTAINER_ENTRIES}; };
+  if (result.kind === 'array') {
+    for (var i = 0; i < value.length && !full(); i++) {
+      entries.push({ key: String(i), value: i in value ? child(value[i]) : { kind: 'undefined', preview: '<empty>' } });
+    }
+  } else if (result.kind === 'map') {
+    value.forEach(function (item, key) {
+      if (!full()) {
+        entries.push({ key: child(key), value: child(item) });
+      }
+    });
+  } else if (result.kind === 'set') {
+    value.forEach(function (item) {
+      if (!full()) {
+        entries.push({ value: child(item) });
+      }
+    });
+  } else {
+    var keys = Object.keys(value);
+    if (result.kind === 'error' && value.cause !== undefined && keys.indexOf('cause') === -1) {
+      keys.push('cause');
+    }
+    if (result.kind === 'object') {
+      result.size = keys.length;
+    }
+    for (var k = 0; k < keys.length && !full(); k++) {
+      var key = keys[k];
+      if (result.kind === 'error' && (key === 'stack' || key === 'message')) {
+        continue;
+      }
+      var descriptor = Object.getOwnPropertyDescriptor(value, key);
+      if (descriptor && (descriptor.get || descriptor.set)) {
+        var accessor = descriptor.get && descriptor.set ? '[Getter/Setter]' : descriptor.get ? '[Getter]' : '[Setter]';
+        entries.push({ key: key, value: { kind: 'accessor', preview: accessor } });
+      } else {
+        entries.push({ key: key, value: child(value[key]) });
+      }
+    }
+  }
+  result.entries = entries;
+
+  var own = ids.indexOf(value);
+  if (own !== -1) {
+    result.id = own + 1;
+  }
+  return result;
+}
+function __orbisConsoleInspect(value, level) {
+  return __orbisConsoleSerialize(value, level || 0, [], []);
+}
+function __orbisConsoleFormat(args) {
+  if (args.length < 2 || typeof args[0] !== 'string' || args[0].indexOf('%') === -1) {
+    return args;
+  }
+  var format = args[0];
+  var parts = [];
+  var text = '';
+  var next = 1;
+  for (var i = 0; i < format.length; i++) {
+    var char = format.charAt(i);
+    var spec = format.charAt(i + 1);
+    if (char !== '%' || !spec) {
+      text += char;
+    } else if (spec === '%') {
+      text += '%';
+      i++;
+    } else if ('sdifjoOc'.indexOf(spec) === -1 || next >= args.length) {
+      text += char;
+    } else {
+      var arg = args[next++];
+      i++;
+      if (spec === 'd' || spec === 'i') {
+        text += typeof arg === 'bigint' ? String(arg) + 'n' : String(spec === 'i' ? parseInt(arg, 10) : Number(arg));
+      } else if (spec === 'f') {
+        text += String(parseFloat(arg));
+      } else if (spec === 'j') {
+        try { text += JSON.stringify(arg); } catch (error) { text += '[Circular]'; }
+      } else if (spec === 'c') {
+        // CSS has no meaning outside the browser console
+      } else if (spec === 's' && (arg === null || typeof arg !== 'object')) {
+        text += typeof arg === 'symbol' ? arg.toString() : String(arg);
+      } else {
+        // Objects stay inspectable instead of being flattened into the text
+        if (text) {
+          parts.push(text);
+        }
+        text = '';
+        parts.push(arg);
+      }
+    }
+  }
+  if (text || parts.length === 0) {
+    parts.push(text);
+  }
+  return parts.concat(args.slice(next));
+}
+function __orbisConsoleTable(data, columns) {
+  if (data === null || typeof data !== 'object') {
+    return null;
+  }
+  var keys = [];
+  var rows = [];
+  var only = Array.isArray(columns) ? columns.map(String) : null;
+  var hasValues = false;
+  var addRow = function (key, row) {
+    if (rows.length >= ${MAX_TABLE_ROWS}) {
+      return;
+    }
+    var cells = {};
+    if (row !== null && typeof row === 'object' && !(row instanceof Date) && !(row instanceof RegExp)) {
+      var rowKeys = Object.keys(row);
+      for (var i = 0; i < rowKeys.length; i++) {
+        var column = rowKeys[i];
+        if (only && only.indexOf(column) === -1) {
+          continue;
+        }
+        if (keys.indexOf(column) === -1) {
+          keys.push(column);
+        }
+        cells[column] = __orbisConsoleInspect(row[column], ${MAX_DEPTH} - 1);
+      }
+    } else {
+      hasValues = true;
+      cells.Values = __orbisConsoleInspect(row, ${MAX_DEPTH} - 1);
+    }
+    rows.push({ key: key, cells: cells });
+  };
+  if (typeof Map !== 'undefined' && data instanceof Map) {
+    data.forEach(function (row, key) { addRow(__orbisConsoleInspect(key, ${MAX_DEPTH}).preview, row); });
+  } else if (typeof Set !== 'undefined' && data instanceof Set) {
+    var index = 0;
+    data.forEach(function (row) { addRow(String(index++), row); });
+  } else {
+    Object.keys(data).forEach(function (key) { addRow(key, data[key]); });
+  }
+  var shown = only || keys;
+  return { columns: hasValues ? shown.concat(['Values']) : shown, rows: rows };
+}
+function __orbisConsoleSource() {
+  var stack = '';
+  try { stack = String(new Error().stack || ''); } catch (error) {}
+  var frames = stack.split('\\n').slice(1);
+  for (var i = 0; i < frames.length; i++) {
+    var frame = frames[i];
+    if (frame.indexOf('__orbis') !== -1 || frame.indexOf('node:') !== -1) {
+      continue;
+    }
+    var match = /\\(?([^\\s()]+):(\\d+):(\\d+)\\)?\\s*$/.exec(frame);
+    if (match) {
+      return match[1].split(/[\\\\/]/).pop() + ':' + match[2] + ':' + match[3];
+    }
+  }
+  return undefined;
+}
+function __orbisConsoleRecord(method, args, line) {
+  var state = ${STATE_NAME};
+  var entry = { level: method, args: [], timestamp: Date.now(), depth: state.depth };
+  var label = args.length > 0 && args[0] !== undefined ? String(args[0]) : 'default';
+  switch (method) {
+    case 'groupEnd':
+      state.depth = Math.max(0, state.depth - 1);
+      return;
+    case 'group':
+    case 'groupCollapsed':
+      entry.level = 'group';
+      entry.collapsed = method === 'groupCollapsed';
+      state.depth++;
+      break;
+    case 'time':
+      state.timers[label] = __orbisConsoleNow();
+      return;
+    case 'timeLog':
+    case 'timeEnd':
+      if (!(label in state.timers)) {
+        entry.level = 'warn';
+        args = ["Timer '" + label + "' does not exist"];
+        break;
+      }
+      entry.level = 'time';
+      args = [label + ': ' + (__orbisConsoleNow() - state.timers[label]).toFixed(3) + 'ms'].concat(method === 'timeLog' ? args.slice(1) : []);
+      if (method === 'timeEnd') {
+        delete state.timers[label];
+      }
+      break;
+    case 'count':
+      state.counts[label] = (state.counts[label] || 0) + 1;
+      args = [label + ': ' + state.counts[label]];
+      break;
+    case 'countReset':
+      state.counts[label] = 0;
+      return;
+    case 'assert':
+      if (args[0]) {
+        return;
+      }
+      args = ['Assertion failed' + (args.length > 1 ? ':' : '')].concat(args.slice(1));
+      break;
+    case 'table':
+      entry.table = __orbisConsoleTable(args[0], args[1]) || undefined;
+      if (!entry.table) {
+        entry.level = 'log';
+      }
+      args = args.slice(0, 1);
+      break;
+    case 'trace':
+      entry.stack = String(new Error().stack || '').split('\\n').slice(1).filter(function (frame) {
+        return frame.indexOf('__orbis') === -1;
+      }).join('\\n');
+      break;
+    case 'dir':
+      args = args.slice(0, 1);
+      break;
+    default:
+      break;
+  }
+
+  if (state.recorded >= ${MAX_CONSOLE_ENTRIES}) {
+    return;
+  }
+  state.recorded++;
+  if (state.recorded === ${MAX_CONSOLE_ENTRIES}) {
+    entry = { level: 'warn', args: [], timestamp: entry.timestamp, depth: 0 };
+    args = ['Console capture stopped after ${MAX_CONSOLE_ENTRIES} entries; see the raw output for the rest'];
+  }
+
+  entry.args = __orbisConsoleFormat(args).map(function (arg) { return __orbisConsoleInspect(arg); });
+  if (line) {
+    entry.line = line;
+  } else {
+    var source = __orbisConsoleSource();
+    if (source) {
+      entry.source = source;
+    }
+  }
+
+  var message = '${RUNTIME_MARKER_PREFIX}${CONSOLE_CHANNEL}:' + JSON.stringify(entry);
+  if (typeof process !== 'undefined' && process.stdout && process.stdout.write) {
+    process.stdout.write(message + '\\n');
+  } else {
+    state.original.log.call(console, message);
+  }
+}
+function __orbisConsoleHandle(method, args) {
+  var state = ${STATE_NAME};
+  var line = state.line;
+  state.line = 0;
+  if (!state.busy) {
+    state.busy = true;
+    try {
+      __orbisConsoleRecord(method, Array.prototype.slice.call(args), line);
+    } catch (error) {
+      // A value that can't be serialized is still printed below
+    }
+    state.busy = false;
+  }
+  return state.original[method].apply(console, args);
+}
+function ${CONSOLE_AT_NAME}(line) {
+  var state = ${STATE_NAME};
+  if (!state.tagged[line]) {
+    var tagged = Object.create(console);
+    Object.keys(state.original).forEach(function (method) {
+      tagged[method] = function __orbisConsoleTagged() {
+        state.line = line;
+        try {
+          return console[method].apply(console, arguments);
+        } finally {
+          state.line = 0;
+        }
+      };
+    });
+    state.tagged[line] = tagged;
+  }
+  return state.tagged[line];
+}
+(function () {
+  var methods = ${JSON.stringify(SHIMMED_METHODS)};
+  methods.forEach(function (method) {
+    if (typeof console[method] === 'function') {
+      ${STATE_NAME}.original[method] = console[method];
+      console[method] = function __orbisConsoleCall() {
+        return __orbisConsoleHandle(method, arguments);
+      };
+    }
+  });
+})();
+`;
+
+/**
+ * Babel plugin that reports console calls as structured entries
+ */
+export function consoleShimPlugin({ types: t, template }: PluginAPI): PluginObj<PluginPass> {
+  return {
+    name: 'orbis-console-shim',
+    visitor: {
+      Program: {
+        exit(path) {
+          path.unshiftContainer('body', template.statements.ast(CONSOLE_SOURCE));
+        }
+      },
+
+      // console.log(...) -> __orbisConsoleAt(line).log(...), unless `console` is a local binding
+      CallExpression(path: NodePath<BabelTypes.CallExpression>) {
+        const { node } = path;
+        const callee = node.callee;
+        if (
+          !node.loc ||
+          !t.isMemberExpression(callee) ||
+          !t.isIdentifier(callee.object, { name: 'console' }) ||
+          path.scope.hasBinding('console', true)
+        ) {
+          return;
+        }
+
+        callee.object = t.callExpression(t.identifier(CONSOLE_AT_NAME), [t.numericLiteral(node.loc.start.line)]);
+      }
+    }
+  };
+}
+
+/**
+ * Narrow a runtime marker payload to a console entry
+ */
+export function isConsoleEntry(payload: unknown): payload is ConsoleEntry {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    typeof (payload as ConsoleEntry).level === 'string' &&
+    Array.isArray((payload as ConsoleEntry).args) &&
+    typeof (payload as ConsoleEntry).timestamp === 'number'
+  );
+}
+
+/**
+ * Console entries in the order the calls were made
+ */
+export function collectConsoleEntries(markers: RuntimeMarker[]): ConsoleEntry[] {
+  return markers
+    .filter(marker => marker.channel === CONSOLE_CHANNEL)
+    .map(marker => marker.payload)
+    .filter(isConsoleEntry);
+}
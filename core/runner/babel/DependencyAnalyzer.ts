@@ -0,0 +1,265 @@
+/**
+ * DependencyAnalyzer - npm packages a program imports, read from its AST
+ *
+ * Only real module references count: import/export declarations (not
+ * `import type`), `require()`, dynamic `import()` and `import x = require()`,
+ * with a string or expression-free template literal as specifier. Text that
+ * merely looks like an import (in a comment or a string) is ignored.
+ *
+ * Specifiers are reduced to package names ('lodash/fp' -> 'lodash',
+ * '@scope/pkg/x' -> '@scope/pkg') and Node built-ins are left out. Versions
+ * come from `// @version lodash@4.17.21` comments, then from the tab's
+ * manifest, and default to 'latest'.
+ *
+ * The globals a program reads without declaring them are collected the same
+ * way, to tell whether an engine without Node or browser APIs can run it.
+ */
+
+import { parse } from '@babel/parser';
+import traverse from '@babel/traverse';
+import type { NodePath } from '@babel/traverse';
+import type * as t from '@babel/types';
+import { getPackageName } from '../PackageCache.js';
+import type { ResolvedDependency } from '../types.js';
+
+// `module.builtinModules` of Node 20; not available in the browser
+const NODE_BUILTIN_MODULES = new Set([
+  'assert', 'async_hooks', 'buffer', 'child_process', 'cluster', 'console', 'constants', 'crypto',
+  'dgram', 'diagnostics_channel', 'dns', 'domain', 'events', 'fs', 'http', 'http2', 'https',
+  'inspector', 'module', 'net', 'os', 'path', 'perf_hooks', 'process', 'punycode', 'querystring',
+  'readline', 'repl', 'stream', 'string_decoder', 'sys', 'timers', 'tls', 'trace_events', 'tty',
+  'url', 'util', 'v8', 'vm', 'wasi', 'worker_threads', 'zlib'
+]);
+
+// `@version <package>@<version>`; several pins may share a comment
+const VERSION_PIN = /@version\s+((?:@[^\s@/]+\/)?[^\s@]+)@(\S+)/g;
+
+export interface DependencyAnalysis {
+  dependencies: ResolvedDependency[]; // Sorted by name
+  builtins: string[]; // Node built-ins imported, without the `node:` prefix
+  errors: string[]; // Sources that couldn't be parsed (their imports are missing)
+}
+
+/**
+ * Whether a specifier refers to a Node built-in module ('fs', 'node:test', 'fs/promises')
+ */
+export function isBuiltinModule(specifier: string): boolean {
+  return specifier.startsWith('node:') || NODE_BUILTIN_MODULES.has(specifier.split('/')[0]);
+}
+
+/**
+ * Module specifiers referenced by one source, plus its `@version` pins
+ */
+export function collectModuleSpecifiers(code: string): { specifiers: string[]; pins: Record<string, string> } {
+  const ast = parse(code, {
+    sourceType: 'unambiguous',
+    errorRecovery: true,
+    plugins: ['typescript', 'jsx', 'decorators-legacy', 'importAttributes']
+  });
+
+  const specifiers = new Set<string>();
+  const addLiteral = (node: t.Node | undefined | null) => {
+    const value = getStaticString(node);
+    if (value !== null) {
+      specifiers.add(value);
+    }
+  };
+
+  traverse(ast, {
+    ImportDeclaration(path: NodePath<t.ImportDeclaration>) {
+      if (path.node.importKind !== 'type' && path.node.importKind !== 'typeof') {
+        addLiteral(path.node.source);
+      }
+    },
+    ExportNamedDeclaration(path: NodePath<t.ExportNamedDeclaration>) {
+      if (path.node.exportKind !== 'type') {
+        addLiteral(path.node.source);
+      }
+    },
+    ExportAllDeclaration(path: NodePath<t.ExportAllDeclaration>) {
+      if (path.node.exportKind !== 'type') {
+        addLiteral(path.node.source);
+      }
+    },
+    CallExpression(path: NodePath<t.CallExpression>) {
+      const { callee, arguments: args } = path.node;
+      if (callee.type === 'Import' || (callee.type === 'Identifier' && callee.name === 'require')) {
+        addLiteral(args[0]);
+      }
+    },
+    ImportExpression(path: NodePath<t.ImportExpression>) {
+      addLiteral(path.node.source);
+    },
+    TSImportEqualsDeclaration(path: NodePath<t.TSImportEqualsDeclaration>) {
+      const reference = path.node.moduleReference;
+      if (path.node.importKind !== 'type' && reference.type === 'TSExternalModuleReference') {
+        addLiteral(reference.expression);
+      }
+    }
+  });
+
+  const pins: Record<string, string> = {};
+  for (const comment of ast.comments || []) {
+    for (const [, name, version] of comment.value.matchAll(VERSION_PIN)) {
+      pins[name] = version;
+    }
+  }
+
+  return { specifiers: [...specifiers], pins };
+}
+
+/**
+ * Globals a source reads without declaring them ('fetch', 'Math', 'process').
+ * Type positions and `typeof x` checks don't count.
+ */
+export function collectFreeGlobals(code: string): string[] {
+  const ast = parse(code, {
+    sourceType: 'unambiguous',
+    errorRecovery: true,
+    plugins: ['typescript', 'jsx', 'decorators-legacy', 'importAttributes']
+  });
+
+  const globals = new Set<string>();
+  // Babel doesn't register enums and namespaces as bindings
+  const typeScriptValues = new Set<string>();
+
+  traverse(ast, {
+    TSEnumDeclaration(path: NodePath<t.TSEnumDeclaration>) {
+      typeScriptValues.add(path.node.id.name);
+    },
+    TSModuleDeclaration(path: NodePath<t.TSModuleDeclaration>) {
+      if (path.node.id.type === 'Identifier') {
+        typeScriptValues.add(path.node.id.name);
+      }
+    },
+    ReferencedIdentifier(path: NodePath<t.Identifier | t.JSXIdentifier>) {
+      const { name } = path.node;
+      if (
+        path.node.type !== 'Identifier' ||
+        path.scope.hasBinding(name, true) ||
+        path.parentPath?.isUnaryExpression({ operator: 'typeof' }) ||
+        path.findParent(parent =>
+          parent.isTSType() ||
+          parent.isTSInterfaceDeclaration() ||
+          parent.isTSTypeAliasDeclaration() ||
+          parent.isTSExpressionWithTypeArguments()
+        )
+      ) {
+        return;
+      }
+      globals.add(name);
+    }
+  });
+
+  return [...globals].filter(name => !typeScriptValues.has(name));
+}
+
+function getStaticString(node: t.Node | undefined | null): string | null {
+  if (node?.type === 'StringLiteral') {
+    return node.value;
+  }
+  if (node?.type === 'TemplateLiteral' && node.expressions.length === 0) {
+    return node.quasis[0].value.cooked ?? null;
+  }
+  return null;
+}
+
+/**
+ * npm packages to install for one or more sources (the files of a project).
+ * Comment pins win over the manifest; unpinned packages get 'latest'.
+ */
+export function analyzeDependencies(
+  sources: string | string[],
+  manifest: Record<string, string> = {}
+): DependencyAnalysis {
+  const packages = new Set<string>();
+  const builtins = new Set<string>();
+  const pins: Record<string, string> = {};
+  const errors: string[] = [];
+
+  for (const code of Array.isArray(sources) ? sources : [sources]) {
+    let collected: ReturnType<typeof collectModuleSpecifiers>;
+    try {
+      collected = collectModuleSpecifiers(code);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+
+    Object.assign(pins, collected.pins);
+    for (const specifier of collected.specifiers) {
+      if (isBuiltinModule(specifier)) {
+        builtins.add(specifier.replace(/^node:/, '').split('/')[0]);
+        continue;
+      }
+      const name = getPackageName(specifier);
+      if (name) {
+        packages.add(name);
+      }
+    }
+  }
+
+  const dependencies = [...packages].sort().map((name): ResolvedDependency => {
+    if (pins[name]) {
+      return { name, version: pins[name], pinnedBy: 'comment' };
+    }
+    if (manifest[name]) {
+      return { name, version: manifest[name], pinnedBy: 'manifest' };
+    }
+    return { name, version: 'latest' };
+  });
+
+  return { dependencies, builtins: [...builtins].sort(), errors };
+}
+
+/**
+ * Tab manifest: a package.json (its `dependencies`, or a plain name -> version
+ * object) or one `name@version` per line, `#` starting a comment
+ */
+export function parseDependencyManifest(text: string): { dependencies: Record<string, string>; errors: string[] } {
+  const dependencies: Record<string, string> = {};
+  const errors: string[] = [];
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed) as Record<string, unknown>;
+      const entries = typeof parsed.dependencies === 'object' && parsed.dependencies ? parsed.dependencies : parsed;
+      for (const [name, version] of Object.entries(entries as Record<string, unknown>)) {
+        if (typeof version === 'string') {
+          dependencies[name] = version;
+        } else {
+          errors.push(`"${name}": the version must be a string`);
+        }
+      }
+    } catch (error) {
+      errors.push(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    return { dependencies, errors };
+  }
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) {
+      return;
+    }
+
+    const match = line.match(/^((?:@[^\s@/]+\/)?[^\s@]+)(?:@|\s+)(\S+)$/);
+    if (match) {
+      dependencies[match[1]] = match[2];
+    } else {
+      errors.push(`Line ${index + 1}: expected name@version`);
+    }
+  });
+
+  return { dependencies, errors };
+}
+
+/**
+ * One-line summary shown before installing, e.g. 'lodash@4.17.21 (pinned), chalk@latest'
+ */
+export function formatDependencyList(dependencies: ResolvedDependency[]): string {
+  return dependencies
+    .map(dep => `${dep.name}@${dep.version}${dep.pinnedBy ? ` (${dep.pinnedBy === 'comment' ? 'pinned' : 'manifest'})` : ''}`)
+    .join(', ');
+}
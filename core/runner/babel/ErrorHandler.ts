@@ -4,7 +4,8 @@
  */
 
 import type { WebContainerInstance } from '../types.js';
-import type { BabelGlobalConfig } from './types.js';
+import type { BabelGlobalConfig, PluginConfig, PresetConfig, SourceMap, TransformResult } from './types.js';
+import { SourceMapResolver } from './SourceMapResolver.js';
 
 export interface ErrorContext {
   code: string;
@@ -75,6 +76,39 @@ export interface DiagnosticReport {
   suggestions: ErrorSuggestion[];
 }
 
+/**
+ * Map transformed position to original source position by decoding the source map
+ */
+function mapTransformedToOriginal(
+  line: number,
+  column: number,
+  sourceMap: SourceMap
+): { line: number; column: number; source?: string } | null {
+  if (!sourceMap.mappings || !sourceMap.sources) {
+    return null;
+  }
+
+  const position = new SourceMapResolver(sourceMap).originalPositionFor(line, column);
+  return position && { line: position.line, column: position.column, source: position.source };
+}
+
+/**
+ * Location of a stack frame as `file:line:column`
+ */
+function getStackFrameSource(frame: StackFrame): string | undefined {
+  if (frame.fileName && frame.lineNumber) {
+    return `${frame.fileName}:${frame.lineNumber}:${frame.columnNumber || 0}`;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a preset or plugin list already has an entry, given as a name or a config object
+ */
+function hasEntry(entries: Array<PresetConfig | PluginConfig | string>, name: string): boolean {
+  return entries.some(entry => (typeof entry === 'string' ? entry : entry.name) === name);
+}
+
 /**
  * Enhanced error class with detailed context and debugging information
  */
@@ -133,7 +167,7 @@ export class BabelTransformationError extends Error {
 
         // Add source context if available
         if (frame.fileName && frame.lineNumber) {
-          frame.source = this.getStackFrameSource(frame);
+          frame.source = getStackFrameSource(frame);
         }
 
         frames.push(frame);
@@ -143,18 +177,6 @@ export class BabelTransformationError extends Error {
     return frames;
   }
 
-  /**
-   * Get source context for a stack frame
-   */
-  private getStackFrameSource(frame: StackFrame): string | undefined {
-    // In a real implementation, this would read the actual source file
-    // For now, we'll return a placeholder indicating the frame location
-    if (frame.fileName && frame.lineNumber) {
-      return `${frame.fileName}:${frame.lineNumber}:${frame.columnNumber || 0}`;
-    }
-    return undefined;
-  }
-
   /**
    * Map stack trace through source maps
    */
@@ -169,7 +191,7 @@ export class BabelTransformationError extends Error {
       }
 
       try {
-        const originalPosition = this.mapTransformedToOriginal(
+        const originalPosition = mapTransformedToOriginal(
           frame.lineNumber,
           frame.columnNumber,
           sourceMap
@@ -181,7 +203,7 @@ export class BabelTransformationError extends Error {
             lineNumber: originalPosition.line,
             columnNumber: originalPosition.column,
             fileName: originalPosition.source || frame.fileName,
-            source: this.getStackFrameSource({
+            source: getStackFrameSource({
               ...frame,
               lineNumber: originalPosition.line,
               columnNumber: originalPosition.column,
@@ -271,7 +293,7 @@ export class ErrorHandler {
     transformationError.addDebugInfo('phase', context.phase);
 
     // Generate suggestions based on error type
-    const suggestions = await this.generateSuggestions(error, context);
+    const suggestions = await this.generateSuggestions(error);
     suggestions.forEach(suggestion => transformationError.addSuggestion(suggestion));
 
     return {
@@ -320,7 +342,7 @@ export class ErrorHandler {
   /**
    * Generate helpful suggestions based on error analysis
    */
-  private async generateSuggestions(error: Error, context: ErrorContext): Promise<ErrorSuggestion[]> {
+  private async generateSuggestions(error: Error): Promise<ErrorSuggestion[]> {
     const suggestions: ErrorSuggestion[] = [];
     const message = error.message.toLowerCase();
 
@@ -450,7 +472,7 @@ export class ErrorHandler {
       name: 'syntax-removal',
       description: 'Remove problematic modern syntax',
       canApply: (error) => error.type === 'syntax',
-      apply: async (code, config) => {
+      apply: async (code) => {
         let fallbackCode = code;
         const warnings: string[] = [];
 
@@ -475,15 +497,10 @@ export class ErrorHandler {
       name: 'config-simplification',
       description: 'Use simpler Babel configuration',
       canApply: (error) => error.type === 'configuration' || error.type === 'plugin',
-      apply: async (code, config) => {
+      apply: async (code) => {
         const warnings: string[] = [];
         
-        // Use only basic presets
-        const simplifiedConfig = {
-          presets: ['@babel/preset-env'],
-          plugins: []
-        };
-
+        // Use only basic presets (@babel/preset-env)
         warnings.push('Simplified Babel configuration to basic preset only');
         
         // Note: In a real implementation, this would actually transform the code
@@ -496,7 +513,7 @@ export class ErrorHandler {
       name: 'es5-fallback',
       description: 'Convert to ES5 compatible code',
       canApply: (error) => error.type === 'syntax' || error.type === 'runtime',
-      apply: async (code, config) => {
+      apply: async (code) => {
         let fallbackCode = code;
         const warnings: string[] = [];
 
@@ -565,7 +582,7 @@ export class ErrorHandler {
       }
 
       try {
-        const originalPosition = this.mapTransformedToOriginal(
+        const originalPosition = mapTransformedToOriginal(
           frame.lineNumber,
           frame.columnNumber,
           sourceMap
@@ -577,7 +594,7 @@ export class ErrorHandler {
             lineNumber: originalPosition.line,
             columnNumber: originalPosition.column,
             fileName: originalPosition.source || frame.fileName,
-            source: this.getStackFrameSource({
+            source: getStackFrameSource({
               ...frame,
               lineNumber: originalPosition.line,
               columnNumber: originalPosition.column,
@@ -602,7 +619,7 @@ export class ErrorHandler {
 
     try {
       // Get Node.js version
-      const versionProcess = await this.container.spawn('node', ['--version']);
+      await this.container.spawn('node', ['--version']);
       // In a real implementation, we'd capture the output
       nodeVersion = '18.x'; // Placeholder
     } catch (error) {
@@ -647,7 +664,7 @@ export class ErrorHandler {
       const parsedSourceMap = typeof sourceMap === 'string' ? JSON.parse(sourceMap) : sourceMap;
       
       // Map the error location back to original source
-      const originalPosition = this.mapTransformedToOriginal(
+      const originalPosition = mapTransformedToOriginal(
         error.location.line,
         error.location.column,
         parsedSourceMap
@@ -672,31 +689,6 @@ export class ErrorHandler {
     };
   }
 
-  /**
-   * Map transformed position to original source position
-   * Simplified source map implementation for basic mapping
-   */
-  private mapTransformedToOriginal(
-    line: number,
-    column: number,
-    sourceMap: any
-  ): { line: number; column: number; source?: string } | null {
-    // This is a simplified implementation
-    // In a production environment, you would use the 'source-map' library
-    
-    if (!sourceMap.mappings || !sourceMap.sources) {
-      return null;
-    }
-
-    // For now, return a basic mapping assuming 1:1 line mapping
-    // This would be replaced with proper VLQ decoding in a real implementation
-    return {
-      line: line,
-      column: column,
-      source: sourceMap.sources[0]
-    };
-  }
-
   /**
    * Get source code context around error location
    */
@@ -725,6 +717,9 @@ export class ErrorHandler {
   ): Promise<{ updatedConfig: BabelGlobalConfig; appliedSuggestions: ErrorSuggestion[] }> {
     const updatedConfig = { ...config };
     const appliedSuggestions: ErrorSuggestion[] = [];
+    // Suggestions add presets and plugins by name, as a .babelrc would list them
+    const presets = updatedConfig.presets as Array<PresetConfig | string>;
+    const plugins = updatedConfig.plugins as Array<PluginConfig | string>;
 
     for (const suggestion of suggestions) {
       if (!suggestion.autoApplicable) continue;
@@ -733,14 +728,14 @@ export class ErrorHandler {
         switch (suggestion.type) {
           case 'preset':
             if (suggestion.action.includes('@babel/preset-react')) {
-              if (!updatedConfig.presets.includes('@babel/preset-react')) {
-                updatedConfig.presets.push('@babel/preset-react');
+              if (!hasEntry(presets, '@babel/preset-react')) {
+                presets.push('@babel/preset-react');
                 appliedSuggestions.push(suggestion);
               }
             }
             if (suggestion.action.includes('@babel/preset-typescript')) {
-              if (!updatedConfig.presets.includes('@babel/preset-typescript')) {
-                updatedConfig.presets.push('@babel/preset-typescript');
+              if (!hasEntry(presets, '@babel/preset-typescript')) {
+                presets.push('@babel/preset-typescript');
                 appliedSuggestions.push(suggestion);
               }
             }
@@ -750,8 +745,8 @@ export class ErrorHandler {
             const pluginMatch = suggestion.action.match(/@babel\/plugin-[\w-]+/);
             if (pluginMatch) {
               const plugin = pluginMatch[0];
-              if (!updatedConfig.plugins.includes(plugin)) {
-                updatedConfig.plugins.push(plugin);
+              if (!hasEntry(plugins, plugin)) {
+                plugins.push(plugin);
                 appliedSuggestions.push(suggestion);
               }
             }
@@ -849,15 +844,6 @@ export class ErrorHandler {
     return this.debugMode;
   }
 
-  /**
-   * Log debug information if debug mode is enabled
-   */
-  private debugLog(message: string, data?: any): void {
-    if (this.debugMode) {
-      console.log(`🐛 [DEBUG] ${message}`, data || '');
-    }
-  }
-
   /**
    * Create detailed transformation report for debugging
    */
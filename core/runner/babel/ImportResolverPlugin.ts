@@ -0,0 +1,167 @@
+/**
+ * ImportResolverPlugin - Resolves relative imports between project files
+ *
+ * Every open tab is mounted as a file of the same workspace, but the files
+ * that actually run are compiled JavaScript: TypeScript and JSX sources are
+ * emitted as `.js` and JSON files get a small ES module next to them. This
+ * plugin rewrites relative specifiers (`./utils`, `./utils.js`, `./data.json`)
+ * so they point at the emitted files Node can load.
+ */
+
+import type { NodePath, PluginObj, PluginPass, types as BabelTypes } from '@babel/core';
+
+/**
+ * Extensions tried, in order, for specifiers written without one
+ */
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.json'];
+
+/**
+ * Sources compiled to a `.js` file of the same name
+ */
+const COMPILED_EXTENSIONS = /\.(ts|tsx|jsx)$/;
+
+export interface ImportResolverOptions {
+  /** Project path of the file being transformed */
+  filename: string;
+  /** Project paths of every file in the workspace */
+  projectFiles: string[];
+}
+
+interface PluginAPI {
+  types: typeof BabelTypes;
+}
+
+/**
+ * Normalize a project path: forward slashes, no `.`/`..` segments, no leading slash
+ */
+export function normalizeProjectPath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (!segment || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Path of the file actually written to the container for a project source
+ */
+export function getEmittedPath(path: string): string {
+  if (COMPILED_EXTENSIONS.test(path)) {
+    return path.replace(COMPILED_EXTENSIONS, '.js');
+  }
+  if (path.endsWith('.json')) {
+    return `${path}.js`;
+  }
+  return path;
+}
+
+/**
+ * Resolve a relative specifier against the project files.
+ * Returns the project path it refers to, or null when nothing matches.
+ */
+export function resolveProjectImport(
+  specifier: string,
+  importer: string,
+  projectFiles: Iterable<string>
+): string | null {
+  if (!specifier.startsWith('./') && !specifier.startsWith('../')) {
+    return null;
+  }
+
+  const files = new Set(projectFiles);
+  const base = normalizeProjectPath(`${dirname(importer)}/${specifier}`);
+  const candidates = [base];
+
+  // TypeScript convention: `./utils.js` refers to `utils.ts`
+  if (/\.(m?js|jsx)$/.test(base)) {
+    const withoutExtension = base.replace(/\.(m?js|jsx)$/, '');
+    candidates.push(`${withoutExtension}.ts`, `${withoutExtension}.tsx`);
+  }
+
+  candidates.push(
+    ...RESOLVE_EXTENSIONS.map(extension => `${base}${extension}`),
+    ...RESOLVE_EXTENSIONS.map(extension => `${base}/index${extension}`)
+  );
+
+  return candidates.find(candidate => files.has(candidate)) || null;
+}
+
+/**
+ * Relative specifier from one emitted file to another
+ */
+export function getRelativeSpecifier(from: string, to: string): string {
+  const fromSegments = dirname(from).split('/').filter(Boolean);
+  const toSegments = to.split('/');
+
+  let common = 0;
+  while (
+    common < fromSegments.length &&
+    common < toSegments.length - 1 &&
+    fromSegments[common] === toSegments[common]
+  ) {
+    common++;
+  }
+
+  const up = fromSegments.length - common;
+  const rest = toSegments.slice(common).join('/');
+  return up === 0 ? `./${rest}` : `${'../'.repeat(up)}${rest}`;
+}
+
+/**
+ * Babel plugin that points relative imports at emitted project files
+ */
+export function importResolverPlugin(
+  { types: t }: PluginAPI,
+  options: ImportResolverOptions
+): PluginObj<PluginPass> {
+  const importer = normalizeProjectPath(options.filename);
+  const projectFiles = new Set(options.projectFiles.map(normalizeProjectPath));
+
+  const rewrite = (source: BabelTypes.StringLiteral | null | undefined): void => {
+    if (!source) {
+      return;
+    }
+
+    const resolved = resolveProjectImport(source.value, importer, projectFiles);
+    if (resolved) {
+      source.value = getRelativeSpecifier(getEmittedPath(importer), getEmittedPath(resolved));
+    }
+  };
+
+  return {
+    name: 'orbis-import-resolver',
+    visitor: {
+      ImportDeclaration(path: NodePath<BabelTypes.ImportDeclaration>) {
+        rewrite(path.node.source);
+      },
+
+      ExportNamedDeclaration(path: NodePath<BabelTypes.ExportNamedDeclaration>) {
+        rewrite(path.node.source);
+      },
+
+      ExportAllDeclaration(path: NodePath<BabelTypes.ExportAllDeclaration>) {
+        rewrite(path.node.source);
+      },
+
+      // import('./module') with a literal specifier
+      CallExpression(path: NodePath<BabelTypes.CallExpression>) {
+        const [specifier] = path.node.arguments;
+        if (t.isImport(path.node.callee) && t.isStringLiteral(specifier)) {
+          rewrite(specifier);
+        }
+      }
+    }
+  };
+}
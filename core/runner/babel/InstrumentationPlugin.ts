@@ -0,0 +1,215 @@
+/**
+ * InstrumentationPlugin - Records expression values for inline annotations
+ *
+ * Wraps every top-level expression statement, and every statement whose line
+ * ends with a `//?` comment, in a call to a small runtime recorder. When the
+ * code runs, the recorder prints a runtime marker carrying the source line and
+ * a short preview of the value so the editor can show it next to the code.
+ */
+
+import type { NodePath, PluginObj, PluginPass, types as BabelTypes } from '@babel/core';
+import type * as BabelCore from '@babel/core';
+import { RUNTIME_MARKER_PREFIX, type RuntimeMarker } from '../RuntimeMarkers.js';
+import type { ExecutionAnnotation } from '../types.js';
+
+export const ANNOTATION_CHANNEL = 'annotation';
+export const RECORD_FUNCTION_NAME = '__orbisRecord';
+
+/**
+ * Maximum length of a recorded value preview
+ */
+const MAX_PREVIEW_LENGTH = 120;
+
+/**
+ * Payload of an annotation marker
+ */
+export interface AnnotationRecord {
+  line: number;
+  value: string;
+}
+
+interface PluginAPI {
+  types: typeof BabelTypes;
+  template: typeof BabelCore.template;
+}
+
+interface InstrumentationState extends PluginPass {
+  markerLines: Set<number>;
+}
+
+/**
+ * Runtime recorder injected at the top of instrumented programs.
+ * Kept ES5-compatible so it runs as-is whatever presets follow.
+ */
+const RECORDER_SOURCE = `
+function ${RECORD_FUNCTION_NAME}(line, value) {
+  var text;
+  try {
+    if (typeof value === 'string') {
+      text = JSON.stringify(value);
+    } else if (typeof value === 'function') {
+      text = '[Function ' + (value.name || 'anonymous') + ']';
+    } else if (typeof value === 'bigint') {
+      text = value + 'n';
+    } else if (value === null || typeof value !== 'object') {
+      text = String(value);
+    } else if (typeof value.then === 'function') {
+      // The recorder's handlers mustn't handle the promise for the program: unless the
+      // program attaches its own afterwards (then, catch, finally), a rejection is
+      // thrown again so it stays unhandled and still fails the run
+      var then = value.then;
+      var handled = false;
+      try {
+        Object.defineProperty(value, 'then', {
+          configurable: true,
+          writable: true,
+          value: function () {
+            handled = true;
+            return then.apply(this, arguments);
+          }
+        });
+      } catch (error) {}
+      then.call(
+        value,
+        function (resolved) { ${RECORD_FUNCTION_NAME}(line, resolved); },
+        function (reason) {
+          ${RECORD_FUNCTION_NAME}(line, reason);
+          if (!handled) {
+            throw reason;
+          }
+        }
+      );
+      text = 'Promise { <pending> }';
+    } else if (value instanceof Error) {
+      text = value.name + ': ' + value.message;
+    } else if (value instanceof Map || value instanceof Set) {
+      text = value.constructor.name + '(' + value.size + ')';
+    } else {
+      text = JSON.stringify(value);
+    }
+  } catch (error) {
+    text = Object.prototype.toString.call(value);
+  }
+  if (text.length > ${MAX_PREVIEW_LENGTH}) {
+    text = text.slice(0, ${MAX_PREVIEW_LENGTH - 3}) + '...';
+  }
+  var message = '${RUNTIME_MARKER_PREFIX}${ANNOTATION_CHANNEL}:' + JSON.stringify({ line: line, value: text });
+  if (typeof process !== 'undefined' && process.stdout && process.stdout.write) {
+    process.stdout.write(message + '\\n');
+  } else {
+    console.log(message);
+  }
+  return value;
+}
+`;
+
+/**
+ * Babel plugin that instruments code for inline value annotations
+ */
+export function instrumentationPlugin({ types: t, template }: PluginAPI): PluginObj<InstrumentationState> {
+  const isRecordCall = (node: BabelTypes.Node): boolean =>
+    t.isCallExpression(node) && t.isIdentifier(node.callee, { name: RECORD_FUNCTION_NAME });
+
+  // console.log() and friends always evaluate to undefined - not worth annotating
+  const isConsoleCall = (node: BabelTypes.Node): boolean =>
+    t.isCallExpression(node) &&
+    t.isMemberExpression(node.callee) &&
+    t.isIdentifier(node.callee.object, { name: 'console' });
+
+  const wrap = (expression: BabelTypes.Expression, line: number): BabelTypes.CallExpression =>
+    t.callExpression(t.identifier(RECORD_FUNCTION_NAME), [t.numericLiteral(line), expression]);
+
+  return {
+    name: 'orbis-instrumentation',
+    visitor: {
+      Program: {
+        enter(_path, state) {
+          state.markerLines = new Set();
+          for (const comment of state.file.ast.comments || []) {
+            if (comment.type === 'CommentLine' && comment.value.trim().startsWith('?') && comment.loc) {
+              state.markerLines.add(comment.loc.start.line);
+            }
+          }
+        },
+        exit(path) {
+          path.unshiftContainer('body', template.statements.ast(RECORDER_SOURCE));
+        }
+      },
+
+      ExpressionStatement(path: NodePath<BabelTypes.ExpressionStatement>, state) {
+        const { node } = path;
+        if (!node.loc || isRecordCall(node.expression) || isConsoleCall(node.expression)) {
+          return;
+        }
+
+        const line = node.loc.end.line;
+        if (path.parentPath.isProgram() || state.markerLines.has(line)) {
+          path.get('expression').replaceWith(wrap(node.expression, line));
+        }
+      },
+
+      VariableDeclaration(path: NodePath<BabelTypes.VariableDeclaration>, state) {
+        const { node } = path;
+        if (!node.loc || !state.markerLines.has(node.loc.end.line)) {
+          return;
+        }
+
+        // `for (const x of items) //?` declares a binding, it has no value to show
+        if (path.parentPath.isFor()) {
+          return;
+        }
+
+        for (const declarator of node.declarations) {
+          if (declarator.init && !isRecordCall(declarator.init)) {
+            declarator.init = wrap(declarator.init, node.loc.end.line);
+          }
+        }
+      },
+
+      ReturnStatement(path: NodePath<BabelTypes.ReturnStatement>, state) {
+        const { node } = path;
+        if (!node.loc || !node.argument || isRecordCall(node.argument)) {
+          return;
+        }
+
+        if (state.markerLines.has(node.loc.end.line)) {
+          node.argument = wrap(node.argument, node.loc.end.line);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Narrow a runtime marker payload to an annotation record
+ */
+export function isAnnotationRecord(payload: unknown): payload is AnnotationRecord {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    typeof (payload as AnnotationRecord).line === 'number' &&
+    typeof (payload as AnnotationRecord).value === 'string'
+  );
+}
+
+/**
+ * Group annotation markers by line, keeping the last recorded value
+ */
+export function collectAnnotations(markers: RuntimeMarker[]): ExecutionAnnotation[] {
+  const byLine = new Map<number, ExecutionAnnotation>();
+
+  for (const { channel, payload } of markers) {
+    if (channel !== ANNOTATION_CHANNEL || !isAnnotationRecord(payload)) {
+      continue;
+    }
+
+    const previous = byLine.get(payload.line);
+    byLine.set(payload.line, {
+      line: payload.line,
+      value: payload.value,
+      count: (previous?.count || 0) + 1
+    });
+  }
+
+  return [...byLine.values()].sort((a, b) => a.line - b.line);
+}
@@ -11,8 +11,10 @@ import type {
   FrameworkInfo, 
   LanguageFeature, 
   DependencyInfo,
-  DetectionStrategy
+  DetectionStrategy,
+  RuntimeTarget
 } from './types.js';
+import { isBuiltinModule } from './DependencyAnalyzer.js';
 
 /**
  * Enhanced language detector that analyzes code content using AST parsing
@@ -94,6 +96,42 @@ export class LanguageDetector {
     }]
   ]);
 
+  // Test code patterns: a test call with a literal name, or a test framework import
+  private readonly testPatterns = [
+    /^\s*(?:describe|it|test)(?:\.(?:only|skip|todo))?\s*\(\s*['"`]/m,
+    /from\s+['"](?:vitest|@jest\/globals)['"]/
+  ];
+
+  // Declarations that shadow the test functions (the code defines its own `test`)
+  private readonly testShadowPattern = /(?:function\s+|(?:const|let|var|class)\s+)(?:describe|it|test)\b/;
+
+  // Globals that only exist in a browser page
+  private readonly browserGlobals = [
+    'document', 'window', 'localStorage', 'sessionStorage', 'navigator', 'indexedDB',
+    'requestAnimationFrame', 'cancelAnimationFrame', 'alert', 'matchMedia', 'getComputedStyle',
+    'customElements', 'HTMLElement', 'DOMParser'
+  ];
+
+  // Globals that only exist in Node, also when read whole (`const { env } = process`)
+  private readonly nodeGlobals = ['process', 'Buffer'];
+
+  // Other Node-only APIs used as globals (module specifiers are checked separately)
+  private readonly nodePatterns = [
+    /(?<![\w$.])require\s*\(/,
+    /(?<![\w$.])module\.exports\b/,
+    /(?<![\w$.])exports\.\w/,
+    /(?<![\w$.])(?:__dirname|__filename)\b/,
+    /(?<![\w$.])global\.\w/,
+    /(?<![\w$.]|typeof\s+)globalThis\.(?:process|Buffer|global|setImmediate)\b/,
+    /(?<![\w$.])setImmediate\s*\(/
+  ];
+
+  // Import, export-from and require specifiers
+  private readonly specifierPattern = /(?:\bfrom|\bimport|\brequire\s*\()\s*['"]([^'"]+)['"]/g;
+
+  // Comments and string literals, blanked out before looking for globals
+  private readonly commentOrStringPattern = /\/\*[\s\S]*?\*\/|\/\/.*$|'(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"|`(?:\\.|[^`\\])*`/gm;
+
   // Framework detection patterns
   private readonly frameworkPatterns = new Map<SupportedFramework, {
     imports: RegExp[];
@@ -214,10 +252,51 @@ export class LanguageDetector {
       confidence: Math.min(baseInfo.confidence + (features.length > 0 ? 0.3 : 0.1), 1.0),
       features: [...baseInfo.features, ...features],
       framework: frameworks.length > 0 ? frameworks[0].name : undefined,
-      requiresTranspilation: this.determineTranspilationNeed(features, frameworks)
+      requiresTranspilation: this.determineTranspilationNeed(features, frameworks),
+      isTest: this.isTestCode(code),
+      runtime: this.detectRuntime(code)
     };
   }
 
+  /**
+   * Detect where the code can run. Node APIs (require, process, built-in
+   * modules) make it 'node' even if it also touches the DOM, since the browser
+   * has no way to provide them; DOM globals alone make it 'browser'; code that
+   * uses neither (fetch, timers, console) is 'universal'.
+   * `typeof window` checks and locally declared names don't count.
+   */
+  detectRuntime(code: string): RuntimeTarget {
+    const specifiers = Array.from(code.matchAll(this.specifierPattern), match => match[1]);
+    const stripped = code.replace(this.commentOrStringPattern, match => match.replace(/[^\n]/g, ' '));
+
+    if (
+      specifiers.some(isBuiltinModule) ||
+      this.nodePatterns.some(pattern => pattern.test(stripped)) ||
+      this.nodeGlobals.some(name => this.usesGlobal(stripped, name))
+    ) {
+      return 'node';
+    }
+
+    return this.browserGlobals.some(name => this.usesGlobal(stripped, name)) ? 'browser' : 'universal';
+  }
+
+  /**
+   * Whether the code reads a global, leaving out `typeof` checks, property
+   * accesses and names the code declares itself
+   */
+  private usesGlobal(code: string, name: string): boolean {
+    return new RegExp(`(?<![\\w$.]|typeof\\s+)${name}\\b`).test(code) &&
+      !new RegExp(`(?:function\\s+|(?:const|let|var|class)\\s+)${name}\\b`).test(code);
+  }
+
+  /**
+   * Detect whether the code is a test file (describe/it/test calls) that
+   * should run with the built-in test harness instead of as a plain program
+   */
+  isTestCode(code: string): boolean {
+    return this.testPatterns.some(pattern => pattern.test(code)) && !this.testShadowPattern.test(code);
+  }
+
   /**
    * Detect language from file extension
    */
@@ -0,0 +1,217 @@
+/**
+ * LoopGuardPlugin - Aborts runaway loops and recursion
+ *
+ * Injects a guard call at the start of every `for`/`while`/`do` loop body and
+ * a call-depth guard around every synchronous function. When a loop runs too
+ * many iterations or blocks the thread for too long (time spent waiting in
+ * `await` doesn't count), or calls nest too deep, the guard prints a
+ * runtime marker with the original source line and throws, so an accidental
+ * `while (true)` fails fast instead of blocking the run until its timeout.
+ */
+
+import type { NodePath, PluginObj, PluginPass, types as BabelTypes } from '@babel/core';
+import type * as BabelCore from '@babel/core';
+import { RUNTIME_MARKER_PREFIX, type RuntimeMarker } from '../RuntimeMarkers.js';
+import type { LoopGuardOptions } from '../types.js';
+
+export const LOOP_GUARD_CHANNEL = 'loop-guard';
+
+const HELPER_PREFIX = '__orbis';
+const LOOP_ENTER_NAME = '__orbisLoopEnter';
+const LOOP_GUARD_NAME = '__orbisLoopGuard';
+const CALL_ENTER_NAME = '__orbisCallEnter';
+const CALL_EXIT_NAME = '__orbisCallExit';
+const STATE_NAME = '__orbisGuardState';
+
+export const DEFAULT_LOOP_GUARD: Required<LoopGuardOptions> = {
+  maxIterations: 1000000,
+  maxLoopTime: 2000,
+  maxCallDepth: 5000
+};
+
+/**
+ * Payload of a loop guard marker
+ */
+export interface LoopGuardTrip {
+  kind: 'loop' | 'recursion';
+  line: number;
+  message: string;
+}
+
+interface PluginAPI {
+  types: typeof BabelTypes;
+  template: typeof BabelCore.template;
+}
+
+interface LoopGuardState extends PluginPass {
+  nextLoopId: number;
+  guarded: WeakSet<BabelTypes.Node>;
+}
+
+/**
+ * Runtime guards injected at the top of guarded programs.
+ * Kept ES5-compatible, like the annotation recorder.
+ */
+function createGuardSource(limits: Required<LoopGuardOptions>): string {
+  return `
+var ${STATE_NAME} = { tripped: null, depth: 0, loops: {}, turn: 0, turnOpen: false };
+// Number of the current run of synchronous code: a loop resumed after an await is in a later one
+function __orbisGuardTurn() {
+  if (!${STATE_NAME}.turnOpen) {
+    ${STATE_NAME}.turn++;
+    ${STATE_NAME}.turnOpen = true;
+    Promise.resolve().then(function () { ${STATE_NAME}.turnOpen = false; });
+  }
+  return ${STATE_NAME}.turn;
+}
+function __orbisGuardTrip(kind, line, message) {
+  var payload = { kind: kind, line: line, message: message };
+  var marker = '${RUNTIME_MARKER_PREFIX}${LOOP_GUARD_CHANNEL}:' + JSON.stringify(payload);
+  if (typeof process !== 'undefined' && process.stdout && process.stdout.write) {
+    process.stdout.write(marker + '\\n');
+  } else {
+    console.log(marker);
+  }
+  ${STATE_NAME}.tripped = new RangeError(message);
+  throw ${STATE_NAME}.tripped;
+}
+function ${LOOP_ENTER_NAME}(id) {
+  ${STATE_NAME}.loops[id] = { count: 0, start: Date.now(), turn: __orbisGuardTurn() };
+}
+function ${LOOP_GUARD_NAME}(id, line) {
+  if (${STATE_NAME}.tripped) {
+    throw ${STATE_NAME}.tripped;
+  }
+  var turn = __orbisGuardTurn();
+  var loop = ${STATE_NAME}.loops[id] || (${STATE_NAME}.loops[id] = { count: 0, start: Date.now(), turn: turn });
+  // The time limit covers one run of synchronous code, iterations count across awaits
+  if (loop.turn !== turn) {
+    loop.turn = turn;
+    loop.start = Date.now();
+  }
+  loop.count++;
+  if (loop.count > ${limits.maxIterations}) {
+    __orbisGuardTrip('loop', line, 'Potential infinite loop on line ' + line + ': more than ${limits.maxIterations} iterations');
+  }
+  if (Date.now() - loop.start > ${limits.maxLoopTime}) {
+    __orbisGuardTrip('loop', line, 'Potential infinite loop on line ' + line + ': running for more than ${limits.maxLoopTime}ms');
+  }
+}
+function ${CALL_ENTER_NAME}(line) {
+  if (${STATE_NAME}.tripped) {
+    throw ${STATE_NAME}.tripped;
+  }
+  if (++${STATE_NAME}.depth > ${limits.maxCallDepth}) {
+    __orbisGuardTrip('recursion', line, 'Potential infinite recursion in the function on line ' + line + ': more than ${limits.maxCallDepth} nested calls');
+  }
+}
+function ${CALL_EXIT_NAME}() {
+  ${STATE_NAME}.depth--;
+}
+`;
+}
+
+/**
+ * Babel plugin that adds iteration, time and call-depth guards
+ */
+export function loopGuardPlugin(
+  { types: t, template }: PluginAPI,
+  options: LoopGuardOptions = {}
+): PluginObj<LoopGuardState> {
+  const limits = { ...DEFAULT_LOOP_GUARD, ...options };
+
+  const call = (name: string, args: number[]): BabelTypes.ExpressionStatement =>
+    t.expressionStatement(t.callExpression(t.identifier(name), args.map(arg => t.numericLiteral(arg))));
+
+  // The guards' own functions (and the annotation recorder) are never guarded
+  const isHelper = (path: NodePath<BabelTypes.Function>): boolean =>
+    !!path.find(parent => parent.isFunctionDeclaration() && !!parent.node.id?.name.startsWith(HELPER_PREFIX));
+
+  return {
+    name: 'orbis-loop-guard',
+    visitor: {
+      Program: {
+        enter(_path, state) {
+          state.nextLoopId = 0;
+          state.guarded = new WeakSet();
+        },
+        exit(path) {
+          path.unshiftContainer('body', template.statements.ast(createGuardSource(limits)));
+        }
+      },
+
+      Loop(path: NodePath<BabelTypes.Loop>, state) {
+        const { node } = path;
+        if (!node.loc || state.guarded.has(node)) {
+          return;
+        }
+        state.guarded.add(node);
+
+        const id = ++state.nextLoopId;
+        const line = node.loc.start.line;
+
+        const body = path.get('body') as NodePath<BabelTypes.Statement>;
+        if (!body.isBlockStatement()) {
+          body.replaceWith(t.blockStatement([body.node]));
+        }
+        (path.get('body') as NodePath<BabelTypes.BlockStatement>).unshiftContainer('body', call(LOOP_GUARD_NAME, [id, line]));
+
+        // Counters restart every time the loop is reached again (e.g. an inner loop)
+        let statement: NodePath = path;
+        while (statement.parentPath?.isLabeledStatement()) {
+          statement = statement.parentPath;
+        }
+        statement.insertBefore(call(LOOP_ENTER_NAME, [id]));
+      },
+
+      Function(path: NodePath<BabelTypes.Function>, state) {
+        const { node } = path;
+        // Async functions and generators don't grow the stack while suspended
+        if (!node.loc || node.async || node.generator || state.guarded.has(node) || isHelper(path)) {
+          return;
+        }
+        state.guarded.add(node);
+
+        const line = node.loc.start.line;
+        const body = t.isBlockStatement(node.body)
+          ? node.body
+          : t.blockStatement([t.returnStatement(node.body)]);
+
+        node.body = t.blockStatement(
+          [
+            t.tryStatement(
+              t.blockStatement([call(CALL_ENTER_NAME, [line]), ...body.body]),
+              null,
+              t.blockStatement([call(CALL_EXIT_NAME, [])])
+            )
+          ],
+          body.directives
+        );
+      }
+    }
+  };
+}
+
+/**
+ * Narrow a runtime marker payload to a loop guard trip
+ */
+export function isLoopGuardTrip(payload: unknown): payload is LoopGuardTrip {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    typeof (payload as LoopGuardTrip).line === 'number' &&
+    typeof (payload as LoopGuardTrip).message === 'string'
+  );
+}
+
+/**
+ * The guard that aborted the run, if any
+ */
+export function findLoopGuardTrip(markers: RuntimeMarker[]): LoopGuardTrip | null {
+  for (const { channel, payload } of markers) {
+    if (channel === LOOP_GUARD_CHANNEL && isLoopGuardTrip(payload)) {
+      return payload;
+    }
+  }
+  return null;
+}
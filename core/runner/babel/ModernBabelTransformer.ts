@@ -9,19 +9,25 @@ import type {
   BabelGlobalConfig,
   JavaScriptConfig,
   TypeScriptConfig,
-  SupportedLanguage,
   SupportedFramework,
   PresetInfo,
   PluginInfo,
   CacheStats,
   ValidationResult,
-  PerformanceMetrics,
   TransformMetadata,
-  TransformationError,
+  TransformWarning,
   SourceMap
 } from './types.js';
 import { ErrorHandler, type ErrorContext } from './ErrorHandler.js';
-import type { WebContainerInstance } from '../types.js';
+import { instrumentationPlugin } from './InstrumentationPlugin.js';
+import { importResolverPlugin } from './ImportResolverPlugin.js';
+import { loopGuardPlugin } from './LoopGuardPlugin.js';
+import { testHarnessPlugin } from './TestHarnessPlugin.js';
+import { benchmarkPlugin } from './BenchmarkPlugin.js';
+import { consoleShimPlugin } from './ConsoleShimPlugin.js';
+import { moduleFormatPlugin } from './ModuleFormatPlugin.js';
+import type { ModuleFormatInfo, WebContainerInstance } from '../types.js';
+import type { PluginItem } from '@babel/core';
 
 /**
  * Core interface for the modern Babel transformer
@@ -35,6 +41,8 @@ export interface IModernBabelTransformer {
   transformJavaScript(code: string, config?: JavaScriptConfig): Promise<TransformResult>;
   transformTypeScript(code: string, config?: TypeScriptConfig): Promise<TransformResult>;
   transformJSX(code: string, framework: SupportedFramework): Promise<TransformResult>;
+  instrumentCode(code: string, options?: TransformOptions): Promise<TransformResult>;
+  resolveImports(code: string, options?: TransformOptions): Promise<TransformResult>;
   
   // Configuration management
   setGlobalConfig(config: BabelGlobalConfig): void;
@@ -373,13 +381,14 @@ export class ModernBabelTransformer implements IModernBabelTransformer {
               transformedSize: resolution.code.length,
               appliedPresets: [],
               appliedPlugins: [],
-              warnings: resolution.warnings,
+              warnings: resolution.warnings.map((message): TransformWarning => ({
+                type: 'compatibility',
+                message
+              })),
               dependencies: []
             },
             performance: {
               transformTime: 0,
-              executionTime: 0,
-              totalTime: 0,
               memoryUsage: 0,
               cacheHit: false
             }
@@ -415,7 +424,7 @@ export class ModernBabelTransformer implements IModernBabelTransformer {
   /**
    * Transform file by reading content and applying transformation
    */
-  public async transformFile(filePath: string, options: TransformOptions = {}): Promise<TransformResult> {
+  public async transformFile(): Promise<TransformResult> {
     // This would typically read from file system
     // For now, we'll throw an error indicating this needs WebContainer integration
     throw new Error('transformFile requires WebContainer integration - use transformCode instead');
@@ -505,6 +514,127 @@ export class ModernBabelTransformer implements IModernBabelTransformer {
     return this.transformCode(code, options);
   }
 
+  /**
+   * Run only the instrumentation pass, leaving syntax (including TypeScript
+   * types) untouched so the regular transform can follow. Only @babel/core is
+   * needed, so it is loaded on demand without requiring initialize().
+   * `options.instrument: false` skips value recording and `options.loopGuard`
+   * adds loop guards; both share one pass so guards report original lines.
+   * `options.testHarness` runs the program's tests with the built-in harness and
+   * `options.benchmark` times its `// @bench` functions (or the whole program).
+   * `options.moduleFormat` picks how Node loads the file (see `metadata.moduleFormat`).
+   */
+  public async instrumentCode(code: string, options: TransformOptions = {}): Promise<TransformResult> {
+    const plugins: PluginItem[] = [];
+    // First, so it sees the program as the user wrote it
+    if (options.moduleFormat) {
+      plugins.push(this.getModuleFormatPlugin(options.moduleFormat));
+    }
+    if (options.instrument !== false) {
+      plugins.push(instrumentationPlugin);
+    }
+    if (options.loopGuard) {
+      plugins.push([loopGuardPlugin, options.loopGuard]);
+    }
+    if (options.testHarness) {
+      plugins.push(testHarnessPlugin);
+    }
+    if (options.benchmark) {
+      plugins.push([benchmarkPlugin, options.benchmark]);
+    }
+    if (options.consoleShim) {
+      plugins.push(consoleShimPlugin);
+    }
+    return this.runSourcePass(code, options, plugins, 'orbis-instrumentation');
+  }
+
+  /**
+   * Point relative imports at the files emitted for the other project files
+   * (`options.projectFiles`). Like instrumentCode, syntax is left untouched;
+   * with `options.moduleFormat`, CommonJS globals get their ES module interop.
+   */
+  public async resolveImports(code: string, options: TransformOptions = {}): Promise<TransformResult> {
+    const filename = options.filename || 'unknown.js';
+    const plugins: PluginItem[] = [[importResolverPlugin, { filename, projectFiles: options.projectFiles || [] }]];
+    if (options.moduleFormat) {
+      plugins.unshift(this.getModuleFormatPlugin(options.moduleFormat));
+    }
+    return this.runSourcePass(code, { ...options, filename }, plugins, 'orbis-import-resolver');
+  }
+
+  /**
+   * Module format pass; 'auto' lets the syntax decide
+   */
+  private getModuleFormatPlugin(format: NonNullable<TransformOptions['moduleFormat']>): PluginItem {
+    return [moduleFormatPlugin, { format: format === 'auto' ? undefined : format }];
+  }
+
+  /**
+   * Apply source-to-source plugins without presets, keeping original line numbers
+   */
+  private async runSourcePass(
+    code: string,
+    options: TransformOptions,
+    plugins: PluginItem[],
+    pluginName: string
+  ): Promise<TransformResult> {
+    const startTime = performance.now();
+
+    if (!this.babel) {
+      this.babel = await this.loadBabelCore();
+    }
+
+    const language = options.language || 'javascript';
+    const parserPlugins: string[] = [];
+    if (language === 'typescript' || language === 'tsx') {
+      parserPlugins.push('typescript');
+    }
+    if (language !== 'typescript') {
+      parserPlugins.push('jsx');
+    }
+
+    const babelOptions = {
+      babelrc: false,
+      configFile: false,
+      filename: options.filename || 'unknown.js',
+      sourceType: 'unambiguous',
+      parserOpts: {
+        plugins: parserPlugins,
+        allowAwaitOutsideFunction: true
+      },
+      presets: [],
+      plugins,
+      retainLines: true,
+      // Injected runtimes share the first line with user code; the map tells them apart
+      sourceMaps: true
+    };
+
+    try {
+      const result = await this.babel.transformAsync(code, babelOptions);
+
+      if (!result || !result.code) {
+        throw new Error(`Babel pass ${pluginName} returned no result`);
+      }
+
+      return {
+        code: result.code,
+        map: (result.map as SourceMap) || undefined,
+        ast: undefined,
+        metadata: {
+          ...this.buildTransformMetadata(code, result.code, { presets: [], plugins: [pluginName] }, []),
+          moduleFormat: (result.metadata as { moduleFormat?: ModuleFormatInfo } | undefined)?.moduleFormat
+        },
+        performance: {
+          transformTime: performance.now() - startTime,
+          cacheHit: false,
+          memoryUsage: this.estimateMemoryUsage(code, result.code)
+        }
+      };
+    } catch (error) {
+      throw this.createTransformationError(error, code, options);
+    }
+  }
+
   /**
    * Get framework-specific presets
    */
@@ -563,9 +693,14 @@ export class ModernBabelTransformer implements IModernBabelTransformer {
   private buildBabelOptions(options: TransformOptions): any {
     const config = options.customConfig || this.globalConfig;
     
+    const plugins: unknown[] = (config.plugins || []).filter(p => p.enabled).map(p => [p.name, p.options]);
+    if (options.instrument) {
+      plugins.push(instrumentationPlugin);
+    }
+    
     return {
-      presets: config.presets.filter(p => p.enabled).map(p => [p.name, p.options]),
-      plugins: config.plugins.filter(p => p.enabled).map(p => [p.name, p.options]),
+      presets: (config.presets || []).filter(p => p.enabled).map(p => [p.name, p.options]),
+      plugins,
       filename: options.filename || 'unknown.js',
       sourceMaps: this.sourceMapsEnabled && (options.sourceMaps !== false),
       sourceType: config.sourceType,
@@ -591,7 +726,7 @@ export class ModernBabelTransformer implements IModernBabelTransformer {
       originalSize: originalCode.length,
       transformedSize: transformedCode.length,
       appliedPresets: babelOptions.presets.map((p: any) => Array.isArray(p) ? p[0] : p),
-      appliedPlugins: babelOptions.plugins.map((p: any) => Array.isArray(p) ? p[0] : p),
+      appliedPlugins: babelOptions.plugins.map((p: any) => Array.isArray(p) ? p[0] : (typeof p === 'function' ? p.name : p)),
       warnings: warnings.map(w => ({
         type: 'compatibility' as const,
         message: w.message || 'Unknown warning',
@@ -704,7 +839,7 @@ export class ModernBabelTransformer implements IModernBabelTransformer {
   }
 
   public getAvailablePresets(): PresetInfo[] {
-    return Array.from(this.registeredPresets.entries()).map(([name, preset]) => ({
+    return Array.from(this.registeredPresets.entries()).map(([name]) => ({
       name,
       version: '1.0.0', // Would be extracted from package.json in real implementation
       description: `Babel preset: ${name}`,
@@ -715,7 +850,7 @@ export class ModernBabelTransformer implements IModernBabelTransformer {
   }
 
   public getAvailablePlugins(): PluginInfo[] {
-    return Array.from(this.registeredPlugins.entries()).map(([name, plugin]) => ({
+    return Array.from(this.registeredPlugins.entries()).map(([name]) => ({
       name,
       version: '1.0.0', // Would be extracted from package.json in real implementation
       description: `Babel plugin: ${name}`,
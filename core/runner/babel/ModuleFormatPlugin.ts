@@ -0,0 +1,186 @@
+/**
+ * ModuleFormatPlugin - Picks the module format a snippet runs in
+ *
+ * Snippets pasted into a tab mix `import` with `require`, use `module.exports`
+ * or await at the top level, and Node refuses most combinations depending on
+ * how the file is loaded. This plugin looks at the module syntax a program
+ * actually uses and decides how to run it:
+ *
+ * - `import`/`export`/`import.meta`, top-level await or no module syntax at all:
+ *   an ES module (top-level await works natively)
+ * - only CommonJS globals (`require`, `module.exports`, `__dirname`...): CommonJS
+ * - both, or CommonJS globals with top-level await: an ES module that declares
+ *   those globals itself (`require` comes from `createRequire`)
+ *
+ * The decision is stored in the file metadata (`moduleFormat`); the runner
+ * names the entry file after it (`.mjs`/`.cjs`) so the package.json `type`
+ * doesn't matter.
+ */
+
+import type { NodePath, PluginObj, PluginPass, types as BabelTypes } from '@babel/core';
+import type * as BabelCore from '@babel/core';
+import type { ModuleFormat, ModuleFormatInfo } from '../types.js';
+
+// CommonJS module-scope variables, in the order their shims are declared
+const COMMONJS_GLOBALS = ['require', 'module', 'exports', '__filename', '__dirname'] as const;
+
+type CommonJsGlobal = typeof COMMONJS_GLOBALS[number];
+
+/**
+ * Module syntax found in a program
+ */
+export interface ModuleSyntax {
+  esm: boolean; // import/export declarations or import.meta
+  commonJs: CommonJsGlobal[]; // CommonJS globals used without a local binding
+  topLevelAwait: boolean; // `await` or `for await` outside any function
+}
+
+export interface ModuleFormatOptions {
+  /** Run as an ES module whatever the syntax (files of a project import each other) */
+  format?: ModuleFormat;
+}
+
+interface PluginAPI {
+  types: typeof BabelTypes;
+  template: typeof BabelCore.template;
+}
+
+// Declarations providing each CommonJS global to an ES module
+const INTEROP_IMPORTS: Record<CommonJsGlobal, string[]> = {
+  require: ["import { createRequire as __orbisCreateRequire } from 'node:module';"],
+  module: [],
+  exports: [],
+  __filename: ["import { fileURLToPath as __orbisFileURLToPath } from 'node:url';"],
+  __dirname: [
+    "import { fileURLToPath as __orbisFileURLToPath } from 'node:url';",
+    "import { dirname as __orbisDirname } from 'node:path';"
+  ]
+};
+
+const INTEROP_DECLARATIONS: Record<CommonJsGlobal, string> = {
+  require: 'const require = __orbisCreateRequire(import.meta.url);',
+  module: 'const module = { exports: {} };',
+  exports: 'let exports = module.exports;',
+  __filename: 'const __filename = __orbisFileURLToPath(import.meta.url);',
+  __dirname: 'const __dirname = __orbisDirname(__orbisFileURLToPath(import.meta.url));'
+};
+
+/**
+ * Scan a program for import/export, unbound CommonJS globals and top-level await
+ */
+export function analyzeModuleSyntax(program: NodePath<BabelTypes.Program>): ModuleSyntax {
+  const commonJs = new Set<CommonJsGlobal>();
+  let esm = false;
+  let topLevelAwait = false;
+
+  program.traverse({
+    'ImportDeclaration|ExportNamedDeclaration|ExportDefaultDeclaration|ExportAllDeclaration'() {
+      esm = true;
+    },
+    MetaProperty(path) {
+      if (path.node.meta.name === 'import') {
+        esm = true;
+      }
+    },
+    ReferencedIdentifier(path: NodePath<BabelTypes.Identifier | BabelTypes.JSXIdentifier>) {
+      const name = path.node.name as CommonJsGlobal;
+      if (COMMONJS_GLOBALS.includes(name) && !path.scope.hasBinding(name, true)) {
+        commonJs.add(name);
+      }
+    },
+    AwaitExpression(path) {
+      if (!path.getFunctionParent()) {
+        topLevelAwait = true;
+      }
+    },
+    ForOfStatement(path) {
+      if (path.node.await && !path.getFunctionParent()) {
+        topLevelAwait = true;
+      }
+    }
+  });
+
+  return {
+    esm,
+    commonJs: COMMONJS_GLOBALS.filter(name => commonJs.has(name)),
+    topLevelAwait
+  };
+}
+
+/**
+ * Decide how a program runs, with the reason shown in the output
+ */
+export function chooseModuleFormat(syntax: ModuleSyntax, format?: ModuleFormat): ModuleFormatInfo {
+  const commonJs = syntax.commonJs.join(', ');
+
+  if (syntax.commonJs.length === 0) {
+    let reason = 'ES module';
+    if (syntax.esm && syntax.topLevelAwait) {
+      reason += ' (import/export, top-level await)';
+    } else if (syntax.esm) {
+      reason += ' (import/export)';
+    } else if (syntax.topLevelAwait) {
+      reason += ' (top-level await)';
+    } else {
+      reason += ' (no import or require)';
+    }
+    return { format: 'esm', interop: false, reason };
+  }
+
+  if (format !== 'esm' && !syntax.esm && !syntax.topLevelAwait) {
+    return { format: 'commonjs', interop: false, reason: `CommonJS (${commonJs})` };
+  }
+
+  const cause = format === 'esm' && !syntax.esm && !syntax.topLevelAwait
+    ? 'project files are ES modules'
+    : syntax.esm ? 'import/export mixed with CommonJS' : 'top-level await with CommonJS';
+  return {
+    format: 'esm',
+    interop: true,
+    reason: `ES module with CommonJS interop for ${commonJs} (${cause})`
+  };
+}
+
+/**
+ * Path Node should load a file from so it runs in the given format
+ */
+export function getModuleEntryPath(path: string, format: ModuleFormat): string {
+  const extension = format === 'commonjs' ? '.cjs' : '.mjs';
+  return /\.[cm]?[jt]sx?$/.test(path) ? path.replace(/\.[cm]?[jt]sx?$/, extension) : `${path}${extension}`;
+}
+
+/**
+ * Analyze the program, record the decision in `file.metadata.moduleFormat`
+ * and declare the CommonJS globals an ES module needs
+ */
+export function moduleFormatPlugin(
+  { template }: PluginAPI,
+  options: ModuleFormatOptions = {}
+): PluginObj<PluginPass> {
+  return {
+    name: 'orbis-module-format',
+    visitor: {
+      Program(path, state) {
+        const syntax = analyzeModuleSyntax(path);
+        const decision = chooseModuleFormat(syntax, options.format);
+        (state.file.metadata as { moduleFormat?: ModuleFormatInfo }).moduleFormat = decision;
+
+        if (!decision.interop) {
+          return;
+        }
+
+        // `exports` is an alias of `module.exports`
+        const globals = syntax.commonJs.includes('exports') && !syntax.commonJs.includes('module')
+          ? [...syntax.commonJs, 'module' as const]
+          : syntax.commonJs;
+        const imports = new Set(globals.flatMap(name => INTEROP_IMPORTS[name]));
+        const declarations = COMMONJS_GLOBALS
+          .filter(name => globals.includes(name))
+          .map(name => INTEROP_DECLARATIONS[name]);
+
+        path.node.sourceType = 'module';
+        path.unshiftContainer('body', template.statements.ast([...imports, ...declarations].join('\n')));
+      }
+    }
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * ReplStatements - Top-level statements of a program, rewritten for a REPL session
+ *
+ * A REPL session keeps one context alive between runs and evaluates code in
+ * it as scripts, one top-level statement at a time. Scripts can't declare a
+ * `let`, `const` or class binding twice, nor use import/export, so each
+ * statement is rewritten first: declarations become `var` (an edited
+ * `const x` can run again), imports become awaited dynamic imports through
+ * the session's loader and `export` keywords are dropped. A statement with
+ * top-level await runs inside an async function, with the names it declares
+ * hoisted out of it.
+ *
+ * Statements are compared by their source text, so after the first run only
+ * the new and edited ones have to be evaluated again.
+ */
+
+import { parse, type ParserPlugin } from '@babel/parser';
+import traverse from '@babel/traverse';
+import type { NodePath } from '@babel/traverse';
+import type * as t from '@babel/types';
+
+/**
+ * Object the session exposes to rewritten imports (`<name>.import(specifier)`)
+ */
+export const REPL_LOADER_NAME = '__orbisRepl';
+
+/**
+ * A top-level statement and where it is in the program
+ */
+export interface ProgramStatement {
+  type: t.Statement['type']; // Node type, e.g. 'ImportDeclaration'
+  source: string; // Text of the statement, without the comments around it
+  start: number; // Offsets in the program
+  end: number;
+  line: number; // 1-based line of its first character
+  column: number; // 0-based column of its first character
+}
+
+/**
+ * A statement ready to be evaluated by a REPL session
+ */
+export interface ReplStatement extends ProgramStatement {
+  code: string; // Script evaluated in the session's context
+  async: boolean; // The script evaluates to a promise the session waits for
+  expression: boolean; // Its (awaited) value is the statement's value
+}
+
+const PARSER_PLUGINS: Record<'javascript' | 'typescript', ParserPlugin[]> = {
+  javascript: ['jsx', 'importAttributes'],
+  typescript: ['typescript', 'decorators-legacy', 'importAttributes']
+};
+
+function parseProgram(code: string, language: 'javascript' | 'typescript'): t.File {
+  return parse(code, {
+    sourceType: 'module',
+    allowAwaitOutsideFunction: true,
+    plugins: PARSER_PLUGINS[language]
+  });
+}
+
+function toProgramStatement(node: t.Statement, code: string): ProgramStatement {
+  return {
+    type: node.type,
+    source: code.slice(node.start!, node.end!),
+    start: node.start!,
+    end: node.end!,
+    line: node.loc!.start.line,
+    column: node.loc!.start.column
+  };
+}
+
+/**
+ * Top-level statements of a program, in order. Throws the parser's
+ * SyntaxError when the code doesn't parse.
+ */
+export function splitStatements(
+  code: string,
+  language: 'javascript' | 'typescript' = 'javascript'
+): ProgramStatement[] {
+  return parseProgram(code, language).program.body.map(node => toProgramStatement(node, code));
+}
+
+/**
+ * The statements of a program that weren't evaluated in its previous run:
+ * new ones and edited ones. `previous` holds the source of each statement
+ * evaluated then; a statement that appears twice only counts as evaluated
+ * as many times as it was.
+ */
+export function selectChangedStatements<T extends Pick<ProgramStatement, 'source'>>(previous: string[], statements: T[]): T[] {
+  const remaining = new Map<string, number>();
+  for (const source of previous) {
+    remaining.set(source, (remaining.get(source) || 0) + 1);
+  }
+
+  return statements.filter(statement => {
+    const count = remaining.get(statement.source) || 0;
+    if (count === 0) {
+      return true;
+    }
+    remaining.set(statement.source, count - 1);
+    return false;
+  });
+}
+
+/**
+ * Split plain JavaScript (TypeScript is compiled first) into the statements
+ * a REPL session evaluates. Statements with no runtime effect, such as
+ * `export { a }`, are left out. Throws when the code doesn't parse.
+ */
+export function createReplStatements(code: string): ReplStatement[] {
+  const ast = parseProgram(code, 'javascript');
+  const statements: ReplStatement[] = [];
+
+  traverse(ast, {
+    Program(path: NodePath<t.Program>) {
+      for (const statementPath of path.get('body')) {
+        const isAsync = statementPath.isImportDeclaration() || hasTopLevelAwait(statementPath);
+        const rewritten = rewriteStatement(statementPath.node, code, isAsync);
+        if (rewritten) {
+          statements.push({ ...toProgramStatement(statementPath.node, code), ...rewritten, async: isAsync });
+        }
+      }
+      path.stop();
+    }
+  });
+
+  return statements;
+}
+
+/**
+ * Whether the statement awaits outside of any function of its own
+ */
+function hasTopLevelAwait(path: NodePath<t.Statement>): boolean {
+  if (path.isFunctionDeclaration()) {
+    return false;
+  }
+
+  let found = path.isForOfStatement() && path.node.await;
+  path.traverse({
+    Function(functionPath: NodePath<t.Function>) {
+      functionPath.skip();
+    },
+    AwaitExpression() {
+      found = true;
+    },
+    ForOfStatement(loopPath: NodePath<t.ForOfStatement>) {
+      found = found || loopPath.node.await;
+    }
+  });
+  return found;
+}
+
+function rewriteStatement(
+  node: t.Statement,
+  code: string,
+  isAsync: boolean
+): { code: string; expression: boolean } | null {
+  const text = (target: t.Node) => code.slice(target.start!, target.end!);
+
+  switch (node.type) {
+    case 'ImportDeclaration':
+      return rewriteImport(node);
+
+    case 'ExportNamedDeclaration':
+      return node.declaration ? rewriteStatement(node.declaration, code, isAsync) : null;
+
+    case 'ExportDefaultDeclaration': {
+      const declaration = node.declaration;
+      if ((declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') && declaration.id) {
+        return rewriteStatement(declaration, code, isAsync);
+      }
+      return rewriteExpression(`(${text(declaration)})`, `(${text(declaration)});`, isAsync);
+    }
+
+    case 'ExportAllDeclaration':
+      return null;
+
+    case 'VariableDeclaration':
+      return isAsync
+        ? hoisted(
+          node.declarations.flatMap(declarator => getBindingNames(declarator.id)),
+          node.declarations.map(declarator => `(${text(declarator.id)} = ${declarator.init ? text(declarator.init) : 'undefined'});`).join(' ')
+        )
+        : {
+          // Running `let x;` again starts x over, as in a new run of the program
+          code: `var ${node.declarations.map(declarator => declarator.init ? text(declarator) : `${text(declarator.id)} = undefined`).join(', ')};`,
+          expression: false
+        };
+
+    case 'ClassDeclaration':
+      return node.id ? { code: `var ${node.id.name} = ${text(node)};`, expression: false } : null;
+
+    case 'ExpressionStatement':
+      return rewriteExpression(text(node.expression), text(node), isAsync);
+
+    default:
+      return isAsync
+        ? { code: `(async () => { ${text(node)} })()`, expression: false }
+        : { code: text(node), expression: false };
+  }
+}
+
+/**
+ * An expression statement; in an async function its value is returned
+ */
+function rewriteExpression(expression: string, statement: string, isAsync: boolean): { code: string; expression: boolean } {
+  return isAsync
+    ? { code: `(async () => { return (${expression}); })()`, expression: true }
+    : { code: statement, expression: true };
+}
+
+/**
+ * An async body whose assignments outlive it: the names are declared with
+ * `var` in the context first
+ */
+function hoisted(names: string[], body: string): { code: string; expression: boolean } {
+  const declaration = names.length > 0 ? `var ${names.join(', ')}; ` : '';
+  return { code: `${declaration}(async () => { ${body} })()`, expression: false };
+}
+
+/**
+ * `import a, { b as c } from 'x'` becomes
+ * `({ default: a, b: c } = await __orbisRepl.import('x'))`; bindings are
+ * copies taken when the statement runs
+ */
+function rewriteImport(node: t.ImportDeclaration): { code: string; expression: boolean } {
+  const load = `await ${REPL_LOADER_NAME}.import(${JSON.stringify(node.source.value)})`;
+  const specifiers = node.specifiers;
+  const namespace = specifiers.find(specifier => specifier.type === 'ImportNamespaceSpecifier');
+  const properties = specifiers
+    .filter(specifier => specifier.type !== 'ImportNamespaceSpecifier')
+    .map(specifier => {
+      if (specifier.type === 'ImportDefaultSpecifier') {
+        return `default: ${specifier.local.name}`;
+      }
+      const imported = specifier.imported.type === 'Identifier'
+        ? specifier.imported.name
+        : JSON.stringify(specifier.imported.value);
+      return `${imported}: ${specifier.local.name}`;
+    });
+  const names = specifiers.map(specifier => specifier.local.name);
+
+  if (namespace) {
+    const rest = properties.length > 0 ? ` ({ ${properties.join(', ')} } = ${namespace.local.name});` : '';
+    return hoisted(names, `${namespace.local.name} = ${load};${rest}`);
+  }
+  if (properties.length > 0) {
+    return hoisted(names, `({ ${properties.join(', ')} } = ${load});`);
+  }
+  return hoisted([], `${load};`);
+}
+
+/**
+ * Names bound by a declaration's left-hand side (`{ a, b: [c] }` -> a, c)
+ */
+function getBindingNames(node: t.Node): string[] {
+  switch (node.type) {
+    case 'Identifier':
+      return [node.name];
+    case 'ObjectPattern':
+      return node.properties.flatMap(property =>
+        property.type === 'RestElement' ? getBindingNames(property.argument) : getBindingNames(property.value)
+      );
+    case 'ArrayPattern':
+      return node.elements.flatMap(element => element ? getBindingNames(element) : []);
+    case 'AssignmentPattern':
+      return getBindingNames(node.left);
+    case 'RestElement':
+      return getBindingNames(node.argument);
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * RunRange - The part of a tab a partial run executes
+ *
+ * Besides the whole tab, a run can cover the selected text, the top-level
+ * statement under the cursor or everything from the start of the tab up to
+ * the cursor. Statement boundaries come from the parser (splitStatements), so
+ * the last two always run whole statements: a cursor in the middle of a
+ * function runs the whole function.
+ *
+ * The code of a range keeps its place in the tab: what comes before it is
+ * blanked out instead of removed, so the lines and columns of errors,
+ * annotations and test markers still point at the editor. The tab's imports
+ * above the range are kept, since the range may use what they bind.
+ */
+
+import { splitStatements, type ProgramStatement } from './ReplStatements.js';
+
+/**
+ * What a partial run covers
+ */
+export type RunScope = 'selection' | 'statement' | 'to-cursor';
+
+/**
+ * A position as the editor reports it (0-based line and column)
+ */
+export interface EditorPosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * The range of a tab a run executes
+ */
+export interface RunRange {
+  scope: RunScope;
+  code: string; // Code to run, with everything before the range blanked out
+  text: string; // The range itself
+  start: number; // Offsets in the tab
+  end: number;
+  startLine: number; // 1-based lines of its first and last characters
+  endLine: number;
+}
+
+/**
+ * Offset of an editor position in the code (clamped to the code)
+ */
+export function getOffset(code: string, position: EditorPosition): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const next = code.indexOf('\n', offset);
+    if (next === -1) {
+      return code.length;
+    }
+    offset = next + 1;
+  }
+  const lineEnd = code.indexOf('\n', offset);
+  return Math.min(offset + position.column, lineEnd === -1 ? code.length : lineEnd);
+}
+
+function lineAt(code: string, offset: number): number {
+  let line = 1;
+  for (let index = code.indexOf('\n'); index !== -1 && index < offset; index = code.indexOf('\n', index + 1)) {
+    line++;
+  }
+  return line;
+}
+
+// A whole-line Python import: `import math` or `from os import path`
+const PYTHON_IMPORT_PATTERN = /^(?:import\s+[\w.]|from\s+[\w.]+\s+import\s+[\w*])[^(\\]*$/;
+
+/**
+ * The code before a range with everything but the import declarations blanked out
+ */
+function blankBefore(code: string, start: number, imports: ProgramStatement[]): string {
+  let blank = code.slice(0, start).replace(/[^\n]/g, ' ');
+  for (const statement of imports) {
+    if (statement.end <= start) {
+      blank = blank.slice(0, statement.start) + statement.source + blank.slice(statement.end);
+    }
+  }
+  return blank;
+}
+
+/**
+ * Top-level import declarations of the code; none when it doesn't parse
+ */
+function findImports(code: string, language: 'javascript' | 'typescript'): ProgramStatement[] {
+  try {
+    return splitStatements(code, language).filter(statement => statement.type === 'ImportDeclaration');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Range between two offsets, keeping the given imports above it. Python
+ * keeps only the line breaks and its top-level import lines before it:
+ * blanking the columns too would indent its first line.
+ */
+function createRange(
+  code: string,
+  scope: RunScope,
+  start: number,
+  end: number,
+  keepColumns = true,
+  imports: ProgramStatement[] = []
+): RunRange {
+  const blank = keepColumns
+    ? blankBefore(code, start, imports)
+    : code.slice(0, start).split('\n').slice(0, -1)
+      .map(line => `${PYTHON_IMPORT_PATTERN.test(line) ? line : ''}\n`)
+      .join('');
+  const text = code.slice(start, end);
+  return {
+    scope,
+    code: blank + text,
+    text,
+    start,
+    end,
+    startLine: lineAt(code, start),
+    endLine: lineAt(code, Math.max(start, end - 1))
+  };
+}
+
+/**
+ * Range of the selected text
+ */
+export function getSelectionRange(
+  code: string,
+  from: EditorPosition,
+  to: EditorPosition,
+  language: string = 'javascript'
+): RunRange {
+  const start = getOffset(code, from);
+  const end = getOffset(code, to);
+  if (start === end) {
+    throw new Error('Nothing is selected');
+  }
+  if (language === 'python') {
+    return createRange(code, 'selection', Math.min(start, end), Math.max(start, end), false);
+  }
+  const imports = findImports(code, language === 'typescript' ? 'typescript' : 'javascript');
+  return createRange(code, 'selection', Math.min(start, end), Math.max(start, end), true, imports);
+}
+
+/**
+ * Range of the top-level statement under the cursor (a cursor at the edge of
+ * a statement counts as inside it). Throws when the cursor is between
+ * statements or the code doesn't parse.
+ */
+export function getStatementRange(
+  code: string,
+  cursor: EditorPosition,
+  language: 'javascript' | 'typescript' = 'javascript'
+): RunRange {
+  const offset = getOffset(code, cursor);
+  const statements = splitStatements(code, language);
+  const statement = statements.find(candidate => candidate.start <= offset && offset <= candidate.end);
+  if (!statement) {
+    throw new Error(`No statement at line ${cursor.line + 1}`);
+  }
+  const imports = statements.filter(candidate => candidate.type === 'ImportDeclaration');
+  return createRange(code, 'statement', statement.start, statement.end, true, imports);
+}
+
+/**
+ * Range from the start of the code through the cursor's line, extended to the
+ * end of the statement there. When the whole tab doesn't parse (e.g. code
+ * still being written below the cursor) only the code up to that line is parsed.
+ */
+export function getRangeToCursor(
+  code: string,
+  cursor: EditorPosition,
+  language: 'javascript' | 'typescript' = 'javascript'
+): RunRange {
+  const lineEnd = getOffset(code, { line: cursor.line, column: Infinity });
+  let statements: ProgramStatement[];
+  try {
+    statements = splitStatements(code, language);
+  } catch {
+    statements = splitStatements(code.slice(0, lineEnd), language);
+  }
+
+  const before = statements.filter(statement => statement.start < lineEnd);
+  if (before.length === 0) {
+    throw new Error(`No statement up to line ${cursor.line + 1}`);
+  }
+  return createRange(code, 'to-cursor', 0, before[before.length - 1].end);
+}
@@ -0,0 +1,183 @@
+/**
+ * SourceMapResolver - Maps positions in generated code back to the source
+ *
+ * Decodes the Base64 VLQ `mappings` of a version 3 source map once and
+ * answers position lookups against it. The code that runs has usually been
+ * through several passes (instrumentation, import resolution, TypeScript/JSX
+ * stripping); SourceMapChain walks back through all of them so a position in
+ * the file Node ran resolves to what the user wrote.
+ */
+
+import type { SourceMap } from './types.js';
+
+// One mapping of a generated line; every field is 0-based
+export interface MappingSegment {
+  generatedColumn: number;
+  sourceIndex?: number;
+  originalLine?: number;
+  originalColumn?: number;
+  nameIndex?: number;
+}
+
+// `line` is 1-based and `column` 0-based, like Babel locations
+export interface OriginalPosition {
+  line: number;
+  column: number;
+  source?: string;
+  name?: string;
+}
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const VLQ_SHIFT = 5;
+const VLQ_CONTINUATION = 1 << VLQ_SHIFT;
+const VLQ_MASK = VLQ_CONTINUATION - 1;
+
+/**
+ * Decode one segment (e.g. `AAgBC`) into its signed values
+ */
+export function decodeVLQ(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_DIGITS.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid Base64 VLQ character "${char}"`);
+    }
+
+    value += (digit & VLQ_MASK) << shift;
+    if (digit & VLQ_CONTINUATION) {
+      shift += VLQ_SHIFT;
+      continue;
+    }
+
+    // The lowest bit carries the sign
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+
+  if (shift !== 0) {
+    throw new Error(`Truncated Base64 VLQ segment "${segment}"`);
+  }
+  return values;
+}
+
+/**
+ * Decode a `mappings` string into segments per generated line, sorted by column.
+ * Fields are stored as deltas in the string; the result holds absolute values.
+ */
+export function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let nameIndex = 0;
+
+  for (const line of mappings.split(';')) {
+    const segments: MappingSegment[] = [];
+    let generatedColumn = 0;
+
+    for (const text of line.split(',')) {
+      if (!text) {
+        continue;
+      }
+
+      const fields = decodeVLQ(text);
+      generatedColumn += fields[0];
+      const segment: MappingSegment = { generatedColumn };
+      if (fields.length >= 4) {
+        sourceIndex += fields[1];
+        originalLine += fields[2];
+        originalColumn += fields[3];
+        Object.assign(segment, { sourceIndex, originalLine, originalColumn });
+      }
+      if (fields.length >= 5) {
+        nameIndex += fields[4];
+        segment.nameIndex = nameIndex;
+      }
+      segments.push(segment);
+    }
+
+    lines.push(segments.sort((a, b) => a.generatedColumn - b.generatedColumn));
+  }
+
+  return lines;
+}
+
+/**
+ * Position lookups against a single source map
+ */
+export class SourceMapResolver {
+  private readonly map: SourceMap;
+  private readonly lines: MappingSegment[][];
+
+  constructor(map: SourceMap | string) {
+    this.map = typeof map === 'string' ? JSON.parse(map) : map;
+    this.lines = decodeMappings(this.map.mappings || '');
+  }
+
+  /**
+   * Original position of a generated one (line 1-based, column 0-based), or
+   * null when nothing on that line maps at or before the column (e.g. helper
+   * code injected by a plugin). A column past the start of the closest
+   * mapping keeps its offset from it.
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.lines[line - 1];
+    if (!segments) {
+      return null;
+    }
+
+    let match: MappingSegment | undefined;
+    for (const segment of segments) {
+      if (segment.generatedColumn > column) {
+        break;
+      }
+      if (segment.originalLine !== undefined) {
+        match = segment;
+      }
+    }
+
+    if (!match || match.originalLine === undefined || match.originalColumn === undefined) {
+      return null;
+    }
+
+    return {
+      line: match.originalLine + 1,
+      column: match.originalColumn + (column - match.generatedColumn),
+      source: match.sourceIndex !== undefined ? this.map.sources[match.sourceIndex] : undefined,
+      name: match.nameIndex !== undefined ? this.map.names?.[match.nameIndex] : undefined
+    };
+  }
+}
+
+/**
+ * Lookups through the source maps of consecutive passes over the same file,
+ * listed in the order the passes ran. A missing map stands for a pass that
+ * kept every position (or produced no map).
+ */
+export class SourceMapChain {
+  private readonly resolvers: SourceMapResolver[];
+
+  constructor(maps: Array<SourceMap | null | undefined>) {
+    this.resolvers = maps
+      .filter((map): map is SourceMap => !!map && typeof map.mappings === 'string')
+      .map(map => new SourceMapResolver(map));
+  }
+
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    let position: OriginalPosition = { line, column };
+
+    for (let index = this.resolvers.length - 1; index >= 0; index--) {
+      const previous = this.resolvers[index].originalPositionFor(position.line, position.column);
+      if (!previous) {
+        return null;
+      }
+      position = previous;
+    }
+
+    return position;
+  }
+}
@@ -0,0 +1,491 @@
+/**
+ * TestHarnessPlugin - Runs describe/it/test code with a built-in test harness
+ *
+ * Rewrites the global test functions (`describe`, `it`, `test`, `expect` and
+ * the lifecycle hooks) to a small harness injected at the top of the program,
+ * drops imports of them from vitest/jest, and tags every test call with its
+ * source line. After the program body has registered the tests they run one
+ * by one; each result is printed as a runtime marker so the editor can show
+ * a results tree and gutter markers.
+ */
+
+import type { NodePath, PluginObj, PluginPass, types as BabelTypes } from '@babel/core';
+import type * as BabelCore from '@babel/core';
+import { RUNTIME_MARKER_PREFIX, type RuntimeMarker } from '../RuntimeMarkers.js';
+import type { ExecutionResult, TestCaseResult } from '../types.js';
+
+export const TEST_CHANNEL = 'test';
+
+/**
+ * Modules whose test API the harness replaces
+ */
+export const TEST_FRAMEWORK_MODULES = ['vitest', '@jest/globals', 'jest'];
+
+/**
+ * Default time a test (or hook) may take before it fails
+ */
+const DEFAULT_TEST_TIMEOUT = 5000;
+
+const TEST_AT_NAME = '__orbisTestAt';
+const RUN_TESTS_NAME = '__orbisRunTests';
+
+// Global test API -> harness function
+const HARNESS_GLOBALS: Record<string, string> = {
+  describe: '__orbisDescribe',
+  it: '__orbisTest',
+  test: '__orbisTest',
+  expect: '__orbisExpect',
+  beforeAll: '__orbisBeforeAll',
+  afterAll: '__orbisAfterAll',
+  beforeEach: '__orbisBeforeEach',
+  afterEach: '__orbisAfterEach'
+};
+
+// Names the harness provides to test code
+export const TEST_GLOBAL_NAMES = Object.keys(HARNESS_GLOBALS);
+
+// Calls whose line is recorded (`it.skip(...)` included)
+const LINE_TAGGED = new Set(['describe', 'it', 'test']);
+
+interface PluginAPI {
+  types: typeof BabelTypes;
+  template: typeof BabelCore.template;
+}
+
+/**
+ * Harness runtime injected at the top of test programs.
+ * Kept ES5-compatible, like the annotation recorder.
+ */
+const HARNESS_SOURCE = `
+var __orbisTests = { root: null, current: null, line: 0, hasOnly: false, run: null };
+function __orbisNewSuite(name, mode, parent) {
+  return { type: 'suite', name: name, line: __orbisTests.line, mode: mode, parent: parent, children: [], beforeAll: [], afterAll: [], beforeEach: [], afterEach: [] };
+}
+__orbisTests.root = __orbisNewSuite('', 'run', null);
+__orbisTests.current = __orbisTests.root;
+function ${TEST_AT_NAME}(line, fn) {
+  __orbisTests.line = line;
+  return fn;
+}
+function __orbisAddSuite(mode) {
+  return function (name, fn) {
+    var suite = __orbisNewSuite(String(name), mode, __orbisTests.current);
+    if (mode === 'only') { __orbisTests.hasOnly = true; }
+    __orbisTests.current.children.push(suite);
+    __orbisTests.current = suite;
+    try {
+      if (fn) { fn(); }
+    } finally {
+      __orbisTests.current = suite.parent;
+    }
+  };
+}
+function __orbisAddTest(mode) {
+  return function (name, fn, timeout) {
+    if (mode === 'only') { __orbisTests.hasOnly = true; }
+    __orbisTests.current.children.push({
+      type: 'test', name: String(name), fn: fn, line: __orbisTests.line, parent: __orbisTests.current,
+      mode: fn ? mode : 'todo', timeout: typeof timeout === 'number' ? timeout : ${DEFAULT_TEST_TIMEOUT}
+    });
+  };
+}
+var __orbisDescribe = __orbisAddSuite('run');
+__orbisDescribe.only = __orbisAddSuite('only');
+__orbisDescribe.skip = __orbisAddSuite('skip');
+var __orbisTest = __orbisAddTest('run');
+__orbisTest.only = __orbisAddTest('only');
+__orbisTest.skip = __orbisAddTest('skip');
+__orbisTest.todo = function (name) { __orbisAddTest('todo')(name); };
+function __orbisBeforeAll(fn) { __orbisTests.current.beforeAll.push(fn); }
+function __orbisAfterAll(fn) { __orbisTests.current.afterAll.push(fn); }
+function __orbisBeforeEach(fn) { __orbisTests.current.beforeEach.push(fn); }
+function __orbisAfterEach(fn) { __orbisTests.current.afterEach.push(fn); }
+
+function __orbisFormat(value, indent, seen) {
+  indent = indent || '';
+  seen = seen || [];
+  var type = typeof value;
+  if (type === 'string') { return JSON.stringify(value); }
+  if (type === 'bigint') { return value + 'n'; }
+  if (type === 'function') { return '[Function ' + (value.name || 'anonymous') + ']'; }
+  if (type === 'symbol') { return value.toString(); }
+  if (value === null || type !== 'object') { return Object.is(value, -0) ? '-0' : String(value); }
+  if (seen.indexOf(value) !== -1) { return '[Circular]'; }
+  if (value instanceof Date) { return 'Date(' + (isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()) + ')'; }
+  if (value instanceof RegExp) { return String(value); }
+  if (value instanceof Error) { return value.name + ': ' + value.message; }
+  var inner = indent + '  ';
+  var next = seen.concat([value]);
+  var items;
+  var open;
+  var close;
+  if (Array.isArray(value)) {
+    items = value.map(function (item) { return __orbisFormat(item, inner, next); });
+    open = '[';
+    close = ']';
+  } else if (value instanceof Map) {
+    items = Array.from(value.entries()).map(function (entry) { return __orbisFormat(entry[0], inner, next) + ' => ' + __orbisFormat(entry[1], inner, next); });
+    open = 'Map {';
+    close = '}';
+  } else if (value instanceof Set) {
+    items = Array.from(value.values()).map(function (item) { return __orbisFormat(item, inner, next); });
+    open = 'Set {';
+    close = '}';
+  } else {
+    items = Object.keys(value).map(function (key) { return JSON.stringify(key) + ': ' + __orbisFormat(value[key], inner, next); });
+    var name = value.constructor && value.constructor !== Object ? value.constructor.name + ' ' : '';
+    open = name + '{';
+    close = '}';
+  }
+  if (items.length === 0) { return open + close; }
+  return open + '\\n' + inner + items.join(',\\n' + inner) + '\\n' + indent + close;
+}
+function __orbisKeys(value, strict) {
+  return Object.keys(value).filter(function (key) { return strict || value[key] !== undefined; });
+}
+function __orbisEquals(a, b, strict) {
+  if (Object.is(a, b)) { return true; }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) { return false; }
+  if (strict && Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) { return false; }
+  if (Array.isArray(a) !== Array.isArray(b)) { return false; }
+  if (a instanceof Date || b instanceof Date) { return a instanceof Date && b instanceof Date && a.getTime() === b.getTime(); }
+  if (a instanceof RegExp || b instanceof RegExp) { return String(a) === String(b); }
+  if (a instanceof Map || b instanceof Map) {
+    if (!(a instanceof Map && b instanceof Map) || a.size !== b.size) { return false; }
+    return Array.from(a.entries()).every(function (entry) { return b.has(entry[0]) && __orbisEquals(entry[1], b.get(entry[0]), strict); });
+  }
+  if (a instanceof Set || b instanceof Set) {
+    if (!(a instanceof Set && b instanceof Set) || a.size !== b.size) { return false; }
+    var others = Array.from(b.values());
+    return Array.from(a.values()).every(function (item) {
+      return b.has(item) || others.some(function (other) { return __orbisEquals(item, other, strict); });
+    });
+  }
+  if (Array.isArray(a) && a.length !== b.length) { return false; }
+  var keysA = __orbisKeys(a, strict);
+  var keysB = __orbisKeys(b, strict);
+  if (keysA.length !== keysB.length) { return false; }
+  return keysA.every(function (key) { return Object.prototype.hasOwnProperty.call(b, key) && __orbisEquals(a[key], b[key], strict); });
+}
+function __orbisMatchesObject(actual, subset) {
+  if (typeof subset !== 'object' || subset === null || typeof actual !== 'object' || actual === null) { return __orbisEquals(actual, subset, false); }
+  if (Array.isArray(subset)) {
+    return Array.isArray(actual) && actual.length === subset.length && subset.every(function (item, index) { return __orbisMatchesObject(actual[index], item); });
+  }
+  return Object.keys(subset).every(function (key) { return key in actual && __orbisMatchesObject(actual[key], subset[key]); });
+}
+function __orbisGetPath(value, path) {
+  var keys = Array.isArray(path) ? path : String(path).replace(/\\[(\\w+)\\]/g, '.$1').split('.');
+  var current = value;
+  for (var i = 0; i < keys.length; i++) {
+    if (current === null || current === undefined || !(keys[i] in Object(current))) { return { found: false }; }
+    current = current[keys[i]];
+  }
+  return { found: true, value: current };
+}
+
+var __orbisMatchers = {
+  toBe: function (actual, expected) { return { pass: Object.is(actual, expected), expected: expected }; },
+  toEqual: function (actual, expected) { return { pass: __orbisEquals(actual, expected, false), expected: expected }; },
+  toStrictEqual: function (actual, expected) { return { pass: __orbisEquals(actual, expected, true), expected: expected }; },
+  toMatchObject: function (actual, expected) { return { pass: __orbisMatchesObject(actual, expected), expected: expected }; },
+  toBeTruthy: function (actual) { return { pass: !!actual }; },
+  toBeFalsy: function (actual) { return { pass: !actual }; },
+  toBeNull: function (actual) { return { pass: actual === null }; },
+  toBeUndefined: function (actual) { return { pass: actual === undefined }; },
+  toBeDefined: function (actual) { return { pass: actual !== undefined }; },
+  toBeNaN: function (actual) { return { pass: typeof actual === 'number' && isNaN(actual) }; },
+  toBeGreaterThan: function (actual, n) { return { pass: actual > n, detail: 'Expected: > ' + __orbisFormat(n) }; },
+  toBeGreaterThanOrEqual: function (actual, n) { return { pass: actual >= n, detail: 'Expected: >= ' + __orbisFormat(n) }; },
+  toBeLessThan: function (actual, n) { return { pass: actual < n, detail: 'Expected: < ' + __orbisFormat(n) }; },
+  toBeLessThanOrEqual: function (actual, n) { return { pass: actual <= n, detail: 'Expected: <= ' + __orbisFormat(n) }; },
+  toBeCloseTo: function (actual, n, digits) {
+    var precision = digits === undefined ? 2 : digits;
+    return { pass: Math.abs(actual - n) < Math.pow(10, -precision) / 2, detail: 'Expected: ' + n + ' (' + precision + ' digits)' };
+  },
+  toBeInstanceOf: function (actual, type) { return { pass: actual instanceof type, detail: 'Expected constructor: ' + (type && type.name) }; },
+  toContain: function (actual, item) {
+    var pass = typeof actual === 'string' ? actual.indexOf(item) !== -1 : Array.from(actual || []).some(function (value) { return Object.is(value, item); });
+    return { pass: pass, detail: 'Expected item: ' + __orbisFormat(item) };
+  },
+  toContainEqual: function (actual, item) {
+    return { pass: Array.from(actual || []).some(function (value) { return __orbisEquals(value, item, false); }), detail: 'Expected item: ' + __orbisFormat(item) };
+  },
+  toHaveLength: function (actual, length) {
+    return { pass: actual !== null && actual !== undefined && actual.length === length, detail: 'Expected length: ' + length + '\\nReceived length: ' + (actual && actual.length) };
+  },
+  toHaveProperty: function (actual, path, value) {
+    var found = __orbisGetPath(actual, path);
+    var pass = found.found && (arguments.length < 3 || __orbisEquals(found.value, value, false));
+    return { pass: pass, detail: 'Expected path: ' + __orbisFormat(path) + (arguments.length < 3 ? '' : '\\nExpected value: ' + __orbisFormat(value)) };
+  },
+  toMatch: function (actual, pattern) {
+    var pass = typeof actual === 'string' && (typeof pattern === 'string' ? actual.indexOf(pattern) !== -1 : pattern.test(actual));
+    return { pass: pass, detail: 'Expected pattern: ' + __orbisFormat(pattern) };
+  },
+  toThrow: function (actual, expected) {
+    var thrown = null;
+    var threw = false;
+    try {
+      actual();
+    } catch (error) {
+      threw = true;
+      thrown = error;
+    }
+    var message = thrown && thrown.message !== undefined ? String(thrown.message) : String(thrown);
+    var pass = threw;
+    if (threw && typeof expected === 'string') { pass = message.indexOf(expected) !== -1; }
+    if (threw && expected instanceof RegExp) { pass = expected.test(message); }
+    if (threw && typeof expected === 'function') { pass = thrown instanceof expected; }
+    if (threw && expected instanceof Error) { pass = message === expected.message; }
+    return {
+      pass: pass,
+      received: threw ? 'thrown: ' + __orbisFormat(thrown) : 'function did not throw',
+      detail: expected === undefined ? '' : 'Expected: ' + (typeof expected === 'function' ? expected.name : __orbisFormat(expected))
+    };
+  }
+};
+
+function __orbisAssert(name, actual, args, negate) {
+  var result = __orbisMatchers[name].apply(null, [actual].concat(args));
+  if (!!result.pass !== negate) { return; }
+  var hasExpected = 'expected' in result;
+  var lines = ['expect(received).' + (negate ? 'not.' : '') + name + '(' + (hasExpected ? 'expected' : '') + ')'];
+  if (hasExpected) { lines.push('Expected: ' + (negate ? 'not ' : '') + __orbisFormat(result.expected)); }
+  if (result.detail) { lines.push((negate ? 'Not ' : '') + result.detail); }
+  lines.push('Received: ' + (result.received || __orbisFormat(actual)));
+  var error = new Error(lines.join('\\n'));
+  error.name = 'AssertionError';
+  if (hasExpected && !negate) {
+    error.orbisExpected = __orbisFormat(result.expected);
+    error.orbisActual = __orbisFormat(actual);
+  }
+  throw error;
+}
+function __orbisExpectation(actual, negate, mode) {
+  var expectation = {};
+  Object.keys(__orbisMatchers).forEach(function (name) {
+    expectation[name] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      if (!mode) {
+        __orbisAssert(name, actual, args, negate);
+        return undefined;
+      }
+      return Promise.resolve(actual).then(function (value) {
+        if (mode === 'rejects') { throw new Error('expected the promise to reject, but it resolved with ' + __orbisFormat(value)); }
+        __orbisAssert(name, value, args, negate);
+      }, function (reason) {
+        if (mode === 'resolves') { throw new Error('expected the promise to resolve, but it rejected with ' + __orbisFormat(reason)); }
+        __orbisAssert(name, name === 'toThrow' ? function () { throw reason; } : reason, args, negate);
+      });
+    };
+  });
+  return expectation;
+}
+function __orbisExpect(actual) {
+  var expectation = __orbisExpectation(actual, false, null);
+  expectation.not = __orbisExpectation(actual, true, null);
+  expectation.resolves = __orbisExpectation(actual, false, 'resolves');
+  expectation.resolves.not = __orbisExpectation(actual, true, 'resolves');
+  expectation.rejects = __orbisExpectation(actual, false, 'rejects');
+  expectation.rejects.not = __orbisExpectation(actual, true, 'rejects');
+  return expectation;
+}
+
+function __orbisSeries(items, fn) {
+  return items.reduce(function (chain, item) {
+    return chain.then(function () { return fn(item); });
+  }, Promise.resolve());
+}
+function __orbisInvoke(fn, timeout) {
+  return new Promise(function (resolve, reject) {
+    var timer = setTimeout(function () { reject(new Error('Timed out after ' + timeout + 'ms')); }, timeout);
+    Promise.resolve().then(function () {
+      if (fn.length > 0) {
+        return new Promise(function (done, fail) {
+          fn(function (error) { if (error) { fail(error); } else { done(); } });
+        });
+      }
+      return fn();
+    }).then(function () {
+      clearTimeout(timer);
+      resolve();
+    }, function (error) {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+function __orbisIsSkipped(node) {
+  var only = false;
+  for (var current = node; current; current = current.parent) {
+    if (current.mode === 'skip' || current.mode === 'todo') { return true; }
+    if (current.mode === 'only') { only = true; }
+  }
+  return __orbisTests.hasOnly && !only;
+}
+function __orbisDescribeError(error) {
+  var failure = { message: error && error.message !== undefined ? String(error.message) : String(error) };
+  if (error && error.name && error.name !== 'Error' && error.name !== 'AssertionError') { failure.message = error.name + ': ' + failure.message; }
+  if (error && error.orbisExpected !== undefined) {
+    failure.expected = error.orbisExpected;
+    failure.actual = error.orbisActual;
+  }
+  return failure;
+}
+function __orbisReport(test, suite, status, duration, error) {
+  var result = { name: test.name, suite: suite, line: test.line, status: status, duration: duration };
+  if (error) { result.error = __orbisDescribeError(error); }
+  var icon = status === 'passed' ? '✓' : status === 'failed' ? '✗' : '○';
+  console.log(icon + ' ' + suite.concat([test.name]).join(' › ') + (status === 'skipped' ? ' (skipped)' : ' (' + duration + 'ms)'));
+  if (result.error) { console.log('    ' + result.error.message.split('\\n').join('\\n    ')); }
+  var marker = '${RUNTIME_MARKER_PREFIX}${TEST_CHANNEL}:' + JSON.stringify(result);
+  if (typeof process !== 'undefined' && process.stdout && process.stdout.write) {
+    process.stdout.write(marker + '\\n');
+  } else {
+    console.log(marker);
+  }
+  return result;
+}
+function __orbisRunTest(test, suite, hooks, setupError, results) {
+  if (__orbisIsSkipped(test)) {
+    results.push(__orbisReport(test, suite, 'skipped', 0, null));
+    return Promise.resolve();
+  }
+  var start = Date.now();
+  var failure = setupError;
+  var run = setupError ? Promise.resolve() : __orbisSeries(hooks.before, function (hook) { return __orbisInvoke(hook, test.timeout); })
+    .then(function () { return __orbisInvoke(test.fn, test.timeout); });
+  return run.catch(function (error) { failure = failure || error; })
+    .then(function () { return __orbisSeries(hooks.after, function (hook) { return __orbisInvoke(hook, test.timeout); }); })
+    .catch(function (error) { failure = failure || error; })
+    .then(function () { results.push(__orbisReport(test, suite, failure ? 'failed' : 'passed', Date.now() - start, failure)); });
+}
+function __orbisRunSuite(suite, names, inherited, results) {
+  var hooks = { before: inherited.before.concat(suite.beforeEach), after: suite.afterEach.concat(inherited.after) };
+  var setupError = inherited.setupError;
+  var skipped = __orbisIsSkipped(suite);
+  var setup = skipped || setupError ? Promise.resolve() : __orbisSeries(suite.beforeAll, function (hook) { return __orbisInvoke(hook, ${DEFAULT_TEST_TIMEOUT}); });
+  return setup.catch(function (error) { setupError = error; })
+    .then(function () {
+      return __orbisSeries(suite.children, function (child) {
+        if (child.type === 'suite') {
+          return __orbisRunSuite(child, names.concat([child.name]), { before: hooks.before, after: hooks.after, setupError: setupError }, results);
+        }
+        return __orbisRunTest(child, names, hooks, setupError, results);
+      });
+    })
+    .then(function () {
+      if (!skipped && !inherited.setupError) {
+        return __orbisSeries(suite.afterAll, function (hook) { return __orbisInvoke(hook, ${DEFAULT_TEST_TIMEOUT}); });
+      }
+      return undefined;
+    })
+    .catch(function (error) { console.error('afterAll hook failed: ' + (error && error.message)); });
+}
+function ${RUN_TESTS_NAME}() {
+  var results = [];
+  __orbisTests.run = __orbisRunSuite(__orbisTests.root, [], { before: [], after: [], setupError: null }, results).then(function () {
+    var count = function (status) { return results.filter(function (result) { return result.status === status; }).length; };
+    var failed = count('failed');
+    console.log('');
+    console.log('Tests: ' + count('passed') + ' passed, ' + failed + ' failed, ' + count('skipped') + ' skipped (' + results.length + ' total)');
+    if (failed > 0 && typeof process !== 'undefined') { process.exitCode = 1; }
+    return results;
+  });
+  return __orbisTests.run;
+}
+`;
+
+/**
+ * Babel plugin that runs the program's describe/it/test calls with the built-in harness
+ */
+export function testHarnessPlugin({ types: t, template }: PluginAPI): PluginObj<PluginPass> {
+  // Only global (unbound) references are rewritten: a local `test` variable stays untouched
+  const isHarnessGlobal = (path: NodePath, name: string): boolean =>
+    name in HARNESS_GLOBALS && !path.scope.hasBinding(name, true);
+
+  return {
+    name: 'orbis-test-harness',
+    visitor: {
+      Program: {
+        enter(path) {
+          for (const statement of path.get('body')) {
+            if (statement.isImportDeclaration() && TEST_FRAMEWORK_MODULES.includes(statement.node.source.value)) {
+              statement.remove();
+            }
+          }
+          path.scope.crawl();
+        },
+        exit(path) {
+          path.pushContainer('body', t.expressionStatement(t.callExpression(t.identifier(RUN_TESTS_NAME), [])));
+          path.unshiftContainer('body', template.statements.ast(HARNESS_SOURCE));
+        }
+      },
+
+      CallExpression(path: NodePath<BabelTypes.CallExpression>) {
+        const { node } = path;
+        const callee = node.callee;
+        const base = t.isMemberExpression(callee) ? callee.object : callee;
+        if (!node.loc || !t.isIdentifier(base) || !LINE_TAGGED.has(base.name) || !isHarnessGlobal(path, base.name)) {
+          return;
+        }
+
+        base.name = HARNESS_GLOBALS[base.name];
+        node.callee = t.callExpression(t.identifier(TEST_AT_NAME), [
+          t.numericLiteral(node.loc.start.line),
+          callee as BabelTypes.Expression
+        ]);
+      },
+
+      Identifier(path: NodePath<BabelTypes.Identifier>) {
+        const { name } = path.node;
+        if (path.isReferencedIdentifier() && isHarnessGlobal(path, name)) {
+          path.node.name = HARNESS_GLOBALS[name];
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Narrow a runtime marker payload to a test result
+ */
+export function isTestCaseResult(payload: unknown): payload is TestCaseResult {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    typeof (payload as TestCaseResult).name === 'string' &&
+    typeof (payload as TestCaseResult).line === 'number' &&
+    Array.isArray((payload as TestCaseResult).suite) &&
+    ['passed', 'failed', 'skipped'].includes((payload as TestCaseResult).status)
+  );
+}
+
+/**
+ * Test results in the order they ran
+ */
+export function collectTestResults(markers: RuntimeMarker[]): TestCaseResult[] {
+  return markers
+    .filter(marker => marker.channel === TEST_CHANNEL)
+    .map(marker => marker.payload)
+    .filter(isTestCaseResult);
+}
+
+/**
+ * Attach test results to a run; failed tests fail the run with a summary
+ * instead of the bare exit code
+ */
+export function withTestResults(result: ExecutionResult, tests: TestCaseResult[]): ExecutionResult {
+  const failed = tests.filter(test => test.status === 'failed').length;
+  if (failed === 0 || result.status === 'killed') {
+    return { ...result, tests };
+  }
+  return {
+    ...result,
+    tests,
+    success: false,
+    error: `${failed} of ${tests.length} test${tests.length === 1 ? '' : 's'} failed`,
+    status: 'error'
+  };
+}
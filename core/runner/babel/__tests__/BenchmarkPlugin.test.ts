@@ -0,0 +1,129 @@
+/**
+ * Benchmark Plugin Tests
+ * Verifies which candidates are timed and the statistics reported for them
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { benchmarkPlugin, collectBenchmarkResults, rankBenchmarks } from '../BenchmarkPlugin';
+import { transformWith, captureOutput, evaluate } from './pluginFixture';
+import type { BenchmarkResult } from '../../types';
+
+// Short runs keep the suite fast; the statistics don't depend on the duration
+const FAST = { warmupTime: 5, time: 20, minSamples: 3 };
+
+function bench(code: string, filename = 'main.js'): string {
+  return transformWith(code, [[benchmarkPlugin, FAST]], { filename, parserOpts: { allowAwaitOutsideFunction: true } });
+}
+
+async function runBenchmarks(code: string, filename?: string): Promise<{ results: BenchmarkResult[]; logs: string[] }> {
+  const output = captureOutput(['log']);
+
+  await evaluate(bench(code, filename), '__orbisRunBenchmarks.run');
+  return { results: collectBenchmarkResults(output.markers()), logs: output.printed.map(args => args.join(' ')) };
+}
+
+function result(name: string, ops: number, error?: string): BenchmarkResult {
+  return { name, line: 1, ops, mean: 1000 / ops, sd: 0, p50: 0, p75: 0, p99: 0, samples: 1, iterations: 1, error };
+}
+
+describe('benchmarkPlugin', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Transformation', () => {
+    it('should register functions marked with @bench', () => {
+      const code = bench([
+        '// @bench',
+        'function loop() {}',
+        '// @bench reduce version',
+        'const viaReduce = () => [1, 2].reduce((a, b) => a + b);',
+        'function helper() {}'
+      ].join('\n'));
+
+      expect(code).toContain('name: "loop"');
+      expect(code).toContain('name: "reduce version"');
+      expect(code).not.toContain('name: "helper"');
+      expect(code).not.toContain('__orbisBenchProgram');
+    });
+
+    it('should time the whole program when nothing is marked', () => {
+      const code = bench([
+        "import fs from 'fs';",
+        'const total = 1 + 1;',
+        'export const answer = total;'
+      ].join('\n'), '/project/sum.js');
+
+      expect(code).toContain("import fs from 'fs'");
+      expect(code).toMatch(/function __orbisBenchProgram\(\) \{\s*const total = 1 \+ 1;\s*const answer = total;/);
+      expect(code).toContain('name: "sum.js"');
+    });
+
+    it('should make the program wrapper async when it uses top-level await', () => {
+      const code = bench('await Promise.resolve(1);');
+
+      expect(code).toContain('async function __orbisBenchProgram()');
+    });
+  });
+
+  describe('Execution', () => {
+    it('should report statistics for every candidate', async () => {
+      const { results, logs } = await runBenchmarks([
+        '// @bench',
+        'function fast() { return 1; }',
+        '// @bench',
+        'function slow() { let total = 0; for (let i = 0; i < 2000; i++) total += i; return total; }'
+      ].join('\n'));
+
+      expect(results.map(entry => entry.name)).toEqual(['fast', 'slow']);
+      for (const entry of results) {
+        expect(entry.ops).toBeGreaterThan(0);
+        expect(entry.mean).toBeGreaterThan(0);
+        expect(entry.samples).toBeGreaterThanOrEqual(3);
+        expect(entry.p50).toBeLessThanOrEqual(entry.p99);
+        expect(entry.line).toBeGreaterThan(0);
+      }
+      expect(logs.some(line => line.includes('ops/sec'))).toBe(true);
+    });
+
+    it('should silence console output while measuring', async () => {
+      const { logs } = await runBenchmarks("console.log('hello');");
+
+      expect(logs.filter(line => line === 'hello')).toHaveLength(0);
+      expect(logs.some(line => line.startsWith('main.js x '))).toBe(true);
+    });
+
+    it('should await async candidates', async () => {
+      const { results } = await runBenchmarks([
+        '// @bench',
+        'async function tick() { await null; }'
+      ].join('\n'));
+
+      expect(results[0].error).toBeUndefined();
+      expect(results[0].iterations).toBeGreaterThan(0);
+    });
+
+    it('should report candidates that throw without stopping the others', async () => {
+      const { results } = await runBenchmarks([
+        '// @bench',
+        "function broken() { throw new Error('boom'); }",
+        '// @bench',
+        'function fine() {}'
+      ].join('\n'));
+
+      expect(results[0]).toMatchObject({ name: 'broken', error: 'boom' });
+      expect(results[1].error).toBeUndefined();
+    });
+  });
+
+  describe('rankBenchmarks', () => {
+    it('should sort from fastest to slowest with relative speed', () => {
+      const ranked = rankBenchmarks([result('a', 100), result('b', 400), result('broken', 0, 'boom'), result('c', 200)]);
+
+      expect(ranked.map(entry => entry.name)).toEqual(['b', 'c', 'a', 'broken']);
+      expect(ranked.map(entry => entry.rank)).toEqual([1, 2, 3, undefined]);
+      expect(ranked[0].relative).toBe(1);
+      expect(ranked[2].relative).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Console Shim Plugin Tests
+ * Verifies how console calls are tagged and what the shim reports when they run
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { consoleShimPlugin, collectConsoleEntries } from '../ConsoleShimPlugin';
+import { transformWith, captureOutput, evaluate } from './pluginFixture';
+import type { ConsoleEntry } from '../../types';
+
+const CONSOLE_METHODS = ['log', 'info', 'debug', 'warn', 'error', 'trace', 'dir', 'table', 'group', 'groupCollapsed', 'groupEnd', 'time', 'timeLog', 'timeEnd', 'count', 'countReset', 'assert'] as const;
+
+function shim(code: string): string {
+  return transformWith(code, [consoleShimPlugin]);
+}
+
+function runShimmed(code: string): { entries: ConsoleEntry[]; printed: unknown[][] } {
+  const output = captureOutput(CONSOLE_METHODS);
+
+  evaluate(shim(code));
+  return { entries: collectConsoleEntries(output.markers()), printed: output.printed };
+}
+
+describe('consoleShimPlugin', () => {
+  const saved = new Map<string, unknown>();
+
+  beforeEach(() => {
+    for (const method of CONSOLE_METHODS) {
+      saved.set(method, console[method]);
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    // The shim replaces the global console methods for good
+    for (const method of CONSOLE_METHODS) {
+      (console as unknown as Record<string, unknown>)[method] = saved.get(method);
+    }
+  });
+
+  describe('Transformation', () => {
+    it('should tag console calls with their source line', () => {
+      const code = shim([
+        'const x = 1;',
+        "console.log('x', x);",
+        "console.warn('careful');"
+      ].join('\n'));
+
+      expect(code).toContain("__orbisConsoleAt(2).log('x', x)");
+      expect(code).toContain("__orbisConsoleAt(3).warn('careful')");
+    });
+
+    it('should leave a local console binding untouched', () => {
+      const code = shim([
+        'function print(console) {',
+        "  console.log('local');",
+        '}'
+      ].join('\n'));
+
+      expect(code).toContain("console.log('local')");
+      expect(code).not.toContain('__orbisConsoleAt(2)');
+    });
+  });
+
+  describe('Execution', () => {
+    it('should report level, line and arguments and still print the call', () => {
+      const { entries, printed } = runShimmed([
+        "console.log('hello', 42, true, null, undefined);",
+        "console.error(new TypeError('bad input'));"
+      ].join('\n'));
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ level: 'log', line: 1, depth: 0 });
+      expect(entries[0].args.map(arg => arg.kind)).toEqual(['string', 'number', 'boolean', 'null', 'undefined']);
+      expect(entries[0].timestamp).toBeTypeOf('number');
+      expect(entries[1]).toMatchObject({ level: 'error', line: 2 });
+      expect(entries[1].args[0]).toMatchObject({ kind: 'error', className: 'TypeError', preview: 'TypeError: bad input' });
+      expect(entries[1].args[0].stack).toContain('bad input');
+      expect(printed[0]).toEqual(['hello', 42, true, null, undefined]);
+    });
+
+    it('should serialize Maps, Sets, class instances and circular references', () => {
+      const { entries } = runShimmed([
+        'class Point { constructor() { this.x = 1; } }',
+        'const node = { name: "root" };',
+        'node.self = node;',
+        'console.log({ map: new Map([["a", 1]]), set: new Set([2]), point: new Point(), node });'
+      ].join('\n'));
+
+      const [value] = entries[0].args;
+      const property = (name: string) => value.entries?.find(entry => entry.key === name)?.value;
+      expect(value).toMatchObject({ kind: 'object', className: 'Object', size: 4 });
+      expect(property('map')).toMatchObject({ kind: 'map', size: 1 });
+      expect(property('map')?.entries?.[0]).toMatchObject({ key: { kind: 'string', preview: 'a' }, value: { preview: '1' } });
+      expect(property('set')).toMatchObject({ kind: 'set', size: 1, entries: [{ value: { preview: '2' } }] });
+      expect(property('point')).toMatchObject({ kind: 'object', className: 'Point', entries: [{ key: 'x' }] });
+      expect(property('node')).toMatchObject({ id: 1 });
+      expect(property('node')?.entries?.[1]).toMatchObject({ key: 'self', value: { kind: 'circular', id: 1 } });
+    });
+
+    it('should apply format specifiers and keep objects inspectable', () => {
+      const { entries } = runShimmed("console.log('%s has %d items: %o', 'cart', 3, [1, 2]);");
+
+      expect(entries[0].args.map(arg => arg.preview)).toEqual(['cart has 3 items: ', 'Array(2)']);
+    });
+
+    it('should track groups, timers, counters and assertions', () => {
+      const { entries } = runShimmed([
+        "console.group('outer');",
+        "console.groupCollapsed('inner');",
+        "console.time('work');",
+        "console.timeEnd('work');",
+        'console.groupEnd();',
+        'console.count();',
+        'console.count();',
+        'console.groupEnd();',
+        "console.assert(1 === 2, 'math');",
+        "console.assert(true, 'fine');",
+        "console.timeEnd('missing');"
+      ].join('\n'));
+
+      expect(entries.map(entry => `${entry.level}:${entry.depth}`)).toEqual([
+        'group:0', 'group:1', 'time:2', 'count:1', 'count:1', 'assert:0', 'warn:0'
+      ]);
+      expect(entries[1].collapsed).toBe(true);
+      expect(entries[2].args[0].preview).toMatch(/^work: \d+\.\d{3}ms$/);
+      expect(entries[4].args[0].preview).toBe('default: 2');
+      expect(entries[5].args.map(arg => arg.preview)).toEqual(['Assertion failed:', 'math']);
+      expect(entries[6].args[0].preview).toBe("Timer 'missing' does not exist");
+    });
+
+    it('should build console.table rows and columns', () => {
+      const { entries } = runShimmed([
+        'console.table([{ a: 1, b: 2 }, { a: 3, c: 4 }, 5]);',
+        "console.table({ x: { a: 1, b: 2 } }, ['b']);"
+      ].join('\n'));
+
+      expect(entries[0].level).toBe('table');
+      expect(entries[0].table?.columns).toEqual(['a', 'b', 'c', 'Values']);
+      expect(entries[0].table?.rows.map(row => row.key)).toEqual(['0', '1', '2']);
+      expect(entries[0].table?.rows[1].cells.c.preview).toBe('4');
+      expect(entries[0].table?.rows[2].cells.Values.preview).toBe('5');
+      expect(entries[1].table?.columns).toEqual(['b']);
+      expect(Object.keys(entries[1].table?.rows[0].cells || {})).toEqual(['b']);
+    });
+
+    it('should fall back to the call stack for calls outside the program', () => {
+      const { entries } = runShimmed('const print = console.log; print("indirect");');
+
+      expect(entries[0].line).toBeUndefined();
+      expect(entries[0].source).toMatch(/:\d+:\d+$/);
+    });
+  });
+});
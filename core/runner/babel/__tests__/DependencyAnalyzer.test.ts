@@ -0,0 +1,197 @@
+/**
+ * Dependency Analyzer Tests
+ * Verifies which npm packages a snippet imports and the version each one resolves to
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeDependencies,
+  collectFreeGlobals,
+  parseDependencyManifest,
+  formatDependencyList
+} from '../DependencyAnalyzer';
+
+function names(code: string | string[]): string[] {
+  return analyzeDependencies(code).dependencies.map(dep => dep.name);
+}
+
+describe('DependencyAnalyzer', () => {
+  describe('Package detection', () => {
+    it('should find imports, re-exports, require and dynamic import', () => {
+      const code = [
+        "import _ from 'lodash';",
+        "import { z } from 'zod';",
+        "export { format } from 'date-fns';",
+        "export * from 'ramda';",
+        "const chalk = require('chalk');",
+        "const dayjs = await import('dayjs');"
+      ].join('\n');
+
+      expect(names(code)).toEqual(['chalk', 'date-fns', 'dayjs', 'lodash', 'ramda', 'zod']);
+    });
+
+    it('should reduce subpaths and scoped packages to the package name', () => {
+      const code = [
+        "import fp from 'lodash/fp';",
+        "import { foo } from '@scope/pkg/sub/path';",
+        "import vue from '@vue/runtime-core';",
+        "import map from 'lodash/map';"
+      ].join('\n');
+
+      expect(names(code)).toEqual(['@scope/pkg', '@vue/runtime-core', 'lodash']);
+    });
+
+    it('should leave out Node built-ins and relative paths', () => {
+      const code = [
+        "import fs from 'fs';",
+        "import { readFile } from 'node:fs/promises';",
+        "import path from 'path';",
+        "const test = require('node:test');",
+        "import { helper } from './helper';",
+        "import config from '../config.json';",
+        "import axios from 'axios';"
+      ].join('\n');
+
+      const analysis = analyzeDependencies(code);
+      expect(analysis.dependencies.map(dep => dep.name)).toEqual(['axios']);
+      expect(analysis.builtins).toEqual(['fs', 'path', 'test']);
+    });
+
+    it('should ignore imports in comments and strings', () => {
+      const code = [
+        "// import _ from 'lodash';",
+        "/* const x = require('express'); */",
+        "const text = \"import axios from 'axios'\";",
+        "console.log(`require('chalk')`);"
+      ].join('\n');
+
+      expect(names(code)).toEqual([]);
+    });
+
+    it('should accept template literals without expressions and skip computed specifiers', () => {
+      const code = [
+        'const a = require(`uuid`);',
+        "const name = 'express';",
+        'const b = require(name);',
+        'const c = await import(`./locales/${name}.js`);'
+      ].join('\n');
+
+      expect(names(code)).toEqual(['uuid']);
+    });
+
+    it('should skip TypeScript type-only imports', () => {
+      const code = [
+        "import type { Request } from 'express';",
+        "export type { Options } from 'got';",
+        "import { nanoid } from 'nanoid';",
+        "import fetch = require('node-fetch');"
+      ].join('\n');
+
+      expect(names(code)).toEqual(['nanoid', 'node-fetch']);
+    });
+
+    it('should merge the packages of several sources', () => {
+      expect(names(["import a from 'lodash';", "import b from 'lodash/fp';\nimport c from 'zod';"]))
+        .toEqual(['lodash', 'zod']);
+    });
+  });
+
+  describe('Versions', () => {
+    it('should default to latest', () => {
+      expect(analyzeDependencies("import _ from 'lodash';").dependencies)
+        .toEqual([{ name: 'lodash', version: 'latest' }]);
+    });
+
+    it('should read @version comment pins, scoped packages included', () => {
+      const code = [
+        '// @version lodash@4.17.21',
+        '/* @version @scope/pkg@^2.0.0 @version zod@3.22.4 */',
+        "import _ from 'lodash';",
+        "import pkg from '@scope/pkg';",
+        "import { z } from 'zod';"
+      ].join('\n');
+
+      expect(analyzeDependencies(code).dependencies).toEqual([
+        { name: '@scope/pkg', version: '^2.0.0', pinnedBy: 'comment' },
+        { name: 'lodash', version: '4.17.21', pinnedBy: 'comment' },
+        { name: 'zod', version: '3.22.4', pinnedBy: 'comment' }
+      ]);
+    });
+
+    it('should prefer comment pins over the manifest', () => {
+      const code = "// @version lodash@4.17.21\nimport _ from 'lodash';\nimport chalk from 'chalk';";
+      const manifest = { lodash: '4.0.0', chalk: '^5.3.0', unused: '1.0.0' };
+
+      expect(analyzeDependencies(code, manifest).dependencies).toEqual([
+        { name: 'chalk', version: '^5.3.0', pinnedBy: 'manifest' },
+        { name: 'lodash', version: '4.17.21', pinnedBy: 'comment' }
+      ]);
+    });
+
+    it('should not install pinned packages that are never imported', () => {
+      expect(names("// @version lodash@4.17.21\nconsole.log('hi');")).toEqual([]);
+    });
+  });
+
+  describe('parseDependencyManifest', () => {
+    it('should read name@version lines with comments', () => {
+      const text = '# pinned for the demo\nlodash@4.17.21\n@scope/pkg@^1.2.0  # scoped\n\nchalk 5.3.0';
+
+      expect(parseDependencyManifest(text)).toEqual({
+        dependencies: { lodash: '4.17.21', '@scope/pkg': '^1.2.0', chalk: '5.3.0' },
+        errors: []
+      });
+    });
+
+    it('should read a package.json or a plain JSON map', () => {
+      expect(parseDependencyManifest('{"name": "demo", "dependencies": {"zod": "^3.0.0"}}').dependencies)
+        .toEqual({ zod: '^3.0.0' });
+      expect(parseDependencyManifest('{"zod": "^3.0.0"}').dependencies).toEqual({ zod: '^3.0.0' });
+    });
+
+    it('should report lines and JSON it cannot read', () => {
+      expect(parseDependencyManifest('lodash\nzod@3').errors).toEqual(['Line 1: expected name@version']);
+      expect(parseDependencyManifest('{"zod": ').errors[0]).toMatch(/^Invalid JSON/);
+      expect(parseDependencyManifest('{"zod": 3}').errors).toEqual(['"zod": the version must be a string']);
+    });
+  });
+
+  describe('formatDependencyList', () => {
+    it('should say where each version comes from', () => {
+      expect(formatDependencyList([
+        { name: 'chalk', version: 'latest' },
+        { name: 'lodash', version: '4.17.21', pinnedBy: 'comment' },
+        { name: 'zod', version: '^3.0.0', pinnedBy: 'manifest' }
+      ])).toBe('chalk@latest, lodash@4.17.21 (pinned), zod@^3.0.0 (manifest)');
+    });
+  });
+
+  describe('collectFreeGlobals', () => {
+    it('should list the globals read without a declaration', () => {
+      const code = [
+        'const { env } = process;',
+        'const started = performance.now();',
+        'function copy(value) { return structuredClone(value); }',
+        "fetch(new URL('/items', base)).then(copy);",
+        'console.log(Math.max(1, 2), started, env);'
+      ].join('\n');
+
+      expect(collectFreeGlobals(code).sort()).toEqual(['Math', 'URL', 'base', 'console', 'fetch', 'performance', 'process', 'structuredClone']);
+    });
+
+    it('should leave out declared names, property names, type positions and typeof checks', () => {
+      const code = [
+        'interface Item extends Base { id: Id }',
+        'type Items = Item[] | Other;',
+        'enum Color { Red }',
+        'const item: Item = { id: 1, fetch: true };',
+        'class Cart implements Contract { total() { return item.fetch; } }',
+        "const hasWindow = typeof window !== 'undefined';",
+        'label: for (;;) { break label; }',
+        'new Cart().total(Color.Red, hasWindow);'
+      ].join('\n');
+
+      expect(collectFreeGlobals(code)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Import Resolver Plugin Tests
+ * Verifies how relative imports between project files are resolved and rewritten
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformSync } from '@babel/core';
+import {
+  importResolverPlugin,
+  resolveProjectImport,
+  normalizeProjectPath,
+  getEmittedPath,
+  getRelativeSpecifier
+} from '../ImportResolverPlugin';
+
+const PROJECT_FILES = ['main.js', 'utils.ts', 'data.json', 'lib/math.js', 'lib/index.ts', 'styles.css'];
+
+function resolveImports(code: string, filename: string, projectFiles: string[] = PROJECT_FILES): string {
+  const result = transformSync(code, {
+    babelrc: false,
+    configFile: false,
+    filename,
+    parserOpts: { plugins: ['typescript'] },
+    plugins: [[importResolverPlugin, { filename, projectFiles }]]
+  });
+  return result?.code || '';
+}
+
+describe('ImportResolverPlugin', () => {
+  describe('Path helpers', () => {
+    it('should normalize project paths', () => {
+      expect(normalizeProjectPath('./lib/../utils.ts')).toBe('utils.ts');
+      expect(normalizeProjectPath('/lib\\math.js')).toBe('lib/math.js');
+    });
+
+    it('should map sources to emitted files', () => {
+      expect(getEmittedPath('utils.ts')).toBe('utils.js');
+      expect(getEmittedPath('view.tsx')).toBe('view.js');
+      expect(getEmittedPath('data.json')).toBe('data.json.js');
+      expect(getEmittedPath('main.js')).toBe('main.js');
+    });
+
+    it('should build relative specifiers between folders', () => {
+      expect(getRelativeSpecifier('main.js', 'lib/math.js')).toBe('./lib/math.js');
+      expect(getRelativeSpecifier('lib/math.js', 'utils.js')).toBe('../utils.js');
+      expect(getRelativeSpecifier('lib/math.js', 'lib/index.js')).toBe('./index.js');
+    });
+  });
+
+  describe('Resolution', () => {
+    it('should resolve specifiers without extension', () => {
+      expect(resolveProjectImport('./utils', 'main.js', PROJECT_FILES)).toBe('utils.ts');
+      expect(resolveProjectImport('./lib', 'main.js', PROJECT_FILES)).toBe('lib/index.ts');
+    });
+
+    it('should resolve .js specifiers to TypeScript sources', () => {
+      expect(resolveProjectImport('./utils.js', 'main.js', PROJECT_FILES)).toBe('utils.ts');
+    });
+
+    it('should resolve parent directory imports', () => {
+      expect(resolveProjectImport('../data.json', 'lib/math.js', PROJECT_FILES)).toBe('data.json');
+    });
+
+    it('should ignore packages and unknown files', () => {
+      expect(resolveProjectImport('lodash', 'main.js', PROJECT_FILES)).toBeNull();
+      expect(resolveProjectImport('./missing', 'main.js', PROJECT_FILES)).toBeNull();
+    });
+  });
+
+  describe('Transformation', () => {
+    it('should point imports at emitted files', () => {
+      const code = resolveImports([
+        "import { add } from './utils';",
+        "import data from './data.json';",
+        "export * from './lib/math';"
+      ].join('\n'), 'main.js');
+
+      expect(code).toContain('from "./utils.js"');
+      expect(code).toContain('from "./data.json.js"');
+      expect(code).toContain('from "./lib/math.js"');
+    });
+
+    it('should rewrite dynamic imports with literal specifiers', () => {
+      const code = resolveImports("const math = await import('../utils');", 'lib/math.js');
+
+      expect(code).toContain('import("../utils.js")');
+    });
+
+    it('should leave package and unresolved imports untouched', () => {
+      const code = resolveImports("import _ from 'lodash';\nimport x from './missing';", 'main.js');
+
+      expect(code).toContain("from 'lodash'");
+      expect(code).toContain("from './missing'");
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Instrumentation Plugin Tests
+ * Verifies which statements are recorded and what the runtime recorder emits
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { transformSync } from '@babel/core';
+import { spawnSync } from 'node:child_process';
+import { instrumentationPlugin, isAnnotationRecord, ANNOTATION_CHANNEL } from '../InstrumentationPlugin';
+import { extractRuntimeMarkers } from '../../RuntimeMarkers';
+
+function instrument(code: string, parserPlugins: string[] = []): string {
+  const result = transformSync(code, {
+    babelrc: false,
+    configFile: false,
+    filename: 'main.js',
+    parserOpts: { plugins: parserPlugins as never[] },
+    plugins: [instrumentationPlugin],
+    retainLines: true
+  });
+  return result?.code || '';
+}
+
+function runAndCollect(code: string): { output: string; records: Array<{ line: number; value: string }> } {
+  const written: string[] = [];
+  vi.spyOn(process.stdout, 'write').mockImplementation((chunk: string | Uint8Array) => {
+    written.push(String(chunk));
+    return true;
+  });
+
+  new Function(instrument(code))();
+
+  const { output, markers } = extractRuntimeMarkers(written.join(''));
+  return {
+    output,
+    records: markers
+      .filter(marker => marker.channel === ANNOTATION_CHANNEL)
+      .map(marker => marker.payload)
+      .filter(isAnnotationRecord)
+  };
+}
+
+describe('instrumentationPlugin', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Transformation', () => {
+    it('should wrap top-level expressions with their source line', () => {
+      const code = instrument('const a = 1;\na + 1;\n');
+
+      expect(code).toContain('__orbisRecord(2, a + 1)');
+      expect(code).not.toContain('__orbisRecord(1,');
+    });
+
+    it('should not wrap console calls', () => {
+      const code = instrument('console.log("hi");\n');
+
+      expect(code).not.toContain('__orbisRecord(1,');
+    });
+
+    it('should wrap declarations and returns marked with //?', () => {
+      const code = instrument([
+        'const total = 2 * 21; //?',
+        'function f() {',
+        '  return total + 1; //?',
+        '}'
+      ].join('\n'));
+
+      expect(code).toContain('__orbisRecord(1, 2 * 21)');
+      expect(code).toContain('__orbisRecord(3, total + 1)');
+    });
+
+    it('should leave nested statements alone without a marker', () => {
+      const code = instrument('function f() {\n  g();\n}\n');
+
+      expect(code).not.toContain('__orbisRecord(2,');
+    });
+
+    it('should keep TypeScript syntax for later passes', () => {
+      const code = instrument('const n: number = 4;\nn * 2;\n', ['typescript']);
+
+      expect(code).toContain('const n: number = 4');
+      expect(code).toContain('__orbisRecord(2, n * 2)');
+    });
+
+    it('should preserve original line numbers', () => {
+      const code = instrument('const a = 1;\n\n\na;\n');
+
+      expect(code.split('\n').findIndex(line => line.includes('__orbisRecord(4, a)'))).toBe(3);
+    });
+  });
+
+  describe('Runtime recorder', () => {
+    it('should emit annotation markers and pass values through', () => {
+      const { records } = runAndCollect('const a = [1, 2];\na.length;\nconst s = "x"; //?\n');
+
+      expect(records).toEqual([
+        { line: 2, value: '2' },
+        { line: 3, value: '"x"' }
+      ]);
+    });
+
+    it('should describe values that JSON cannot represent', () => {
+      const { records } = runAndCollect([
+        'function named() {}',
+        'named;',
+        'new Map([[1, 2]]);',
+        'const o = {};',
+        'o.self = o;'
+      ].join('\n'));
+
+      expect(records.map(record => record.value)).toEqual([
+        '[Function named]',
+        'Map(1)',
+        '[object Object]'
+      ]);
+    });
+
+    it('should record a rejected promise the program handles without an unhandled rejection', async () => {
+      const unhandled = vi.fn();
+      process.on('unhandledRejection', unhandled);
+      try {
+        runAndCollect('const p = Promise.reject(new Error("boom")); //?\np.catch(() => {});\n');
+        await new Promise(resolve => setTimeout(resolve, 10));
+      } finally {
+        process.off('unhandledRejection', unhandled);
+      }
+
+      const written = vi.mocked(process.stdout.write).mock.calls.map(([chunk]) => String(chunk)).join('');
+      const records = extractRuntimeMarkers(written).markers
+        .map(marker => marker.payload)
+        .filter(isAnnotationRecord)
+        .filter(record => record.line === 1);
+      expect(records).toEqual([
+        { line: 1, value: 'Promise { <pending> }' },
+        { line: 1, value: 'Error: boom' }
+      ]);
+      expect(unhandled).not.toHaveBeenCalled();
+    });
+
+    it('should leave an uncaught rejection unhandled so the run still fails', () => {
+      // In a process of its own: the test runner reports unhandled rejections as failures
+      const run = (code: string) => spawnSync(process.execPath, ['-e', instrument(code)], { encoding: 'utf8', timeout: 10000 });
+
+      const uncaught = run('async function main() {\n  throw new Error("boom");\n}\nmain();\n');
+      expect(uncaught.status).not.toBe(0);
+      expect(uncaught.stderr).toContain('boom');
+      expect(uncaught.stdout).toContain('"value":"Error: boom"');
+
+      const caught = run('async function main() {\n  throw new Error("boom");\n}\nmain().catch(() => console.log("caught"));\n');
+      expect(caught.status).toBe(0);
+      expect(caught.stdout).toContain('caught');
+    });
+
+    it('should truncate long previews', () => {
+      const { records } = runAndCollect('"a".repeat(500);\n');
+
+      expect(records[0].value.length).toBe(120);
+      expect(records[0].value.endsWith('...')).toBe(true);
+    });
+  });
+});
@@ -372,6 +372,99 @@ describe('LanguageDetector', () => {
     });
   });
 
+  describe('Test code detection', () => {
+    it('should detect describe/it/test calls', () => {
+      const code = `
+        describe('math', () => {
+          it('adds', () => {
+            expect(1 + 1).toBe(2);
+          });
+        });
+      `;
+
+      expect(detector.isTestCode(code)).toBe(true);
+      expect(detector.detectFromContent(code, 'math.test.js').isTest).toBe(true);
+    });
+
+    it('should detect modifiers and test framework imports', () => {
+      expect(detector.isTestCode("test.only('focused', () => {});")).toBe(true);
+      expect(detector.isTestCode("import { expect } from 'vitest';")).toBe(true);
+    });
+
+    it('should not treat plain programs as tests', () => {
+      expect(detector.isTestCode('const result = items.filter(it => it.done);')).toBe(false);
+      expect(detector.isTestCode("console.log('test');")).toBe(false);
+    });
+
+    it('should not treat code that declares its own test function as tests', () => {
+      const code = `
+        function test(name) { console.log(name); }
+        test('hello');
+      `;
+
+      expect(detector.isTestCode(code)).toBe(false);
+    });
+  });
+
+  describe('Runtime detection', () => {
+    it('should classify DOM code as browser', () => {
+      const code = `
+        const button = document.createElement('button');
+        button.textContent = 'Save';
+        window.addEventListener('resize', () => console.log(window.innerWidth));
+      `;
+
+      expect(detector.detectRuntime(code)).toBe('browser');
+      expect(detector.detectFromContent(code, 'app.js').runtime).toBe('browser');
+    });
+
+    it('should classify Node APIs and built-in modules as node', () => {
+      expect(detector.detectRuntime("import { readFile } from 'node:fs/promises';")).toBe('node');
+      expect(detector.detectRuntime("const path = require('path');")).toBe('node');
+      expect(detector.detectRuntime('console.log(process.env.HOME, __dirname);')).toBe('node');
+    });
+
+    it('should classify Node globals read whole as node', () => {
+      expect(detector.detectRuntime('const { env, argv } = process;')).toBe('node');
+      expect(detector.detectRuntime('const bytes = new Buffer(8);')).toBe('node');
+      expect(detector.detectRuntime('const { from } = Buffer; from("hi");')).toBe('node');
+      expect(detector.detectRuntime('console.log(globalThis.process.version);')).toBe('node');
+    });
+
+    it('should not count Node names the code declares or only checks for', () => {
+      expect(detector.detectRuntime('const process = (items) => items.length; process([1]);')).toBe('universal');
+      expect(detector.detectRuntime('class Buffer { constructor() { this.items = []; } }')).toBe('universal');
+      expect(detector.detectRuntime("const isNode = typeof process !== 'undefined';")).toBe('universal');
+      expect(detector.detectRuntime("const isNode = typeof globalThis.process === 'object';")).toBe('universal');
+      expect(detector.detectRuntime('job.process(); queue.Buffer = [];')).toBe('universal');
+    });
+
+    it('should prefer node when both kinds of API are used', () => {
+      const code = `
+        const fs = require('fs');
+        document.body.innerHTML = fs.readFileSync('page.html', 'utf8');
+      `;
+
+      expect(detector.detectRuntime(code)).toBe('node');
+    });
+
+    it('should classify code without platform APIs as universal', () => {
+      const code = `
+        const response = await fetch('https://api.example.com/items');
+        setTimeout(() => console.log(response.status), 10);
+      `;
+
+      expect(detector.detectRuntime(code)).toBe('universal');
+    });
+
+    it('should ignore strings, comments, feature checks and local names', () => {
+      expect(detector.detectRuntime("console.log('open a new window'); // uses document")).toBe('universal');
+      expect(detector.detectRuntime("const isBrowser = typeof window !== 'undefined';")).toBe('universal');
+      expect(detector.detectRuntime('const document = { title: 1 }; console.log(document.title);')).toBe('universal');
+      expect(detector.detectRuntime('const dom = new JSDOM(html); dom.window.document;')).toBe('universal');
+    });
+  });
+
   describe('Configuration and validation', () => {
     it('should register custom language patterns', () => {
       const customPattern = /customSyntax\s*\(/g;
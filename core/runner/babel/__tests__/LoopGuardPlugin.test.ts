@@ -0,0 +1,165 @@
+/**
+ * Loop Guard Plugin Tests
+ * Verifies where guards are injected and how a tripped guard aborts the code
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { loopGuardPlugin, findLoopGuardTrip, type LoopGuardTrip } from '../LoopGuardPlugin';
+import { instrumentationPlugin } from '../InstrumentationPlugin';
+import { transformWith, captureOutput, evaluate } from './pluginFixture';
+import type { LoopGuardOptions } from '../../types';
+
+function guard(code: string, options: LoopGuardOptions = {}, annotate = false): string {
+  return transformWith(code, annotate ? [instrumentationPlugin, [loopGuardPlugin, options]] : [[loopGuardPlugin, options]]);
+}
+
+function runGuarded(code: string, options: LoopGuardOptions = {}): { error: unknown; trip: LoopGuardTrip | null } {
+  const output = captureOutput();
+
+  let error: unknown = null;
+  try {
+    evaluate(guard(code, options));
+  } catch (thrown) {
+    error = thrown;
+  }
+
+  return { error, trip: findLoopGuardTrip(output.markers()) };
+}
+
+describe('loopGuardPlugin', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Transformation', () => {
+    it('should guard every kind of loop with its source line', () => {
+      const code = guard([
+        'for (let i = 0; i < 3; i++) {}',
+        'while (false) {}',
+        'do {} while (false);',
+        'for (const key in {}) {}',
+        'for (const item of []) {}'
+      ].join('\n'));
+
+      for (let line = 1; line <= 5; line++) {
+        expect(code).toContain(`__orbisLoopGuard(${line}, ${line})`);
+        expect(code).toContain(`__orbisLoopEnter(${line})`);
+      }
+    });
+
+    it('should guard loops whose body is a single statement', () => {
+      const code = guard('let n = 0;\nwhile (n < 3) n++;\n');
+
+      expect(code).toContain('__orbisLoopGuard(1, 2)');
+      expect(code).toContain('n++');
+    });
+
+    it('should guard synchronous functions but not async functions or generators', () => {
+      const code = guard([
+        'function f(n) { return n; }',
+        'const g = n => n * 2;',
+        'async function h() {}',
+        'function* k() {}'
+      ].join('\n'));
+
+      expect(code).toContain('__orbisCallEnter(1)');
+      expect(code).toContain('__orbisCallEnter(2)');
+      expect(code).not.toContain('__orbisCallEnter(3)');
+      expect(code).not.toContain('__orbisCallEnter(4)');
+    });
+
+    it('should report original lines when combined with the instrumentation pass', () => {
+      const code = guard('const a = 1;\na + 1;\n\nwhile (a > 2) {}\n', {}, true);
+
+      expect(code).toContain('__orbisRecord(2, a + 1)');
+      expect(code).toContain('__orbisLoopGuard(1, 4)');
+    });
+  });
+
+  describe('Runtime guards', () => {
+    it('should let finite loops and recursion run', () => {
+      const { error, trip } = runGuarded([
+        'let total = 0;',
+        'for (let i = 0; i < 1000; i++) { total += i; }',
+        'function fact(n) { return n <= 1 ? 1 : n * fact(n - 1); }',
+        'if (fact(10) !== 3628800 || total !== 499500) throw new Error("wrong result");'
+      ].join('\n'));
+
+      expect(error).toBeNull();
+      expect(trip).toBeNull();
+    });
+
+    it('should abort a loop that exceeds the iteration limit', () => {
+      const { error, trip } = runGuarded('let n = 0;\n\nwhile (true) {\n  n++;\n}\n', { maxIterations: 100 });
+
+      expect(error).toBeInstanceOf(RangeError);
+      expect(trip).toMatchObject({ kind: 'loop', line: 3 });
+      expect(trip?.message).toContain('line 3');
+    });
+
+    it('should abort a loop that runs for too long', () => {
+      const { trip } = runGuarded('for (;;) {}\n', { maxIterations: 1e9, maxLoopTime: 20 });
+
+      expect(trip).toMatchObject({ kind: 'loop', line: 1 });
+      expect(trip?.message).toContain('20ms');
+    });
+
+    it('should not count the time a loop spends awaiting', async () => {
+      const output = captureOutput();
+      const code = guard([
+        'async function main() {',
+        '  for (let i = 0; i < 4; i++) {',
+        '    await new Promise(resolve => setTimeout(resolve, 15));',
+        '  }',
+        '  return "done";',
+        '}'
+      ].join('\n'), { maxLoopTime: 20 });
+
+      await expect(evaluate(code, 'main()')).resolves.toBe('done');
+      expect(findLoopGuardTrip(output.markers())).toBeNull();
+    });
+
+    it('should still abort an async loop that blocks between awaits', async () => {
+      const output = captureOutput();
+      const code = guard([
+        'async function main() {',
+        '  await null;',
+        '  for (;;) {}',
+        '}'
+      ].join('\n'), { maxIterations: 1e9, maxLoopTime: 20 });
+
+      await expect(evaluate(code, 'main()')).rejects.toBeInstanceOf(RangeError);
+      expect(findLoopGuardTrip(output.markers())).toMatchObject({ kind: 'loop', line: 3 });
+    });
+
+    it('should restart the count each time an inner loop is entered', () => {
+      const { error } = runGuarded([
+        'for (let i = 0; i < 50; i++) {',
+        '  for (let j = 0; j < 50; j++) {}',
+        '}'
+      ].join('\n'), { maxIterations: 60 });
+
+      expect(error).toBeNull();
+    });
+
+    it('should abort runaway recursion', () => {
+      const { error, trip } = runGuarded('\nfunction down(n) {\n  return down(n + 1);\n}\ndown(0);\n', { maxCallDepth: 50 });
+
+      expect(error).toBeInstanceOf(RangeError);
+      expect(trip).toMatchObject({ kind: 'recursion', line: 2 });
+    });
+
+    it('should keep failing once tripped, even if the code catches the error', () => {
+      const { error, trip } = runGuarded([
+        'while (true) {',
+        '  try {',
+        '    for (;;) {}',
+        '  } catch (e) {}',
+        '}'
+      ].join('\n'), { maxIterations: 10 });
+
+      expect(error).toBeInstanceOf(RangeError);
+      expect(trip?.line).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Module Format Plugin Tests
+ * Verifies which module format a snippet gets and the CommonJS interop added to ES modules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformSync } from '@babel/core';
+import { moduleFormatPlugin, getModuleEntryPath, type ModuleFormatOptions } from '../ModuleFormatPlugin';
+import type { ModuleFormatInfo } from '../../types';
+
+function analyze(code: string, options: ModuleFormatOptions = {}): { code: string; moduleFormat: ModuleFormatInfo } {
+  const result = transformSync(code, {
+    babelrc: false,
+    configFile: false,
+    filename: 'main.js',
+    sourceType: 'unambiguous',
+    parserOpts: { allowAwaitOutsideFunction: true },
+    plugins: [[moduleFormatPlugin, options]],
+    retainLines: true
+  });
+  return {
+    code: result?.code || '',
+    moduleFormat: (result?.metadata as { moduleFormat: ModuleFormatInfo }).moduleFormat
+  };
+}
+
+describe('moduleFormatPlugin', () => {
+  describe('Format detection', () => {
+    it('should run import/export and top-level await as ES modules', () => {
+      expect(analyze("import fs from 'node:fs';\nexport const read = fs.readFileSync;").moduleFormat)
+        .toEqual({ format: 'esm', interop: false, reason: 'ES module (import/export)' });
+      expect(analyze('const data = await fetch(url);').moduleFormat)
+        .toEqual({ format: 'esm', interop: false, reason: 'ES module (top-level await)' });
+      expect(analyze('console.log(import.meta.url);').moduleFormat.format).toBe('esm');
+      expect(analyze('for await (const chunk of stream) {}').moduleFormat.reason).toBe('ES module (top-level await)');
+    });
+
+    it('should default to an ES module when there is no module syntax', () => {
+      const { code, moduleFormat } = analyze('const x = 1;\nconsole.log(x);');
+
+      expect(moduleFormat).toEqual({ format: 'esm', interop: false, reason: 'ES module (no import or require)' });
+      expect(code).toBe('const x = 1;\nconsole.log(x);');
+    });
+
+    it('should run plain CommonJS as CommonJS', () => {
+      const { code, moduleFormat } = analyze([
+        "const path = require('path');",
+        'module.exports = { base: path.basename(__filename) };'
+      ].join('\n'));
+
+      expect(moduleFormat).toEqual({ format: 'commonjs', interop: false, reason: 'CommonJS (require, module, __filename)' });
+      expect(code).not.toContain('createRequire');
+    });
+
+    it('should ignore locals named like CommonJS globals and awaits inside functions', () => {
+      const { moduleFormat } = analyze([
+        'function load(require) { return require; }',
+        'const module = { name: "local" };',
+        'async function main() { await load(1); }'
+      ].join('\n'));
+
+      expect(moduleFormat).toEqual({ format: 'esm', interop: false, reason: 'ES module (no import or require)' });
+    });
+  });
+
+  describe('CommonJS interop', () => {
+    it('should provide require to an ES module that mixes import and require', () => {
+      const { code, moduleFormat } = analyze([
+        "import os from 'node:os';",
+        "const lodash = require('lodash');"
+      ].join('\n'));
+
+      expect(moduleFormat).toEqual({
+        format: 'esm',
+        interop: true,
+        reason: 'ES module with CommonJS interop for require (import/export mixed with CommonJS)'
+      });
+      expect(code).toContain("import { createRequire as __orbisCreateRequire } from 'node:module';");
+      expect(code).toContain('const require = __orbisCreateRequire(import.meta.url);');
+      expect(code).not.toContain('__dirname');
+    });
+
+    it('should turn CommonJS with top-level await into an ES module', () => {
+      const { code, moduleFormat } = analyze([
+        "const fs = require('fs');",
+        "exports.text = await fs.promises.readFile(__dirname + '/a.txt', 'utf8');"
+      ].join('\n'));
+
+      expect(moduleFormat.reason).toBe('ES module with CommonJS interop for require, exports, __dirname (top-level await with CommonJS)');
+      // `exports` needs the `module` it aliases
+      expect(code).toContain('const module = { exports: {} };');
+      expect(code).toContain('let exports = module.exports;');
+      expect(code).toContain('const __dirname = __orbisDirname(__orbisFileURLToPath(import.meta.url));');
+      expect(code.indexOf('const require')).toBeLessThan(code.indexOf("require('fs')"));
+    });
+
+    it('should keep project files as ES modules and add interop only once', () => {
+      const first = analyze("const { add } = require('./math');", { format: 'esm' });
+      const second = analyze(first.code, { format: 'esm' });
+
+      expect(first.moduleFormat).toEqual({
+        format: 'esm',
+        interop: true,
+        reason: 'ES module with CommonJS interop for require (project files are ES modules)'
+      });
+      expect(second.moduleFormat.interop).toBe(false);
+      expect(second.code.match(/const require =/g)).toHaveLength(1);
+    });
+  });
+
+  it('should name the entry file after its format', () => {
+    expect(getModuleEntryPath('main.js', 'esm')).toBe('main.mjs');
+    expect(getModuleEntryPath('main.ts', 'commonjs')).toBe('main.cjs');
+    expect(getModuleEntryPath('src/app.tsx', 'esm')).toBe('src/app.mjs');
+    expect(getModuleEntryPath('script', 'commonjs')).toBe('script.cjs');
+  });
+});
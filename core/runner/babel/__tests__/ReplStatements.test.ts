@@ -0,0 +1,126 @@
+// @vitest-environment node
+/**
+ * REPL Statements Tests
+ * Verifies how programs are split, which statements count as changed and
+ * that rewritten statements keep their bindings in one long-lived context
+ */
+
+import { describe, it, expect } from 'vitest';
+import vm from 'node:vm';
+import {
+  splitStatements,
+  selectChangedStatements,
+  createReplStatements,
+  REPL_LOADER_NAME,
+  type ReplStatement
+} from '../ReplStatements';
+
+/**
+ * Evaluate statements the way the session driver does
+ */
+async function evaluate(context: vm.Context, statements: ReplStatement[]): Promise<unknown> {
+  let value: unknown;
+  for (const statement of statements) {
+    value = vm.runInContext(statement.code, context);
+    if (statement.async) {
+      value = await value;
+    }
+    if (!statement.expression) {
+      value = undefined;
+    }
+  }
+  return value;
+}
+
+function createContext(modules: Record<string, Record<string, unknown>> = {}): vm.Context {
+  return vm.createContext({
+    [REPL_LOADER_NAME]: { import: async (specifier: string) => modules[specifier] }
+  });
+}
+
+describe('ReplStatements', () => {
+  describe('splitStatements', () => {
+    it('should return each top-level statement with its position', () => {
+      const statements = splitStatements('const a = 1;\n\n// note\nfunction f() {\n  return a;\n}\nf();');
+
+      expect(statements.map(statement => statement.source)).toEqual([
+        'const a = 1;',
+        'function f() {\n  return a;\n}',
+        'f();'
+      ]);
+      expect(statements.map(statement => statement.line)).toEqual([1, 4, 7]);
+    });
+
+    it('should parse TypeScript when asked to', () => {
+      const statements = splitStatements('interface A { x: number }\nconst a: A = { x: 1 };', 'typescript');
+      expect(statements).toHaveLength(2);
+    });
+
+    it('should throw on code that does not parse', () => {
+      expect(() => splitStatements('const = ;')).toThrow();
+    });
+  });
+
+  describe('selectChangedStatements', () => {
+    it('should keep only new and edited statements', () => {
+      const statements = splitStatements('const a = 1;\nconst b = 3;\nconsole.log(a + b);');
+      const changed = selectChangedStatements(['const a = 1;', 'const b = 2;', 'console.log(a + b);'], statements);
+
+      expect(changed.map(statement => statement.source)).toEqual(['const b = 3;']);
+    });
+
+    it('should count repeated statements separately', () => {
+      const statements = splitStatements('tick();\ntick();');
+      expect(selectChangedStatements(['tick();'], statements)).toHaveLength(1);
+    });
+  });
+
+  describe('createReplStatements', () => {
+    it('should let an edited declaration run again in the same context', async () => {
+      const context = createContext();
+      await evaluate(context, createReplStatements('const a = 1;\nlet b;\nclass Point {}'));
+      await evaluate(context, createReplStatements('const a = 2;'));
+
+      expect(await evaluate(context, createReplStatements('a'))).toBe(2);
+      expect(await evaluate(context, createReplStatements('typeof Point'))).toBe('function');
+    });
+
+    it('should keep names declared by statements that await', async () => {
+      const context = createContext();
+      await evaluate(context, createReplStatements('const { x, y: [z] } = await Promise.resolve({ x: 1, y: [2] });'));
+
+      expect(await evaluate(context, createReplStatements('x + z'))).toBe(3);
+    });
+
+    it('should report the awaited value of the last expression', async () => {
+      const context = createContext();
+      const statements = createReplStatements('const n = 20;\nawait Promise.resolve(n + 1)');
+
+      expect(statements.map(statement => statement.async)).toEqual([false, true]);
+      expect(await evaluate(context, statements)).toBe(21);
+    });
+
+    it('should give no value when the last statement is not an expression', async () => {
+      const context = createContext();
+      expect(await evaluate(context, createReplStatements('1 + 1;\nconst c = 3;'))).toBeUndefined();
+    });
+
+    it('should load imports through the session loader', async () => {
+      const context = createContext({ lib: { default: 'main', helper: 'named' } });
+      await evaluate(context, createReplStatements("import main, { helper as h } from 'lib';\nimport * as all from 'lib';"));
+
+      expect(await evaluate(context, createReplStatements('[main, h, all.helper].join()'))).toBe('main,named,named');
+    });
+
+    it('should drop export keywords', () => {
+      const statements = createReplStatements("export const v = 1;\nexport { v as w };\nexport default function f() {}");
+
+      expect(statements.map(statement => statement.code)).toEqual(['var v = 1;', 'function f() {}']);
+    });
+
+    it('should not treat await inside an async function as top-level', () => {
+      const [statement] = createReplStatements('async function load() { await 1; }');
+      expect(statement.async).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+// @vitest-environment node
+/**
+ * Run Range Tests
+ * Verifies which part of a tab each partial run covers and that the code of
+ * a range keeps the lines and columns it has in the tab
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getOffset,
+  getSelectionRange,
+  getStatementRange,
+  getRangeToCursor
+} from '../RunRange';
+
+const TAB = [
+  "const items = [1, 2, 3];",
+  "",
+  "function total(list) {",
+  "  return list.reduce((sum, n) => sum + n, 0);",
+  "}",
+  "",
+  "console.log(total(items));"
+].join('\n');
+
+describe('RunRange', () => {
+  describe('getOffset', () => {
+    it('should convert editor positions and clamp them to the line', () => {
+      expect(getOffset(TAB, { line: 2, column: 9 })).toBe(TAB.indexOf('total'));
+      expect(getOffset(TAB, { line: 0, column: 500 })).toBe(TAB.indexOf('\n'));
+      expect(getOffset(TAB, { line: 50, column: 0 })).toBe(TAB.length);
+    });
+  });
+
+  describe('getSelectionRange', () => {
+    it('should keep the selection at its line and column', () => {
+      const range = getSelectionRange(TAB, { line: 6, column: 12 }, { line: 6, column: 24 });
+
+      expect(range.text).toBe('total(items)');
+      expect(range.code.split('\n')).toHaveLength(7);
+      expect(range.code.split('\n')[6]).toBe(' '.repeat(12) + 'total(items)');
+      expect([range.startLine, range.endLine]).toEqual([7, 7]);
+    });
+
+    it('should not indent a Python selection', () => {
+      const range = getSelectionRange('x = 1\nprint(x)', { line: 1, column: 0 }, { line: 1, column: 8 }, 'python');
+      expect(range.code).toBe('\nprint(x)');
+    });
+
+    it('should keep the imports above the selection', () => {
+      const code = "import { sum } from './math';\nconst a = 1;\nconsole.log(sum(a, 2));";
+      const range = getSelectionRange(code, { line: 2, column: 0 }, { line: 2, column: 23 });
+
+      expect(range.code.split('\n')).toEqual(["import { sum } from './math';", ' '.repeat(12), 'console.log(sum(a, 2));']);
+
+      const python = getSelectionRange('import math\nx = 2\nprint(math.sqrt(x))', { line: 2, column: 0 }, { line: 2, column: 19 }, 'python');
+      expect(python.code).toBe('import math\n\nprint(math.sqrt(x))');
+    });
+
+    it('should accept a selection made upwards and reject an empty one', () => {
+      const range = getSelectionRange(TAB, { line: 4, column: 1 }, { line: 2, column: 0 });
+
+      expect([range.startLine, range.endLine]).toEqual([3, 5]);
+      expect(() => getSelectionRange(TAB, { line: 1, column: 0 }, { line: 1, column: 0 })).toThrow('Nothing is selected');
+    });
+  });
+
+  describe('getStatementRange', () => {
+    it('should run the whole function block around the cursor', () => {
+      const range = getStatementRange(TAB, { line: 3, column: 10 });
+
+      expect(range.text).toBe('function total(list) {\n  return list.reduce((sum, n) => sum + n, 0);\n}');
+      expect([range.startLine, range.endLine]).toEqual([3, 5]);
+      expect(range.code.startsWith(' '.repeat(24) + '\n\n')).toBe(true);
+    });
+
+    it('should keep the imports the statement may use', () => {
+      const code = [
+        "import { readFile } from 'node:fs/promises';",
+        "import type { Stats } from 'node:fs';",
+        '',
+        'async function load(path: string) {',
+        "  return readFile(path, 'utf8');",
+        '}'
+      ].join('\n');
+      const range = getStatementRange(code, { line: 4, column: 2 }, 'typescript');
+
+      expect(range.text).toBe("async function load(path: string) {\n  return readFile(path, 'utf8');\n}");
+      expect(range.code).toBe(code);
+      expect(getStatementRange(TAB, { line: 6, column: 0 }).code.startsWith(' ')).toBe(true);
+    });
+
+    it('should throw between statements', () => {
+      expect(() => getStatementRange(TAB, { line: 1, column: 0 })).toThrow('No statement at line 2');
+    });
+
+    it('should parse TypeScript when asked to', () => {
+      const range = getStatementRange('type N = number;\nconst n: N = 1;', { line: 1, column: 3 }, 'typescript');
+      expect(range.text).toBe('const n: N = 1;');
+    });
+  });
+
+  describe('getRangeToCursor', () => {
+    it('should run from the start through the statement on the cursor line', () => {
+      const range = getRangeToCursor(TAB, { line: 2, column: 0 });
+
+      expect(range.text).toBe(TAB.slice(0, TAB.indexOf('\n\nconsole')));
+      expect([range.startLine, range.endLine]).toEqual([1, 5]);
+    });
+
+    it('should ignore code below the cursor that does not parse yet', () => {
+      const range = getRangeToCursor('const a = 1;\nconst b = a + 1;\nconst c = ', { line: 1, column: 4 });
+      expect(range.text).toBe('const a = 1;\nconst b = a + 1;');
+    });
+
+    it('should throw when nothing comes before the cursor', () => {
+      expect(() => getRangeToCursor('\n\nrun();', { line: 0, column: 0 })).toThrow('No statement up to line 1');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Source Map Resolver Tests
+ * Verifies VLQ decoding, position lookups through chained passes and how
+ * runtime stack traces are mapped back to the user's files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformSync, type PluginObj, type types as t } from '@babel/core';
+import { decodeVLQ, decodeMappings, SourceMapResolver, SourceMapChain } from '../SourceMapResolver';
+import { consoleShimPlugin } from '../ConsoleShimPlugin';
+import { parseRuntimeError, resolveRuntimeError } from '../../RuntimeErrors';
+import type { SourceMap } from '../types';
+
+// Stands in for the preset pass: adds lines at the top, like Babel's helpers
+function prologuePlugin({ types }: { types: typeof t }): PluginObj {
+  return {
+    visitor: {
+      Program(path) {
+        path.unshiftContainer('body', [
+          types.expressionStatement(types.stringLiteral('use strict')),
+          types.variableDeclaration('var', [types.variableDeclarator(types.identifier('_helper'), types.numericLiteral(1))])
+        ]);
+      }
+    }
+  };
+}
+
+function runPass(code: string, plugin: PluginObj | ((api: { types: typeof t }) => PluginObj), retainLines: boolean) {
+  const result = transformSync(code, {
+    babelrc: false,
+    configFile: false,
+    filename: 'main.js',
+    plugins: [plugin],
+    retainLines,
+    sourceMaps: true
+  });
+  return { code: result?.code || '', map: result?.map as unknown as SourceMap };
+}
+
+// 1-based line and column of the first occurrence of `text`
+function locate(code: string, text: string): { line: number; column: number } {
+  const lines = code.split('\n');
+  const line = lines.findIndex(content => content.includes(text));
+  return { line: line + 1, column: lines[line].indexOf(text) + 1 };
+}
+
+const USER_CODE = [
+  'function divide(a, b) {',
+  '  if (b === 0) {',
+  "    throw new RangeError('division by zero');",
+  '  }',
+  '  return a / b;',
+  '}',
+  "console.log('start');",
+  'divide(1, 0);'
+].join('\n');
+
+describe('SourceMapResolver', () => {
+  describe('VLQ decoding', () => {
+    it('should decode signed values and continuation digits', () => {
+      expect(decodeVLQ('AAAA')).toEqual([0, 0, 0, 0]);
+      expect(decodeVLQ('AACA')).toEqual([0, 0, 1, 0]);
+      expect(decodeVLQ('D')).toEqual([-1]);
+      expect(decodeVLQ('gB')).toEqual([16]);
+      expect(() => decodeVLQ('g')).toThrow('Truncated');
+    });
+
+    it('should turn relative fields into absolute positions per line', () => {
+      expect(decodeMappings('AAAA,IAAI;;AACA')).toEqual([
+        [
+          { generatedColumn: 0, sourceIndex: 0, originalLine: 0, originalColumn: 0 },
+          { generatedColumn: 4, sourceIndex: 0, originalLine: 0, originalColumn: 4 }
+        ],
+        [],
+        [{ generatedColumn: 0, sourceIndex: 0, originalLine: 1, originalColumn: 4 }]
+      ]);
+    });
+  });
+
+  describe('Lookups', () => {
+    const resolver = new SourceMapResolver({
+      version: 3,
+      sources: ['main.ts'],
+      names: ['total'],
+      mappings: 'AAAA,IAAIA;;EACA'
+    });
+
+    it('should use the closest mapping at or before the column', () => {
+      expect(resolver.originalPositionFor(1, 6)).toEqual({ line: 1, column: 6, source: 'main.ts', name: 'total' });
+      expect(resolver.originalPositionFor(3, 2)).toEqual({ line: 2, column: 4, source: 'main.ts', name: undefined });
+    });
+
+    it('should return null for unmapped positions', () => {
+      expect(resolver.originalPositionFor(2, 0)).toBeNull();
+      expect(resolver.originalPositionFor(3, 0)).toBeNull();
+      expect(resolver.originalPositionFor(10, 0)).toBeNull();
+    });
+
+    it('should walk back through every pass of a chain', () => {
+      const instrumented = runPass(USER_CODE, consoleShimPlugin, true);
+      const compiled = runPass(instrumented.code, prologuePlugin, false);
+      const chain = new SourceMapChain([instrumented.map, null, compiled.map]);
+
+      const thrown = locate(compiled.code, 'throw new RangeError');
+      expect(thrown.line).not.toBe(3);
+      expect(chain.originalPositionFor(thrown.line, thrown.column - 1)).toMatchObject({ line: 3, column: 4 });
+    });
+  });
+
+  describe('Runtime errors', () => {
+    it('should parse the last error printed with a stack trace', () => {
+      const parsed = parseRuntimeError([
+        'Trace: checkpoint',
+        '    at main (/home/project/main.js:1:9)',
+        'start',
+        '/home/project/main.js:3',
+        '    throw new RangeError("division by zero");',
+        '    ^',
+        '',
+        'RangeError: division by zero',
+        '    at divide (/home/project/main.js:3:11)',
+        '    at Object.<anonymous> (/home/project/main.js:8:1)',
+        '    at node:internal/main/run_main_module:28:49',
+        '',
+        'Node.js v18.20.3'
+      ].join('\n'));
+
+      expect(parsed).toMatchObject({ name: 'RangeError', message: 'division by zero' });
+      expect(parsed?.location).toEqual({ file: '/home/project/main.js', line: 3 });
+      expect(parsed?.frames).toEqual([
+        { text: 'divide (/home/project/main.js:3:11)', functionName: 'divide', file: '/home/project/main.js', line: 3, column: 11 },
+        { text: 'Object.<anonymous> (/home/project/main.js:8:1)', functionName: 'Object.<anonymous>', file: '/home/project/main.js', line: 8, column: 1 },
+        { text: 'node:internal/main/run_main_module:28:49', functionName: undefined, file: 'node:internal/main/run_main_module', line: 28, column: 49 }
+      ]);
+      expect(parseRuntimeError('all good\n')).toBeNull();
+    });
+
+    it('should map frames back to the source and skip instrumentation helpers', () => {
+      const instrumented = runPass(USER_CODE, consoleShimPlugin, true);
+      const compiled = runPass(instrumented.code, prologuePlugin, false);
+      const thrown = locate(compiled.code, 'throw new RangeError');
+      const call = locate(compiled.code, 'divide(1, 0)');
+
+      const details = resolveRuntimeError([
+        'RangeError: division by zero',
+        `    at divide (file:///tmp/orbis-run/main.js:${thrown.line}:${thrown.column})`,
+        '    at __orbisConsoleAt (file:///tmp/orbis-run/main.js:1:200)',
+        `    at file:///tmp/orbis-run/main.js:${call.line}:${call.column}`,
+        '    at ModuleJob.run (node:internal/modules/esm/module_job:195:25)'
+      ].join('\n'), [
+        { path: 'main.js', source: 'src/main.js', maps: new SourceMapChain([instrumented.map, compiled.map]) }
+      ]);
+
+      expect(details).toMatchObject({ name: 'RangeError', source: 'src/main.js', line: 3, column: 5 });
+      expect(details?.frames.map(frame => [frame.functionName, frame.source, frame.line, frame.column])).toEqual([
+        ['divide', 'src/main.js', 3, 5],
+        [undefined, 'src/main.js', 8, 1],
+        ['ModuleJob.run', undefined, undefined, undefined]
+      ]);
+    });
+
+    it('should fall back to the location header of a SyntaxError', () => {
+      const details = resolveRuntimeError([
+        '/home/project/main.js:2',
+        '  let let = 1;',
+        '      ^^^',
+        '',
+        "SyntaxError: let is disallowed as a lexically bound name",
+        '    at internalCompileFunction (node:internal/vm:73:18)'
+      ].join('\n'), [
+        { path: 'main.js', source: 'main.js', maps: new SourceMapChain([]) }
+      ]);
+
+      expect(details).toMatchObject({ name: 'SyntaxError', source: 'main.js', line: 2 });
+      expect(details?.column).toBeUndefined();
+    });
+  });
+});
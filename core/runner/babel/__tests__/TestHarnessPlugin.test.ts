@@ -0,0 +1,166 @@
+/**
+ * Test Harness Plugin Tests
+ * Verifies how test calls are rewritten and what the harness reports when they run
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { testHarnessPlugin, collectTestResults } from '../TestHarnessPlugin';
+import { transformWith, captureOutput, evaluate } from './pluginFixture';
+import type { TestCaseResult } from '../../types';
+
+function harness(code: string): string {
+  return transformWith(code, [testHarnessPlugin], { filename: 'main.test.js' });
+}
+
+async function runTests(code: string): Promise<{ results: TestCaseResult[]; logs: string[] }> {
+  const output = captureOutput(['log']);
+
+  const exitCode = process.exitCode;
+  try {
+    await evaluate(harness(code), '__orbisTests.run');
+  } finally {
+    process.exitCode = exitCode;
+  }
+
+  return { results: collectTestResults(output.markers()), logs: output.printed.map(args => args.join(' ')) };
+}
+
+describe('testHarnessPlugin', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Transformation', () => {
+    it('should tag test calls with their source line', () => {
+      const code = harness([
+        "describe('math', () => {",
+        "  it('adds', () => {});",
+        "  test.skip('later', () => {});",
+        '});'
+      ].join('\n'));
+
+      expect(code).toContain("__orbisTestAt(1, __orbisDescribe)('math'");
+      expect(code).toContain("__orbisTestAt(2, __orbisTest)('adds'");
+      expect(code).toContain("__orbisTestAt(3, __orbisTest.skip)('later'");
+      expect(code).toContain('__orbisRunTests();');
+    });
+
+    it('should remove test framework imports', () => {
+      const code = harness([
+        "import { describe, it, expect } from 'vitest';",
+        "import fs from 'fs';",
+        "it('works', () => expect(1).toBe(1));"
+      ].join('\n'));
+
+      expect(code).not.toContain('vitest');
+      expect(code).toContain("import fs from 'fs'");
+      expect(code).toContain('__orbisExpect(1)');
+    });
+
+    it('should leave locally declared names untouched', () => {
+      const code = harness([
+        'function test(value) { return value; }',
+        "test('not a test');"
+      ].join('\n'));
+
+      expect(code).toContain("test('not a test')");
+      expect(code).not.toContain('__orbisTestAt(2');
+    });
+  });
+
+  describe('Execution', () => {
+    it('should report passing and failing tests with their suites', async () => {
+      const { results, logs } = await runTests([
+        "describe('math', () => {",
+        "  it('adds', () => { expect(1 + 1).toBe(2); });",
+        "  it('subtracts', () => { expect(3 - 1).toBe(1); });",
+        '});'
+      ].join('\n'));
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({ name: 'adds', suite: ['math'], line: 2, status: 'passed' });
+      expect(results[1]).toMatchObject({ name: 'subtracts', suite: ['math'], line: 3, status: 'failed' });
+      expect(results[1].error?.message).toContain('toBe(expected)');
+      expect(results[1].error).toMatchObject({ expected: '1', actual: '2' });
+      expect(logs.some(line => line.includes('1 passed, 1 failed'))).toBe(true);
+    });
+
+    it('should pretty-print structures for assertion diffs', async () => {
+      const { results } = await runTests(
+        "test('user', () => { expect({ name: 'Ada', tags: ['a'] }).toEqual({ name: 'Ada', tags: ['b'] }); });"
+      );
+
+      expect(results[0].status).toBe('failed');
+      expect(results[0].error?.expected).toBe('{\n  "name": "Ada",\n  "tags": [\n    "b"\n  ]\n}');
+      expect(results[0].error?.actual).toContain('"a"');
+    });
+
+    it('should support common matchers and negation', async () => {
+      const { results } = await runTests([
+        "test('matchers', () => {",
+        '  expect([1, { a: 2 }]).toEqual([1, { a: 2 }]);',
+        "  expect({ a: 1, b: { c: 2 } }).toMatchObject({ b: { c: 2 } });",
+        "  expect('hello world').toMatch(/world/);",
+        "  expect([1, 2, 3]).toContain(2);",
+        "  expect('abc').toHaveLength(3);",
+        "  expect({ a: { b: 1 } }).toHaveProperty('a.b', 1);",
+        '  expect(0.1 + 0.2).toBeCloseTo(0.3);',
+        "  expect(() => { throw new TypeError('bad input'); }).toThrow('bad');",
+        '  expect(null).not.toBeUndefined();',
+        '  expect(1).not.toBe(2);',
+        '  expect(new Set([1])).toEqual(new Set([1]));',
+        '});'
+      ].join('\n'));
+
+      expect(results[0]).toMatchObject({ status: 'passed' });
+    });
+
+    it('should await async tests, done callbacks and promise matchers', async () => {
+      const { results } = await runTests([
+        "test('async', async () => { await expect(Promise.resolve(3)).resolves.toBe(3); });",
+        "test('done', done => { setTimeout(done, 1); });",
+        "test('rejects', async () => { await expect(Promise.reject(new Error('nope'))).rejects.toThrow('nope'); });"
+      ].join('\n'));
+
+      expect(results.map(result => result.status)).toEqual(['passed', 'passed', 'passed']);
+    });
+
+    it('should run hooks around each test', async () => {
+      const { results } = await runTests([
+        'let count = 0;',
+        'beforeEach(() => { count = 1; });',
+        "describe('suite', () => {",
+        '  beforeEach(() => { count += 1; });',
+        "  it('sees both hooks', () => { expect(count).toBe(2); });",
+        '});'
+      ].join('\n'));
+
+      expect(results[0].status).toBe('passed');
+    });
+
+    it('should honour only, skip and todo', async () => {
+      const { results } = await runTests([
+        "test('plain', () => {});",
+        "test.only('focused', () => {});",
+        "describe.skip('skipped suite', () => { test('inner', () => {}); });",
+        "test.todo('someday');"
+      ].join('\n'));
+
+      expect(results.map(result => `${result.name}:${result.status}`)).toEqual([
+        'plain:skipped',
+        'focused:passed',
+        'inner:skipped',
+        'someday:skipped'
+      ]);
+    });
+
+    it('should fail tests that exceed their timeout', async () => {
+      const { results } = await runTests(
+        "test('slow', () => new Promise(resolve => setTimeout(resolve, 200)), 20);"
+      );
+
+      expect(results[0].status).toBe('failed');
+      expect(results[0].error?.message).toContain('Timed out after 20ms');
+    });
+  });
+});
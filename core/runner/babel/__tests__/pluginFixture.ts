@@ -0,0 +1,68 @@
+/**
+ * Plugin Fixture
+ * Shared setup for the tests of the plugins whose code reports through
+ * runtime markers: transform a snippet, run it and collect what it wrote
+ */
+
+import { vi } from 'vitest';
+import { transformSync, type PluginItem, type ParserOptions } from '@babel/core';
+import { extractRuntimeMarkers, type RuntimeMarker } from '../../RuntimeMarkers';
+
+export interface TransformFixtureOptions {
+  filename?: string;
+  parserOpts?: ParserOptions;
+}
+
+export interface CapturedOutput {
+  /** Runtime markers written to stdout so far */
+  markers: () => RuntimeMarker[];
+  /** Arguments of each call to the mocked console methods */
+  printed: unknown[][];
+}
+
+/**
+ * Transforms a snippet with just the given plugins, keeping its lines
+ */
+export function transformWith(code: string, plugins: PluginItem[], options: TransformFixtureOptions = {}): string {
+  const result = transformSync(code, {
+    babelrc: false,
+    configFile: false,
+    filename: options.filename ?? 'main.js',
+    plugins,
+    parserOpts: options.parserOpts,
+    retainLines: true
+  });
+  return result?.code || '';
+}
+
+/**
+ * Mocks process.stdout.write and the given console methods to collect what
+ * the code writes. vi.restoreAllMocks() undoes it.
+ */
+export function captureOutput(consoleMethods: ReadonlyArray<keyof Console> = []): CapturedOutput {
+  const written: string[] = [];
+  const printed: unknown[][] = [];
+  vi.spyOn(process.stdout, 'write').mockImplementation((chunk: string | Uint8Array) => {
+    written.push(String(chunk));
+    return true;
+  });
+  const mockable = console as unknown as Record<string, (...args: unknown[]) => void>;
+  for (const method of consoleMethods) {
+    vi.spyOn(mockable, method).mockImplementation((...args: unknown[]) => {
+      printed.push(args);
+    });
+  }
+
+  return {
+    markers: () => extractRuntimeMarkers(written.join('')).markers,
+    printed
+  };
+}
+
+/**
+ * Runs transformed code as a function body. `returning` is an expression
+ * evaluated at the end and returned (e.g. the promise of the test run).
+ */
+export function evaluate(code: string, returning?: string): unknown {
+  return new Function(returning ? `${code}\nreturn ${returning};` : code)();
+}
@@ -39,6 +39,75 @@ export { LanguageDetector } from './LanguageDetector.js';
 
 // Error handling and debugging
 export { ErrorHandler } from './ErrorHandler.js';
+export { SourceMapResolver, SourceMapChain, decodeVLQ, decodeMappings } from './SourceMapResolver.js';
+export type { MappingSegment, OriginalPosition } from './SourceMapResolver.js';
+
+// Code instrumentation
+export { instrumentationPlugin, isAnnotationRecord, collectAnnotations, ANNOTATION_CHANNEL } from './InstrumentationPlugin.js';
+export type { AnnotationRecord } from './InstrumentationPlugin.js';
+export {
+  loopGuardPlugin,
+  isLoopGuardTrip,
+  findLoopGuardTrip,
+  LOOP_GUARD_CHANNEL,
+  DEFAULT_LOOP_GUARD
+} from './LoopGuardPlugin.js';
+export type { LoopGuardTrip } from './LoopGuardPlugin.js';
+export {
+  testHarnessPlugin,
+  isTestCaseResult,
+  collectTestResults,
+  withTestResults,
+  TEST_CHANNEL,
+  TEST_FRAMEWORK_MODULES
+} from './TestHarnessPlugin.js';
+export {
+  benchmarkPlugin,
+  isBenchmarkResult,
+  collectBenchmarkResults,
+  rankBenchmarks,
+  BENCHMARK_CHANNEL,
+  DEFAULT_BENCHMARK
+} from './BenchmarkPlugin.js';
+export {
+  consoleShimPlugin,
+  isConsoleEntry,
+  collectConsoleEntries,
+  CONSOLE_CHANNEL
+} from './ConsoleShimPlugin.js';
+export {
+  importResolverPlugin,
+  resolveProjectImport,
+  normalizeProjectPath,
+  getEmittedPath,
+  getRelativeSpecifier
+} from './ImportResolverPlugin.js';
+export type { ImportResolverOptions } from './ImportResolverPlugin.js';
+export {
+  moduleFormatPlugin,
+  analyzeModuleSyntax,
+  chooseModuleFormat,
+  getModuleEntryPath
+} from './ModuleFormatPlugin.js';
+export type { ModuleSyntax, ModuleFormatOptions } from './ModuleFormatPlugin.js';
+export {
+  analyzeDependencies,
+  collectModuleSpecifiers,
+  collectFreeGlobals,
+  isBuiltinModule,
+  parseDependencyManifest,
+  formatDependencyList
+} from './DependencyAnalyzer.js';
+export type { DependencyAnalysis } from './DependencyAnalyzer.js';
+export {
+  splitStatements,
+  selectChangedStatements,
+  createReplStatements,
+  REPL_LOADER_NAME
+} from './ReplStatements.js';
+export type { ProgramStatement, ReplStatement } from './ReplStatements.js';
+export { getOffset, getSelectionRange, getStatementRange, getRangeToCursor } from './RunRange.js';
+export type { RunScope, RunRange, EditorPosition } from './RunRange.js';
 
 // Performance optimization
 export { PerformanceOptimizer, TransformationCache, IncrementalCompiler, MemoryManager } from './PerformanceOptimizer.js';
@@ -94,6 +163,7 @@ export type {
   
   // Detection types
   LanguageInfo,
+  RuntimeTarget,
   FrameworkInfo,
   LanguageFeature,
   FeatureSupport,
@@ -3,6 +3,8 @@
  * Comprehensive type definitions for the enhanced Babel transformation system
  */
 
+import type { BenchmarkOptions, LoopGuardOptions, ModuleFormat, ModuleFormatInfo } from '../types.js';
+
 // Core transformation types
 export type SupportedLanguage = 'javascript' | 'typescript' | 'jsx' | 'tsx';
 export type SupportedFramework = 'react' | 'solid' | 'vue' | 'svelte';
@@ -17,6 +19,13 @@ export interface TransformOptions {
   sourceMaps?: boolean;
   minify?: boolean;
   customConfig?: Partial<BabelGlobalConfig>;
+  instrument?: boolean; // Record expression values for inline annotations
+  loopGuard?: LoopGuardOptions; // Inject loop and recursion guards (instrumentCode only)
+  testHarness?: boolean; // Run describe/it/test calls with the built-in harness (instrumentCode only)
+  benchmark?: BenchmarkOptions; // Time `// @bench` functions or the whole program (instrumentCode only)
+  consoleShim?: boolean; // Report console calls as structured entries (instrumentCode only)
+  moduleFormat?: ModuleFormat | 'auto'; // Pick the module format from the syntax ('auto') or force one, adding CommonJS interop as needed
+  projectFiles?: string[]; // Paths of every workspace file, used to resolve relative imports
 }
 
 // Transform result interface
@@ -36,6 +45,7 @@ export interface TransformMetadata {
   appliedPlugins: string[];
   warnings: TransformWarning[];
   dependencies: string[];
+  moduleFormat?: ModuleFormatInfo; // Decision of the module format pass, when it ran
 }
 
 // Performance metrics
@@ -91,12 +101,37 @@ export interface BabelGlobalConfig {
 export interface PresetConfig {
   name: string;
   options?: Record<string, unknown>;
+  enabled?: boolean;
+  order?: number;
 }
 
 // Plugin configuration
 export interface PluginConfig {
   name: string;
   options?: Record<string, unknown>;
+  enabled?: boolean;
+  order?: number;
+}
+
+// JavaScript-specific transform configuration
+export interface JavaScriptConfig {
+  targets?: TargetConfig;
+  modules?: 'auto' | 'amd' | 'umd' | 'systemjs' | 'commonjs' | 'cjs' | false;
+  loose?: boolean;
+  spec?: boolean;
+  debug?: boolean;
+}
+
+// TypeScript-specific transform configuration
+export interface TypeScriptConfig {
+  allowNamespaces?: boolean;
+  allowDeclareFields?: boolean;
+  disallowAmbiguousJSXLike?: boolean;
+  isTSX?: boolean;
+  jsxPragma?: string;
+  jsxPragmaFrag?: string;
+  onlyRemoveTypeImports?: boolean;
+  optimizeConstEnums?: boolean;
 }
 
 // Target configuration
@@ -258,8 +293,13 @@ export interface LanguageInfo {
   framework?: SupportedFramework;
   version?: string;
   requiresTranspilation: boolean;
+  isTest?: boolean; // describe/it/test code, run with the built-in test harness
+  runtime?: RuntimeTarget; // Where the code can run: Node, a browser page, or either
 }
 
+// Node-only APIs (require, process, fs), DOM APIs (document, window), or neither
+export type RuntimeTarget = 'node' | 'browser' | 'universal';
+
 export interface FrameworkInfo {
   name: SupportedFramework;
   version?: string;
@@ -0,0 +1,342 @@
+/**
+ * BrowserRunner - Runs JavaScript/TypeScript in a sandboxed iframe
+ *
+ * Code that uses the DOM (document, window, localStorage) fails under Node, so
+ * it runs in a page instead: a fresh iframe per run, sandboxed so it can't
+ * reach the app. The code goes through the same instrumentation and Babel
+ * passes as a Node run and resolves with the same ExecutionResult, with its
+ * annotations, test results, console entries and mapped errors.
+ *
+ * The page has no stdin: a fixture feeds prompt() instead, and npm packages
+ * are imported from an ES module CDN rather than installed. See
+ * SandboxDocument for when a run counts as finished.
+ */
+
+import { BabelTransformer, type MappedCode } from '../BabelTransformer.js';
+import { ModernBabelTransformer } from '../babel/ModernBabelTransformer.js';
+import { collectAnnotations } from '../babel/InstrumentationPlugin.js';
+import { findLoopGuardTrip } from '../babel/LoopGuardPlugin.js';
+import { collectTestResults, withTestResults } from '../babel/TestHarnessPlugin.js';
+import { collectBenchmarkResults } from '../babel/BenchmarkPlugin.js';
+import { collectConsoleEntries } from '../babel/ConsoleShimPlugin.js';
+import { analyzeDependencies, formatDependencyList } from '../babel/DependencyAnalyzer.js';
+import { SourceMapChain } from '../babel/SourceMapResolver.js';
+import type { SourceMap } from '../babel/types.js';
+import { extractRuntimeMarkers, withoutRuntimeMarkers } from '../RuntimeMarkers.js';
+import { resolveRuntimeError } from '../RuntimeErrors.js';
+import type {
+  BenchmarkOptions,
+  ExecutionResult,
+  LoopGuardOptions,
+  OutputEvent,
+  OutputListener,
+  RunCodeOptions,
+  SupportedLanguage
+} from '../types.js';
+import { DEFAULT_ESM_CDN_URL, createImportMap, createSandboxDocument } from './SandboxDocument.js';
+import { SANDBOX_MESSAGE_SOURCE, type SandboxResponse, type SandboxRunMessage } from './protocol.js';
+
+export interface BrowserRunnerConfig {
+  timeout?: number;
+  maxOutputSize?: number; // Maximum number of output lines kept
+  cdnURL?: string; // ES module CDN npm packages are imported from (`<cdn>/<name>@<version>`)
+  container?: HTMLElement; // Where the hidden iframes are attached (default: document.body)
+}
+
+interface ActiveRun {
+  runId: string;
+  startTime: number;
+  iframe: HTMLIFrameElement;
+  message: SandboxRunMessage;
+  output: OutputEvent[];
+  onOutput?: OutputListener;
+  uncaught: string[]; // First line of each uncaught error, as the browser console words it
+  resolve: (result: ExecutionResult) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+export class BrowserRunner {
+  private current: ActiveRun | null = null;
+  private runCounter = 0;
+  private babelTransformer: BabelTransformer;
+  private modernTransformer: ModernBabelTransformer;
+  private config: BrowserRunnerConfig;
+
+  constructor(config: BrowserRunnerConfig = {}) {
+    this.config = {
+      timeout: 30000,
+      maxOutputSize: 100000,
+      cdnURL: DEFAULT_ESM_CDN_URL,
+      ...config
+    };
+    this.babelTransformer = BabelTransformer.getInstance();
+    this.modernTransformer = ModernBabelTransformer.getInstance();
+  }
+
+  /**
+   * Whether code can run here (it needs a document to create the iframe in)
+   */
+  public static isAvailable(): boolean {
+    return typeof window !== 'undefined' && typeof document !== 'undefined';
+  }
+
+  public isRunning(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Run JavaScript or TypeScript as an ES module in a new sandboxed page.
+   * `files` (project mode) are not supported: only the code itself runs.
+   */
+  public async runCode(code: string, language: SupportedLanguage = 'javascript', options: RunCodeOptions = {}): Promise<ExecutionResult> {
+    if (!BrowserRunner.isAvailable()) {
+      return this.createErrorResult('The browser runtime needs a page to create its sandbox in');
+    }
+    if (language !== 'javascript' && language !== 'typescript') {
+      return this.createErrorResult(`The browser runtime only runs JavaScript and TypeScript, not ${language}`);
+    }
+    if (this.current) {
+      await this.stopExecution();
+    }
+
+    const filename = options.filename || (language === 'typescript' ? 'index.ts' : 'index.js');
+    const benchmark = options.benchmark ? (options.benchmark === true ? {} : options.benchmark) : undefined;
+    const testMode = options.testMode === true && !benchmark;
+    // Same rules as a Node run: tests replace annotations, benchmarks run uninstrumented
+    const annotate = options.annotate !== false && !testMode && !benchmark;
+    const loopGuard = options.loopGuard && !benchmark ? (options.loopGuard === true ? {} : options.loopGuard) : undefined;
+    const consoleShim = options.inspectConsole !== false && !benchmark;
+    const onOutput = options.onOutput && withoutRuntimeMarkers(options.onOutput);
+
+    this.emitLog(onOutput, 'Runtime: browser sandbox');
+    await this.babelTransformer.initialize();
+
+    const instrumented = await this.instrumentCode(code, language, filename, { annotate, loopGuard, testHarness: testMode, benchmark, consoleShim });
+    let compiled: MappedCode = { code: instrumented.code, map: null };
+    if (options.transform !== false || language === 'typescript') {
+      try {
+        compiled = language === 'typescript'
+          ? this.babelTransformer.transformTypeScriptWithMap(instrumented.code, { modules: false })
+          : this.babelTransformer.transformCodeWithMap(instrumented.code, 'javascript', { modules: false });
+      } catch (transformError) {
+        console.warn('⚠️ Babel transformation failed, running the untransformed code:', transformError);
+      }
+    }
+    const compiledSources = [{ path: filename, source: filename, maps: new SourceMapChain([instrumented.map, compiled.map]) }];
+
+    // In test mode the harness has already dropped the vitest/jest imports
+    const { dependencies } = analyzeDependencies(testMode ? instrumented.code : code, options.dependencies);
+    if (dependencies.length > 0) {
+      this.emitLog(onOutput, `Dependencies: ${formatDependencyList(dependencies)} (from ${this.config.cdnURL})`);
+    }
+
+    let result = await this.execute(compiled.code, filename, {
+      importMap: createImportMap(dependencies, this.config.cdnURL),
+      stdin: options.stdin,
+      onOutput
+    });
+
+    if (annotate || loopGuard || testMode || benchmark || consoleShim) {
+      const { output, markers } = extractRuntimeMarkers(result.output);
+      const trip = findLoopGuardTrip(markers);
+      result = { ...result, output };
+      if (annotate) {
+        result.annotations = collectAnnotations(markers);
+      }
+      if (testMode) {
+        result = withTestResults(result, collectTestResults(markers));
+      }
+      if (benchmark) {
+        result.benchmarks = collectBenchmarkResults(markers);
+      }
+      if (consoleShim) {
+        result.console = collectConsoleEntries(markers);
+      }
+      if (trip) {
+        result = { ...result, success: false, error: trip.message, status: 'error' };
+      }
+    }
+
+    if (!result.success && result.status !== 'killed') {
+      result.errorDetails = resolveRuntimeError(result.output, compiledSources) || undefined;
+    }
+    return result;
+  }
+
+  /**
+   * Stop the running code by removing its page. The pending runCode call resolves with status 'killed'.
+   */
+  public async stopExecution(): Promise<boolean> {
+    const run = this.current;
+    if (!run) {
+      return false;
+    }
+    this.finish(run, { success: false, error: 'Execution stopped by user', status: 'killed' });
+    return true;
+  }
+
+  /**
+   * Stop any run; nothing else is kept between runs
+   */
+  public cleanup(): void {
+    void this.stopExecution();
+  }
+
+  /**
+   * Instrument the code like a Node run does. Best effort: on failure it runs
+   * unannotated and any syntax error is reported by the browser itself.
+   */
+  private async instrumentCode(
+    code: string,
+    language: 'javascript' | 'typescript',
+    filename: string,
+    { annotate, loopGuard, testHarness, benchmark, consoleShim }: {
+      annotate: boolean;
+      loopGuard?: LoopGuardOptions;
+      testHarness?: boolean;
+      benchmark?: BenchmarkOptions;
+      consoleShim?: boolean;
+    }
+  ): Promise<{ code: string; map: SourceMap | null }> {
+    try {
+      const result = await this.modernTransformer.instrumentCode(code, {
+        language,
+        filename,
+        instrument: annotate,
+        loopGuard,
+        testHarness,
+        benchmark,
+        consoleShim
+      });
+      return { code: result.code, map: result.map || null };
+    } catch (instrumentError) {
+      console.warn('⚠️ Could not instrument the code, running it without annotations:', instrumentError);
+      return { code, map: null };
+    }
+  }
+
+  /**
+   * Create the sandbox page, send it the code and collect what it reports
+   * until it goes idle, times out or is stopped
+   */
+  private execute(
+    code: string,
+    filename: string,
+    { importMap, stdin, onOutput }: { importMap: ReturnType<typeof createImportMap>; stdin?: string; onOutput?: OutputListener }
+  ): Promise<ExecutionResult> {
+    const runId = `browser-${Date.now()}-${++this.runCounter}`;
+    const iframe = document.createElement('iframe');
+    iframe.sandbox.add('allow-scripts');
+    iframe.title = 'Code sandbox';
+    iframe.setAttribute('aria-hidden', 'true');
+    // Laid out off screen rather than hidden, so layout and timers behave as in a visible page
+    Object.assign(iframe.style, { position: 'fixed', left: '-10000px', top: '0', width: '800px', height: '600px', border: '0' });
+    iframe.srcdoc = createSandboxDocument(runId, importMap);
+
+    return new Promise<ExecutionResult>(resolve => {
+      const run: ActiveRun = {
+        runId,
+        startTime: Date.now(),
+        iframe,
+        message: { type: 'run', runId, code, filename, stdin },
+        output: [],
+        onOutput,
+        uncaught: [],
+        resolve,
+        timeoutId: setTimeout(() => {
+          this.finish(run, {
+            success: false,
+            error: `Process timed out after ${this.config.timeout}ms`,
+            status: 'error'
+          });
+        }, this.config.timeout)
+      };
+      this.current = run;
+
+      window.addEventListener('message', this.handleMessage);
+      (this.config.container || document.body).appendChild(iframe);
+    });
+  }
+
+  private handleMessage = (event: MessageEvent<SandboxResponse>): void => {
+    const run = this.current;
+    const message = event.data;
+    if (!run || event.source !== run.iframe.contentWindow || message?.source !== SANDBOX_MESSAGE_SOURCE || message.runId !== run.runId) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'ready':
+        run.iframe.contentWindow?.postMessage(run.message, '*');
+        break;
+
+      case 'output':
+        this.addOutput(run, message.stream, message.content);
+        break;
+
+      case 'uncaught': {
+        const header = message.error.split('\n')[0];
+        run.uncaught.push(`Uncaught ${message.rejection ? '(in promise) ' : ''}${header}`);
+        this.addOutput(run, 'stderr', message.error);
+        break;
+      }
+
+      case 'done':
+        this.finish(run, run.uncaught.length > 0
+          ? { success: false, error: run.uncaught[0], status: 'error' }
+          : { success: true, status: 'completed' });
+        break;
+    }
+  };
+
+  private addOutput(run: ActiveRun, stream: 'stdout' | 'stderr', content: string): void {
+    for (const line of content.split('\n')) {
+      const event: OutputEvent = { type: stream, content: line, timestamp: new Date() };
+      run.output.push(event);
+      if (run.output.length > (this.config.maxOutputSize || 1000)) {
+        run.output.shift();
+      }
+      this.emit(run.onOutput, event);
+    }
+  }
+
+  private emitLog(onOutput: OutputListener | undefined, content: string): void {
+    this.emit(onOutput, { type: 'log', content, timestamp: new Date() });
+  }
+
+  private emit(onOutput: OutputListener | undefined, event: OutputEvent): void {
+    try {
+      onOutput?.(event);
+    } catch (error) {
+      console.warn('Error in output listener:', error);
+    }
+  }
+
+  private finish(run: ActiveRun, result: Omit<ExecutionResult, 'output' | 'duration' | 'timestamp'>): void {
+    if (this.current !== run) {
+      return;
+    }
+
+    clearTimeout(run.timeoutId);
+    window.removeEventListener('message', this.handleMessage);
+    run.iframe.remove();
+    this.current = null;
+    run.resolve({
+      ...result,
+      output: run.output.map(event => event.content).join('\n'),
+      duration: Date.now() - run.startTime,
+      timestamp: new Date()
+    });
+  }
+
+  private createErrorResult(message: string): ExecutionResult {
+    return {
+      success: false,
+      output: '',
+      error: message,
+      duration: 0,
+      timestamp: new Date(),
+      status: 'error'
+    };
+  }
+}
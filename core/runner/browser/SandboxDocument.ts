@@ -0,0 +1,232 @@
+/**
+ * SandboxDocument - The page loaded into the browser runner's iframe
+ *
+ * The iframe is sandboxed with scripts only, so it has an opaque origin: the
+ * code can't reach the app, its storage or its cookies. A bootstrap script
+ * forwards console calls, uncaught errors and unhandled rejections to the
+ * runner, then imports the code it receives as an ES module. npm packages are
+ * resolved through an import map pointing at an ES module CDN.
+ *
+ * A browser page never exits the way a Node process does, so the bootstrap
+ * counts what keeps a run alive (pending timeouts, active intervals, fetches
+ * in flight) and reports the run done once the module has been evaluated and
+ * that count has stayed at zero for SANDBOX_IDLE_DELAY. Event listeners and
+ * animation frames don't keep it alive.
+ */
+
+import type { ResolvedDependency } from '../types.js';
+import { SANDBOX_IDLE_DELAY, SANDBOX_MESSAGE_SOURCE } from './protocol.js';
+
+/**
+ * ES module CDN used for npm packages by default (`<cdn>/<name>@<version>`)
+ */
+export const DEFAULT_ESM_CDN_URL = 'https://esm.sh/';
+
+export interface ImportMap {
+  imports: Record<string, string>;
+}
+
+const BOOTSTRAP_SOURCE = `
+var originalSetTimeout = window.setTimeout.bind(window);
+var originalClearTimeout = window.clearTimeout.bind(window);
+var originalSetInterval = window.setInterval.bind(window);
+var originalClearInterval = window.clearInterval.bind(window);
+var originalFetch = typeof window.fetch === 'function' ? window.fetch.bind(window) : null;
+var timers = new Set();
+var pending = 0;
+var settled = false;
+var finished = false;
+var idleTimer = null;
+var moduleUrl = null;
+var filename = '';
+var inputLines = null;
+
+function post(message) {
+  message.source = '${SANDBOX_MESSAGE_SOURCE}';
+  message.runId = RUN_ID;
+  parent.postMessage(message, '*');
+}
+function withFilename(text) {
+  return moduleUrl ? text.split(moduleUrl).join('/' + filename) : text;
+}
+function describeError(error) {
+  var header = error.name + ': ' + error.message;
+  var stack = String(error.stack || '');
+  return withFilename(stack.indexOf(header) === 0 ? stack : stack ? header + '\\n' + stack : header);
+}
+function format(value) {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value instanceof Error) {
+    return describeError(value);
+  }
+  if (typeof Node !== 'undefined' && value instanceof Node) {
+    return value.outerHTML || value.nodeName;
+  }
+  if (typeof value === 'function') {
+    return '[Function: ' + (value.name || '(anonymous)') + ']';
+  }
+  if (typeof value === 'bigint') {
+    return value + 'n';
+  }
+  if (value === undefined || typeof value === 'symbol') {
+    return String(value);
+  }
+  try {
+    return JSON.stringify(value) || String(value);
+  } catch (error) {
+    return String(value);
+  }
+}
+
+function scheduleDone() {
+  if (idleTimer !== null) {
+    originalClearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  if (settled && pending === 0 && !finished) {
+    idleTimer = originalSetTimeout(function () {
+      finished = true;
+      post({ type: 'done' });
+    }, ${SANDBOX_IDLE_DELAY});
+  }
+}
+function track(delta) {
+  pending += delta;
+  scheduleDone();
+}
+function release(id) {
+  if (timers.delete(id)) {
+    track(-1);
+  }
+}
+
+window.setTimeout = function (handler, delay) {
+  if (typeof handler !== 'function') {
+    return originalSetTimeout.apply(null, arguments);
+  }
+  var args = Array.prototype.slice.call(arguments, 2);
+  var id = originalSetTimeout(function () {
+    try {
+      handler.apply(window, args);
+    } finally {
+      release(id);
+    }
+  }, delay);
+  timers.add(id);
+  track(1);
+  return id;
+};
+window.setInterval = function () {
+  var id = originalSetInterval.apply(null, arguments);
+  timers.add(id);
+  track(1);
+  return id;
+};
+window.clearTimeout = window.clearInterval = function (id) {
+  release(id);
+  originalClearTimeout(id);
+  originalClearInterval(id);
+};
+if (originalFetch) {
+  window.fetch = function () {
+    var request = originalFetch.apply(null, arguments);
+    var done = function () {
+      // After the caller's own then() callbacks
+      originalSetTimeout(function () { track(-1); }, 0);
+    };
+    track(1);
+    request.then(done, done);
+    return request;
+  };
+}
+
+var streams = { log: 'stdout', info: 'stdout', debug: 'stdout', dir: 'stdout', table: 'stdout', warn: 'stderr', error: 'stderr', trace: 'stderr' };
+Object.keys(streams).forEach(function (method) {
+  var original = console[method];
+  console[method] = function () {
+    post({ type: 'output', stream: streams[method], content: Array.prototype.map.call(arguments, format).join(' ') });
+    if (typeof original === 'function') {
+      original.apply(console, arguments);
+    }
+  };
+});
+
+// Modal dialogs are blocked in the sandbox: alert() prints, prompt() reads the run's input
+window.alert = function (message) {
+  post({ type: 'output', stream: 'stdout', content: message === undefined ? '' : String(message) });
+};
+window.prompt = function (message) {
+  if (message !== undefined) {
+    post({ type: 'output', stream: 'stdout', content: String(message) });
+  }
+  return inputLines && inputLines.length > 0 ? inputLines.shift() : null;
+};
+
+window.addEventListener('error', function (event) {
+  post({ type: 'uncaught', error: event.error != null ? format(event.error) : String(event.message), rejection: false });
+});
+window.addEventListener('unhandledrejection', function (event) {
+  post({ type: 'uncaught', error: format(event.reason), rejection: true });
+});
+
+window.addEventListener('message', function (event) {
+  var message = event.data;
+  if (event.source !== parent || !message || message.type !== 'run' || message.runId !== RUN_ID || moduleUrl) {
+    return;
+  }
+  filename = message.filename;
+  inputLines = typeof message.stdin === 'string' ? message.stdin.replace(/\\r?\\n$/, '').split(/\\r?\\n/) : null;
+  moduleUrl = URL.createObjectURL(new Blob([message.code], { type: 'text/javascript' }));
+  import(moduleUrl)
+    .catch(function (error) {
+      post({ type: 'uncaught', error: format(error), rejection: false });
+    })
+    .then(function () {
+      settled = true;
+      scheduleDone();
+    });
+});
+
+post({ type: 'ready' });
+`;
+
+/**
+ * JSON that can sit inside a <script> element
+ */
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+/**
+ * Import map sending each dependency (and its subpaths) to the CDN
+ */
+export function createImportMap(dependencies: ResolvedDependency[], cdnURL: string = DEFAULT_ESM_CDN_URL): ImportMap {
+  const imports: Record<string, string> = {};
+  for (const dependency of dependencies) {
+    const url = dependency.version === 'latest'
+      ? `${cdnURL}${dependency.name}`
+      : `${cdnURL}${dependency.name}@${dependency.version}`;
+    imports[dependency.name] = url;
+    imports[`${dependency.name}/`] = `${url}/`;
+  }
+  return { imports };
+}
+
+/**
+ * HTML of the sandbox page for one run; only messages carrying `runId` are accepted
+ */
+export function createSandboxDocument(runId: string, importMap: ImportMap): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<script type="importmap">${toScriptJson(importMap)}</script>`,
+    `<script>(function () {\nvar RUN_ID = ${toScriptJson(runId)};\n${BOOTSTRAP_SOURCE}})();</script>`,
+    '</head>',
+    '<body></body>',
+    '</html>'
+  ].join('\n');
+}
@@ -0,0 +1,36 @@
+/**
+ * Browser runner protocol - messages between BrowserRunner (the page) and the
+ * sandboxed iframe that runs the code
+ */
+
+/**
+ * `source` of every message the sandbox posts, to tell them from other frames' messages
+ */
+export const SANDBOX_MESSAGE_SOURCE = 'orbis-sandbox';
+
+/**
+ * How long the sandbox must stay idle (module evaluated, no pending timers or
+ * fetches) before the run counts as finished
+ */
+export const SANDBOX_IDLE_DELAY = 100;
+
+/**
+ * The code to run: an ES module, already transformed to JavaScript
+ */
+export interface SandboxRunMessage {
+  type: 'run';
+  runId: string;
+  code: string;
+  filename: string; // Replaces the module's blob: URL in stack traces
+  stdin?: string; // Lines returned by prompt(), which then returns null
+}
+
+/**
+ * Messages posted by the sandbox
+ */
+export type SandboxResponse = { source: typeof SANDBOX_MESSAGE_SOURCE; runId: string } & (
+  | { type: 'ready' }
+  | { type: 'output'; stream: 'stdout' | 'stderr'; content: string }
+  | { type: 'uncaught'; error: string; rejection: boolean } // Stack (or value) of an uncaught error or unhandled rejection
+  | { type: 'done' }
+);
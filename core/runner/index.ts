@@ -14,6 +14,56 @@ export { WebContainerManager } from './WebContainerManager.js';
 export { FileSystemManager } from './FileSystemManager.js';
 export { ProcessManager } from './ProcessManager.js';
 export { BabelTransformer } from './BabelTransformer.js';
+export { TerminalSession } from './TerminalSession.js';
+export { PreviewServerTracker } from './PreviewServerTracker.js';
+export { ProjectCompiler } from './ProjectCompiler.js';
+export { NativeNodeRunner } from './native/NativeNodeRunner.js';
+export { NATIVE_RUNNER_CHANNELS, getNativeRunnerBridge } from './native/protocol.js';
+export type {
+  NativeNodeInfo,
+  NativeRunRequest,
+  NativeRunResponse,
+  NativeOutputMessage,
+  NativeRunnerBridge
+} from './native/protocol.js';
+export { PyodideRunner } from './python/PyodideRunner.js';
+export type { PyodideRunnerConfig } from './python/PyodideRunner.js';
+export { DEFAULT_PYODIDE_INDEX_URL } from './python/protocol.js';
+export { WHEEL_CACHE_NAME, createCachingFetch } from './python/WheelCache.js';
+export { parsePythonTraceback, cleanTraceback } from './python/PythonTraceback.js';
+export { BrowserRunner } from './browser/BrowserRunner.js';
+export type { BrowserRunnerConfig } from './browser/BrowserRunner.js';
+export { DEFAULT_ESM_CDN_URL, createImportMap, createSandboxDocument } from './browser/SandboxDocument.js';
+export type { ImportMap } from './browser/SandboxDocument.js';
+export { QuickJSRunner } from './quickjs/QuickJSRunner.js';
+export type { QuickJSRunnerConfig } from './quickjs/QuickJSRunner.js';
+export { DEFAULT_QUICKJS_MODULE_URL } from './quickjs/protocol.js';
+export { ReplSession } from './repl/ReplSession.js';
+export type { ReplSessionOptions, ReplEvaluation, ReplSessionListener, ReplSessionsListener } from './repl/ReplSession.js';
+export { REPL_DRIVER_PATH, createReplDriverSource } from './repl/ReplDriver.js';
+export type { PreviewServerListener } from './PreviewServerTracker.js';
+export type { TerminalDataListener, TerminalExitListener } from './TerminalSession.js';
+export {
+  RUNTIME_MARKER_PREFIX,
+  formatRuntimeMarker,
+  parseRuntimeMarker,
+  extractRuntimeMarkers,
+  withoutRuntimeMarkers
+} from './RuntimeMarkers.js';
+export type { RuntimeMarker } from './RuntimeMarkers.js';
+export { parseRuntimeError, resolveRuntimeError } from './RuntimeErrors.js';
+export type { CompiledSource } from './RuntimeErrors.js';
+export { createWorkspaceSnapshot, readWorkspaceSnapshot, countFiles } from './WorkspaceSnapshot.js';
+export { IndexedDBPackageCache } from './IndexedDBPackageCache.js';
+export { IndexedDBBootSnapshot } from './IndexedDBBootSnapshot.js';
+export {
+  getPackageName,
+  readInstalledPackages,
+  findCachedPackage,
+  resolveCachedPackages,
+  pinDependencies
+} from './PackageCache.js';
+export type { InstalledPackage, PackageDirectoryReader } from './PackageCache.js';
 
 // Types
 export type {
@@ -22,7 +72,39 @@ export type {
   WebContainerProcess,
   FileSystemTree,
   ExecutionResult,
+  ExecutionAnnotation,
+  RuntimeErrorDetails,
+  RuntimeStackFrame,
+  TestCaseResult,
+  TestFailure,
+  BenchmarkResult,
+  BenchmarkOptions,
+  ConsoleEntry,
+  ConsoleLevel,
+  ConsoleTable,
+  ModuleFormat,
+  ModuleFormatInfo,
+  InspectedValue,
+  InspectedEntry,
   OutputEvent,
+  OutputListener,
+  ExecuteOptions,
+  RunCodeOptions,
+  LoopGuardOptions,
+  CodeRunner,
+  RunnerBackend,
+  CachedPackage,
+  PackageCache,
+  ResolvedDependency,
+  ProjectFile,
+  TerminalDimensions,
+  ReplSessionStatus,
+  ReplSessionInfo,
+  ReplEvaluateOptions,
+  PreviewServer,
+  PreviewServerEvent,
+  WorkspaceSnapshotOptions,
+  WorkspaceSnapshotInfo,
   ErrorEvent,
   ProcessStatus,
   RunnerConfig,
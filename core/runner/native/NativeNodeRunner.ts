@@ -0,0 +1,421 @@
+/**
+ * NativeNodeRunner - Runs code with the system Node.js through the Electron main process
+ * Used when WebContainer is unavailable (no cross-origin isolation, packaged builds)
+ */
+
+import { BabelTransformer } from '../BabelTransformer.js';
+import { ModernBabelTransformer } from '../babel/ModernBabelTransformer.js';
+import { collectAnnotations } from '../babel/InstrumentationPlugin.js';
+import { findLoopGuardTrip } from '../babel/LoopGuardPlugin.js';
+import { collectTestResults, withTestResults } from '../babel/TestHarnessPlugin.js';
+import { collectBenchmarkResults } from '../babel/BenchmarkPlugin.js';
+import { collectConsoleEntries } from '../babel/ConsoleShimPlugin.js';
+import { ProjectCompiler } from '../ProjectCompiler.js';
+import type { SourceMap, TransformOptions } from '../babel/types.js';
+import { extractRuntimeMarkers, withoutRuntimeMarkers } from '../RuntimeMarkers.js';
+import { resolveRuntimeError } from '../RuntimeErrors.js';
+import { analyzeDependencies, formatDependencyList } from '../babel/DependencyAnalyzer.js';
+import { PyodideRunner } from '../python/PyodideRunner.js';
+import {
+  getNativeRunnerBridge,
+  type NativeNodeInfo,
+  type NativeOutputMessage,
+  type NativeRunnerBridge
+} from './protocol.js';
+import type {
+  BenchmarkOptions,
+  CodeRunner,
+  ExecutionResult,
+  LoopGuardOptions,
+  ModuleFormatInfo,
+  OutputListener,
+  PackageCache,
+  RunCodeOptions,
+  RunnerConfig,
+  SupportedLanguage
+} from '../types.js';
+
+/**
+ * Execution backend that talks to the main process over the `native-runner:*` IPC channels
+ */
+export class NativeNodeRunner implements CodeRunner {
+  public readonly backend = 'native' as const;
+  private bridge: NativeRunnerBridge | null;
+  private babelTransformer: BabelTransformer;
+  private modernTransformer: ModernBabelTransformer;
+  private projectCompiler: ProjectCompiler;
+  private nodeInfo: NativeNodeInfo | null = null;
+  private babelReady: Promise<void> | null = null;
+  private isInitialized = false;
+  private currentRunId: string | null = null;
+  private stopRequested = false;
+  private runCounter = 0;
+  private outputListeners = new Map<string, OutputListener>();
+  private unsubscribeOutput: (() => void) | null = null;
+  private packageCache: PackageCache | null;
+  private pythonRunner: PyodideRunner;
+  private config: RunnerConfig;
+
+  constructor(config: RunnerConfig = {}, bridge: NativeRunnerBridge | null = getNativeRunnerBridge()) {
+    this.config = {
+      timeout: 30000,
+      maxOutputSize: 100000,
+      ...config
+    };
+
+    this.bridge = bridge;
+    this.packageCache = bridge && {
+      list: () => bridge.listCachedPackages(),
+      evict: (name, version) => bridge.evictCachedPackage(name, version),
+      clear: () => bridge.clearPackageCache()
+    };
+    this.babelTransformer = BabelTransformer.getInstance();
+    this.modernTransformer = ModernBabelTransformer.getInstance();
+    this.projectCompiler = new ProjectCompiler(this.modernTransformer, this.babelTransformer);
+    this.pythonRunner = new PyodideRunner({ timeout: this.config.timeout, maxOutputSize: this.config.maxOutputSize });
+  }
+
+  /**
+   * Whether the app runs inside Electron with the native bridge
+   */
+  public static isAvailable(): boolean {
+    return getNativeRunnerBridge() !== null;
+  }
+
+  /**
+   * Initialize the runner
+   */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    if (!this.bridge) {
+      throw new Error('Native Node.js backend is only available in the desktop app');
+    }
+
+    const info = await this.bridge.getInfo();
+    if (!info.available) {
+      throw new Error(`Node.js was not found on this system${info.error ? `: ${info.error}` : ''}`);
+    }
+    this.nodeInfo = info;
+
+    this.unsubscribeOutput = this.bridge.onOutput(message => this.dispatchOutput(message));
+
+    // Only needed for TypeScript/JSX: load it in the background so plain JavaScript
+    // runs right away, even offline
+    this.babelReady = this.babelTransformer.initialize().catch(error => {
+      console.warn('⚠️ Babel no disponible, TypeScript y JSX no se podrán ejecutar:', error);
+    });
+
+    this.isInitialized = true;
+  }
+
+  /**
+   * Check if runner is initialized
+   */
+  public isReady(): boolean {
+    return this.isInitialized && this.bridge !== null;
+  }
+
+  /**
+   * Package cache kept by the main process in the app data directory
+   */
+  public getPackageCache(): PackageCache | null {
+    return this.packageCache;
+  }
+
+  /**
+   * Version reported by the system `node` (e.g. 'v20.11.0')
+   */
+  public getNodeVersion(): string | undefined {
+    return this.nodeInfo?.version;
+  }
+
+  /**
+   * Run code with specified language
+   */
+  public async runCode(
+    code: string,
+    language: SupportedLanguage = 'javascript',
+    options: RunCodeOptions = {}
+  ): Promise<ExecutionResult> {
+    if (!this.isReady()) {
+      throw new Error('Runner not initialized. Call initialize() first.');
+    }
+
+    // Python runs in Pyodide, like in the browser
+    if (language === 'python') {
+      return this.pythonRunner.runCode(code, options);
+    }
+    if (language !== 'javascript' && language !== 'typescript') {
+      return this.createErrorResult(`${language} is not supported by the native Node.js backend`);
+    }
+
+    const filename = options.filename || (language === 'typescript' ? 'main.ts' : 'main.js');
+    const runId = `native-run-${++this.runCounter}`;
+    this.stopRequested = false;
+    this.currentRunId = runId;
+
+    try {
+      const benchmark = this.resolveBenchmark(options.benchmark);
+      const testMode = options.testMode === true && !benchmark;
+      const annotate = options.annotate !== false && !testMode && !benchmark;
+      const loopGuard = benchmark ? undefined : this.resolveLoopGuard(options.loopGuard);
+      const consoleShim = options.inspectConsole !== false && !benchmark;
+      // Project files import each other, so they are always ES modules
+      const moduleFormat = options.files?.length ? 'esm' : 'auto';
+      const instrumented = await this.instrumentCode(code, language, filename, {
+        annotate, loopGuard, testHarness: testMode, benchmark, consoleShim, moduleFormat
+      });
+      const sourceCode = instrumented.code;
+      const sourcePaths = [filename, ...(options.files || []).map(file => file.path)];
+      if (sourcePaths.some(path => /\.(tsx?|jsx)$/.test(path))) {
+        await this.babelReady;
+      }
+      const project = await this.projectCompiler.compile(filename, sourceCode, options.files || [], {
+        entryMap: instrumented.map,
+        entryFormat: instrumented.moduleFormat?.format
+      });
+      const { dependencies } = analyzeDependencies(
+        [testMode ? sourceCode : code, ...(options.files || []).map(file => file.content)],
+        options.dependencies
+      );
+
+      if (options.onOutput) {
+        this.outputListeners.set(runId, withoutRuntimeMarkers(options.onOutput));
+      }
+      if (instrumented.moduleFormat) {
+        options.onOutput?.({ type: 'log', content: `Module format: ${instrumented.moduleFormat.reason}`, timestamp: new Date() });
+      }
+      if (dependencies.length > 0) {
+        options.onOutput?.({ type: 'log', content: `Dependencies: ${formatDependencyList(dependencies)}`, timestamp: new Date() });
+      }
+
+      // Stop was pressed while preparing: don't start the program at all
+      if (this.stopRequested) {
+        return this.createStoppedResult();
+      }
+
+      const response = await this.bridge!.run({
+        runId,
+        files: project.files,
+        entryFile: project.entryFile,
+        dependencies: Object.fromEntries(dependencies.map(dep => [dep.name, dep.version])),
+        stdin: options.stdin,
+        env: options.env,
+        timeout: this.config.timeout!,
+        maxOutputSize: this.config.maxOutputSize!
+      });
+
+      let result: ExecutionResult = {
+        success: response.success,
+        output: response.output,
+        error: response.error,
+        duration: response.duration,
+        timestamp: new Date(),
+        status: response.status,
+        moduleFormat: instrumented.moduleFormat
+      };
+
+      if (annotate || loopGuard || testMode || benchmark || consoleShim) {
+        const { output, markers } = extractRuntimeMarkers(result.output);
+        const trip = findLoopGuardTrip(markers);
+        result = { ...result, output };
+        if (annotate) {
+          result.annotations = collectAnnotations(markers);
+        }
+        if (testMode) {
+          result = withTestResults(result, collectTestResults(markers));
+        }
+        if (benchmark) {
+          result.benchmarks = collectBenchmarkResults(markers);
+        }
+        if (consoleShim) {
+          result.console = collectConsoleEntries(markers);
+        }
+        if (trip) {
+          // The guard's message names the loop's line; the stack trace on stderr doesn't
+          result = { ...result, success: false, error: trip.message, status: 'error' };
+        }
+      }
+
+      if (!result.success && result.status !== 'killed') {
+        // The stack trace is on stderr, which the bridge returns as the error
+        result.errorDetails = resolveRuntimeError(`${result.output}\n${response.error || ''}`, project.sources) || undefined;
+      }
+
+      return result;
+    } catch (error) {
+      console.error('❌ Error en ejecución nativa:', error);
+      return this.createErrorResult(error instanceof Error ? error.message : 'Unknown execution error');
+    } finally {
+      this.outputListeners.delete(runId);
+      if (this.currentRunId === runId) {
+        this.currentRunId = null;
+      }
+    }
+  }
+
+  /**
+   * Stop the code started by runCode.
+   * The pending runCode call resolves with status 'killed' and the output printed so far.
+   */
+  public async stopExecution(): Promise<boolean> {
+    if (this.pythonRunner.isRunning()) {
+      return this.pythonRunner.stopExecution();
+    }
+    if (!this.isReady() || !this.currentRunId) {
+      return false;
+    }
+
+    this.stopRequested = true;
+    await this.bridge!.stop(this.currentRunId);
+    return true;
+  }
+
+  /**
+   * Send a line of input to the code started by runCode.
+   * Returns false when nothing is running or its stdin was closed by a fixture.
+   */
+  public async writeInput(text: string): Promise<boolean> {
+    if (this.pythonRunner.isRunning()) {
+      return this.pythonRunner.writeInput(text);
+    }
+    if (!this.isReady() || !this.currentRunId) {
+      return false;
+    }
+
+    return this.bridge!.writeInput(this.currentRunId, text);
+  }
+
+  /**
+   * Get current status
+   */
+  public getStatus() {
+    return {
+      isInitialized: this.isInitialized,
+      node: this.nodeInfo?.version,
+      process: this.currentRunId ? 'running' : 'idle'
+    };
+  }
+
+  /**
+   * Cleanup resources
+   */
+  public async cleanup(): Promise<void> {
+    this.pythonRunner.cleanup();
+    if (this.currentRunId) {
+      await this.stopExecution();
+    }
+    this.unsubscribeOutput?.();
+    this.unsubscribeOutput = null;
+    this.outputListeners.clear();
+    this.isInitialized = false;
+  }
+
+  /**
+   * Reset runner state
+   */
+  public async reset(): Promise<void> {
+    await this.cleanup();
+    await this.initialize();
+  }
+
+  /**
+   * Instrument code for inline annotations, loop guards, the test harness and
+   * benchmarks, and pick its module format (best effort, like WebContainerRunner),
+   * with the map of the pass
+   */
+  private async instrumentCode(
+    code: string,
+    language: 'javascript' | 'typescript',
+    filename: string,
+    { annotate, loopGuard, testHarness, benchmark, consoleShim, moduleFormat }: {
+      annotate: boolean;
+      loopGuard?: LoopGuardOptions;
+      testHarness?: boolean;
+      benchmark?: BenchmarkOptions;
+      consoleShim?: boolean;
+      moduleFormat?: TransformOptions['moduleFormat'];
+    }
+  ): Promise<{ code: string; map: SourceMap | null; moduleFormat?: ModuleFormatInfo }> {
+    try {
+      const result = await this.modernTransformer.instrumentCode(code, {
+        language,
+        filename,
+        instrument: annotate,
+        loopGuard,
+        testHarness,
+        benchmark,
+        consoleShim,
+        moduleFormat
+      });
+      return { code: result.code, map: result.map || null, moduleFormat: result.metadata.moduleFormat };
+    } catch (instrumentError) {
+      console.warn('⚠️ No se pudo instrumentar el código, ejecutando sin anotaciones:', instrumentError);
+      return { code, map: null };
+    }
+  }
+
+  /**
+   * Limits for the loop guard, or undefined when it is off
+   */
+  private resolveLoopGuard(loopGuard: RunCodeOptions['loopGuard']): LoopGuardOptions | undefined {
+    if (!loopGuard) {
+      return undefined;
+    }
+    return loopGuard === true ? {} : loopGuard;
+  }
+
+  /**
+   * Benchmark settings, or undefined when not benchmarking
+   */
+  private resolveBenchmark(benchmark: RunCodeOptions['benchmark']): BenchmarkOptions | undefined {
+    if (!benchmark) {
+      return undefined;
+    }
+    return benchmark === true ? {} : benchmark;
+  }
+
+  /**
+   * Route an output line from the main process to the run that produced it
+   */
+  private dispatchOutput(message: NativeOutputMessage): void {
+    const listener = this.outputListeners.get(message.runId);
+    if (!listener) {
+      return;
+    }
+
+    try {
+      listener({ ...message.event, timestamp: new Date(message.event.timestamp) });
+    } catch (error) {
+      console.warn('Error in output listener:', error);
+    }
+  }
+
+  private createErrorResult(message: string): ExecutionResult {
+    return {
+      success: false,
+      output: '',
+      error: message,
+      duration: 0,
+      timestamp: new Date(),
+      status: 'error'
+    };
+  }
+
+  /**
+   * Result for a run stopped before its process was spawned
+   */
+  private createStoppedResult(): ExecutionResult {
+    return {
+      success: false,
+      output: '',
+      error: 'Execution stopped by user',
+      duration: 0,
+      timestamp: new Date(),
+      status: 'killed'
+    };
+  }
+}
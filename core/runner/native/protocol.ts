@@ -0,0 +1,83 @@
+/**
+ * Native runner protocol - IPC contract between NativeNodeRunner (renderer),
+ * the preload bridge and the Electron main process that spawns `node`
+ */
+
+import type { CachedPackage, OutputEvent, ProcessStatus, ProjectFile } from '../types.js';
+
+export const NATIVE_RUNNER_CHANNELS = {
+  info: 'native-runner:info',
+  run: 'native-runner:run',
+  input: 'native-runner:input',
+  stop: 'native-runner:stop',
+  output: 'native-runner:output',
+  cacheList: 'native-runner:cache-list',
+  cacheEvict: 'native-runner:cache-evict',
+  cacheClear: 'native-runner:cache-clear'
+} as const;
+
+/**
+ * Node.js found on the user's machine
+ */
+export interface NativeNodeInfo {
+  available: boolean;
+  version?: string;
+  error?: string;
+}
+
+/**
+ * A run: the files are written to a fresh temporary workspace and `entryFile` is executed
+ */
+export interface NativeRunRequest {
+  runId: string;
+  files: ProjectFile[];
+  entryFile: string;
+  dependencies: Record<string, string>; // Package name -> version installed first, from the package cache or npm (built-in modules are skipped)
+  stdin?: string; // Fixture written to stdin, which is then closed
+  env?: Record<string, string>; // Extra environment variables for npm install and the program
+  timeout: number;
+  maxOutputSize: number; // Maximum number of output lines kept
+}
+
+export interface NativeRunResponse {
+  success: boolean;
+  output: string;
+  error?: string;
+  duration: number;
+  exitCode: number | null;
+  status: ProcessStatus;
+}
+
+/**
+ * Output line pushed from the main process while a run is in progress
+ */
+export interface NativeOutputMessage {
+  runId: string;
+  event: OutputEvent;
+}
+
+/**
+ * API exposed to the renderer as `window.nativeRunner` by the preload script
+ */
+export interface NativeRunnerBridge {
+  getInfo(): Promise<NativeNodeInfo>;
+  run(request: NativeRunRequest): Promise<NativeRunResponse>;
+  writeInput(runId: string, text: string): Promise<boolean>;
+  stop(runId: string): Promise<boolean>;
+  /** Returns an unsubscribe function */
+  onOutput(listener: (message: NativeOutputMessage) => void): () => void;
+  /** Package cache in the app data directory */
+  listCachedPackages(): Promise<CachedPackage[]>;
+  evictCachedPackage(name: string, version?: string): Promise<void>;
+  clearPackageCache(): Promise<void>;
+}
+
+/**
+ * The bridge, when running inside the desktop app
+ */
+export function getNativeRunnerBridge(): NativeRunnerBridge | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return window.nativeRunner ?? null;
+}
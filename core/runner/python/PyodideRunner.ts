@@ -0,0 +1,394 @@
+/**
+ * PyodideRunner - Runs Python code with Pyodide in a Web Worker
+ *
+ * Neither WebContainer nor the native backend has a Python binary, so both
+ * hand Python runs to this runner. The interpreter is loaded into a worker on
+ * the first run and reused; output streams back line by line and the run
+ * resolves with the same ExecutionResult as a Node run.
+ *
+ * Stopping raises KeyboardInterrupt through Pyodide's interrupt buffer and
+ * interactive input blocks the worker on a shared buffer; both need
+ * SharedArrayBuffer (a cross-origin isolated page). Without it a stop
+ * terminates the worker and only stdin fixtures are available.
+ */
+
+import type { ExecutionResult, OutputEvent, OutputListener, ProjectFile, RunCodeOptions } from '../types.js';
+import { parsePythonTraceback, cleanTraceback } from './PythonTraceback.js';
+import {
+  DEFAULT_PYODIDE_INDEX_URL,
+  STDIN_CAPACITY,
+  STDIN_HEADER_BYTES,
+  STDIN_STATE,
+  type PythonInitMessage,
+  type PythonRunMessage,
+  type PythonWorkerResponse
+} from './protocol.js';
+
+export interface PyodideRunnerConfig {
+  timeout?: number;
+  maxOutputSize?: number; // Maximum number of output lines kept
+  indexURL?: string; // Where Pyodide is loaded from; a self-hosted copy works offline
+}
+
+interface ActiveRun {
+  runId: string;
+  startTime: number;
+  filename: string;
+  files: ProjectFile[];
+  output: OutputEvent[];
+  onOutput?: OutputListener;
+  interactive: boolean; // No fixture: input() waits for writeInput
+  waitingForInput: boolean;
+  pendingInput: string[];
+  stopped: boolean;
+  resolve: (result: ExecutionResult) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * How long a stopped run may take to raise KeyboardInterrupt before the worker is terminated
+ */
+const STOP_GRACE_PERIOD = 1000;
+
+export class PyodideRunner {
+  private worker: Worker | null = null;
+  private ready: Promise<void> | null = null;
+  private version: string | null = null;
+  private interruptBuffer: Uint8Array | null = null;
+  private stdinControl: Int32Array | null = null;
+  private stdinData: Uint8Array | null = null;
+  private current: ActiveRun | null = null;
+  private runCounter = 0;
+  private config: PyodideRunnerConfig;
+
+  constructor(config: PyodideRunnerConfig = {}) {
+    this.config = {
+      timeout: 30000,
+      maxOutputSize: 100000,
+      indexURL: DEFAULT_PYODIDE_INDEX_URL,
+      ...config
+    };
+  }
+
+  /**
+   * Whether Python can run here (Pyodide needs a Web Worker)
+   */
+  public static isAvailable(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Pyodide version, once loaded
+   */
+  public getVersion(): string | null {
+    return this.version;
+  }
+
+  public isRunning(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Run Python code as `__main__`. `files` are written next to it so it can
+   * import them; `dependencies` are installed with micropip along with any
+   * other module it imports that Pyodide doesn't ship.
+   */
+  public async runCode(code: string, options: RunCodeOptions = {}): Promise<ExecutionResult> {
+    if (!PyodideRunner.isAvailable()) {
+      return this.createErrorResult('Python needs Web Workers, which are not available here');
+    }
+    if (this.current) {
+      await this.stopExecution();
+    }
+
+    const onOutput = options.onOutput;
+    if (!this.ready) {
+      this.emit(onOutput, { type: 'log', content: 'Loading the Python runtime (Pyodide)...', timestamp: new Date() });
+    }
+    try {
+      await this.startWorker();
+    } catch (error) {
+      return this.createErrorResult(`Could not load the Python runtime: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const filename = options.filename?.endsWith('.py') ? options.filename : 'main.py';
+    const files = (options.files || []).filter(file => file.path !== filename);
+    const runId = `python-${++this.runCounter}`;
+
+    this.interruptBuffer?.fill(0);
+    if (this.stdinControl) {
+      Atomics.store(this.stdinControl, 0, STDIN_STATE.empty);
+    }
+
+    return new Promise<ExecutionResult>(resolve => {
+      const run: ActiveRun = {
+        runId,
+        startTime: Date.now(),
+        filename,
+        files,
+        output: [],
+        onOutput,
+        interactive: options.stdin === undefined,
+        waitingForInput: false,
+        pendingInput: [],
+        stopped: false,
+        resolve,
+        timeoutId: setTimeout(() => {
+          // Blocked in C code or waiting for input: the interrupt may never be seen
+          this.terminateWorker();
+          this.finish(run, {
+            success: false,
+            error: `Process timed out after ${this.config.timeout}ms`,
+            status: 'error'
+          });
+        }, this.config.timeout)
+      };
+      this.current = run;
+
+      const message: PythonRunMessage = {
+        type: 'run',
+        runId,
+        code,
+        filename,
+        files,
+        packages: options.dependencies || {},
+        stdin: options.stdin,
+        env: options.env
+      };
+      this.worker!.postMessage(message);
+    });
+  }
+
+  /**
+   * Stop the running code. The pending runCode call resolves with status 'killed'.
+   */
+  public async stopExecution(): Promise<boolean> {
+    const run = this.current;
+    if (!run) {
+      return false;
+    }
+
+    run.stopped = true;
+    if (this.interruptBuffer) {
+      this.interruptBuffer[0] = 2; // SIGINT
+      // input() returns EOF, which the interrupt then turns into KeyboardInterrupt
+      this.signalInput(STDIN_STATE.eof);
+
+      await new Promise(resolve => setTimeout(resolve, STOP_GRACE_PERIOD));
+      if (this.current !== run) {
+        return true;
+      }
+    }
+
+    this.terminateWorker();
+    this.finish(run, { success: false, error: 'Execution stopped by user', status: 'killed' });
+    return true;
+  }
+
+  /**
+   * Send a line of input to the running code.
+   * Returns false when nothing is running, its stdin is a fixture or input isn't supported here.
+   */
+  public async writeInput(text: string): Promise<boolean> {
+    const run = this.current;
+    if (!run || !run.interactive || !this.stdinControl) {
+      return false;
+    }
+
+    for (const line of text.replace(/\n$/, '').split('\n')) {
+      run.pendingInput.push(line);
+      this.addOutput(run, { type: 'stdin', content: line, timestamp: new Date() });
+    }
+    this.deliverInput(run);
+    return true;
+  }
+
+  /**
+   * Stop any run and shut the interpreter down; the next run loads it again
+   */
+  public cleanup(): void {
+    const run = this.current;
+    this.terminateWorker();
+    if (run) {
+      this.finish(run, { success: false, error: 'Execution stopped by user', status: 'killed' });
+    }
+  }
+
+  /**
+   * Create the worker and load Pyodide into it (once)
+   */
+  private startWorker(): Promise<void> {
+    if (this.ready) {
+      return this.ready;
+    }
+
+    const worker = new Worker(new URL('./pyodide.worker.ts', import.meta.url), { type: 'module' });
+    const shared = typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
+    const init: PythonInitMessage = { type: 'init', indexURL: this.config.indexURL! };
+
+    if (shared) {
+      init.interruptBuffer = new SharedArrayBuffer(1);
+      init.stdinBuffer = new SharedArrayBuffer(STDIN_HEADER_BYTES + STDIN_CAPACITY);
+      this.interruptBuffer = new Uint8Array(init.interruptBuffer);
+      this.stdinControl = new Int32Array(init.stdinBuffer, 0, 2);
+      this.stdinData = new Uint8Array(init.stdinBuffer, STDIN_HEADER_BYTES);
+    }
+
+    this.worker = worker;
+    const ready = new Promise<void>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<PythonWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'ready') {
+          this.version = message.version;
+          resolve();
+        } else if (message.type === 'init-error') {
+          reject(new Error(message.error));
+        } else {
+          this.handleMessage(message);
+        }
+      };
+      worker.onerror = event => {
+        const error = new Error(event.message || 'The Python worker stopped unexpectedly');
+        reject(error);
+        if (this.current) {
+          this.finish(this.current, { success: false, error: error.message, status: 'error' });
+        }
+      };
+    });
+    this.ready = ready;
+    ready.catch(() => {
+      if (this.worker === worker) {
+        this.terminateWorker();
+      }
+    });
+
+    worker.postMessage(init);
+    return ready;
+  }
+
+  private handleMessage(message: PythonWorkerResponse): void {
+    const run = this.current;
+    if (!run || !('runId' in message) || message.runId !== run.runId) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'output': {
+        const event: OutputEvent = { type: message.stream, content: message.content, timestamp: new Date() };
+        if (message.partial) {
+          this.emit(run.onOutput, { ...event, partial: true });
+        } else {
+          this.addOutput(run, event);
+        }
+        break;
+      }
+
+      case 'input-request':
+        run.waitingForInput = true;
+        this.deliverInput(run);
+        break;
+
+      case 'result': {
+        if (message.success) {
+          this.finish(run, { success: true, status: 'completed' });
+          break;
+        }
+
+        const traceback = cleanTraceback(message.error || '');
+        if (message.interrupted && run.stopped) {
+          this.finish(run, { success: false, error: 'Execution stopped by user', status: 'killed' });
+          break;
+        }
+
+        for (const line of traceback.split('\n')) {
+          this.addOutput(run, { type: 'stderr', content: line, timestamp: new Date() });
+        }
+        const sources = [run.filename, ...run.files.map(file => file.path)];
+        this.finish(run, {
+          success: false,
+          error: traceback,
+          status: 'error',
+          errorDetails: parsePythonTraceback(traceback, sources) || undefined
+        });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Hand the next typed line to the worker if it is waiting for one
+   */
+  private deliverInput(run: ActiveRun): void {
+    if (!run.waitingForInput || run.pendingInput.length === 0 || !this.stdinControl || !this.stdinData) {
+      return;
+    }
+
+    const bytes = new TextEncoder().encode(`${run.pendingInput.shift()}\n`).slice(0, STDIN_CAPACITY);
+    this.stdinData.set(bytes);
+    this.stdinControl[1] = bytes.length;
+    run.waitingForInput = false;
+    this.signalInput(STDIN_STATE.line);
+  }
+
+  private signalInput(state: number): void {
+    if (this.stdinControl) {
+      Atomics.store(this.stdinControl, 0, state);
+      Atomics.notify(this.stdinControl, 0);
+    }
+  }
+
+  private addOutput(run: ActiveRun, event: OutputEvent): void {
+    if (!event.content.trim()) {
+      return;
+    }
+
+    run.output.push(event);
+    if (run.output.length > (this.config.maxOutputSize || 1000)) {
+      run.output.shift();
+    }
+    this.emit(run.onOutput, event);
+  }
+
+  private emit(onOutput: OutputListener | undefined, event: OutputEvent): void {
+    try {
+      onOutput?.(event);
+    } catch (error) {
+      console.warn('Error in output listener:', error);
+    }
+  }
+
+  private finish(run: ActiveRun, result: Omit<ExecutionResult, 'output' | 'duration' | 'timestamp'>): void {
+    if (this.current !== run) {
+      return;
+    }
+
+    clearTimeout(run.timeoutId);
+    this.current = null;
+    run.resolve({
+      ...result,
+      output: run.output.map(event => event.content).join('\n'),
+      duration: Date.now() - run.startTime,
+      timestamp: new Date()
+    });
+  }
+
+  private terminateWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = null;
+    this.interruptBuffer = null;
+    this.stdinControl = null;
+    this.stdinData = null;
+  }
+
+  private createErrorResult(message: string): ExecutionResult {
+    return {
+      success: false,
+      output: '',
+      error: message,
+      duration: 0,
+      timestamp: new Date(),
+      status: 'error'
+    };
+  }
+}
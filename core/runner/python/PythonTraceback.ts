@@ -0,0 +1,88 @@
+/**
+ * PythonTraceback - Reads the traceback of an uncaught Python exception
+ *
+ * Pyodide reports exceptions with its own frames (`_pyodide/_base.py`, where
+ * the code is evaluated) on top of the user's; those are dropped, and the
+ * remaining frames become RuntimeErrorDetails like a Node stack trace does.
+ */
+
+import type { RuntimeErrorDetails, RuntimeStackFrame } from '../types.js';
+
+const FRAME_PATTERN = /^\s*File "([^"]+)", line (\d+)(?:, in (.+))?$/;
+
+// Pyodide's modules live in the standard library (`/lib/python311.zip/_pyodide/...`)
+const INTERNAL_FRAME_PATTERN = /^\/lib\/.*\/_?pyodide\//;
+
+/**
+ * Frames of Pyodide's evaluation machinery, not of the program. The
+ * program's own modules sit in /home/pyodide, which must not match.
+ */
+function isInternalFrame(file: string): boolean {
+  return INTERNAL_FRAME_PATTERN.test(file);
+}
+
+/**
+ * The traceback without Pyodide's own frames
+ */
+export function cleanTraceback(text: string): string {
+  const lines = text.replace(/\s+$/, '').split('\n');
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(FRAME_PATTERN);
+    if (match && isInternalFrame(match[1])) {
+      // Skip the frame and the source lines (and ^^^ markers) printed under it
+      while (i + 1 < lines.length && /^\s{4,}/.test(lines[i + 1]) && !FRAME_PATTERN.test(lines[i + 1])) {
+        i++;
+      }
+      continue;
+    }
+    kept.push(lines[i]);
+  }
+
+  return kept.join('\n');
+}
+
+/**
+ * Exception name, message and frames (innermost first) of a traceback.
+ * `sources` are the program's files: frames in them get `source` and `line`.
+ */
+export function parsePythonTraceback(text: string, sources: string[]): RuntimeErrorDetails | null {
+  const lines = cleanTraceback(text).split('\n');
+  const frames: RuntimeStackFrame[] = [];
+
+  for (const line of lines) {
+    const match = line.match(FRAME_PATTERN);
+    if (!match) {
+      continue;
+    }
+    const [, file, lineNumber, functionName] = match;
+    const source = sources.find(path => file === path || file.endsWith(`/${path}`));
+    frames.push({
+      text: line.trim(),
+      functionName: functionName && functionName !== '<module>' ? functionName : undefined,
+      source,
+      line: source ? Number(lineNumber) : undefined
+    });
+  }
+
+  // The exception is the last unindented line: `ValueError: bad value` or a bare `KeyboardInterrupt`
+  const summary = [...lines].reverse().find(line => /^[A-Za-z_][\w.]*(:|$)/.test(line));
+  if (!summary) {
+    return null;
+  }
+
+  const separator = summary.indexOf(':');
+  const name = separator === -1 ? summary : summary.slice(0, separator);
+  const message = separator === -1 ? '' : summary.slice(separator + 1).trim();
+  frames.reverse();
+
+  const userFrame = frames.find(frame => frame.source);
+  return {
+    name: name.split('.').pop() || name,
+    message,
+    frames,
+    source: userFrame?.source,
+    line: userFrame?.line
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * WheelCache - Serves Python package downloads from Cache Storage
+ *
+ * Pyodide's own packages and everything micropip installs arrive as wheel
+ * files (`.whl`, or `.zip`/`.tar` for a few of Pyodide's), which never change
+ * once published: they are served from the cache when present and stored after
+ * the first download. Index metadata (PyPI's JSON API, Pyodide's lock file)
+ * goes to the network first and falls back to the cached copy, so packages
+ * installed once resolve and install again offline.
+ */
+
+export const WHEEL_CACHE_NAME = 'orbisjs-python-wheels';
+
+// The parts of Cache Storage the cache uses (`caches` in a window or a worker)
+export interface WheelCacheStorage {
+  open(cacheName: string): Promise<Pick<Cache, 'match' | 'put'>>;
+}
+
+type FetchFunction = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+const ARCHIVE_PATTERN = /\.(whl|zip|tar)$/;
+const METADATA_PATTERN = /(\/pypi\/[^/]+(\/[^/]+)?\/json|\/simple\/[^/]+\/?|pyodide-lock\.json)$/;
+
+function getRequestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') {
+    return input;
+  }
+  return input instanceof URL ? input.href : input.url;
+}
+
+/**
+ * How a GET of this URL is cached: archives cache-first, metadata network-first, the rest not at all
+ */
+export function getCacheStrategy(url: string): 'cache-first' | 'network-first' | null {
+  const path = url.split(/[?#]/)[0];
+  if (ARCHIVE_PATTERN.test(path)) {
+    return 'cache-first';
+  }
+  if (METADATA_PATTERN.test(path)) {
+    return 'network-first';
+  }
+  return null;
+}
+
+/**
+ * A fetch that goes through the wheel cache. Failures to read or write the
+ * cache are ignored: the request then behaves like a plain fetch.
+ */
+export function createCachingFetch(
+  fetchImpl: FetchFunction,
+  storage: WheelCacheStorage | null,
+  cacheName: string = WHEEL_CACHE_NAME
+): FetchFunction {
+  if (!storage) {
+    return fetchImpl;
+  }
+
+  const openCache = () => storage.open(cacheName).catch(() => null);
+
+  return async (input, init) => {
+    const url = getRequestUrl(input);
+    const method = init?.method || (typeof input === 'object' && 'method' in input ? input.method : 'GET');
+    const strategy = method.toUpperCase() === 'GET' ? getCacheStrategy(url) : null;
+    if (!strategy) {
+      return fetchImpl(input, init);
+    }
+
+    const cache = await openCache();
+    if (strategy === 'cache-first') {
+      const cached = await cache?.match(url).catch(() => undefined);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    let response: Response;
+    try {
+      response = await fetchImpl(input, init);
+    } catch (error) {
+      const cached = strategy === 'network-first' ? await cache?.match(url).catch(() => undefined) : undefined;
+      if (cached) {
+        return cached;
+      }
+      throw error;
+    }
+
+    if (response.ok && cache) {
+      await cache.put(url, response.clone()).catch(error => {
+        console.warn('Could not cache Python package download:', error);
+      });
+    }
+    return response;
+  };
+}
@@ -0,0 +1,86 @@
+// @vitest-environment node
+/**
+ * Python Traceback Tests
+ * Verifies that Pyodide's own frames are dropped and the program's frames point at its files and lines
+ */
+
+import { describe, it, expect } from 'vitest';
+import { cleanTraceback, parsePythonTraceback } from '../PythonTraceback';
+
+const TRACEBACK = [
+  'Traceback (most recent call last):',
+  '  File "/lib/python311.zip/_pyodide/_base.py", line 571, in eval_code_async',
+  '    await CodeRunner(',
+  '  File "/lib/python311.zip/_pyodide/_base.py", line 394, in run_async',
+  '    coroutine = eval(self.code, globals, locals)',
+  '                ^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^^',
+  '  File "main.py", line 7, in <module>',
+  '    total(items)',
+  '  File "/home/pyodide/helpers.py", line 3, in total',
+  '    return sum(items) / len(items)',
+  '           ~~~~~~~~~~~^~~~~~~~~~~~',
+  '  File "/lib/python3.11/site-packages/pyodide/ffi/wrappers.py", line 20, in call',
+  '    return func()',
+  '  File "/lib/python3.11/statistics.py", line 10, in mean',
+  '    raise ZeroDivisionError("division by zero")',
+  'ZeroDivisionError: division by zero',
+  ''
+].join('\n');
+
+describe('PythonTraceback', () => {
+  describe('cleanTraceback', () => {
+    it('should drop Pyodide frames with the source lines printed under them', () => {
+      const cleaned = cleanTraceback(TRACEBACK);
+
+      expect(cleaned).not.toContain('_pyodide');
+      expect(cleaned).not.toContain('CodeRunner');
+      expect(cleaned).not.toContain('eval(self.code');
+      expect(cleaned).not.toContain('wrappers.py');
+      expect(cleaned.split('\n')).toEqual([
+        'Traceback (most recent call last):',
+        ...TRACEBACK.split('\n').slice(6, 11),
+        ...TRACEBACK.split('\n').slice(13, 16)
+      ]);
+    });
+  });
+
+  describe('parsePythonTraceback', () => {
+    it('should map the frames of program files to their lines, innermost first', () => {
+      const details = parsePythonTraceback(TRACEBACK, ['main.py', 'helpers.py']);
+
+      expect(details?.name).toBe('ZeroDivisionError');
+      expect(details?.message).toBe('division by zero');
+      expect(details?.frames.map(frame => [frame.source, frame.line, frame.functionName])).toEqual([
+        [undefined, undefined, 'mean'],
+        ['helpers.py', 3, 'total'],
+        ['main.py', 7, undefined]
+      ]);
+      expect([details?.source, details?.line]).toEqual(['helpers.py', 3]);
+    });
+
+    it('should read exceptions without a message and drop the module path of the name', () => {
+      const details = parsePythonTraceback([
+        'Traceback (most recent call last):',
+        '  File "/home/pyodide/main.py", line 2, in <module>',
+        '    raise json.decoder.JSONDecodeError',
+        'json.decoder.JSONDecodeError: Expecting value: line 1 column 1 (char 0)'
+      ].join('\n'), ['main.py']);
+
+      expect(details?.name).toBe('JSONDecodeError');
+      expect(details?.message).toBe('Expecting value: line 1 column 1 (char 0)');
+
+      expect(parsePythonTraceback('KeyboardInterrupt', ['main.py'])).toMatchObject({ name: 'KeyboardInterrupt', message: '', frames: [] });
+    });
+
+    it('should leave frames outside the program without a line', () => {
+      const details = parsePythonTraceback(TRACEBACK, ['other.py']);
+
+      expect(details?.frames.every(frame => frame.line === undefined)).toBe(true);
+      expect(details?.line).toBeUndefined();
+    });
+
+    it('should return null when there is no exception line', () => {
+      expect(parsePythonTraceback('  File "/home/pyodide/main.py", line 1', ['main.py'])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,91 @@
+// @vitest-environment node
+/**
+ * Wheel Cache Tests
+ * Verifies which Python package downloads are cached and when the cached copy is served
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { getCacheStrategy, createCachingFetch, type WheelCacheStorage } from '../WheelCache';
+
+const WHEEL = 'https://files.pythonhosted.org/packages/ab/cd/requests-2.31.0-py3-none-any.whl';
+const METADATA = 'https://pypi.org/pypi/requests/json';
+
+/**
+ * Cache Storage kept in a Map
+ */
+function memoryStorage(entries: Record<string, string> = {}): { storage: WheelCacheStorage; stored: Map<string, string> } {
+  const stored = new Map(Object.entries(entries));
+  const cache = {
+    match: async (url: RequestInfo | URL) => {
+      const body = stored.get(String(url));
+      return body === undefined ? undefined : new Response(body);
+    },
+    put: async (url: RequestInfo | URL, response: Response) => {
+      stored.set(String(url), await response.text());
+    }
+  };
+  return { storage: { open: async () => cache as unknown as Pick<Cache, 'match' | 'put'> }, stored };
+}
+
+describe('WheelCache', () => {
+  describe('getCacheStrategy', () => {
+    it('should cache archives first and go to the network first for index metadata', () => {
+      expect(getCacheStrategy(WHEEL)).toBe('cache-first');
+      expect(getCacheStrategy('https://cdn.jsdelivr.net/pyodide/v0.26.0/full/numpy-1.26.4.zip?x=1')).toBe('cache-first');
+      expect(getCacheStrategy(METADATA)).toBe('network-first');
+      expect(getCacheStrategy('https://pypi.org/pypi/requests/2.31.0/json')).toBe('network-first');
+      expect(getCacheStrategy('https://cdn.jsdelivr.net/pyodide/v0.26.0/full/pyodide-lock.json')).toBe('network-first');
+      expect(getCacheStrategy('https://cdn.jsdelivr.net/pyodide/v0.26.0/full/pyodide.asm.wasm')).toBeNull();
+    });
+  });
+
+  describe('createCachingFetch', () => {
+    it('should serve a cached wheel without going to the network', async () => {
+      const { storage } = memoryStorage({ [WHEEL]: 'cached wheel' });
+      const fetchImpl = vi.fn(async () => new Response('network wheel'));
+
+      const response = await createCachingFetch(fetchImpl, storage)(WHEEL);
+
+      expect(await response.text()).toBe('cached wheel');
+      expect(fetchImpl).not.toHaveBeenCalled();
+    });
+
+    it('should store successful downloads but not failed ones', async () => {
+      const { storage, stored } = memoryStorage();
+      const cachingFetch = createCachingFetch(
+        async input => (String(input) === WHEEL ? new Response('wheel') : new Response('missing', { status: 404 })),
+        storage
+      );
+
+      expect(await (await cachingFetch(WHEEL)).text()).toBe('wheel');
+      await cachingFetch(METADATA);
+
+      expect([...stored.keys()]).toEqual([WHEEL]);
+    });
+
+    it('should fall back to cached metadata when offline', async () => {
+      const { storage } = memoryStorage({ [METADATA]: '{"cached":true}' });
+      const offline = async () => {
+        throw new TypeError('Failed to fetch');
+      };
+
+      const response = await createCachingFetch(offline, storage)(METADATA);
+      expect(await response.json()).toEqual({ cached: true });
+
+      await expect(createCachingFetch(offline, storage)(WHEEL)).rejects.toThrow('Failed to fetch');
+    });
+
+    it('should pass other requests straight through', async () => {
+      const { storage, stored } = memoryStorage();
+      const fetchImpl = vi.fn(async () => new Response('ok'));
+      const cachingFetch = createCachingFetch(fetchImpl, storage);
+
+      await cachingFetch(WHEEL, { method: 'POST' });
+      await cachingFetch('https://example.com/data.csv');
+
+      expect(fetchImpl).toHaveBeenCalledTimes(2);
+      expect(stored.size).toBe(0);
+      expect(createCachingFetch(fetchImpl, null)).toBe(fetchImpl);
+    });
+  });
+});
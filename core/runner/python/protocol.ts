@@ -0,0 +1,65 @@
+/**
+ * Python runner protocol - messages between PyodideRunner (main thread) and
+ * the worker that hosts the Pyodide interpreter
+ */
+
+import type { ProjectFile } from '../types.js';
+
+/**
+ * Pyodide release loaded by default (the worker imports `pyodide.mjs` from it)
+ */
+export const DEFAULT_PYODIDE_INDEX_URL = 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/';
+
+/**
+ * Bytes available for one line of interactive input in the shared stdin buffer
+ */
+export const STDIN_CAPACITY = 64 * 1024;
+
+/**
+ * Layout of the shared stdin buffer: an Int32 state, an Int32 byte length,
+ * then the UTF-8 text of the line
+ */
+export const STDIN_STATE = {
+  empty: 0, // The worker waits on this value
+  line: 1,
+  eof: 2
+} as const;
+
+export const STDIN_HEADER_BYTES = 8;
+
+/**
+ * Start the interpreter; sent once, right after the worker is created
+ */
+export interface PythonInitMessage {
+  type: 'init';
+  indexURL: string;
+  interruptBuffer?: SharedArrayBuffer; // Byte 0 set to 2 raises KeyboardInterrupt in the running code
+  stdinBuffer?: SharedArrayBuffer; // Interactive input; without it stdin is only the fixture
+}
+
+/**
+ * A run: the files are written next to the entry file, missing packages are
+ * installed (from Pyodide's distribution, then micropip) and `code` runs as `__main__`
+ */
+export interface PythonRunMessage {
+  type: 'run';
+  runId: string;
+  code: string;
+  filename: string;
+  files: ProjectFile[];
+  packages: Record<string, string>; // micropip requirements: name -> version ('latest' for any)
+  stdin?: string; // Fixture read by input()/sys.stdin, which then sees EOF
+  env?: Record<string, string>; // Added to os.environ
+}
+
+export type PythonWorkerRequest = PythonInitMessage | PythonRunMessage;
+
+/**
+ * Messages posted by the worker
+ */
+export type PythonWorkerResponse =
+  | { type: 'ready'; version: string }
+  | { type: 'init-error'; error: string }
+  | { type: 'output'; runId: string; stream: 'stdout' | 'stderr' | 'log'; content: string; partial?: boolean }
+  | { type: 'input-request'; runId: string }
+  | { type: 'result'; runId: string; success: boolean; error?: string; interrupted?: boolean };
@@ -0,0 +1,353 @@
+/**
+ * Pyodide worker - Hosts the Python interpreter used by PyodideRunner
+ *
+ * Pyodide is loaded once from `indexURL` and kept for every run; each run gets
+ * fresh `__main__` globals, and modules of its own files are re-imported.
+ * Downloads go through the wheel cache, so installed packages survive reloads
+ * and work offline. Input comes from the run's fixture or, when the page is
+ * cross-origin isolated, from a shared buffer the worker blocks on.
+ */
+
+import { createCachingFetch, type WheelCacheStorage } from './WheelCache.js';
+import {
+  STDIN_HEADER_BYTES,
+  STDIN_STATE,
+  type PythonInitMessage,
+  type PythonRunMessage,
+  type PythonWorkerRequest,
+  type PythonWorkerResponse
+} from './protocol.js';
+
+// The parts of a PyProxy the worker uses
+interface PyProxy {
+  (...args: unknown[]): PyProxy & Promise<unknown>;
+  get(key: string): PyProxy;
+  set(key: string, value: unknown): void;
+  toJs(): unknown;
+  destroy(): void;
+}
+
+interface PackageLoadOptions {
+  messageCallback?: (message: string) => void;
+  errorCallback?: (message: string) => void;
+}
+
+// The parts of the Pyodide API the worker uses
+interface PyodideInterface {
+  version: string;
+  globals: PyProxy;
+  FS: {
+    mkdirTree(path: string): void;
+    writeFile(path: string, data: string): void;
+  };
+  setStdout(options: { write: (buffer: Uint8Array) => number }): void;
+  setStderr(options: { write: (buffer: Uint8Array) => number }): void;
+  setStdin(options: { stdin: () => string | undefined; autoEOF?: boolean; isatty?: boolean }): void;
+  setInterruptBuffer(buffer: Uint8Array): void;
+  loadPackage(names: string | string[], options?: PackageLoadOptions): Promise<unknown>;
+  loadPackagesFromImports(code: string, options?: PackageLoadOptions): Promise<unknown>;
+  pyimport(name: string): PyProxy;
+  toPy(value: unknown): PyProxy;
+  runPython(code: string, options?: { globals?: PyProxy; filename?: string }): unknown;
+  runPythonAsync(code: string, options?: { globals?: PyProxy; filename?: string }): Promise<unknown>;
+}
+
+interface WorkerScope {
+  postMessage(message: PythonWorkerResponse): void;
+  onmessage: ((event: MessageEvent<PythonWorkerRequest>) => void) | null;
+  fetch: typeof fetch;
+  caches?: WheelCacheStorage;
+}
+
+// Splits a stream's bytes into lines; the unfinished last line is reported as partial
+interface LineWriter {
+  write(buffer: Uint8Array): number;
+  flush(): void;
+}
+
+interface RunState {
+  runId: string;
+  fixture: string | null;
+  stdout: LineWriter;
+  stderr: LineWriter;
+}
+
+const WORKING_DIRECTORY = '/home/pyodide';
+
+// Helpers run in their own namespace, away from the program's globals
+const HELPERS = `
+import importlib, importlib.util, os, sys
+from pyodide.code import find_imports
+
+def missing_modules(code):
+    try:
+        names = find_imports(code)
+    except SyntaxError:
+        return []
+    return [name for name in names if importlib.util.find_spec(name) is None]
+
+def prepare_run(env, modules):
+    os.environ.update(env)
+    if os.getcwd() not in sys.path:
+        sys.path.insert(0, os.getcwd())
+    importlib.invalidate_caches()
+    for name in modules:
+        sys.modules.pop(name, None)
+
+def flush_output():
+    sys.stdout.flush()
+    sys.stderr.flush()
+`;
+
+const scope = self as unknown as WorkerScope;
+const decoder = new TextDecoder();
+
+let pyodide: PyodideInterface | null = null;
+let helpers: PyProxy | null = null;
+let stdinControl: Int32Array | null = null;
+let stdinData: Uint8Array | null = null;
+let current: RunState | null = null;
+
+function post(message: PythonWorkerResponse): void {
+  scope.postMessage(message);
+}
+
+function createLineWriter(stream: 'stdout' | 'stderr', runId: string): LineWriter {
+  const streamDecoder = new TextDecoder();
+  let pending = '';
+
+  return {
+    write(buffer) {
+      const lines = (pending + streamDecoder.decode(buffer, { stream: true })).split(/\r?\n/);
+      pending = lines.pop() ?? '';
+      for (const line of lines) {
+        post({ type: 'output', runId, stream, content: line });
+      }
+      if (pending) {
+        post({ type: 'output', runId, stream, content: pending, partial: true });
+      }
+      return buffer.length;
+    },
+    flush() {
+      if (pending) {
+        post({ type: 'output', runId, stream, content: pending });
+        pending = '';
+      }
+    }
+  };
+}
+
+function log(runId: string, content: string): void {
+  post({ type: 'output', runId, stream: 'log', content });
+}
+
+/**
+ * stdin callback: the fixture in one piece, or a line typed by the user
+ * (undefined is EOF)
+ */
+function readInput(): string | undefined {
+  const run = current;
+  if (!run) {
+    return undefined;
+  }
+
+  if (run.fixture !== null) {
+    const text = run.fixture;
+    run.fixture = '';
+    return text || undefined;
+  }
+
+  if (!stdinControl || !stdinData) {
+    return undefined;
+  }
+
+  // The prompt printed by input() is complete: show it before blocking
+  run.stdout.flush();
+  post({ type: 'input-request', runId: run.runId });
+  Atomics.wait(stdinControl, 0, STDIN_STATE.empty);
+
+  if (Atomics.load(stdinControl, 0) === STDIN_STATE.eof) {
+    return undefined;
+  }
+  const text = decoder.decode(stdinData.slice(0, stdinControl[1]));
+  Atomics.store(stdinControl, 0, STDIN_STATE.empty);
+  return text;
+}
+
+async function initialize(message: PythonInitMessage): Promise<void> {
+  // Before Pyodide loads: pyodide.http (and so micropip) keeps a reference to fetch
+  scope.fetch = createCachingFetch(scope.fetch.bind(scope), scope.caches ?? null);
+
+  const { loadPyodide } = await import(/* @vite-ignore */ `${message.indexURL}pyodide.mjs`) as {
+    loadPyodide(options: { indexURL: string }): Promise<PyodideInterface>;
+  };
+  const instance = await loadPyodide({ indexURL: message.indexURL });
+
+  instance.setStdout({ write: buffer => current?.stdout.write(buffer) ?? buffer.length });
+  instance.setStderr({ write: buffer => current?.stderr.write(buffer) ?? buffer.length });
+  instance.setStdin({ stdin: readInput, autoEOF: false, isatty: false });
+  if (message.interruptBuffer) {
+    instance.setInterruptBuffer(new Uint8Array(message.interruptBuffer));
+  }
+  if (message.stdinBuffer) {
+    stdinControl = new Int32Array(message.stdinBuffer, 0, 2);
+    stdinData = new Uint8Array(message.stdinBuffer, STDIN_HEADER_BYTES);
+  }
+
+  const namespace = instance.globals.get('dict')();
+  instance.runPython(HELPERS, { globals: namespace });
+  helpers = namespace;
+  pyodide = instance;
+}
+
+/**
+ * Write the project files to the working directory
+ */
+function writeFiles(instance: PyodideInterface, message: PythonRunMessage): void {
+  for (const file of [...message.files, { path: message.filename, content: message.code }]) {
+    const path = `${WORKING_DIRECTORY}/${file.path}`;
+    instance.FS.mkdirTree(path.slice(0, path.lastIndexOf('/')));
+    instance.FS.writeFile(path, file.content);
+  }
+}
+
+/**
+ * micropip requirement for a package and version ('latest', '2.31.0', '>=2,<3')
+ */
+function toRequirement(name: string, version: string): string {
+  if (version === 'latest' || version === '*') {
+    return name;
+  }
+  return /^[<>=!~]/.test(version) ? `${name}${version}` : `${name}==${version}`;
+}
+
+/**
+ * Load the Pyodide packages the sources import, then install what is still
+ * missing (and the manifest's packages) with micropip. Failures are logged and
+ * the program runs anyway: its ImportError says what is missing.
+ */
+async function installPackages(instance: PyodideInterface, message: PythonRunMessage, localModules: string[]): Promise<void> {
+  const sources = [message.code, ...message.files.filter(file => file.path.endsWith('.py')).map(file => file.content)];
+  const callbacks: PackageLoadOptions = {
+    messageCallback: text => log(message.runId, text),
+    errorCallback: text => log(message.runId, text)
+  };
+
+  for (const source of sources) {
+    await instance.loadPackagesFromImports(source, callbacks);
+  }
+
+  const missing = new Set<string>();
+  for (const source of sources) {
+    const names = helpers!.get('missing_modules')(source);
+    for (const name of names.toJs() as string[]) {
+      if (!localModules.some(module => module.split('.')[0] === name)) {
+        missing.add(name);
+      }
+    }
+    names.destroy();
+  }
+
+  const requested = { ...message.packages };
+  for (const name of missing) {
+    requested[name] ??= 'latest';
+  }
+  const requirements = Object.entries(requested).map(([name, version]) => toRequirement(name, version));
+  if (requirements.length === 0) {
+    return;
+  }
+
+  log(message.runId, `Installing ${requirements.join(', ')} with micropip...`);
+  try {
+    await instance.loadPackage('micropip', callbacks);
+    const micropip = instance.pyimport('micropip');
+    const list = instance.toPy(requirements);
+    try {
+      await micropip.get('install')(list);
+    } finally {
+      list.destroy();
+      micropip.destroy();
+    }
+  } catch (error) {
+    log(message.runId, `Package installation failed, running without them: ${error instanceof Error ? error.message.trim().split('\n').pop() : error}`);
+  }
+}
+
+async function run(message: PythonRunMessage): Promise<void> {
+  const instance = pyodide;
+  if (!instance || !helpers) {
+    post({ type: 'result', runId: message.runId, success: false, error: 'The Python runtime is not loaded' });
+    return;
+  }
+
+  const state: RunState = {
+    runId: message.runId,
+    fixture: message.stdin ?? null,
+    stdout: createLineWriter('stdout', message.runId),
+    stderr: createLineWriter('stderr', message.runId)
+  };
+  current = state;
+
+  // Modules of the project, so a changed file is imported again
+  const localModules = [...message.files, { path: message.filename }]
+    .filter(file => file.path.endsWith('.py'))
+    .map(file => file.path.replace(/(\/__init__)?\.py$/, '').replace(/\//g, '.'));
+
+  let globals: PyProxy | null = null;
+  let result: Extract<PythonWorkerResponse, { type: 'result' }>;
+  try {
+    writeFiles(instance, message);
+    const env = instance.toPy(message.env || {});
+    const modules = instance.toPy(localModules);
+    helpers.get('prepare_run')(env, modules);
+    env.destroy();
+    modules.destroy();
+
+    await installPackages(instance, message, localModules);
+
+    globals = instance.globals.get('dict')();
+    globals.set('__name__', '__main__');
+    globals.set('__file__', `${WORKING_DIRECTORY}/${message.filename}`);
+    await instance.runPythonAsync(message.code, { globals, filename: message.filename });
+    result = { type: 'result', runId: message.runId, success: true };
+  } catch (error) {
+    // A PythonError's message is the whole traceback
+    const traceback = error instanceof Error ? error.message : String(error);
+    const exception = traceback.trim().split('\n').pop() || '';
+
+    result = /^SystemExit(: (0|None))?$/.test(exception)
+      ? { type: 'result', runId: message.runId, success: true }
+      : {
+        type: 'result',
+        runId: message.runId,
+        success: false,
+        error: traceback,
+        interrupted: exception === 'KeyboardInterrupt'
+      };
+  } finally {
+    try {
+      helpers.get('flush_output')();
+    } catch {
+      // The program may have closed the streams itself
+    }
+    state.stdout.flush();
+    state.stderr.flush();
+    current = null;
+    globals?.destroy();
+  }
+
+  // After the last output line
+  post(result);
+}
+
+scope.onmessage = event => {
+  const message = event.data;
+
+  if (message.type === 'init') {
+    initialize(message)
+      .then(() => post({ type: 'ready', version: pyodide!.version }))
+      .catch(error => post({ type: 'init-error', error: error instanceof Error ? error.message : String(error) }));
+  } else if (message.type === 'run') {
+    run(message);
+  }
+};
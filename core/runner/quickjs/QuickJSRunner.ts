@@ -0,0 +1,425 @@
+/**
+ * QuickJSRunner - Runs pure JavaScript/TypeScript with QuickJS in a Web Worker
+ *
+ * Booting WebContainer takes seconds, but most snippets are plain computation.
+ * Those run here instead, right away: the code goes through the same
+ * instrumentation and Babel passes as a Node run, is evaluated by QuickJS
+ * (compiled to WebAssembly) in a worker, and resolves with the same
+ * ExecutionResult. Each run gets its own heap with a memory limit and is
+ * interrupted when it passes the time limit.
+ *
+ * Only code with no imports that reads no globals beyond QuickJS's own
+ * qualifies (see canRun): the language built-ins plus console, timers and
+ * queueMicrotask. fetch, URL, performance or structuredClone need Node.
+ */
+
+import { BabelTransformer, type MappedCode } from '../BabelTransformer.js';
+import { ModernBabelTransformer } from '../babel/ModernBabelTransformer.js';
+import { LanguageDetector } from '../babel/LanguageDetector.js';
+import { collectFreeGlobals, collectModuleSpecifiers } from '../babel/DependencyAnalyzer.js';
+import { collectAnnotations } from '../babel/InstrumentationPlugin.js';
+import { findLoopGuardTrip } from '../babel/LoopGuardPlugin.js';
+import { collectTestResults, withTestResults, TEST_GLOBAL_NAMES } from '../babel/TestHarnessPlugin.js';
+import { collectBenchmarkResults } from '../babel/BenchmarkPlugin.js';
+import { collectConsoleEntries } from '../babel/ConsoleShimPlugin.js';
+import { SourceMapChain } from '../babel/SourceMapResolver.js';
+import type { SourceMap } from '../babel/types.js';
+import { extractRuntimeMarkers, withoutRuntimeMarkers } from '../RuntimeMarkers.js';
+import { resolveRuntimeError } from '../RuntimeErrors.js';
+import type {
+  BenchmarkOptions,
+  ExecutionResult,
+  LoopGuardOptions,
+  OutputEvent,
+  OutputListener,
+  RunCodeOptions,
+  SupportedLanguage
+} from '../types.js';
+import {
+  DEFAULT_QUICKJS_MODULE_URL,
+  type QuickJSInitMessage,
+  type QuickJSRunMessage,
+  type QuickJSWorkerResponse
+} from './protocol.js';
+
+export interface QuickJSRunnerConfig {
+  timeout?: number;
+  memoryLimit?: number; // Bytes each run may allocate
+  maxOutputSize?: number; // Maximum number of output lines kept
+  moduleURL?: string; // Where quickjs-emscripten is imported from; a self-hosted copy works offline
+}
+
+interface ActiveRun {
+  runId: string;
+  startTime: number;
+  output: OutputEvent[];
+  onOutput?: OutputListener;
+  resolve: (result: ExecutionResult) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Globals a program finds in QuickJS: the ECMAScript built-ins, what the
+ * worker installs (console, timers, queueMicrotask) and the test harness API
+ */
+const QUICKJS_GLOBALS = new Set([
+  'globalThis', 'undefined', 'NaN', 'Infinity', 'arguments', 'eval', 'isFinite', 'isNaN',
+  'parseFloat', 'parseInt', 'decodeURI', 'decodeURIComponent', 'encodeURI', 'encodeURIComponent',
+  'escape', 'unescape', 'Object', 'Function', 'Array', 'Number', 'Boolean', 'String', 'Symbol',
+  'BigInt', 'Date', 'RegExp', 'Math', 'JSON', 'Reflect', 'Proxy', 'Promise', 'Map', 'Set',
+  'WeakMap', 'WeakSet', 'WeakRef', 'FinalizationRegistry', 'Error', 'AggregateError', 'EvalError',
+  'RangeError', 'ReferenceError', 'SyntaxError', 'TypeError', 'URIError', 'ArrayBuffer',
+  'SharedArrayBuffer', 'DataView', 'Atomics', 'Int8Array', 'Uint8Array', 'Uint8ClampedArray',
+  'Int16Array', 'Uint16Array', 'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array',
+  'BigInt64Array', 'BigUint64Array',
+  'console', 'setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'queueMicrotask',
+  ...TEST_GLOBAL_NAMES
+]);
+
+/**
+ * How long past the time limit the worker may take to report before it is terminated
+ */
+const TERMINATE_GRACE_PERIOD = 1000;
+
+export class QuickJSRunner {
+  private static detector = new LanguageDetector();
+  private worker: Worker | null = null;
+  private ready: Promise<void> | null = null;
+  private current: ActiveRun | null = null;
+  private runCounter = 0;
+  private babelTransformer: BabelTransformer;
+  private modernTransformer: ModernBabelTransformer;
+  private config: QuickJSRunnerConfig;
+
+  constructor(config: QuickJSRunnerConfig = {}) {
+    this.config = {
+      timeout: 30000,
+      memoryLimit: 64 * 1024 * 1024,
+      maxOutputSize: 100000,
+      moduleURL: DEFAULT_QUICKJS_MODULE_URL,
+      ...config
+    };
+    this.babelTransformer = BabelTransformer.getInstance();
+    this.modernTransformer = ModernBabelTransformer.getInstance();
+  }
+
+  /**
+   * Whether QuickJS can run here (it needs Web Workers and WebAssembly)
+   */
+  public static isAvailable(): boolean {
+    return typeof Worker !== 'undefined' && typeof WebAssembly !== 'undefined';
+  }
+
+  /**
+   * Whether the code can run in QuickJS: no imports (npm packages, Node
+   * built-ins or other files) and no globals QuickJS lacks (Node or DOM APIs,
+   * but also fetch, URL or performance). Code that doesn't parse is left to
+   * Node, which reports the syntax error properly.
+   */
+  public static canRun(code: string): boolean {
+    try {
+      return collectModuleSpecifiers(code).specifiers.length === 0 &&
+        QuickJSRunner.detector.detectRuntime(code) === 'universal' &&
+        collectFreeGlobals(code).every(name => QUICKJS_GLOBALS.has(name));
+    } catch {
+      return false;
+    }
+  }
+
+  public isRunning(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Load QuickJS into the worker (once). Rejects when it can't be loaded, e.g. offline.
+   */
+  public initialize(): Promise<void> {
+    if (this.ready) {
+      return this.ready;
+    }
+
+    const worker = new Worker(new URL('./quickjs.worker.ts', import.meta.url), { type: 'module' });
+    this.worker = worker;
+    const ready = new Promise<void>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<QuickJSWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'ready') {
+          resolve();
+        } else if (message.type === 'init-error') {
+          reject(new Error(message.error));
+        } else {
+          this.handleMessage(message);
+        }
+      };
+      worker.onerror = event => {
+        const error = new Error(event.message || 'The QuickJS worker stopped unexpectedly');
+        reject(error);
+        if (this.current) {
+          this.finish(this.current, { success: false, error: error.message, status: 'error' });
+        }
+      };
+    });
+    this.ready = ready;
+    ready.catch(() => {
+      if (this.worker === worker) {
+        this.terminateWorker();
+      }
+    });
+
+    const init: QuickJSInitMessage = { type: 'init', moduleURL: this.config.moduleURL! };
+    worker.postMessage(init);
+    return ready;
+  }
+
+  /**
+   * Run JavaScript or TypeScript (see canRun) as an ES module
+   */
+  public async runCode(code: string, language: SupportedLanguage = 'javascript', options: RunCodeOptions = {}): Promise<ExecutionResult> {
+    if (!QuickJSRunner.isAvailable()) {
+      return this.createErrorResult('QuickJS needs Web Workers and WebAssembly, which are not available here');
+    }
+    if (language !== 'javascript' && language !== 'typescript') {
+      return this.createErrorResult(`QuickJS only runs JavaScript and TypeScript, not ${language}`);
+    }
+    if (this.current) {
+      await this.stopExecution();
+    }
+
+    try {
+      await this.initialize();
+    } catch (error) {
+      return this.createErrorResult(`Could not load QuickJS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const filename = options.filename || (language === 'typescript' ? 'index.ts' : 'index.js');
+    const benchmark = options.benchmark ? (options.benchmark === true ? {} : options.benchmark) : undefined;
+    const testMode = options.testMode === true && !benchmark;
+    // Same rules as a Node run: tests replace annotations, benchmarks run uninstrumented
+    const annotate = options.annotate !== false && !testMode && !benchmark;
+    const loopGuard = options.loopGuard && !benchmark ? (options.loopGuard === true ? {} : options.loopGuard) : undefined;
+    const consoleShim = options.inspectConsole !== false && !benchmark;
+    const onOutput = options.onOutput && withoutRuntimeMarkers(options.onOutput);
+
+    this.emitLog(onOutput, 'Runtime: QuickJS');
+    await this.babelTransformer.initialize();
+
+    const instrumented = await this.instrumentCode(code, language, filename, { annotate, loopGuard, testHarness: testMode, benchmark, consoleShim });
+    let compiled: MappedCode = { code: instrumented.code, map: null };
+    if (options.transform !== false || language === 'typescript') {
+      try {
+        compiled = language === 'typescript'
+          ? this.babelTransformer.transformTypeScriptWithMap(instrumented.code, { modules: false })
+          : this.babelTransformer.transformCodeWithMap(instrumented.code, 'javascript', { modules: false });
+      } catch (transformError) {
+        console.warn('⚠️ Babel transformation failed, running the untransformed code:', transformError);
+      }
+    }
+    const compiledSources = [{ path: filename, source: filename, maps: new SourceMapChain([instrumented.map, compiled.map]) }];
+
+    let result = await this.execute(compiled.code, filename, onOutput);
+
+    if (annotate || loopGuard || testMode || benchmark || consoleShim) {
+      const { output, markers } = extractRuntimeMarkers(result.output);
+      const trip = findLoopGuardTrip(markers);
+      result = { ...result, output };
+      if (annotate) {
+        result.annotations = collectAnnotations(markers);
+      }
+      if (testMode) {
+        result = withTestResults(result, collectTestResults(markers));
+      }
+      if (benchmark) {
+        result.benchmarks = collectBenchmarkResults(markers);
+      }
+      if (consoleShim) {
+        result.console = collectConsoleEntries(markers);
+      }
+      if (trip) {
+        result = { ...result, success: false, error: trip.message, status: 'error' };
+      }
+    }
+
+    if (!result.success && result.status !== 'killed') {
+      result.errorDetails = resolveRuntimeError(result.output, compiledSources) || undefined;
+    }
+    return result;
+  }
+
+  /**
+   * Stop the running code by terminating the worker; the next run loads QuickJS again.
+   * The pending runCode call resolves with status 'killed'.
+   */
+  public async stopExecution(): Promise<boolean> {
+    const run = this.current;
+    if (!run) {
+      return false;
+    }
+    this.terminateWorker();
+    this.finish(run, { success: false, error: 'Execution stopped by user', status: 'killed' });
+    return true;
+  }
+
+  /**
+   * Stop any run and shut the worker down
+   */
+  public cleanup(): void {
+    const run = this.current;
+    this.terminateWorker();
+    if (run) {
+      this.finish(run, { success: false, error: 'Execution stopped by user', status: 'killed' });
+    }
+  }
+
+  /**
+   * Instrument the code like a Node run does. Best effort: on failure it runs
+   * unannotated and any syntax error is reported by QuickJS itself.
+   */
+  private async instrumentCode(
+    code: string,
+    language: 'javascript' | 'typescript',
+    filename: string,
+    { annotate, loopGuard, testHarness, benchmark, consoleShim }: {
+      annotate: boolean;
+      loopGuard?: LoopGuardOptions;
+      testHarness?: boolean;
+      benchmark?: BenchmarkOptions;
+      consoleShim?: boolean;
+    }
+  ): Promise<{ code: string; map: SourceMap | null }> {
+    try {
+      const result = await this.modernTransformer.instrumentCode(code, {
+        language,
+        filename,
+        instrument: annotate,
+        loopGuard,
+        testHarness,
+        benchmark,
+        consoleShim
+      });
+      return { code: result.code, map: result.map || null };
+    } catch (instrumentError) {
+      console.warn('⚠️ Could not instrument the code, running it without annotations:', instrumentError);
+      return { code, map: null };
+    }
+  }
+
+  /**
+   * Send the code to the worker and collect its output until it reports the
+   * result; the worker is terminated if it doesn't within the time limit
+   */
+  private execute(code: string, filename: string, onOutput?: OutputListener): Promise<ExecutionResult> {
+    const runId = `quickjs-${++this.runCounter}`;
+
+    return new Promise<ExecutionResult>(resolve => {
+      const run: ActiveRun = {
+        runId,
+        startTime: Date.now(),
+        output: [],
+        onOutput,
+        resolve,
+        timeoutId: setTimeout(() => {
+          // Stuck outside the interpreter, where the interrupt handler can't see it
+          this.terminateWorker();
+          this.finish(run, this.limitResult('time'));
+        }, this.config.timeout! + TERMINATE_GRACE_PERIOD)
+      };
+      this.current = run;
+
+      const message: QuickJSRunMessage = {
+        type: 'run',
+        runId,
+        code,
+        filename,
+        memoryLimit: this.config.memoryLimit!,
+        timeLimit: this.config.timeout!
+      };
+      this.worker!.postMessage(message);
+    });
+  }
+
+  private handleMessage(message: QuickJSWorkerResponse): void {
+    const run = this.current;
+    if (!run || !('runId' in message) || message.runId !== run.runId) {
+      return;
+    }
+
+    if (message.type === 'output') {
+      this.addOutput(run, message.stream, message.content);
+      return;
+    }
+
+    if (message.type === 'result') {
+      if (message.success) {
+        this.finish(run, { success: true, status: 'completed' });
+      } else if (message.limit) {
+        this.finish(run, this.limitResult(message.limit));
+      } else {
+        // Printed like Node prints an uncaught error, so the stack can be mapped back
+        this.addOutput(run, 'stderr', message.error || 'Unknown error');
+        this.finish(run, { success: false, error: (message.error || 'Unknown error').split('\n')[0], status: 'error' });
+      }
+    }
+  }
+
+  private limitResult(limit: 'memory' | 'time'): Omit<ExecutionResult, 'output' | 'duration' | 'timestamp'> {
+    const error = limit === 'time'
+      ? `Process timed out after ${this.config.timeout}ms`
+      : `Memory limit of ${Math.round(this.config.memoryLimit! / (1024 * 1024))} MB exceeded`;
+    return { success: false, error, status: 'error' };
+  }
+
+  private addOutput(run: ActiveRun, stream: 'stdout' | 'stderr', content: string): void {
+    for (const line of content.split('\n')) {
+      const event: OutputEvent = { type: stream, content: line, timestamp: new Date() };
+      run.output.push(event);
+      if (run.output.length > (this.config.maxOutputSize || 1000)) {
+        run.output.shift();
+      }
+      this.emit(run.onOutput, event);
+    }
+  }
+
+  private emitLog(onOutput: OutputListener | undefined, content: string): void {
+    this.emit(onOutput, { type: 'log', content, timestamp: new Date() });
+  }
+
+  private emit(onOutput: OutputListener | undefined, event: OutputEvent): void {
+    try {
+      onOutput?.(event);
+    } catch (error) {
+      console.warn('Error in output listener:', error);
+    }
+  }
+
+  private finish(run: ActiveRun, result: Omit<ExecutionResult, 'output' | 'duration' | 'timestamp'>): void {
+    if (this.current !== run) {
+      return;
+    }
+
+    clearTimeout(run.timeoutId);
+    this.current = null;
+    run.resolve({
+      ...result,
+      output: run.output.map(event => event.content).join('\n'),
+      duration: Date.now() - run.startTime,
+      timestamp: new Date()
+    });
+  }
+
+  private terminateWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.ready = null;
+  }
+
+  private createErrorResult(message: string): ExecutionResult {
+    return {
+      success: false,
+      output: '',
+      error: message,
+      duration: 0,
+      timestamp: new Date(),
+      status: 'error'
+    };
+  }
+}
@@ -0,0 +1,46 @@
+// @vitest-environment node
+/**
+ * QuickJS Runner Tests
+ * Verifies which code is sent to QuickJS instead of Node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QuickJSRunner } from '../QuickJSRunner';
+
+describe('QuickJSRunner', () => {
+  describe('canRun', () => {
+    it('should accept plain computation with console, timers and the language built-ins', () => {
+      expect(QuickJSRunner.canRun([
+        'const items = [3, 1, 2].sort();',
+        'const byId = new Map(items.map(n => [n, { n }]));',
+        'setTimeout(() => console.log(JSON.stringify([...byId.keys()]), Math.max(...items)), 10);',
+        'queueMicrotask(() => Promise.resolve(1).then(console.log));'
+      ].join('\n'))).toBe(true);
+    });
+
+    it('should accept TypeScript and test code', () => {
+      expect(QuickJSRunner.canRun('interface Point { x: number }\nconst p: Point = { x: 1 };\nconsole.log(p.x);')).toBe(true);
+      expect(QuickJSRunner.canRun("describe('math', () => {\n  it('adds', () => expect(1 + 1).toBe(2));\n});")).toBe(true);
+    });
+
+    it('should reject code that reads globals QuickJS lacks', () => {
+      expect(QuickJSRunner.canRun("const response = await fetch('https://example.com');")).toBe(false);
+      expect(QuickJSRunner.canRun('const start = performance.now();')).toBe(false);
+      expect(QuickJSRunner.canRun("const url = new URL('https://example.com');")).toBe(false);
+      expect(QuickJSRunner.canRun('const copy = structuredClone({ a: 1 });')).toBe(false);
+      expect(QuickJSRunner.canRun("const encoded = new TextEncoder().encode('hi');")).toBe(false);
+      expect(QuickJSRunner.canRun('const { env } = process;')).toBe(false);
+    });
+
+    it('should reject imports, DOM code and code that does not parse', () => {
+      expect(QuickJSRunner.canRun("import { sum } from './math';\nconsole.log(sum(1, 2));")).toBe(false);
+      expect(QuickJSRunner.canRun("document.title = 'Hi';")).toBe(false);
+      expect(QuickJSRunner.canRun('const = 1;')).toBe(false);
+    });
+
+    it('should accept feature checks and names the code declares itself', () => {
+      expect(QuickJSRunner.canRun("const hasFetch = typeof fetch === 'function';\nconsole.log(hasFetch);")).toBe(true);
+      expect(QuickJSRunner.canRun('function fetch(id) { return { id }; }\nconsole.log(fetch(1));')).toBe(true);
+    });
+  });
+});
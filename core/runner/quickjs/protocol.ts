@@ -0,0 +1,42 @@
+/**
+ * QuickJS runner protocol - messages between QuickJSRunner (main thread) and
+ * the worker that hosts the QuickJS interpreter
+ */
+
+/**
+ * quickjs-emscripten build loaded by default (the worker imports `getQuickJS` from it)
+ */
+export const DEFAULT_QUICKJS_MODULE_URL = 'https://esm.sh/quickjs-emscripten@0.31.0';
+
+/**
+ * Load the interpreter; sent once, right after the worker is created
+ */
+export interface QuickJSInitMessage {
+  type: 'init';
+  moduleURL: string;
+}
+
+/**
+ * A run: `code` (plain JavaScript, already transformed) is evaluated as an ES
+ * module in a new runtime, and its timers run until none are left
+ */
+export interface QuickJSRunMessage {
+  type: 'run';
+  runId: string;
+  code: string;
+  filename: string;
+  memoryLimit: number; // Bytes the runtime may allocate
+  timeLimit: number; // Milliseconds before the code is interrupted
+}
+
+export type QuickJSWorkerRequest = QuickJSInitMessage | QuickJSRunMessage;
+
+/**
+ * Messages posted by the worker. A failed result carries the error as Node
+ * would print it (`Name: message` and the stack) and which limit, if any, stopped it.
+ */
+export type QuickJSWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'init-error'; error: string }
+  | { type: 'output'; runId: string; stream: 'stdout' | 'stderr'; content: string }
+  | { type: 'result'; runId: string; success: boolean; error?: string; limit?: 'memory' | 'time' };
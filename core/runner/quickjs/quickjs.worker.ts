@@ -0,0 +1,358 @@
+/**
+ * QuickJS worker - Hosts the QuickJS interpreter used by QuickJSRunner
+ *
+ * The WebAssembly module is loaded once; every run gets a new runtime with
+ * its own memory limit, so nothing leaks from one run to the next. The code is
+ * evaluated as an ES module, then the worker plays the event loop: it drains
+ * promise jobs and fires timers in order until nothing is left, like Node
+ * exiting once its loop is empty. An uncaught error ends the run, as in Node.
+ */
+
+import type {
+  QuickJSInitMessage,
+  QuickJSRunMessage,
+  QuickJSWorkerRequest,
+  QuickJSWorkerResponse
+} from './protocol.js';
+
+// The parts of a QuickJS value handle the worker uses
+interface QuickJSHandle {
+  dup(): QuickJSHandle;
+  dispose(): void;
+}
+
+type QuickJSResult<T> = { value: T; error?: undefined } | { error: QuickJSHandle; value?: undefined };
+
+type QuickJSPromiseState =
+  | { type: 'pending' }
+  | { type: 'fulfilled'; value: QuickJSHandle; notAPromise?: boolean }
+  | { type: 'rejected'; error: QuickJSHandle };
+
+// The parts of a QuickJS context (one realm) the worker uses
+interface QuickJSContext {
+  global: QuickJSHandle;
+  undefined: QuickJSHandle;
+  newObject(): QuickJSHandle;
+  newNumber(value: number): QuickJSHandle;
+  newFunction(name: string, fn: (...args: QuickJSHandle[]) => QuickJSHandle | void): QuickJSHandle;
+  setProp(target: QuickJSHandle, key: string, value: QuickJSHandle): void;
+  typeof(handle: QuickJSHandle): string;
+  dump(handle: QuickJSHandle): unknown;
+  getNumber(handle: QuickJSHandle): number;
+  evalCode(code: string, filename?: string, options?: { type?: 'global' | 'module' }): QuickJSResult<QuickJSHandle>;
+  callFunction(fn: QuickJSHandle, thisValue: QuickJSHandle, ...args: QuickJSHandle[]): QuickJSResult<QuickJSHandle>;
+  getPromiseState(handle: QuickJSHandle): QuickJSPromiseState;
+  dispose(): void;
+}
+
+// The parts of a QuickJS runtime (heap, limits, job queue) the worker uses
+interface QuickJSRuntime {
+  setMemoryLimit(bytes: number): void;
+  setMaxStackSize(bytes: number): void;
+  setInterruptHandler(handler: () => boolean): void;
+  executePendingJobs(): QuickJSResult<number>;
+  newContext(): QuickJSContext;
+  dispose(): void;
+}
+
+interface QuickJSModule {
+  newRuntime(): QuickJSRuntime;
+}
+
+interface WorkerScope {
+  postMessage(message: QuickJSWorkerResponse): void;
+  onmessage: ((event: MessageEvent<QuickJSWorkerRequest>) => void) | null;
+}
+
+interface Timer {
+  id: number;
+  callback: QuickJSHandle;
+  due: number;
+  interval: number | null; // Milliseconds between calls of a setInterval timer
+}
+
+// Reported when the module waits on a promise that nothing can settle any more
+class UnsettledAwaitError extends Error {}
+
+// The time limit passed while waiting for a timer
+class TimeLimitError extends Error {}
+
+const MAX_STACK_SIZE = 1024 * 1024;
+
+// Globals QuickJS doesn't have and that need no host
+const PRELUDE = `
+globalThis.queueMicrotask = function queueMicrotask(callback) {
+  Promise.resolve().then(function () { callback(); });
+};
+`;
+
+// console methods and the stream their output goes to
+const CONSOLE_STREAMS: Record<string, 'stdout' | 'stderr'> = {
+  log: 'stdout',
+  info: 'stdout',
+  debug: 'stdout',
+  dir: 'stdout',
+  table: 'stdout',
+  warn: 'stderr',
+  error: 'stderr',
+  trace: 'stderr'
+};
+
+const scope = self as unknown as WorkerScope;
+
+let quickjs: QuickJSModule | null = null;
+
+function post(message: QuickJSWorkerResponse): void {
+  scope.postMessage(message);
+}
+
+function isErrorLike(value: unknown): value is { name?: string; message: string; stack?: string } {
+  return typeof value === 'object' && value !== null && typeof (value as { message?: unknown }).message === 'string';
+}
+
+function dumpValue(vm: QuickJSContext, handle: QuickJSHandle): unknown {
+  return vm.typeof(handle) === 'function' ? undefined : vm.dump(handle);
+}
+
+function formatValue(vm: QuickJSContext, handle: QuickJSHandle): string {
+  return vm.typeof(handle) === 'function' ? '[Function]' : formatDumped(vm.dump(handle));
+}
+
+function formatDumped(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (isErrorLike(value)) {
+    return describeError(value);
+  }
+  if (value === undefined || typeof value === 'bigint' || typeof value === 'symbol') {
+    return String(value);
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * An error as Node prints it: `Name: message` and the stack under it
+ */
+function describeError(error: { name?: string; message: string; stack?: string }): string {
+  const header = `${error.name || 'Error'}: ${error.message}`;
+  return error.stack ? `${header}\n${error.stack.replace(/\s+$/, '')}` : header;
+}
+
+/**
+ * Text of a thrown value; disposes the handle
+ */
+function takeError(vm: QuickJSContext, handle: QuickJSHandle): string {
+  try {
+    const value = dumpValue(vm, handle);
+    return isErrorLike(value) ? describeError(value) : `Uncaught ${formatValue(vm, handle)}`;
+  } catch {
+    // Dumping needs memory too, which may be what ran out
+    return 'InternalError: out of memory';
+  } finally {
+    handle.dispose();
+  }
+}
+
+function installGlobals(vm: QuickJSContext, message: QuickJSRunMessage, timers: Map<number, Timer>): void {
+  const consoleObject = vm.newObject();
+  for (const [method, stream] of Object.entries(CONSOLE_STREAMS)) {
+    const fn = vm.newFunction(method, (...args) => {
+      post({ type: 'output', runId: message.runId, stream, content: args.map(arg => formatValue(vm, arg)).join(' ') });
+    });
+    vm.setProp(consoleObject, method, fn);
+    fn.dispose();
+  }
+  vm.setProp(vm.global, 'console', consoleObject);
+  consoleObject.dispose();
+
+  let nextTimerId = 1;
+  const createTimer = (repeat: boolean) => (callback?: QuickJSHandle, delay?: QuickJSHandle) => {
+    const id = nextTimerId++;
+    if (callback && vm.typeof(callback) === 'function') {
+      const ms = delay ? Math.max(0, Number(vm.dump(delay)) || 0) : 0;
+      timers.set(id, { id, callback: callback.dup(), due: Date.now() + ms, interval: repeat ? Math.max(ms, 1) : null });
+    }
+    return vm.newNumber(id);
+  };
+  const clearTimer = (id?: QuickJSHandle) => {
+    const timer = id && vm.typeof(id) === 'number' ? timers.get(vm.getNumber(id)) : undefined;
+    if (timer) {
+      timers.delete(timer.id);
+      timer.callback.dispose();
+    }
+  };
+
+  const functions: Record<string, (...args: QuickJSHandle[]) => QuickJSHandle | void> = {
+    setTimeout: createTimer(false),
+    setInterval: createTimer(true),
+    clearTimeout: clearTimer,
+    clearInterval: clearTimer
+  };
+  for (const [name, implementation] of Object.entries(functions)) {
+    const fn = vm.newFunction(name, implementation);
+    vm.setProp(vm.global, name, fn);
+    fn.dispose();
+  }
+
+  const prelude = vm.evalCode(PRELUDE, 'prelude.js');
+  if (prelude.error) {
+    throw new Error(takeError(vm, prelude.error));
+  }
+  prelude.value.dispose();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+}
+
+/**
+ * Drain promise jobs and fire timers until nothing is left. Returns the
+ * uncaught error that ended the run, or null when it finished cleanly.
+ */
+async function runEventLoop(
+  runtime: QuickJSRuntime,
+  vm: QuickJSContext,
+  completion: QuickJSHandle,
+  timers: Map<number, Timer>,
+  deadline: number
+): Promise<string | null> {
+  for (;;) {
+    const jobs = runtime.executePendingJobs();
+    if (jobs.error) {
+      return takeError(vm, jobs.error);
+    }
+
+    // The module's evaluation: a promise when it uses top-level await
+    const state = vm.getPromiseState(completion);
+    if (state.type === 'rejected') {
+      return takeError(vm, state.error);
+    }
+    if (state.type === 'fulfilled' && !state.notAPromise) {
+      state.value.dispose();
+    }
+
+    let next: Timer | null = null;
+    for (const timer of timers.values()) {
+      if (!next || timer.due < next.due) {
+        next = timer;
+      }
+    }
+    if (!next) {
+      if (state.type === 'pending') {
+        throw new UnsettledAwaitError('Warning: Detected unsettled top-level await');
+      }
+      return null;
+    }
+
+    await sleep(Math.min(next.due, deadline) - Date.now());
+    if (Date.now() >= deadline) {
+      throw new TimeLimitError();
+    }
+
+    const timer = next;
+    if (timer.interval === null) {
+      timers.delete(timer.id);
+    } else {
+      timer.due = Date.now() + timer.interval;
+    }
+    const called = vm.callFunction(timer.callback, vm.undefined);
+    if (timer.interval === null) {
+      timer.callback.dispose();
+    }
+    if (called.error) {
+      return takeError(vm, called.error);
+    }
+    called.value.dispose();
+  }
+}
+
+async function run(message: QuickJSRunMessage): Promise<void> {
+  if (!quickjs) {
+    post({ type: 'result', runId: message.runId, success: false, error: 'QuickJS is not loaded' });
+    return;
+  }
+
+  const runtime = quickjs.newRuntime();
+  runtime.setMemoryLimit(message.memoryLimit);
+  runtime.setMaxStackSize(MAX_STACK_SIZE);
+  const deadline = Date.now() + message.timeLimit;
+  let timedOut = false;
+  runtime.setInterruptHandler(() => {
+    timedOut = timedOut || Date.now() > deadline;
+    return timedOut;
+  });
+
+  const vm = runtime.newContext();
+  const timers = new Map<number, Timer>();
+  let result: Extract<QuickJSWorkerResponse, { type: 'result' }>;
+
+  try {
+    installGlobals(vm, message, timers);
+    const evaluated = vm.evalCode(message.code, message.filename, { type: 'module' });
+    let error: string | null;
+    if (evaluated.error) {
+      error = takeError(vm, evaluated.error);
+    } else {
+      try {
+        error = await runEventLoop(runtime, vm, evaluated.value, timers, deadline);
+      } finally {
+        evaluated.value.dispose();
+      }
+    }
+
+    if (timedOut) {
+      result = { type: 'result', runId: message.runId, success: false, limit: 'time' };
+    } else if (error && /out of memory/.test(error)) {
+      result = { type: 'result', runId: message.runId, success: false, limit: 'memory' };
+    } else {
+      result = error
+        ? { type: 'result', runId: message.runId, success: false, error }
+        : { type: 'result', runId: message.runId, success: true };
+    }
+  } catch (error) {
+    if (error instanceof UnsettledAwaitError) {
+      result = { type: 'result', runId: message.runId, success: false, error: error.message };
+    } else if (error instanceof TimeLimitError) {
+      result = { type: 'result', runId: message.runId, success: false, limit: 'time' };
+    } else {
+      result = { type: 'result', runId: message.runId, success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  } finally {
+    for (const timer of timers.values()) {
+      timer.callback.dispose();
+    }
+    timers.clear();
+    try {
+      vm.dispose();
+      runtime.dispose();
+    } catch {
+      // A runtime that ran out of memory may not tear down cleanly; the next run gets a new one
+    }
+  }
+
+  post(result);
+}
+
+async function initialize(message: QuickJSInitMessage): Promise<void> {
+  const { getQuickJS } = await import(/* @vite-ignore */ message.moduleURL) as {
+    getQuickJS(): Promise<QuickJSModule>;
+  };
+  quickjs = await getQuickJS();
+}
+
+scope.onmessage = event => {
+  const message = event.data;
+
+  if (message.type === 'init') {
+    initialize(message)
+      .then(() => post({ type: 'ready' }))
+      .catch(error => post({ type: 'init-error', error: error instanceof Error ? error.message : String(error) }));
+  } else if (message.type === 'run') {
+    run(message);
+  }
+};
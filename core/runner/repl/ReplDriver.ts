@@ -0,0 +1,141 @@
+/**
+ * ReplDriver - The Node script a REPL session runs
+ *
+ * The driver reads requests from stdin, one JSON object per line, and
+ * evaluates statements in a `vm` context that lives as long as the process,
+ * so variables survive from one run to the next. The context gets the
+ * process globals (console, timers, process, Buffer...) plus `require` and
+ * the loader rewritten imports go through; a reset replaces it with a new
+ * one. Errors thrown later by timers or promises are printed and the session
+ * keeps going, as in Node's own REPL.
+ */
+
+import { RUNTIME_MARKER_PREFIX } from '../RuntimeMarkers.js';
+import { REPL_LOADER_NAME } from '../babel/ReplStatements.js';
+import { REPL_CHANNEL, REPL_READY_ID } from './protocol.js';
+
+/**
+ * Where the driver is written, relative to the workspace: bare imports
+ * resolve from the workspace's node_modules, relative ones from its root
+ */
+export const REPL_DRIVER_PATH = '.orbis-repl.mjs';
+
+const DRIVER_SOURCE = `
+import vm from 'node:vm';
+import util from 'node:util';
+import path from 'node:path';
+import readline from 'node:readline';
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+
+const cwd = process.cwd();
+const require = createRequire(path.join(cwd, 'index.js'));
+let context = createContext();
+
+function load(specifier) {
+  const relative = specifier.startsWith('.') || path.isAbsolute(specifier);
+  return import(relative ? pathToFileURL(path.resolve(cwd, specifier)).href : specifier);
+}
+
+function createContext() {
+  const sandbox = vm.createContext({});
+  const own = new Set(Object.getOwnPropertyNames(vm.runInContext('globalThis', sandbox)));
+  for (const name of Object.getOwnPropertyNames(globalThis)) {
+    if (!own.has(name)) {
+      Object.defineProperty(sandbox, name, Object.getOwnPropertyDescriptor(globalThis, name));
+    }
+  }
+  const module = { exports: {} };
+  // The context's own console only talks to the inspector
+  sandbox.console = console;
+  sandbox.require = require;
+  sandbox.module = module;
+  sandbox.exports = module.exports;
+  sandbox.__dirname = cwd;
+  sandbox.${REPL_LOADER_NAME} = { import: load };
+  return sandbox;
+}
+
+function reply(payload) {
+  process.stdout.write('${RUNTIME_MARKER_PREFIX}${REPL_CHANNEL}:' + JSON.stringify(payload) + '\\n');
+}
+
+// Stack without the driver's own frames
+function describe(error) {
+  if (error && typeof error.stack === 'string') {
+    return error.stack
+      .split('\\n')
+      .filter(line => !line.includes('node:vm') && !line.includes('${REPL_DRIVER_PATH}'))
+      .join('\\n');
+  }
+  return 'Uncaught ' + util.inspect(error);
+}
+
+// Name: message (the stack of an error thrown by a script starts with the code excerpt)
+function header(error) {
+  return error && typeof error.message === 'string'
+    ? (error.name || 'Error') + ': ' + error.message
+    : describe(error).split('\\n')[0];
+}
+
+async function evaluate(request) {
+  let evaluated = 0;
+  let value;
+  try {
+    for (const statement of request.statements) {
+      const script = new vm.Script(statement.code, {
+        filename: request.filename,
+        lineOffset: statement.line - 1,
+        columnOffset: statement.column
+      });
+      value = script.runInContext(context, { timeout: request.timeout });
+      if (statement.async) {
+        value = await value;
+      }
+      if (!statement.expression) {
+        value = undefined;
+      }
+      evaluated++;
+    }
+    if (value !== undefined) {
+      console.log(util.inspect(value, { depth: 4 }));
+    }
+    reply({ id: request.id, success: true, evaluated });
+  } catch (error) {
+    console.error(describe(error));
+    reply({ id: request.id, success: false, evaluated, error: header(error) });
+  }
+}
+
+async function handle(request) {
+  if (request.type === 'reset') {
+    context = createContext();
+    reply({ id: request.id, success: true, evaluated: 0 });
+  } else if (request.type === 'evaluate') {
+    await evaluate(request);
+  }
+}
+
+process.on('uncaughtException', error => console.error(describe(error)));
+process.on('unhandledRejection', reason => console.error(describe(reason)));
+
+let queue = Promise.resolve();
+readline.createInterface({ input: process.stdin, terminal: false }).on('line', line => {
+  let request;
+  try {
+    request = JSON.parse(line);
+  } catch {
+    return;
+  }
+  queue = queue.then(() => handle(request));
+});
+
+reply({ id: ${REPL_READY_ID}, success: true, evaluated: 0 });
+`;
+
+/**
+ * Source of the driver (an ES module)
+ */
+export function createReplDriverSource(): string {
+  return DRIVER_SOURCE.trimStart();
+}
@@ -0,0 +1,449 @@
+/**
+ * ReplSession - A long-lived Node process that evaluates a tab's code
+ *
+ * The session runs the REPL driver in the shared WebContainer and keeps it
+ * alive between runs, so whatever the code set up (loaded data, open
+ * connections, variables) is still there the next time. It remembers the
+ * statements of the program it last ran, so a run only needs to send the
+ * ones that changed since. Output printed between evaluations (by timers or
+ * promises that settle later) is reported with the next evaluation.
+ */
+
+import { parseRuntimeMarker } from '../RuntimeMarkers.js';
+import { selectChangedStatements, type ReplStatement } from '../babel/ReplStatements.js';
+import { createReplDriverSource, REPL_DRIVER_PATH } from './ReplDriver.js';
+import { REPL_CHANNEL, REPL_READY_ID, type ReplReply, type ReplRequest } from './protocol.js';
+import type {
+  OutputEvent,
+  OutputListener,
+  ProcessStatus,
+  ReplSessionInfo,
+  ReplSessionStatus,
+  WebContainerInstance,
+  WebContainerProcess
+} from '../types.js';
+
+/**
+ * How long the driver may take to start or to answer a reset
+ */
+const START_TIMEOUT = 15000;
+
+/**
+ * Output lines kept for the next evaluation while none is running
+ */
+const MAX_BACKLOG_LINES = 1000;
+
+export type ReplSessionListener = (info: ReplSessionInfo) => void;
+export type ReplSessionsListener = (sessions: ReplSessionInfo[]) => void;
+
+export interface ReplSessionOptions {
+  env?: Record<string, string>; // Environment of the process, applied when it starts
+  timeout?: number; // Milliseconds an evaluation may take
+  maxOutputSize?: number; // Maximum number of output lines kept per evaluation
+}
+
+/**
+ * Outcome of one evaluation
+ */
+export interface ReplEvaluation {
+  success: boolean;
+  output: string;
+  error?: string;
+  evaluated: number; // Statements that ran to completion
+  status: ProcessStatus;
+}
+
+interface PendingRequest {
+  id: number;
+  output: OutputEvent[];
+  onOutput?: OutputListener;
+  resolve: (reply: ReplReply | null) => void; // null when the process is gone
+}
+
+export class ReplSession {
+  public readonly id: string;
+  private container: WebContainerInstance;
+  private options: Required<ReplSessionOptions>;
+  private process: WebContainerProcess | null = null;
+  private writer: WritableStreamDefaultWriter<string> | null = null;
+  private starting: Promise<void> | null = null;
+  private status: ReplSessionStatus = 'stopped';
+  private statements = 0;
+  private startedAt: Date | null = null;
+  private lastEvaluation: Date | null = null;
+  private exitCode: number | null = null;
+  private program: string[] = []; // Source of each statement of the last program that has run
+  private nextRequestId = REPL_READY_ID + 1;
+  private pending: PendingRequest | null = null;
+  private backlog: OutputEvent[] = [];
+  private interrupted = false;
+  private listeners = new Set<ReplSessionListener>();
+
+  constructor(container: WebContainerInstance, id: string, options: ReplSessionOptions = {}) {
+    this.container = container;
+    this.id = id;
+    this.options = {
+      env: {},
+      timeout: 30000,
+      maxOutputSize: 100000,
+      ...options
+    };
+  }
+
+  /**
+   * Start the Node process, unless it is already running
+   */
+  public async start(): Promise<void> {
+    if (this.process && !this.starting) {
+      return;
+    }
+    if (!this.starting) {
+      this.starting = this.spawn().finally(() => {
+        this.starting = null;
+      });
+    }
+    return this.starting;
+  }
+
+  private async spawn(): Promise<void> {
+    this.setStatus('starting');
+
+    try {
+      await this.container.fs.writeFile(REPL_DRIVER_PATH, createReplDriverSource());
+      const process = await this.container.spawn('node', [REPL_DRIVER_PATH], { env: this.options.env });
+      this.process = process;
+      this.writer = process.input.getWriter();
+
+      const ready = this.expectReply(REPL_READY_ID).reply;
+      this.readOutput(process);
+      process.exit.then(exitCode => this.handleExit(process, exitCode));
+
+      if (!(await this.withTimeout(ready, START_TIMEOUT))) {
+        throw new Error('the process exited');
+      }
+      this.startedAt = new Date();
+      this.statements = 0;
+      this.setStatus('idle');
+    } catch (error) {
+      this.teardown();
+      throw new Error(`Failed to start REPL session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Statements of a program that its last run didn't evaluate (new or edited)
+   */
+  public getChangedStatements(program: ReplStatement[]): ReplStatement[] {
+    return selectChangedStatements(this.program, program);
+  }
+
+  /**
+   * Evaluate statements in order, starting the process if needed. With
+   * `program`, the statements are the changed part of it: the session then
+   * remembers the program, minus any statement an error kept from running.
+   */
+  public async evaluate(
+    statements: ReplStatement[],
+    options: { filename: string; onOutput?: OutputListener; program?: ReplStatement[] }
+  ): Promise<ReplEvaluation> {
+    if (this.status === 'busy') {
+      throw new Error('The REPL session is busy');
+    }
+
+    await this.start();
+    this.interrupted = false;
+    const backlog = this.takeBacklog(options.onOutput);
+
+    if (statements.length === 0) {
+      this.rememberProgram(options.program, []);
+      return { success: true, output: this.formatOutput(backlog), evaluated: 0, status: 'completed' };
+    }
+
+    this.setStatus('busy');
+    const request = this.send({
+      type: 'evaluate',
+      id: this.nextRequestId++,
+      filename: options.filename,
+      statements: statements.map(({ code, line, column, async, expression }) => ({ code, line, column, async, expression })),
+      timeout: this.options.timeout
+    }, options.onOutput);
+
+    let reply: ReplReply | null;
+    try {
+      reply = await this.withTimeout(request.reply, this.options.timeout);
+    } catch {
+      // Something it awaits never settles: only stopping the process frees it
+      this.teardown();
+      return {
+        success: false,
+        output: this.formatOutput([...backlog, ...request.output]),
+        error: `REPL session timed out after ${this.options.timeout}ms and was stopped`,
+        evaluated: 0,
+        status: 'error'
+      };
+    } finally {
+      this.lastEvaluation = new Date();
+    }
+
+    const output = this.formatOutput([...backlog, ...request.output]);
+    if (!reply) {
+      return this.interrupted
+        ? { success: false, output, error: 'Execution stopped by user', evaluated: 0, status: 'killed' }
+        : { success: false, output, error: `REPL session exited with code ${this.exitCode}`, evaluated: 0, status: 'error' };
+    }
+
+    this.statements += reply.evaluated;
+    this.rememberProgram(options.program, statements.slice(reply.evaluated));
+    this.setStatus('idle');
+    return {
+      success: reply.success,
+      output,
+      error: reply.error,
+      evaluated: reply.evaluated,
+      status: reply.success ? 'completed' : 'error'
+    };
+  }
+
+  /**
+   * Drop every variable and start over in a new context; the process, and
+   * the modules it has loaded, stay
+   */
+  public async reset(): Promise<void> {
+    if (this.status === 'busy') {
+      throw new Error('The REPL session is busy');
+    }
+
+    if (this.process) {
+      const request = this.send({ type: 'reset', id: this.nextRequestId++ });
+      await this.withTimeout(request.reply, START_TIMEOUT);
+    }
+    this.program = [];
+    this.statements = 0;
+    this.notify();
+  }
+
+  /**
+   * Stop the process and start a new one
+   */
+  public async restart(): Promise<void> {
+    this.teardown();
+    await this.start();
+  }
+
+  /**
+   * Stop an evaluation in progress. The process has to go with it, and so
+   * does its state. Returns false when nothing was running.
+   */
+  public interrupt(): boolean {
+    if (this.status !== 'busy') {
+      return false;
+    }
+
+    this.interrupted = true;
+    this.teardown();
+    return true;
+  }
+
+  public isBusy(): boolean {
+    return this.status === 'busy';
+  }
+
+  /**
+   * Environment of the process; a running process keeps the one it started with
+   */
+  public setEnvironment(env: Record<string, string>): void {
+    this.options.env = { ...env };
+  }
+
+  public getInfo(): ReplSessionInfo {
+    return {
+      id: this.id,
+      status: this.status,
+      statements: this.statements,
+      startedAt: this.startedAt,
+      lastEvaluation: this.lastEvaluation,
+      exitCode: this.exitCode
+    };
+  }
+
+  /**
+   * Subscribe to status changes. Returns an unsubscribe function.
+   */
+  public onChange(listener: ReplSessionListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Kill the process and drop all listeners
+   */
+  public dispose(): void {
+    this.teardown();
+    this.listeners.clear();
+  }
+
+  private send(request: ReplRequest, onOutput?: OutputListener): { reply: Promise<ReplReply | null>; output: OutputEvent[] } {
+    const pending = this.expectReply(request.id, onOutput);
+    this.writer?.write(`${JSON.stringify(request)}\n`).catch(error => {
+      console.warn('Error writing to REPL session:', error);
+    });
+    return pending;
+  }
+
+  private expectReply(id: number, onOutput?: OutputListener): { reply: Promise<ReplReply | null>; output: OutputEvent[] } {
+    const output: OutputEvent[] = [];
+    const reply = new Promise<ReplReply | null>(resolve => {
+      this.pending = { id, output, onOutput, resolve };
+    });
+    return { reply, output };
+  }
+
+  /**
+   * Split the process output into lines; reply markers settle the pending request
+   */
+  private readOutput(process: WebContainerProcess): void {
+    let partial = '';
+    process.output.pipeTo(new WritableStream<string>({
+      write: data => {
+        const lines = (partial + data).split(/\r?\n/);
+        partial = lines.pop() ?? '';
+        lines.forEach(line => this.handleLine(line));
+      },
+      close: () => {
+        if (partial) {
+          this.handleLine(partial);
+        }
+      }
+    })).catch(error => {
+      console.warn('REPL session output closed:', error);
+    });
+  }
+
+  private handleLine(line: string): void {
+    const parsed = parseRuntimeMarker(line);
+    if (!parsed || parsed.marker.channel !== REPL_CHANNEL) {
+      this.addOutput(line);
+      return;
+    }
+
+    this.addOutput(parsed.text);
+    const reply = parsed.marker.payload as ReplReply;
+    if (this.pending && this.pending.id === reply.id) {
+      const pending = this.pending;
+      this.pending = null;
+      pending.resolve(reply);
+    }
+  }
+
+  private addOutput(content: string): void {
+    if (!content.trim()) {
+      return;
+    }
+
+    const event: OutputEvent = { type: 'stdout', content, timestamp: new Date() };
+    const target = this.pending ? this.pending.output : this.backlog;
+    target.push(event);
+    const maxSize = this.pending ? this.options.maxOutputSize : MAX_BACKLOG_LINES;
+    if (target.length > maxSize) {
+      target.shift();
+    }
+
+    if (this.pending?.onOutput) {
+      try {
+        this.pending.onOutput(event);
+      } catch (error) {
+        console.warn('Error in output listener:', error);
+      }
+    }
+  }
+
+  /**
+   * Output printed since the last evaluation, passed on to the new one's listener
+   */
+  private takeBacklog(onOutput?: OutputListener): OutputEvent[] {
+    const backlog = this.backlog;
+    this.backlog = [];
+    if (onOutput) {
+      backlog.forEach(event => onOutput(event));
+    }
+    return backlog;
+  }
+
+  private formatOutput(events: OutputEvent[]): string {
+    return events.map(event => event.content).join('\n');
+  }
+
+  private rememberProgram(program: ReplStatement[] | undefined, notEvaluated: ReplStatement[]): void {
+    if (program) {
+      this.program = program
+        .filter(statement => !notEvaluated.includes(statement))
+        .map(statement => statement.source);
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    return Promise.race([
+      promise,
+      new Promise<T>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+      })
+    ]).finally(() => clearTimeout(timeoutId));
+  }
+
+  private handleExit(process: WebContainerProcess, exitCode: number): void {
+    if (this.process === process) {
+      this.exitCode = exitCode;
+      this.teardown();
+    }
+  }
+
+  /**
+   * Forget the process and everything that lived in it
+   */
+  private teardown(): void {
+    const process = this.process;
+    this.process = null;
+
+    if (this.writer) {
+      try {
+        this.writer.releaseLock();
+      } catch (error) {
+        console.warn('Error releasing REPL session input:', error);
+      }
+      this.writer = null;
+    }
+    if (process) {
+      try {
+        process.kill();
+      } catch (error) {
+        console.warn('Error killing REPL session process:', error);
+      }
+    }
+
+    const pending = this.pending;
+    this.pending = null;
+    pending?.resolve(null);
+
+    this.program = [];
+    this.statements = 0;
+    this.startedAt = null;
+    this.setStatus('stopped');
+  }
+
+  private setStatus(status: ReplSessionStatus): void {
+    this.status = status;
+    this.notify();
+  }
+
+  private notify(): void {
+    const info = this.getInfo();
+    this.listeners.forEach(listener => {
+      try {
+        listener(info);
+      } catch (error) {
+        console.warn('Error in REPL session listener:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * REPL session protocol - requests ReplSession writes to the driver's stdin
+ * (one JSON object per line) and the replies the driver prints as runtime markers
+ */
+
+import type { ReplStatement } from '../babel/ReplStatements.js';
+
+/**
+ * Runtime marker channel of the driver's replies
+ */
+export const REPL_CHANNEL = 'repl';
+
+/**
+ * Id of the reply printed once the driver is ready for requests
+ */
+export const REPL_READY_ID = 0;
+
+/**
+ * Evaluate statements in order, stopping at the first one that throws.
+ * The value of the last one, when it is an expression, is printed.
+ */
+export interface ReplEvaluateRequest {
+  type: 'evaluate';
+  id: number;
+  filename: string; // Shown in stack traces
+  statements: Array<Pick<ReplStatement, 'code' | 'line' | 'column' | 'async' | 'expression'>>;
+  timeout: number; // Milliseconds a statement may run synchronously
+}
+
+/**
+ * Drop every variable: evaluation continues in a new context
+ */
+export interface ReplResetRequest {
+  type: 'reset';
+  id: number;
+}
+
+export type ReplRequest = ReplEvaluateRequest | ReplResetRequest;
+
+/**
+ * Reply to a request; a failed evaluation carries the error's first line
+ */
+export interface ReplReply {
+  id: number;
+  success: boolean;
+  evaluated: number; // Statements that ran to completion
+  error?: string;
+}
@@ -35,13 +35,275 @@ export interface ExecutionResult {
   error?: string;
   duration: number;
   timestamp: Date;
+  status?: ProcessStatus; // 'killed' when the run was stopped before it finished
+  annotations?: ExecutionAnnotation[];
+  tests?: TestCaseResult[]; // Per-test results of a test mode run
+  benchmarks?: BenchmarkResult[]; // Timing statistics of a benchmark run, in the order they ran
+  console?: ConsoleEntry[]; // Structured console calls, in the order they were made
+  errorDetails?: RuntimeErrorDetails; // Uncaught error of a failed run, with its stack mapped back to the sources
+  moduleFormat?: ModuleFormatInfo; // How a JavaScript/TypeScript entry file was loaded by Node
+}
+
+export type ModuleFormat = 'esm' | 'commonjs';
+
+// Module format picked for a snippet from the syntax it uses
+export interface ModuleFormatInfo {
+  format: ModuleFormat;
+  interop: boolean; // ES module given require/module/exports/__filename/__dirname through createRequire
+  reason: string; // e.g. 'CommonJS (require, module)', shown in the output
+}
+
+// Uncaught error printed by Node when a run fails
+export interface RuntimeErrorDetails {
+  name: string; // e.g. 'TypeError'
+  message: string;
+  frames: RuntimeStackFrame[]; // Innermost first
+  source?: string; // Where the error happened in the user's files (the innermost frame that maps back to one)
+  line?: number;
+  column?: number;
+}
+
+// One `at ...` line of a stack trace
+export interface RuntimeStackFrame {
+  text: string; // The frame as printed, without the leading `at`
+  functionName?: string;
+  source?: string; // Project path of the user file the frame maps back to; unset for Node internals and packages
+  line?: number; // 1-based position in that file (mapped through the source maps)
+  column?: number; // 1-based
+}
+
+// Value recorded for a source line by the instrumentation pass
+export interface ExecutionAnnotation {
+  line: number; // 1-based line in the executed source
+  value: string; // Last value recorded for the line
+  count: number; // How many times the line was recorded (loops, repeated calls)
+}
+
+// Outcome of one it()/test() call run by the built-in test harness
+export interface TestCaseResult {
+  name: string;
+  suite: string[]; // Enclosing describe() names, outermost first
+  line: number; // 1-based line of the it()/test() call
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number; // Milliseconds, hooks included
+  error?: TestFailure;
+}
+
+// Timing statistics of one benchmark candidate (times in milliseconds per call)
+export interface BenchmarkResult {
+  name: string; // Function name, `// @bench <name>` label, or file name for a whole program
+  line: number; // 1-based line of the marked function (0 for a whole program)
+  ops: number; // Calls per second
+  mean: number;
+  sd: number; // Standard deviation between samples
+  p50: number;
+  p75: number;
+  p99: number;
+  samples: number; // Timed batches
+  iterations: number; // Calls made while measuring
+  error?: string; // The candidate threw, so it wasn't measured
+  rank?: number; // 1 = fastest, set by rankBenchmarks
+  relative?: number; // Times slower than the fastest, set by rankBenchmarks
+}
+
+// One console call reported by the console shim
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  args: InspectedValue[]; // printf-style format strings are already applied
+  timestamp: number; // Epoch milliseconds
+  depth: number; // console.group nesting
+  line?: number; // 1-based line of the call in the executed source
+  source?: string; // `file:line:column` of calls made outside the executed source
+  collapsed?: boolean; // console.groupCollapsed
+  table?: ConsoleTable; // console.table data
+  stack?: string; // console.trace
+}
+
+// group, time and count stand for their whole family (groupCollapsed, timeLog/timeEnd, count)
+export type ConsoleLevel =
+  | 'log' | 'info' | 'debug' | 'warn' | 'error' | 'trace' | 'dir'
+  | 'table' | 'group' | 'time' | 'count' | 'assert';
+
+// Serialized console argument; containers carry their children in `entries`
+export interface InspectedValue {
+  kind:
+    | 'string' | 'number' | 'boolean' | 'bigint' | 'symbol' | 'undefined' | 'null'
+    | 'function' | 'date' | 'regexp' | 'accessor'
+    | 'object' | 'array' | 'map' | 'set' | 'error' | 'circular';
+  preview: string; // Full text of primitives, short summary of containers
+  className?: string; // Constructor name of objects and containers
+  size?: number; // Length of arrays, size of Maps and Sets, key count of objects
+  entries?: InspectedEntry[]; // Missing past the depth limit; capped for large containers
+  id?: number; // Containers: target of a circular reference; circular: the container it points back to
+  stack?: string; // Errors
+}
+
+// Property, index, Map entry (with a value as key) or Set item of an inspected container
+export interface InspectedEntry {
+  key?: string | InspectedValue;
+  value: InspectedValue;
+}
+
+// Rows of a console.table call
+export interface ConsoleTable {
+  columns: string[]; // 'Values' holds rows that aren't objects
+  rows: Array<{ key: string; cells: Record<string, InspectedValue> }>;
+}
+
+// Why a test failed
+export interface TestFailure {
+  message: string;
+  expected?: string; // Pretty-printed values of a failed equality matcher, for diffs
+  actual?: string;
 }
 
 // Output event types
 export interface OutputEvent {
-  type: 'stdout' | 'stderr' | 'log';
+  type: 'stdout' | 'stderr' | 'stdin' | 'log'; // 'stdin' echoes text sent to the process
   content: string;
   timestamp: Date;
+  partial?: boolean; // Line still being written (e.g. a prompt awaiting input); the next event replaces it
+}
+
+// Listener notified with each output line as soon as the process emits it
+export type OutputListener = (event: OutputEvent) => void;
+
+// Options accepted by ProcessManager.execute
+export interface ExecuteOptions extends SpawnOptions {
+  onOutput?: OutputListener;
+  stdin?: string; // Fixture written to the process input, which is then closed (EOF)
+}
+
+// Source file of a multi-file project (one per editor tab)
+export interface ProjectFile {
+  path: string; // Project-relative path, e.g. 'utils.ts' or 'lib/math.js'
+  content: string;
+}
+
+// Options accepted by CodeRunner.runCode
+export interface RunCodeOptions {
+  filename?: string;
+  transform?: boolean;
+  annotate?: boolean; // Record per-line values (default: true for JavaScript/TypeScript)
+  files?: ProjectFile[]; // Project mode: mount these files too and run `filename` as the entry point
+  stdin?: string; // Predefined input for repeatable runs; without it stdin stays open for writeInput()
+  loopGuard?: boolean | LoopGuardOptions; // Abort runaway loops and recursion (default: off)
+  env?: Record<string, string>; // Environment variables of the program (and its npm install)
+  dependencies?: Record<string, string>; // Versions from the tab manifest; `// @version` comments take precedence
+  testMode?: boolean; // Run describe/it/test calls with the built-in test harness (JavaScript/TypeScript)
+  benchmark?: boolean | BenchmarkOptions; // Time `// @bench` functions, or the whole program (JavaScript/TypeScript)
+  inspectConsole?: boolean; // Report console calls as structured entries (default: true for JavaScript/TypeScript)
+  onOutput?: OutputListener;
+}
+
+// Limits enforced by the loop guard instrumentation (defaults in LoopGuardPlugin)
+export interface LoopGuardOptions {
+  maxIterations?: number; // Per loop, counted again each time the loop is entered
+  maxLoopTime?: number; // Milliseconds a single loop may keep iterating
+  maxCallDepth?: number; // Nested calls of synchronous functions
+}
+
+// How long each benchmark candidate runs (defaults in BenchmarkPlugin)
+export interface BenchmarkOptions {
+  warmupTime?: number; // Milliseconds of untimed calls before measuring
+  time?: number; // Milliseconds of timed calls
+  minSamples?: number; // Timed batches to collect even when `time` is exceeded
+}
+
+// Where code runs: WebContainer in the page, or the system Node.js through Electron
+export type RunnerBackend = 'webcontainer' | 'native';
+
+// Execution surface shared by every backend
+export interface CodeRunner {
+  readonly backend: RunnerBackend;
+  initialize(): Promise<void>;
+  isReady(): boolean;
+  runCode(code: string, language?: SupportedLanguage, options?: RunCodeOptions): Promise<ExecutionResult>;
+  stopExecution(): Promise<boolean>; // The pending runCode resolves with status 'killed'
+  writeInput(text: string): Promise<boolean>;
+  getPackageCache?(): PackageCache | null; // null when the backend has nowhere to store packages
+  cleanup(): Promise<void>;
+  reset(): Promise<void>;
+}
+
+// An npm package a program imports and the version to install
+export interface ResolvedDependency {
+  name: string;
+  version: string; // 'latest' unless pinned
+  pinnedBy?: 'comment' | 'manifest'; // `// @version name@x` in the code, or the tab manifest
+}
+
+// An installed npm package kept in the local package cache
+export interface CachedPackage {
+  name: string;
+  version: string;
+  size: number; // Bytes it takes in the cache
+  requires: string[]; // Other top-level node_modules packages it needs at runtime
+  bin?: Record<string, string>; // Commands it links in node_modules/.bin -> file in the package (missing in entries cached before links were restored)
+  cachedAt: Date;
+  lastUsed: Date;
+}
+
+// Local cache of installed packages that repeat installs are served from
+export interface PackageCache {
+  list(): Promise<CachedPackage[]>;
+  evict(name: string, version?: string): Promise<void>; // Every cached version when none is given
+  clear(): Promise<void>;
+}
+
+// Size of a pseudoterminal in character cells
+export interface TerminalDimensions {
+  cols: number;
+  rows: number;
+}
+
+// Server listening on a container port, viewable in the preview pane
+export interface PreviewServer {
+  port: number;
+  url: string; // Public preview URL for the port
+  ready: boolean; // true once the server answers requests ('server-ready')
+  openedAt: Date;
+}
+
+// Change reported to preview server listeners
+export interface PreviewServerEvent {
+  type: 'open' | 'ready' | 'close';
+  port: number;
+}
+
+// State of a REPL session's Node process
+export type ReplSessionStatus = 'starting' | 'idle' | 'busy' | 'stopped';
+
+// A long-lived Node process that keeps a tab's variables between runs
+export interface ReplSessionInfo {
+  id: string; // Usually the id of the tab
+  status: ReplSessionStatus;
+  statements: number; // Statements evaluated since the process started or the session was reset
+  startedAt: Date | null; // When the current process started
+  lastEvaluation: Date | null;
+  exitCode: number | null; // Of the previous process, once it has exited
+}
+
+// Options for evaluating code in a REPL session
+export interface ReplEvaluateOptions {
+  filename?: string;
+  selection?: boolean; // The code is a selection: all of it runs, and the session still tracks the program it last ran
+  env?: Record<string, string>; // Environment variables of the process, applied when it starts
+  dependencies?: Record<string, string>; // Versions from the tab manifest; `// @version` comments take precedence
+  onOutput?: OutputListener;
+}
+
+// Options for exporting the workspace as a snapshot
+export interface WorkspaceSnapshotOptions {
+  includeNodeModules?: boolean; // Default true; false leaves every node_modules folder out
+}
+
+// What a snapshot file contains, read back from its header
+export interface WorkspaceSnapshotInfo {
+  createdAt: Date;
+  includesNodeModules: boolean;
+  fileCount: number;
+  size: number; // Compressed size in bytes
 }
 
 // Error event types
@@ -97,6 +359,8 @@ export interface SingletonState {
   bootPromise: Promise<WebContainerInstance> | null;
   bootCount: number;
   lastBootTime: number;
+  bootSnapshot: FileSystemTree | null; // Mounted into every new instance once it boots
+  bootSnapshotLoaded: boolean; // The snapshot saved by a previous session was read (or replaced)
 }
 
 // Babel configuration
@@ -104,4 +368,5 @@ export interface BabelConfig {
   presets?: string[];
   plugins?: string[];
   filename?: string;
+  modules?: false; // Keep import/export as written instead of converting them to CommonJS
 }
\ No newline at end of file
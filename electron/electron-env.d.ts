@@ -24,4 +24,6 @@ declare namespace NodeJS {
 // Used in Renderer process, expose in `preload.ts`
 interface Window {
   ipcRenderer: import('electron').IpcRenderer
+  /** Native Node.js execution backend, see core/runner/native */
+  nativeRunner?: import('../core/runner/native/protocol').NativeRunnerBridge
 }
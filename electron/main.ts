@@ -1,6 +1,7 @@
 import { app, BrowserWindow } from 'electron'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
+import { registerNativeRunner } from './nativeRunner'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -63,4 +64,7 @@ app.on('activate', () => {
   }
 })
 
-app.whenReady().then(createWindow)
+app.whenReady().then(() => {
+  registerNativeRunner()
+  createWindow()
+})
@@ -0,0 +1,302 @@
+import { app, ipcMain, type WebContents } from 'electron'
+import { spawn, type ChildProcess } from 'node:child_process'
+import { isBuiltin } from 'node:module'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import {
+  NATIVE_RUNNER_CHANNELS,
+  type NativeNodeInfo,
+  type NativeRunRequest,
+  type NativeRunResponse,
+} from '../core/runner/native/protocol'
+import type { OutputEvent } from '../core/runner/types'
+import {
+  cacheInstalledPackages,
+  clearPackageCache,
+  evictCachedPackage,
+  getPinnedDependencies,
+  listCachedPackages,
+  restoreCachedPackages,
+} from './packageCache'
+
+// Override with ORBIS_NODE_PATH when `node` is not on the PATH Electron was started with
+const NODE_COMMAND = process.env.ORBIS_NODE_PATH || 'node'
+const NPM_COMMAND = process.platform === 'win32' ? 'npm.cmd' : 'npm'
+const INSTALL_TIMEOUT = 120000
+
+interface ActiveRun {
+  child: ChildProcess | null
+  stopped: boolean
+  sender: WebContents
+  // Set once the program itself runs (not during npm install): emits the unfinished line
+  flushPending?: () => void
+}
+
+const runs = new Map<string, ActiveRun>()
+let nodeInfo: Promise<NativeNodeInfo> | null = null
+
+function sendOutput(sender: WebContents, runId: string, event: OutputEvent) {
+  if (!sender.isDestroyed()) {
+    sender.send(NATIVE_RUNNER_CHANNELS.output, { runId, event })
+  }
+}
+
+function detectNode(): Promise<NativeNodeInfo> {
+  return new Promise(resolve => {
+    let version = ''
+    const child = spawn(NODE_COMMAND, ['--version'])
+    child.stdout?.on('data', data => { version += String(data) })
+    child.on('error', error => resolve({ available: false, error: error.message }))
+    child.on('close', code => {
+      resolve(code === 0
+        ? { available: true, version: version.trim() }
+        : { available: false, error: `node --version exited with code ${code}` })
+    })
+  })
+}
+
+// Files come from the renderer: never write outside the workspace
+async function writeWorkspace(workspace: string, request: NativeRunRequest, dependencies: Record<string, string>) {
+  const packageJson = {
+    name: 'user-project',
+    private: true,
+    type: 'module',
+    dependencies,
+  }
+  await fs.writeFile(path.join(workspace, 'package.json'), JSON.stringify(packageJson, null, 2))
+
+  for (const file of request.files) {
+    const target = path.resolve(workspace, file.path)
+    if (!target.startsWith(workspace + path.sep)) {
+      throw new Error(`Invalid project path: ${file.path}`)
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    await fs.writeFile(target, file.content)
+  }
+}
+
+function installDependencies(workspace: string, run: ActiveRun, request: NativeRunRequest): Promise<boolean> {
+  return new Promise(resolve => {
+    const child = spawn(NPM_COMMAND, ['install', '--no-audit', '--no-fund', '--loglevel=error'], {
+      cwd: workspace,
+      env: { ...process.env, ...request.env },
+      shell: process.platform === 'win32',
+    })
+    run.child = child
+
+    const timeoutId = setTimeout(() => child.kill(), INSTALL_TIMEOUT)
+    child.stderr?.on('data', data => {
+      for (const line of String(data).split(/\r?\n/)) {
+        if (line.trim()) {
+          sendOutput(run.sender, request.runId, { type: 'log', content: line, timestamp: new Date() })
+        }
+      }
+    })
+    child.on('error', () => {
+      clearTimeout(timeoutId)
+      resolve(false)
+    })
+    child.on('close', code => {
+      clearTimeout(timeoutId)
+      resolve(code === 0)
+    })
+  })
+}
+
+function execute(workspace: string, request: NativeRunRequest, run: ActiveRun): Promise<NativeRunResponse> {
+  const startTime = Date.now()
+  const lines: string[] = []
+  const stderrLines: string[] = []
+
+  const addLine = (type: OutputEvent['type'], content: string) => {
+    if (!content.trim()) {
+      return
+    }
+    lines.push(content)
+    if (lines.length > request.maxOutputSize) {
+      lines.shift()
+    }
+    if (type === 'stderr') {
+      stderrLines.push(content)
+    }
+    sendOutput(run.sender, request.runId, { type, content, timestamp: new Date() })
+  }
+
+  return new Promise(resolve => {
+    const child = spawn(NODE_COMMAND, ['--no-warnings', request.entryFile], {
+      cwd: workspace,
+      env: { ...process.env, FORCE_COLOR: '0', NODE_OPTIONS: '', ...request.env },
+    })
+    run.child = child
+
+    // Split into lines as data arrives; an unfinished line (a prompt) is shown as partial
+    const pending: Record<'stdout' | 'stderr', string> = { stdout: '', stderr: '' }
+    const onData = (type: 'stdout' | 'stderr') => (data: Buffer) => {
+      const parts = (pending[type] + data.toString()).split(/\r?\n/)
+      pending[type] = parts.pop() ?? ''
+      parts.forEach(line => addLine(type, line))
+      if (pending[type].trim()) {
+        sendOutput(run.sender, request.runId, { type, content: pending[type], timestamp: new Date(), partial: true })
+      }
+    }
+    const flushPending = () => {
+      addLine('stdout', pending.stdout)
+      addLine('stderr', pending.stderr)
+      pending.stdout = ''
+      pending.stderr = ''
+    }
+    child.stdout?.on('data', onData('stdout'))
+    child.stderr?.on('data', onData('stderr'))
+
+    run.flushPending = flushPending
+
+    if (request.stdin !== undefined) {
+      child.stdin?.end(request.stdin.endsWith('\n') || !request.stdin ? request.stdin : `${request.stdin}\n`)
+    }
+
+    let timedOut = false
+    const timeoutId = setTimeout(() => {
+      timedOut = true
+      child.kill()
+    }, request.timeout)
+
+    const finish = (response: Omit<NativeRunResponse, 'output' | 'duration'>) => {
+      clearTimeout(timeoutId)
+      flushPending()
+      resolve({ ...response, output: lines.join('\n'), duration: Date.now() - startTime })
+    }
+
+    child.on('error', error => {
+      finish({ success: false, error: `Could not start Node.js: ${error.message}`, exitCode: null, status: 'error' })
+    })
+
+    child.on('close', code => {
+      if (run.stopped) {
+        finish({ success: false, error: 'Execution stopped by user', exitCode: code, status: 'killed' })
+      } else if (timedOut) {
+        finish({ success: false, error: `Process timed out after ${request.timeout}ms`, exitCode: code, status: 'error' })
+      } else if (code === 0) {
+        finish({ success: true, exitCode: 0, status: 'completed' })
+      } else {
+        finish({
+          success: false,
+          error: stderrLines.join('\n') || `Process exited with code ${code}`,
+          exitCode: code,
+          status: 'error',
+        })
+      }
+    })
+  })
+}
+
+async function handleRun(sender: WebContents, request: NativeRunRequest): Promise<NativeRunResponse> {
+  const run: ActiveRun = { child: null, stopped: false, sender }
+  runs.set(request.runId, run)
+
+  let workspace: string | null = null
+  // Packages npm installed are copied to the cache once the run is over
+  let cacheAfterRun = false
+  try {
+    workspace = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'orbisjs-')))
+    const dependencies = Object.fromEntries(Object.entries(request.dependencies).filter(([name]) => !isBuiltin(name)))
+    await writeWorkspace(workspace, request, await getPinnedDependencies(dependencies))
+
+    if (Object.keys(dependencies).length > 0 && !run.stopped) {
+      const restored = await restoreCachedPackages(workspace, dependencies)
+      if (restored) {
+        const content = `Installed ${restored.length} package${restored.length === 1 ? '' : 's'} from the package cache`
+        sendOutput(sender, request.runId, { type: 'log', content, timestamp: new Date() })
+      } else {
+        sendOutput(sender, request.runId, { type: 'log', content: 'Installing dependencies...', timestamp: new Date() })
+        const installed = await installDependencies(workspace, run, request)
+        cacheAfterRun = installed
+        if (!installed && !run.stopped) {
+          sendOutput(sender, request.runId, { type: 'log', content: 'Dependency installation failed, running without them', timestamp: new Date() })
+        }
+      }
+    }
+
+    if (run.stopped) {
+      return { success: false, output: '', error: 'Execution stopped by user', duration: 0, exitCode: null, status: 'killed' }
+    }
+
+    return await execute(workspace, request, run)
+  } catch (error) {
+    return {
+      success: false,
+      output: '',
+      error: error instanceof Error ? error.message : 'Unknown execution error',
+      duration: 0,
+      exitCode: null,
+      status: 'error',
+    }
+  } finally {
+    runs.delete(request.runId)
+    if (workspace) {
+      const finishedWorkspace = workspace
+      const cached = cacheAfterRun
+        ? cacheInstalledPackages(finishedWorkspace).catch(error => {
+          console.warn('Could not cache installed packages:', error)
+        })
+        : Promise.resolve()
+      cached
+        .then(() => fs.rm(finishedWorkspace, { recursive: true, force: true }))
+        .catch(error => {
+          console.warn('Could not remove native runner workspace:', error)
+        })
+    }
+  }
+}
+
+function handleInput(runId: string, text: string): boolean {
+  const run = runs.get(runId)
+  const stdin = run?.child?.stdin
+  if (!run?.flushPending || !stdin || stdin.destroyed || !stdin.writable) {
+    return false
+  }
+
+  // Typed input echoes right after the prompt it answers
+  run.flushPending()
+  stdin.write(text.endsWith('\n') ? text : `${text}\n`)
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim()) {
+      sendOutput(run.sender, runId, { type: 'stdin', content: line, timestamp: new Date() })
+    }
+  }
+  return true
+}
+
+function handleStop(runId: string): boolean {
+  const run = runs.get(runId)
+  if (!run) {
+    return false
+  }
+
+  run.stopped = true
+  run.child?.kill()
+  return true
+}
+
+/**
+ * Register the IPC handlers of the native Node.js execution backend
+ */
+export function registerNativeRunner() {
+  ipcMain.handle(NATIVE_RUNNER_CHANNELS.info, () => {
+    nodeInfo ??= detectNode()
+    return nodeInfo
+  })
+  ipcMain.handle(NATIVE_RUNNER_CHANNELS.run, (event, request: NativeRunRequest) => handleRun(event.sender, request))
+  ipcMain.handle(NATIVE_RUNNER_CHANNELS.input, (_event, runId: string, text: string) => handleInput(runId, text))
+  ipcMain.handle(NATIVE_RUNNER_CHANNELS.stop, (_event, runId: string) => handleStop(runId))
+  ipcMain.handle(NATIVE_RUNNER_CHANNELS.cacheList, () => listCachedPackages())
+  ipcMain.handle(NATIVE_RUNNER_CHANNELS.cacheEvict, (_event, name: string, version?: string) => evictCachedPackage(name, version))
+  ipcMain.handle(NATIVE_RUNNER_CHANNELS.cacheClear, () => clearPackageCache())
+
+  app.on('before-quit', () => {
+    runs.forEach(run => {
+      run.stopped = true
+      run.child?.kill()
+    })
+  })
+}
@@ -0,0 +1,150 @@
+import { app } from 'electron'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { getBinLinks, pinDependencies, readInstalledPackages, resolveCachedPackages } from '../core/runner/PackageCache'
+import type { CachedPackage } from '../core/runner/types'
+
+// One folder per package version, copied from node_modules, plus an index of them
+const cacheRoot = () => path.join(app.getPath('userData'), 'package-cache')
+const indexPath = () => path.join(cacheRoot(), 'index.json')
+const packageDirectory = (name: string, version: string) =>
+  path.join(cacheRoot(), encodeURIComponent(`${name}@${version}`))
+
+// Runs can finish installing at the same time: index updates go one after another
+let queue: Promise<unknown> = Promise.resolve()
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const next = queue.then(task, task)
+  queue = next.catch(() => undefined)
+  return next
+}
+
+async function readIndex(): Promise<CachedPackage[]> {
+  try {
+    const stored = JSON.parse(await fs.readFile(indexPath(), 'utf-8')) as CachedPackage[]
+    return stored.map(entry => ({ ...entry, cachedAt: new Date(entry.cachedAt), lastUsed: new Date(entry.lastUsed) }))
+  } catch {
+    return []
+  }
+}
+
+async function writeIndex(packages: CachedPackage[]) {
+  await fs.mkdir(cacheRoot(), { recursive: true })
+  await fs.writeFile(indexPath(), JSON.stringify(packages, null, 2))
+}
+
+async function directorySize(directory: string): Promise<number> {
+  let size = 0
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name)
+    size += entry.isDirectory() ? await directorySize(entryPath) : (await fs.lstat(entryPath)).size
+  }
+  return size
+}
+
+/**
+ * package.json dependencies of a run (name -> version): the cached version
+ * for 'latest' where there is one
+ */
+export async function getPinnedDependencies(requested: Record<string, string>): Promise<Record<string, string>> {
+  return pinDependencies(await serialized(readIndex), requested)
+}
+
+/**
+ * Copy the packages (and what they need) into the workspace's node_modules
+ * and link their commands in node_modules/.bin. Returns null, copying
+ * nothing, unless every one of them is cached.
+ */
+export function restoreCachedPackages(workspace: string, requested: Record<string, string>): Promise<CachedPackage[] | null> {
+  return serialized(async () => {
+    const index = await readIndex()
+    const { packages, missing } = resolveCachedPackages(index, requested)
+    const links = Object.entries(getBinLinks(packages))
+    // Windows needs npm's .cmd shims instead of symlinks: let npm install packages with commands
+    if (missing.length > 0 || (process.platform === 'win32' && links.length > 0)) {
+      return null
+    }
+
+    const nodeModules = path.join(workspace, 'node_modules')
+    try {
+      for (const { name, version } of packages) {
+        await fs.cp(packageDirectory(name, version), path.join(nodeModules, name), { recursive: true })
+      }
+      for (const [command, target] of links) {
+        const link = path.join(nodeModules, '.bin', command)
+        await fs.mkdir(path.dirname(link), { recursive: true })
+        await fs.rm(link, { force: true })
+        await fs.symlink(target, link)
+        await fs.chmod(path.join(path.dirname(link), target), 0o755)
+      }
+    } catch (error) {
+      console.warn('Could not restore cached packages:', error)
+      await fs.rm(nodeModules, { recursive: true, force: true })
+      return null
+    }
+
+    const now = new Date()
+    await writeIndex(index.map(entry => (packages.includes(entry) ? { ...entry, lastUsed: now } : entry)))
+    return packages
+  })
+}
+
+/**
+ * Copy the workspace's node_modules packages the cache doesn't have yet.
+ * Returns how many were added.
+ */
+export async function cacheInstalledPackages(workspace: string): Promise<number> {
+  const installed = await readInstalledPackages({
+    readdir: directory => fs.readdir(path.join(workspace, directory)),
+    readFile: file => fs.readFile(path.join(workspace, file), 'utf-8'),
+  })
+
+  return serialized(async () => {
+    const index = await readIndex()
+    const added: CachedPackage[] = []
+
+    // Entries cached without their commands are copied again
+    const stale = (entry: CachedPackage) => installed.some(pkg => entry.name === pkg.name && entry.version === pkg.version) && !entry.bin
+    const kept = index.filter(entry => !stale(entry))
+
+    for (const pkg of installed) {
+      if (kept.some(entry => entry.name === pkg.name && entry.version === pkg.version)) {
+        continue
+      }
+
+      const target = packageDirectory(pkg.name, pkg.version)
+      await fs.rm(target, { recursive: true, force: true })
+      await fs.cp(path.join(workspace, 'node_modules', pkg.name), target, { recursive: true })
+      const now = new Date()
+      added.push({ ...pkg, size: await directorySize(target), cachedAt: now, lastUsed: now })
+    }
+
+    if (added.length > 0) {
+      await writeIndex([...kept, ...added])
+    }
+    return added.length
+  })
+}
+
+export function listCachedPackages(): Promise<CachedPackage[]> {
+  return serialized(readIndex)
+}
+
+/**
+ * Remove one version of a package, or all of them when no version is given.
+ * Only packages in the index are touched: the name comes from the renderer.
+ */
+export function evictCachedPackage(name: string, version?: string): Promise<void> {
+  return serialized(async () => {
+    const index = await readIndex()
+    const evicted = index.filter(entry => entry.name === name && (!version || entry.version === version))
+    for (const entry of evicted) {
+      await fs.rm(packageDirectory(entry.name, entry.version), { recursive: true, force: true })
+    }
+    await writeIndex(index.filter(entry => !evicted.includes(entry)))
+  })
+}
+
+export function clearPackageCache(): Promise<void> {
+  return serialized(() => fs.rm(cacheRoot(), { recursive: true, force: true }))
+}
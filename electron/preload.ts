@@ -1,4 +1,5 @@
 import { ipcRenderer, contextBridge } from 'electron'
+import { NATIVE_RUNNER_CHANNELS, type NativeOutputMessage, type NativeRunnerBridge } from '../core/runner/native/protocol'
 
 // --------- Expose some API to the Renderer process ---------
 contextBridge.exposeInMainWorld('ipcRenderer', {
@@ -22,3 +23,21 @@ contextBridge.exposeInMainWorld('ipcRenderer', {
   // You can expose other APTs you need here.
   // ...
 })
+
+// --------- Native Node.js execution backend ---------
+const nativeRunner: NativeRunnerBridge = {
+  getInfo: () => ipcRenderer.invoke(NATIVE_RUNNER_CHANNELS.info),
+  run: request => ipcRenderer.invoke(NATIVE_RUNNER_CHANNELS.run, request),
+  writeInput: (runId, text) => ipcRenderer.invoke(NATIVE_RUNNER_CHANNELS.input, runId, text),
+  stop: runId => ipcRenderer.invoke(NATIVE_RUNNER_CHANNELS.stop, runId),
+  onOutput(listener) {
+    const handler = (_event: Electron.IpcRendererEvent, message: NativeOutputMessage) => listener(message)
+    ipcRenderer.on(NATIVE_RUNNER_CHANNELS.output, handler)
+    return () => ipcRenderer.off(NATIVE_RUNNER_CHANNELS.output, handler)
+  },
+  listCachedPackages: () => ipcRenderer.invoke(NATIVE_RUNNER_CHANNELS.cacheList),
+  evictCachedPackage: (name, version) => ipcRenderer.invoke(NATIVE_RUNNER_CHANNELS.cacheEvict, name, version),
+  clearPackageCache: () => ipcRenderer.invoke(NATIVE_RUNNER_CHANNELS.cacheClear),
+}
+
+contextBridge.exposeInMainWorld('nativeRunner', nativeRunner)
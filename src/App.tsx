@@ -1,18 +1,35 @@
-import { useState, useRef, useMemo, useCallback } from 'react';
+import { useState, useRef, useMemo, useCallback, useEffect } from 'react';
 import { EditorComponentRef, LanguageType } from '../core/editor';
 import { useTabs } from './hooks/useTabs';
 import { useWebContainer } from './hooks/useWebContainer';
 import { useAutoExecution } from './hooks/useAutoExecution';
 import { useExecutionService } from './hooks/useExecutionService';
+import { useExecutionHistory } from './hooks/useExecutionHistory';
+import { useEnvironment } from './hooks/useEnvironment';
+import { useWorkspaceSnapshot } from './hooks/useWorkspaceSnapshot';
+import { usePackageCache } from './hooks/usePackageCache';
+import { useReplSessions } from './hooks/useReplSessions';
 import { generateFileNameFromEditorLanguage } from './utils/FileUtils.js';
+import { compareWithGolden, createGolden, type GoldenFile } from './utils/GoldenOutput';
 import { TabBar } from './components/TabBar';
 import SplitView from './components/SplitView';
 import EditorPanel from './components/EditorPanel';
 import ResultsPanel from './components/ResultsPanel';
+import DockPanel from './components/DockPanel';
+import TerminalPanel from './components/TerminalPanel';
+import PreviewPanel from './components/PreviewPanel';
 import FloatingToolbar, { ToolbarContext } from './components/FloatingToolbar';
 import AutoExecutionPanel from './components/AutoExecutionPanel';
 import AutoExecutionSettings from './components/AutoExecutionSettings';
 import ExecutionStatusIndicator from './components/ExecutionStatusIndicator';
+import RunnerSettings from './components/RunnerSettings';
+import EnvironmentEditor from './components/EnvironmentEditor';
+import WorkspaceSnapshotPanel from './components/WorkspaceSnapshotPanel';
+import PackageCachePanel from './components/PackageCachePanel';
+import { WebContainerRunner } from '../core/runner/WebContainerRunner.js';
+import { analyzeDependencies, parseDependencyManifest } from '../core/runner/babel/DependencyAnalyzer.js';
+import { getRangeToCursor, getSelectionRange, getStatementRange, type RunRange, type RunScope } from '../core/runner/babel/RunRange.js';
+import type { BenchmarkResult, ConsoleEntry, ModuleFormatInfo, RuntimeErrorDetails, RuntimeStackFrame, TestCaseResult } from '../core/runner/types.js';
 import { StagewiseToolbar } from '@stagewise/toolbar-react';
 import ReactPlugin from '@stagewise-plugins/react';
 import './App.css';
@@ -23,7 +40,32 @@ console.log('Auto-execution test - this should appear in results panel');
 
 function App() {
   const { tabs, activeTab, createTab, closeTab, switchTab, updateTab, renameTab } = useTabs();
-  const { runner, isInitializing, initError, retryInitialization, hardReset } = useWebContainer();
+  const {
+    runner,
+    backend,
+    backendPreference,
+    setBackendPreference,
+    isNativeAvailable,
+    isInitializing,
+    initError,
+    retryInitialization,
+    hardReset
+  } = useWebContainer();
+  // La terminal y la vista previa solo existen con WebContainer
+  const webContainerRunner = runner instanceof WebContainerRunner ? runner : null;
+  const { getHistory, recordRun, clearHistory } = useExecutionHistory();
+  const { workspaceEnv, getFileEnv, setWorkspaceEnv, setFileEnv, workspaceVariables, getEnvironment } = useEnvironment();
+  const workspaceSnapshot = useWorkspaceSnapshot(webContainerRunner);
+  const replSessions = useReplSessions(webContainerRunner);
+  // Cada backend guarda sus paquetes npm en su propia caché
+  const packageCache = useMemo(() => runner?.getPackageCache?.() ?? null, [runner]);
+  const packageCacheState = usePackageCache(packageCache);
+  const refreshPackageCache = packageCacheState.refresh;
+  // Los callbacks de auto-ejecución se registran una vez: leen la pestaña activa de una ref
+  const activeTabRef = useRef(activeTab);
+  activeTabRef.current = activeTab;
+  // Mientras hay una ejecución manual su resultado se registra en handleRunCode
+  const manualRunRef = useRef(false);
   const {
     autoExecutionManager,
     isEnabled: autoExecutionEnabled,
@@ -41,10 +83,45 @@ function App() {
       console.log('🚀 Auto-execution started');
       setIsRunning(true);
       setError(''); // Clear previous errors
+      setWasStopped(false);
+      setRunRange(null);
+      setLastRunOutput(null);
+      clearLiveOutput();
+    },
+    onExecutionOutput: (event) => {
+      appendLiveOutput(event);
     },
     onExecutionResult: (result) => {
       console.log('📊 Auto-execution result:', result);
-      if (result.success) {
+      editorRef.current?.setAnnotations(result.annotations || []);
+      showTestResults(result.tests);
+      setBenchmarkResults([]);
+      setConsoleEntries(result.console || []);
+      setModuleFormat(result.moduleFormat);
+      const tab = activeTabRef.current;
+      setRuntimeError(result.errorDetails && tab ? { details: result.errorDetails, tabId: tab.id, project: false } : null);
+      // Una ejecución detenida no termina su salida: no se compara con la esperada
+      if (tab && result.status !== 'killed') {
+        setLastRunOutput({ tabId: tab.id, output: result.output || '' });
+      }
+      if (tab && !manualRunRef.current) {
+        recordRun({
+          tabId: tab.id,
+          code: result.code ?? tab.content,
+          language: result.language || tab.language,
+          trigger: 'auto',
+          success: result.success,
+          output: result.output || '',
+          error: result.error,
+          duration: result.duration,
+          status: result.status
+        });
+      }
+      if (result.status === 'killed') {
+        setOutput(result.output || '');
+        setError('');
+        setWasStopped(true);
+      } else if (result.success) {
         setOutput(result.output || 'Code executed successfully via auto-execution');
         setError('');
       } else {
@@ -59,11 +136,35 @@ function App() {
   });
 
   // Servicio centralizado de ejecución
-  const { executeCode, isExecuting, isReady: executionServiceReady } = useExecutionService(runner, autoExecutionManager);
+  const {
+    executeCode,
+    executeBenchmarks,
+    previewWebProject,
+    stopExecution,
+    sendInput,
+    canRunWithoutBackend,
+    isExecuting,
+    isReady: executionServiceReady,
+    liveOutput,
+    appendLiveOutput,
+    clearLiveOutput
+  } = useExecutionService(runner, autoExecutionManager);
   
   const [isRunning, setIsRunning] = useState(false);
   const [output, setOutput] = useState('');
   const [error, setError] = useState('');
+  const [testResults, setTestResults] = useState<TestCaseResult[]>([]);
+  const [benchmarkResults, setBenchmarkResults] = useState<BenchmarkResult[]>([]);
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+  const [moduleFormat, setModuleFormat] = useState<ModuleFormatInfo | undefined>();
+  // Error no capturado de la última ejecución y la pestaña (o proyecto) que lo produjo
+  const [runtimeError, setRuntimeError] = useState<{ details: RuntimeErrorDetails; tabId: string; project: boolean } | null>(null);
+  const [wasStopped, setWasStopped] = useState(false);
+  const [runRange, setRunRange] = useState<RunRange | null>(null);
+  // Salida real (ExecutionResult.output) de la última ejecución completa, para compararla con la esperada
+  const [lastRunOutput, setLastRunOutput] = useState<{ tabId: string; output: string } | null>(null);
+  const [projectMode, setProjectMode] = useState(false);
+  const [dockTab, setDockTab] = useState('output');
   const [toolbarVisible, setToolbarVisible] = useState(true);
   const [splitRatio, setSplitRatio] = useState(0.6);
   const [editorFocused, setEditorFocused] = useState(false);
@@ -72,6 +173,10 @@ function App() {
   const [panelWidth] = useState(0);
   const [showAutoExecutionPanel, setShowAutoExecutionPanel] = useState(false);
   const [showAutoExecutionSettings, setShowAutoExecutionSettings] = useState(false);
+  const [showRunnerSettings, setShowRunnerSettings] = useState(false);
+  const [showEnvironmentEditor, setShowEnvironmentEditor] = useState(false);
+  const [showSnapshotPanel, setShowSnapshotPanel] = useState(false);
+  const [showPackageCache, setShowPackageCache] = useState(false);
 
   const editorRef = useRef<EditorComponentRef>(null);
   
@@ -96,8 +201,8 @@ function App() {
       console.log('📊 Auto-execution status:', autoExecutionStatus);
       console.log('🔧 AutoExecutionManager available:', !!autoExecutionManager);
       
-      // Trigger auto-execution if enabled
-      if (autoExecutionEnabled && activeTab.name) {
+      // Trigger auto-execution if enabled (a REPL tab only evaluates in its session when run)
+      if (autoExecutionEnabled && activeTab.name && !activeTab.repl) {
         // Usar utilidades centralizadas para generar el nombre del archivo
         const filename = generateFileNameFromEditorLanguage(activeTab.name, activeTab.language);
         console.log('🚀 Triggering auto-execution for:', filename);
@@ -114,20 +219,86 @@ function App() {
     }
   };
 
+  // Árbol de pruebas en el panel de resultados y su estado en el margen del editor
+  const showTestResults = useCallback((tests: TestCaseResult[] = []) => {
+    setTestResults(tests);
+    editorRef.current?.setTestMarkers(tests.map(test => ({
+      line: test.line,
+      status: test.status,
+      title: test.error ? `${test.name}\n${test.error.message}` : test.name
+    })));
+  }, []);
+
+  const handleSelectLine = useCallback((line: number, column = 1) => {
+    const position = { line: line - 1, column: column - 1 };
+    editorRef.current?.getEditor()?.setSelection({ from: position, to: position });
+    editorRef.current?.focus();
+  }, []);
+
+  // Línea pendiente de mostrar cuando un marco de la pila está en otra pestaña
+  const pendingLocationRef = useRef<{ tabId: string; line: number; column?: number } | null>(null);
+
+  // Pestaña de un archivo de la pila: en modo proyecto se busca por nombre de archivo
+  const findRuntimeErrorTab = useCallback((source?: string) => {
+    if (!runtimeError) return undefined;
+    if (!runtimeError.project) {
+      return tabs.find(tab => tab.id === runtimeError.tabId);
+    }
+    return tabs.find(tab => generateFileNameFromEditorLanguage(tab.name, tab.language) === source);
+  }, [runtimeError, tabs]);
+
+  // El error se marca en el editor solo si ocurrió en la pestaña activa
+  const activeTabId = activeTab?.id;
+  useEffect(() => {
+    const details = runtimeError?.details;
+    const inActiveTab = !!details?.line && !!activeTabId && findRuntimeErrorTab(details.source)?.id === activeTabId;
+    editorRef.current?.setRuntimeError(details && inActiveTab ? {
+      line: details.line!,
+      column: details.column,
+      message: `${details.name}: ${details.message}`
+    } : null);
+
+    const pending = pendingLocationRef.current;
+    if (pending && pending.tabId === activeTabId) {
+      pendingLocationRef.current = null;
+      handleSelectLine(pending.line, pending.column);
+    }
+  }, [runtimeError, activeTabId, findRuntimeErrorTab, handleSelectLine]);
+
   const handleTabSwitch = (tabId: string) => {
     // Save current editor content before switching
     if (activeTab && editorRef.current) {
       const currentEditorContent = editorRef.current.getContent();
       updateTab(activeTab.id, { content: currentEditorContent });
+      // Las anotaciones y los resultados de pruebas pertenecen al código de la pestaña anterior
+      editorRef.current.setAnnotations([]);
+      showTestResults([]);
+      // Igual que un error de un solo archivo; los de un proyecto pueden estar en cualquier pestaña
+      if (!runtimeError?.project) {
+        setRuntimeError(null);
+      }
     }
     switchTab(tabId);
   };
 
+  const handleSelectFrame = (frame: RuntimeStackFrame) => {
+    const tab = findRuntimeErrorTab(frame.source);
+    if (!tab || !frame.line) return;
+    if (tab.id === activeTab?.id) {
+      handleSelectLine(frame.line, frame.column);
+      return;
+    }
+    pendingLocationRef.current = { tabId: tab.id, line: frame.line, column: frame.column };
+    handleTabSwitch(tab.id);
+  };
+
   const handleNewTab = () => {
     createTab(`untitled-${tabs.length + 1}`, '', 'javascript');
   };
 
   const handleTabClose = (tabId: string) => {
+    // La sesión REPL de la pestaña mantiene un proceso vivo en el contenedor
+    replSessions.closeSession(tabId);
     closeTab(tabId);
   };
 
@@ -145,10 +316,13 @@ function App() {
   };
 
   // Funciones memoizadas para las acciones del panel
-  const handleStopCode = useCallback(() => {
-    // TODO: Implementar función para detener ejecución
-    console.log('Stop code execution');
-  }, []);
+  const handleStopCode = useCallback(async () => {
+    // El resultado 'killed' llega por la ejecución pendiente (manual o automática)
+    const stopped = await stopExecution();
+    if (!stopped) {
+      setIsRunning(false);
+    }
+  }, [stopExecution]);
 
   const handleSaveFile = useCallback(() => {
     // TODO: Implementar función para guardar archivo
@@ -164,12 +338,58 @@ function App() {
     setError('');
   };
 
-  const handleRunCode = useCallback(async () => {
+  // Manifiesto de paquetes de la pestaña: versiones para las dependencias que no fijan los comentarios
+  const dependencyManifest = useMemo(
+    () => parseDependencyManifest(activeTab?.dependencies || ''),
+    [activeTab?.dependencies]
+  );
+
+  const handleRunCode = useCallback(async (scope?: RunScope) => {
     const currentContent = editorRef.current?.getContent();
     if (!currentContent || !activeTab) return;
     
-    // Verificaciones básicas usando el servicio centralizado
-    if (!executionServiceReady) {
+    // En modo REPL la pestaña conserva su proceso de Node y solo se evalúan las
+    // sentencias que cambiaron, o la selección si la hay
+    const replMode = !!activeTab.repl && !projectMode &&
+      (currentLanguage === 'javascript' || currentLanguage === 'typescript');
+    const editor = editorRef.current?.getEditor();
+    const selection = editor?.getSelection() ?? null;
+    const rangeScope = scope ?? (replMode && selection ? 'selection' : undefined);
+
+    // Ejecución parcial: la selección, la sentencia bajo el cursor o desde el inicio hasta el cursor
+    let range: RunRange | null = null;
+    if (rangeScope) {
+      try {
+        if (projectMode || currentLanguage === 'html') {
+          throw new Error('Solo se puede ejecutar parte de una pestaña JavaScript, TypeScript o Python fuera del modo proyecto');
+        }
+        if (rangeScope === 'selection') {
+          if (!selection) {
+            throw new Error('No hay texto seleccionado');
+          }
+          range = getSelectionRange(currentContent, selection.from, selection.to, currentLanguage);
+        } else {
+          if (currentLanguage !== 'javascript' && currentLanguage !== 'typescript') {
+            throw new Error('Solo el código JavaScript y TypeScript se puede ejecutar por sentencias');
+          }
+          const cursor = editor?.getCursor() ?? { line: 0, column: 0 };
+          range = rangeScope === 'statement'
+            ? getStatementRange(currentContent, cursor, currentLanguage)
+            : getRangeToCursor(currentContent, cursor, currentLanguage);
+        }
+      } catch (err) {
+        setError('❌ ' + (err instanceof Error ? err.message : String(err)));
+        return;
+      }
+    }
+    // El fragmento conserva sus líneas: errores y anotaciones apuntan a la pestaña
+    const runContent = range ? range.code : currentContent;
+
+    // Verificaciones básicas usando el servicio centralizado.
+    // El código puro o con DOM de una sola pestaña no espera al backend (QuickJS o el navegador)
+    const runsWithoutBackend = !projectMode && !replMode && currentLanguage !== 'html' &&
+      canRunWithoutBackend(runContent, currentLanguage, activeTab.runtime);
+    if (!executionServiceReady && !runsWithoutBackend) {
       if (isInitializing) {
         setError('⏳ Runner se está inicializando. Por favor, espera un momento...');
       } else if (!runner) {
@@ -190,14 +410,95 @@ function App() {
     setIsRunning(true);
     setOutput('');
     setError('');
+    setTestResults([]);
+    setBenchmarkResults([]);
+    setConsoleEntries([]);
+    setRuntimeError(null);
+    setModuleFormat(undefined);
+    setWasStopped(false);
+    setRunRange(range);
+    setLastRunOutput(null);
+    setDockTab('output');
+    manualRunRef.current = true;
+
+    // Variables de entorno del espacio de trabajo más las de la pestaña
+    const runEnv = getEnvironment(generateFileNameFromEditorLanguage(activeTab.name, activeTab.language));
 
     try {
+      // Las pestañas HTML se sirven en el contenedor y se muestran en la vista previa
+      if (currentLanguage === 'html') {
+        const assetFiles = tabs
+          .filter(tab => tab.id !== activeTab.id)
+          .map(tab => ({
+            path: generateFileNameFromEditorLanguage(tab.name, tab.language),
+            content: tab.content
+          }));
+
+        const result = await previewWebProject(currentContent, assetFiles, runEnv);
+        recordRun({
+          tabId: activeTab.id,
+          code: currentContent,
+          language: currentLanguage,
+          trigger: 'manual',
+          success: result.success,
+          output: result.output || '',
+          error: result.error
+        });
+        if (result.success) {
+          setOutput(result.output || '');
+        } else {
+          setError(result.error || 'No se pudo iniciar la vista previa');
+        }
+        return;
+      }
+
+      // En modo proyecto todas las pestañas se montan como archivos y la activa es la entrada
+      const entryFile = generateFileNameFromEditorLanguage(activeTab.name, currentLanguage);
+      const projectFiles = projectMode
+        ? tabs.map(tab => ({
+            path: generateFileNameFromEditorLanguage(tab.name, tab.language),
+            content: tab.id === activeTab.id ? currentContent : tab.content
+          }))
+        : undefined;
+
       // Usar el servicio centralizado que maneja detección de lenguaje y ejecución
-      const result = await executeCode(currentContent, activeTab.name, currentLanguage, {
-        useAutoExecution: autoExecutionEnabled && !!executeAutoNow
+      const result = await executeCode(runContent, activeTab.name, currentLanguage, {
+        useAutoExecution: autoExecutionEnabled && !!executeAutoNow && !replMode && !range,
+        filename: projectMode ? entryFile : undefined,
+        projectFiles,
+        stdin: activeTab.stdin || undefined,
+        loopGuard: activeTab.loopGuard,
+        runtime: activeTab.runtime,
+        env: runEnv,
+        dependencies: dependencyManifest.dependencies,
+        replSession: replMode ? activeTab.id : undefined,
+        selection: replMode && range ? range.code : undefined
+      });
+      
+      // Mostrar los valores registrados junto a cada línea (también si la ejecución falló)
+      editorRef.current?.setAnnotations(result.annotations || []);
+      showTestResults(result.tests);
+      setConsoleEntries(result.console || []);
+      setModuleFormat(result.moduleFormat);
+      setRuntimeError(result.errorDetails ? { details: result.errorDetails, tabId: activeTab.id, project: !!projectFiles } : null);
+      // Una ejecución parcial o detenida no produce la salida de la pestaña entera: no se compara con la esperada
+      setLastRunOutput(range || result.status === 'killed' ? null : { tabId: activeTab.id, output: result.output || '' });
+      recordRun({
+        tabId: activeTab.id,
+        code: range ? range.text : currentContent,
+        language: result.detectedLanguage || currentLanguage,
+        trigger: 'manual',
+        success: result.success,
+        output: result.output || '',
+        error: result.error,
+        duration: result.duration,
+        status: result.status
       });
       
-      if (result.success) {
+      if (result.status === 'killed') {
+        setOutput(result.output || '');
+        setWasStopped(true);
+      } else if (result.success) {
         setOutput(result.output || 'Code executed successfully');
         console.log('🔍 Lenguaje detectado:', result.detectedLanguage);
         if (result.detectedFramework) {
@@ -210,9 +511,161 @@ function App() {
       const errorMessage = err instanceof Error ? err.message : String(err);
       setError(errorMessage || 'Error durante la ejecución del código');
     } finally {
+      manualRunRef.current = false;
+      setIsRunning(false);
+    }
+  }, [activeTab, tabs, projectMode, executionServiceReady, canRunWithoutBackend, isInitializing, runner, retryInitialization, currentLanguage, executeCode, previewWebProject, recordRun, getEnvironment, dependencyManifest, autoExecutionEnabled, executeAutoNow, showTestResults]);
+
+  // Salida esperada (golden file) de la pestaña activa y resultado de compararla con la última ejecución
+  const activeGolden = activeTab?.golden ?? null;
+  const activeRunOutput = lastRunOutput && lastRunOutput.tabId === activeTab?.id ? lastRunOutput.output : null;
+  const goldenComparison = useMemo(
+    () => activeGolden && activeRunOutput !== null ? compareWithGolden(activeRunOutput, activeGolden) : null,
+    [activeGolden, activeRunOutput]
+  );
+
+  const handleGoldenChange = useCallback((golden: GoldenFile | null) => {
+    if (activeTab) {
+      updateTab(activeTab.id, { golden: golden ?? undefined });
+    }
+  }, [activeTab, updateTab]);
+
+  // Acepta la salida de la última ejecución como la nueva salida esperada (en el modo actual)
+  const handleAcceptGolden = useCallback(() => {
+    if (!activeTab || activeRunOutput === null) return;
+
+    try {
+      updateTab(activeTab.id, { golden: createGolden(activeRunOutput, activeGolden?.mode ?? 'exact') });
+    } catch (err) {
+      setError('❌ ' + (err instanceof Error ? err.message : String(err)));
+    }
+  }, [activeTab, activeRunOutput, activeGolden, updateTab]);
+
+  // Benchmark de la pestaña activa, o comparación de todas las pestañas JavaScript/TypeScript
+  const handleBenchmark = useCallback(async (scope: 'tab' | 'tabs') => {
+    const currentContent = editorRef.current?.getContent();
+    if (!activeTab || currentContent === undefined) return;
+    if (!executionServiceReady) {
+      setError('⏳ El servicio de ejecución no está listo todavía');
+      return;
+    }
+
+    const sources = (scope === 'tab' ? [activeTab] : tabs)
+      .filter(tab => tab.language === 'javascript' || tab.language === 'typescript')
+      .map(tab => ({
+        content: tab.id === activeTab.id ? currentContent : tab.content,
+        tabName: tab.name,
+        language: tab.language
+      }));
+    if (sources.length === 0) {
+      setError('Solo se pueden medir pestañas JavaScript o TypeScript');
+      return;
+    }
+
+    setIsRunning(true);
+    setOutput('');
+    setError('');
+    setBenchmarkResults([]);
+    setConsoleEntries([]);
+    setRuntimeError(null);
+    setModuleFormat(undefined);
+    showTestResults([]);
+    setWasStopped(false);
+    setRunRange(null);
+    setLastRunOutput(null);
+    setDockTab('output');
+    manualRunRef.current = true;
+
+    try {
+      const result = await executeBenchmarks(sources, {
+        env: getEnvironment(generateFileNameFromEditorLanguage(activeTab.name, activeTab.language))
+      });
+      editorRef.current?.setAnnotations([]);
+      setBenchmarkResults(result.benchmarks || []);
+      setOutput(result.output || '');
+      if (result.status === 'killed') {
+        setWasStopped(true);
+      } else if (!result.success) {
+        setError(result.error || 'Error durante el benchmark');
+      }
+    } finally {
+      manualRunRef.current = false;
       setIsRunning(false);
     }
-  }, [activeTab, executionServiceReady, isInitializing, runner, retryInitialization, currentLanguage, executeCode, autoExecutionEnabled, executeAutoNow]);
+  }, [activeTab, tabs, executionServiceReady, executeBenchmarks, getEnvironment, showTestResults]);
+
+  const handleSendInput = useCallback((text: string) => {
+    sendInput(text).then(sent => {
+      if (!sent) {
+        console.warn('⚠️ No hay un proceso esperando entrada');
+      }
+    });
+  }, [sendInput]);
+
+  const handleStdinFixtureChange = useCallback((stdin: string) => {
+    if (activeTab) {
+      updateTab(activeTab.id, { stdin });
+    }
+  }, [activeTab, updateTab]);
+
+  const handleDependencyManifestChange = useCallback((dependencies: string) => {
+    if (activeTab) {
+      updateTab(activeTab.id, { dependencies });
+    }
+  }, [activeTab, updateTab]);
+
+  // Paquetes que se instalarán al ejecutar la pestaña, con la versión resuelta de cada uno
+  const dependencyAnalysis = useMemo(() => {
+    if (activeTab?.language !== 'javascript' && activeTab?.language !== 'typescript') {
+      return null;
+    }
+    return analyzeDependencies(activeTab.content, dependencyManifest.dependencies);
+  }, [activeTab?.content, activeTab?.language, dependencyManifest]);
+
+  // La auto-ejecución usa la misma entrada predefinida que la pestaña
+  useEffect(() => {
+    if (autoExecutionManager && activeTab) {
+      autoExecutionManager.setStdinFixture(
+        generateFileNameFromEditorLanguage(activeTab.name, activeTab.language),
+        activeTab.stdin
+      );
+    }
+  }, [autoExecutionManager, activeTab]);
+
+  // Y las mismas versiones de paquetes
+  useEffect(() => {
+    if (autoExecutionManager && activeTab) {
+      autoExecutionManager.setDependencies(
+        generateFileNameFromEditorLanguage(activeTab.name, activeTab.language),
+        dependencyManifest.dependencies
+      );
+    }
+  }, [autoExecutionManager, activeTab, dependencyManifest]);
+
+  // Variables de entorno de la pestaña también en la auto-ejecución
+  useEffect(() => {
+    if (autoExecutionManager && activeTab) {
+      const filePath = generateFileNameFromEditorLanguage(activeTab.name, activeTab.language);
+      autoExecutionManager.setEnvironment(filePath, getEnvironment(filePath));
+    }
+  }, [autoExecutionManager, activeTab, getEnvironment]);
+
+  // Las del espacio de trabajo llegan a la terminal, npm y el servidor de vista previa
+  useEffect(() => {
+    if (runner instanceof WebContainerRunner) {
+      runner.setEnvironment(workspaceVariables);
+    }
+  }, [runner, workspaceVariables]);
+
+  // La protección contra bucles infinitos se configura por pestaña
+  useEffect(() => {
+    if (autoExecutionManager && activeTab) {
+      autoExecutionManager.setLoopGuard(
+        generateFileNameFromEditorLanguage(activeTab.name, activeTab.language),
+        activeTab.loopGuard
+      );
+    }
+  }, [autoExecutionManager, activeTab]);
 
   // Memoizar el estado del runner para evitar re-renders
   const runnerStatus = useMemo(() => ({
@@ -227,9 +680,15 @@ function App() {
     [activeTab, currentLanguage]
   );
 
+  // Archivo con el que se guardan los ajustes por pestaña (entrada, entorno...)
+  const activeTabFile = useMemo(() =>
+    activeTab ? generateFileNameFromEditorLanguage(activeTab.name, activeTab.language) : '',
+    [activeTab]
+  );
+
   // Actions para el FloatingToolbar (memoizado de forma estable para evitar re-renders)
   const actionPanelData = useMemo(() => ({
-    onRunCode: handleRunCode,
+    onRunCode: () => handleRunCode(),
     onStopCode: handleStopCode,
     onSaveFile: handleSaveFile,
     onToggleAutoExecution: toggleAutoExecution,
@@ -283,10 +742,44 @@ function App() {
       action: () => handleRunCode(),
       shortcut: 'Ctrl+Enter',
       visible: true,
-      disabled: isRunning || !runner || isInitializing || (runner && !runner.isReady()),
+      // Pure snippets run in QuickJS while the backend boots; handleRunCode explains what has to wait
+      disabled: isRunning,
       tooltip: 'Execute the current code'
     });
     
+    // Add partial run tools (statement boundaries come from the parser, so JavaScript/TypeScript only)
+    const parsedLanguage = activeTab.language === 'javascript' || activeTab.language === 'typescript';
+    tools.push({
+      id: 'run-selection',
+      icon: '▷',
+      label: 'Run Selection',
+      action: () => handleRunCode('selection'),
+      shortcut: 'Ctrl+Shift+Enter',
+      visible: hasSelection && activeTab.language !== 'html',
+      disabled: isRunning || projectMode,
+      tooltip: 'Execute only the selected text'
+    });
+    tools.push({
+      id: 'run-statement',
+      icon: '⤵',
+      label: 'Run Statement at Cursor',
+      action: () => handleRunCode('statement'),
+      shortcut: 'Alt+Enter',
+      visible: parsedLanguage,
+      disabled: isRunning || projectMode,
+      tooltip: 'Execute the top-level statement or function block under the cursor'
+    });
+    tools.push({
+      id: 'run-to-cursor',
+      icon: '⇥',
+      label: 'Run to Cursor',
+      action: () => handleRunCode('to-cursor'),
+      shortcut: 'Ctrl+Alt+Enter',
+      visible: parsedLanguage,
+      disabled: isRunning || projectMode,
+      tooltip: 'Execute everything from the start of the tab through the statement under the cursor'
+    });
+    
     // Add auto-execution toggle
     tools.push({
       id: 'auto-execution',
@@ -301,6 +794,160 @@ function App() {
       tooltip: autoExecutionEnabled ? 'Disable automatic code execution' : 'Enable automatic code execution'
     });
     
+    // Add project mode toggle
+    tools.push({
+      id: 'project-mode',
+      icon: projectMode ? '📂' : '📄',
+      label: projectMode ? 'Run Single File' : 'Run as Project',
+      action: () => setProjectMode(!projectMode),
+      visible: true,
+      disabled: false,
+      tooltip: projectMode
+        ? 'Run only the active tab'
+        : 'Mount every tab as a project file and run the active tab as entry point'
+    });
+    
+    // Add loop guard setting for the active tab (auto-execution only -> on -> off)
+    const loopGuardModes = {
+      auto: { icon: '🛡️', label: 'Loop Guard: Auto-execution', next: true },
+      on: { icon: '🛡️', label: 'Loop Guard: On', next: false },
+      off: { icon: '🔓', label: 'Loop Guard: Off', next: undefined }
+    };
+    const loopGuardMode = loopGuardModes[
+      activeTab.loopGuard === undefined ? 'auto' : activeTab.loopGuard ? 'on' : 'off'
+    ];
+    tools.push({
+      id: 'loop-guard',
+      icon: loopGuardMode.icon,
+      label: loopGuardMode.label,
+      action: () => updateTab(activeTab.id, { loopGuard: loopGuardMode.next }),
+      visible: true,
+      disabled: false,
+      tooltip: 'Abort infinite loops and recursion in this tab with the line that caused them'
+    });
+    
+    // Add runtime setting for the active tab (detected from the code -> Node -> browser sandbox -> QuickJS)
+    const runtimeModes = {
+      auto: { icon: '🧭', label: 'Runtime: Auto-detect', next: 'node' as const },
+      node: { icon: '🟢', label: 'Runtime: Node', next: 'browser' as const },
+      browser: { icon: '🌐', label: 'Runtime: Browser Sandbox', next: 'quickjs' as const },
+      quickjs: { icon: '⚡', label: 'Runtime: QuickJS', next: undefined }
+    };
+    const runtimeMode = runtimeModes[activeTab.runtime || 'auto'];
+    tools.push({
+      id: 'runtime',
+      icon: runtimeMode.icon,
+      label: runtimeMode.label,
+      action: () => updateTab(activeTab.id, { runtime: runtimeMode.next }),
+      visible: activeTab.language === 'javascript' || activeTab.language === 'typescript',
+      disabled: false,
+      tooltip: 'Run this tab under Node, in a sandboxed browser page or in QuickJS (auto-detect picks the browser for DOM code and QuickJS for code without imports)'
+    });
+    
+    // Add REPL session controls (a long-lived Node process per tab needs WebContainer)
+    const replAvailable = !!webContainerRunner &&
+      (activeTab.language === 'javascript' || activeTab.language === 'typescript');
+    const replSession = replSessions.sessions[activeTab.id];
+    tools.push({
+      id: 'repl',
+      icon: activeTab.repl ? '🔁' : '↪️',
+      label: activeTab.repl ? 'REPL Mode: On' : 'REPL Mode: Off',
+      action: () => {
+        if (activeTab.repl) {
+          replSessions.closeSession(activeTab.id);
+        }
+        updateTab(activeTab.id, { repl: !activeTab.repl });
+      },
+      visible: replAvailable,
+      disabled: false,
+      tooltip: 'Keep this tab\'s variables alive between runs and evaluate only the changed statements (or the selection)'
+    });
+    tools.push({
+      id: 'repl-reset',
+      icon: '🧹',
+      label: 'Reset Session',
+      action: () => replSessions.resetSession(activeTab.id),
+      visible: replAvailable && !!activeTab.repl,
+      disabled: !replSession || replSession.status !== 'idle',
+      tooltip: 'Forget every variable of the REPL session; the next run evaluates the whole tab'
+    });
+    tools.push({
+      id: 'repl-restart',
+      icon: '♻️',
+      label: 'Restart Session',
+      action: () => replSessions.restartSession(activeTab.id),
+      visible: replAvailable && !!activeTab.repl,
+      disabled: !replSession,
+      tooltip: 'Replace the REPL session\'s Node process (stops whatever it is running)'
+    });
+    
+    // Add golden file command (the last full run's output becomes the tab's expected output)
+    tools.push({
+      id: 'accept-golden',
+      icon: '🎯',
+      label: 'Accept Output as Golden',
+      action: handleAcceptGolden,
+      visible: true,
+      disabled: isRunning || activeRunOutput === null,
+      tooltip: 'Save the output of the last run as the expected output of this tab; later runs are checked against it'
+    });
+    
+    // Add benchmark tools (the active tab, or every JavaScript/TypeScript tab compared)
+    tools.push({
+      id: 'benchmark',
+      icon: '⏱️',
+      label: 'Benchmark',
+      action: () => handleBenchmark('tab'),
+      visible: true,
+      disabled: isRunning || !runner || isInitializing || (runner && !runner.isReady()),
+      tooltip: 'Time the // @bench functions of this tab (or the whole tab) and report ops/sec'
+    });
+    tools.push({
+      id: 'benchmark-tabs',
+      icon: '📊',
+      label: 'Compare Tabs',
+      action: () => handleBenchmark('tabs'),
+      visible: tabs.length > 1,
+      disabled: isRunning || !runner || isInitializing || (runner && !runner.isReady()),
+      tooltip: 'Benchmark every JavaScript/TypeScript tab and rank them'
+    });
+    
+    // Add environment variables editor
+    tools.push({
+      id: 'environment',
+      icon: '🔑',
+      label: 'Environment Variables',
+      action: () => setShowEnvironmentEditor(true),
+      visible: true,
+      disabled: false,
+      tooltip: 'Edit the .env variables of the workspace and of this tab'
+    });
+    
+    // Add workspace snapshot export/import (the container file system only exists with WebContainer)
+    tools.push({
+      id: 'workspace-snapshot',
+      icon: '💾',
+      label: 'Workspace Snapshot',
+      action: () => setShowSnapshotPanel(true),
+      visible: !!webContainerRunner,
+      disabled: !runner || isInitializing || (runner && !runner.isReady()),
+      tooltip: 'Export the container file system to a file or restore one'
+    });
+    
+    // Add npm package cache management
+    tools.push({
+      id: 'package-cache',
+      icon: '📦',
+      label: 'Package Cache',
+      action: () => {
+        setShowPackageCache(true);
+        refreshPackageCache();
+      },
+      visible: !!packageCache,
+      disabled: false,
+      tooltip: 'List the cached npm packages that repeat installs use, and evict them'
+    });
+    
     // Add auto-execution panel toggle
     tools.push({
       id: 'auto-execution-panel',
@@ -312,6 +959,17 @@ function App() {
       tooltip: 'Show/hide auto-execution panel'
     });
 
+    // Add execution backend settings
+    tools.push({
+      id: 'runner-backend',
+      icon: backend === 'native' ? '🟩' : '🧊',
+      label: 'Execution Backend',
+      action: () => setShowRunnerSettings(true),
+      visible: true,
+      disabled: false,
+      tooltip: 'Choose between WebContainer and the native Node.js backend'
+    });
+
     // Add debug auto-execution button (temporary)
     tools.push({
       id: 'debug-auto-execution',
@@ -388,12 +1046,10 @@ function App() {
       id: 'preview',
       icon: '👁️',
       label: 'Preview',
-      action: () => {
-        console.log('Preview');
-      },
+      action: () => setDockTab('preview'),
       visible: true,
       disabled: false,
-      tooltip: 'Preview'
+      tooltip: 'Show preview'
     });
     
     // Add copy tool
@@ -427,7 +1083,7 @@ function App() {
     });
     
     return tools;
-  }, [activeTab, isRunning, runner, isInitializing, autoExecutionEnabled, handleRunCode, toggleAutoExecution, showAutoExecutionPanel, autoExecutionManager, autoExecutionStatus, executeAutoNow]);
+  }, [activeTab, tabs.length, hasSelection, isRunning, runner, webContainerRunner, replSessions, packageCache, refreshPackageCache, backend, isInitializing, autoExecutionEnabled, projectMode, handleRunCode, handleBenchmark, handleAcceptGolden, activeRunOutput, toggleAutoExecution, updateTab, showAutoExecutionPanel, autoExecutionManager, autoExecutionStatus, executeAutoNow]);
 
   return (
     <div className="app">
@@ -443,6 +1099,15 @@ function App() {
           />
         </div>
         <div className="header-right">
+          {activeTab?.repl && (
+            <ExecutionStatusIndicator
+              compact
+              status={autoExecutionStatus}
+              progress={autoExecutionProgress}
+              isEnabled={autoExecutionEnabled}
+              session={replSessions.sessions[activeTab.id] ?? null}
+            />
+          )}
           <div className="status-indicator">
             <span className="status-dot"></span>
             <span>{tabs.length} pestaña{tabs.length !== 1 ? 's' : ''}</span>
@@ -461,19 +1126,74 @@ function App() {
               onSelectionChange={setHasSelection}
               onCursorMove={setCursorPosition}
               onFocusChange={setEditorFocused}
-              onRunCode={handleRunCode}
+              onRunCode={() => handleRunCode()}
+              onRunRange={handleRunCode}
             />
           }
           rightPanel={
-            <ResultsPanel
-              output={output}
-              error={error}
-              isRunning={isRunning}
-              isInitializing={isInitializing}
-              initError={initError}
-              onRetry={retryInitialization}
-              onHardReset={hardReset}
-              onClear={handleClearError}
+            <DockPanel
+              activeTab={dockTab}
+              onTabChange={setDockTab}
+              tabs={[
+                {
+                  id: 'output',
+                  label: 'Output',
+                  icon: '▶',
+                  content: (
+                    <ResultsPanel
+                      output={output}
+                      liveOutput={liveOutput}
+                      error={error}
+                      tests={testResults}
+                      benchmarks={benchmarkResults}
+                      onSelectLine={handleSelectLine}
+                      consoleEntries={consoleEntries}
+                      moduleFormat={moduleFormat}
+                      errorDetails={runtimeError ? {
+                        type: 'runtime',
+                        source: runtimeError.details.source,
+                        line: runtimeError.details.line,
+                        column: runtimeError.details.column,
+                        frames: runtimeError.details.frames
+                      } : undefined}
+                      onSelectFrame={handleSelectFrame}
+                      wasStopped={wasStopped}
+                      runRange={runRange}
+                      golden={activeGolden}
+                      goldenComparison={goldenComparison}
+                      onGoldenChange={activeTab ? handleGoldenChange : undefined}
+                      onAcceptGolden={activeRunOutput !== null ? handleAcceptGolden : undefined}
+                      onSendInput={handleSendInput}
+                      stdinFixture={activeTab?.stdin}
+                      onStdinFixtureChange={handleStdinFixtureChange}
+                      dependencyManifest={activeTab?.dependencies}
+                      onDependencyManifestChange={handleDependencyManifestChange}
+                      resolvedDependencies={dependencyAnalysis?.dependencies}
+                      dependencyErrors={[...dependencyManifest.errors, ...(dependencyAnalysis?.errors || [])]}
+                      history={activeTab ? getHistory(activeTab.id) : []}
+                      onClearHistory={activeTab ? () => clearHistory(activeTab.id) : undefined}
+                      isRunning={isRunning}
+                      isInitializing={isInitializing}
+                      initError={initError}
+                      onRetry={retryInitialization}
+                      onHardReset={hardReset}
+                      onClear={handleClearError}
+                    />
+                  )
+                },
+                {
+                  id: 'terminal',
+                  label: 'Terminal',
+                  icon: '$',
+                  content: <TerminalPanel runner={webContainerRunner} isActive={dockTab === 'terminal'} />
+                },
+                {
+                  id: 'preview',
+                  label: 'Preview',
+                  icon: '👁',
+                  content: <PreviewPanel runner={webContainerRunner} onServerReady={() => setDockTab('preview')} />
+                }
+              ]}
             />
           }
           defaultSplitRatio={splitRatio}
@@ -567,6 +1287,75 @@ function App() {
         </div>
       )}
 
+      {showRunnerSettings && (
+        <div className="settings-overlay">
+          <div className="settings-overlay-backdrop" onClick={() => setShowRunnerSettings(false)} />
+          <div className="settings-overlay-content">
+            <RunnerSettings
+              preference={backendPreference}
+              activeBackend={backend}
+              isNativeAvailable={isNativeAvailable}
+              isSwitching={isInitializing}
+              onChange={setBackendPreference}
+              onClose={() => setShowRunnerSettings(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {showEnvironmentEditor && activeTab && (
+        <div className="settings-overlay">
+          <div className="settings-overlay-backdrop" onClick={() => setShowEnvironmentEditor(false)} />
+          <div className="settings-overlay-content">
+            <EnvironmentEditor
+              fileName={activeTabFile}
+              workspaceEnv={workspaceEnv}
+              fileEnv={getFileEnv(activeTabFile)}
+              onWorkspaceEnvChange={setWorkspaceEnv}
+              onFileEnvChange={text => setFileEnv(activeTabFile, text)}
+              onClose={() => setShowEnvironmentEditor(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {showSnapshotPanel && webContainerRunner && (
+        <div className="settings-overlay">
+          <div className="settings-overlay-backdrop" onClick={() => setShowSnapshotPanel(false)} />
+          <div className="settings-overlay-content">
+            <WorkspaceSnapshotPanel
+              isBusy={workspaceSnapshot.isBusy}
+              error={workspaceSnapshot.error}
+              lastImported={workspaceSnapshot.lastImported}
+              mountsOnBoot={workspaceSnapshot.mountsOnBoot}
+              onExport={workspaceSnapshot.exportSnapshot}
+              onImport={workspaceSnapshot.importSnapshot}
+              onClearBootSnapshot={workspaceSnapshot.clearBootSnapshot}
+              onClose={() => setShowSnapshotPanel(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {showPackageCache && (
+        <div className="settings-overlay">
+          <div className="settings-overlay-backdrop" onClick={() => setShowPackageCache(false)} />
+          <div className="settings-overlay-content">
+            <PackageCachePanel
+              packages={packageCacheState.packages}
+              totalSize={packageCacheState.totalSize}
+              backend={backend}
+              isLoading={packageCacheState.isLoading}
+              error={packageCacheState.error}
+              onEvict={packageCacheState.evict}
+              onClear={packageCacheState.clear}
+              onRefresh={packageCacheState.refresh}
+              onClose={() => setShowPackageCache(false)}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Stagewise Toolbar - Solo en modo desarrollo */}
       <StagewiseToolbar
         config={{
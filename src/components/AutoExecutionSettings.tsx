@@ -30,7 +30,7 @@ const DEFAULT_SETTINGS: SettingsState = {
     dependencyResolution: true
   },
   debounceDelay: 1000,
-  watchPatterns: ['**/*.js', '**/*.ts', '**/*.jsx', '**/*.tsx'],
+  watchPatterns: ['**/*.js', '**/*.ts', '**/*.jsx', '**/*.tsx', '**/*.py'],
   ignorePatterns: ['**/node_modules/**', '**/dist/**', '**/.git/**'],
   maxRetries: 3,
   maxQueueSize: 50
@@ -63,7 +63,7 @@ export const AutoExecutionSettings: React.FC<AutoExecutionSettingsProps> = ({
         dependencyResolution: true
       },
       debounceDelay: 1000,
-      watchPatterns: ['**/*.js', '**/*.ts', '**/*.jsx', '**/*.tsx'],
+      watchPatterns: ['**/*.js', '**/*.ts', '**/*.jsx', '**/*.tsx', '**/*.py'],
       ignorePatterns: ['**/node_modules/**', '**/dist/**', '**/.git/**'],
       maxRetries: 3,
       maxQueueSize: 50
@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import type { BenchmarkResult } from '../../core/runner/types.js';
+import { rankBenchmarks } from '../../core/runner/babel/BenchmarkPlugin.js';
+import './BenchmarkTable.css';
+
+export interface BenchmarkTableProps {
+  benchmarks: BenchmarkResult[];
+  className?: string;
+}
+
+// Per-call times range from nanoseconds to seconds
+function formatTime(ms: number): string {
+  if (ms >= 1000) return `${(ms / 1000).toFixed(2)} s`;
+  if (ms >= 1) return `${ms.toFixed(2)} ms`;
+  if (ms >= 0.001) return `${(ms * 1000).toFixed(2)} µs`;
+  return `${(ms * 1e6).toFixed(1)} ns`;
+}
+
+function formatOps(ops: number): string {
+  return Math.round(ops).toLocaleString('en-US');
+}
+
+export const BenchmarkTable: React.FC<BenchmarkTableProps> = ({ benchmarks, className = '' }) => {
+  const ranked = useMemo(() => rankBenchmarks(benchmarks), [benchmarks]);
+  const fastest = ranked[0]?.ops || 0;
+
+  return (
+    <div className={`benchmark-table ${className}`}>
+      <table>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Candidate</th>
+            <th>ops/sec</th>
+            <th>mean ± sd</th>
+            <th>p50</th>
+            <th>p75</th>
+            <th>p99</th>
+            <th>samples</th>
+            {ranked.length > 1 && <th>vs fastest</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {ranked.map((result, index) => (
+            <tr
+              key={`${result.name}-${result.line}-${index}`}
+              className={result.error ? 'benchmark-table__row--failed' : result.rank === 1 ? 'benchmark-table__row--fastest' : ''}
+            >
+              <td>{result.rank ?? '—'}</td>
+              <td className="benchmark-table__name" title={result.line ? `Line ${result.line}` : undefined}>
+                {result.name}
+              </td>
+              {result.error ? (
+                <td className="benchmark-table__error" colSpan={ranked.length > 1 ? 7 : 6}>{result.error}</td>
+              ) : (
+                <>
+                  <td className="benchmark-table__ops">
+                    {formatOps(result.ops)}
+                    {ranked.length > 1 && (
+                      <span className="benchmark-table__bar" style={{ width: `${(result.ops / fastest) * 100}%` }} />
+                    )}
+                  </td>
+                  <td>
+                    {formatTime(result.mean)} ± {result.mean > 0 ? ((result.sd / result.mean) * 100).toFixed(1) : '0.0'}%
+                  </td>
+                  <td>{formatTime(result.p50)}</td>
+                  <td>{formatTime(result.p75)}</td>
+                  <td>{formatTime(result.p99)}</td>
+                  <td>{result.samples}</td>
+                  {ranked.length > 1 && (
+                    <td>{result.rank === 1 ? 'fastest' : `${(result.relative ?? 1).toFixed(2)}× slower`}</td>
+                  )}
+                </>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default BenchmarkTable;
@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import type { ConsoleEntry, ConsoleTable } from '../../core/runner/types.js';
+import { ObjectInspector } from './ObjectInspector';
+import { buildConsoleTree, filterConsoleTree, formatInspectedValue, type ConsoleNode } from '../utils/ConsoleEntries';
+import './ConsoleOutput.css';
+
+export interface ConsoleOutputProps {
+  entries: ConsoleEntry[];
+  /** Only entries containing this text (and the groups around them) are shown */
+  query?: string;
+  /** Jumps to the line of a console call in the editor */
+  onSelectLine?: (line: number) => void;
+  className?: string;
+}
+
+const LEVEL_ICONS: Partial<Record<ConsoleEntry['level'], string>> = {
+  warn: '⚠',
+  error: '✗',
+  assert: '✗',
+  info: 'ℹ'
+};
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString()}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+}
+
+const TableView: React.FC<{ table: ConsoleTable }> = ({ table }) => (
+  <table className="console-output__table">
+    <thead>
+      <tr>
+        <th>(index)</th>
+        {table.columns.map(column => <th key={column}>{column}</th>)}
+      </tr>
+    </thead>
+    <tbody>
+      {table.rows.map((row, index) => (
+        <tr key={`${row.key}-${index}`}>
+          <td>{row.key}</td>
+          {table.columns.map(column => (
+            <td key={column}>{row.cells[column] ? formatInspectedValue(row.cells[column]) : ''}</td>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+export const ConsoleOutput: React.FC<ConsoleOutputProps> = ({ entries, query = '', onSelectLine, className = '' }) => {
+  const tree = useMemo(() => buildConsoleTree(entries), [entries]);
+  const shown = useMemo(() => filterConsoleTree(tree, query), [tree, query]);
+
+  const renderCallSite = (entry: ConsoleEntry) => {
+    if (entry.line) {
+      return (
+        <button
+          className="console-output__site"
+          onClick={() => onSelectLine?.(entry.line!)}
+          disabled={!onSelectLine}
+          title={formatTime(entry.timestamp)}
+        >
+          line {entry.line}
+        </button>
+      );
+    }
+    return (
+      <span className="console-output__site" title={formatTime(entry.timestamp)}>
+        {entry.source || ''}
+      </span>
+    );
+  };
+
+  const renderArgs = (entry: ConsoleEntry) => (
+    <div className="console-output__args">
+      {entry.args.map((arg, index) => (
+        <ObjectInspector key={index} value={arg} topLevel defaultExpanded={entry.level === 'dir'} />
+      ))}
+    </div>
+  );
+
+  const renderNode = (node: ConsoleNode, index: number): React.ReactNode => {
+    const { entry } = node;
+
+    if (entry.level === 'group') {
+      return (
+        <li key={index} className="console-output__group">
+          <details open={!entry.collapsed || !!query.trim() || undefined}>
+            <summary className="console-output__entry console-output__entry--group">
+              {renderArgs(entry)}
+              {renderCallSite(entry)}
+            </summary>
+            <ul className="console-output__list">{node.children.map(renderNode)}</ul>
+          </details>
+        </li>
+      );
+    }
+
+    return (
+      <li key={index} className={`console-output__entry console-output__entry--${entry.level}`}>
+        <span className="console-output__icon">{LEVEL_ICONS[entry.level] || ''}</span>
+        <div className="console-output__body">
+          {entry.table ? <TableView table={entry.table} /> : renderArgs(entry)}
+          {entry.stack && <pre className="console-output__stack">{entry.stack}</pre>}
+        </div>
+        {renderCallSite(entry)}
+      </li>
+    );
+  };
+
+  return (
+    <div className={`console-output ${className}`}>
+      {shown.length > 0
+        ? <ul className="console-output__list">{shown.map(renderNode)}</ul>
+        : <div className="console-output__empty">No console output matches “{query}”</div>}
+    </div>
+  );
+};
+
+export default ConsoleOutput;
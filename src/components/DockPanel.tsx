@@ -0,0 +1,58 @@
+import React from 'react';
+import './DockPanel.css';
+
+export interface DockPanelTab {
+  id: string;
+  label: string;
+  icon?: string;
+  content: React.ReactNode;
+}
+
+export interface DockPanelProps {
+  tabs: DockPanelTab[];
+  activeTab: string;
+  onTabChange: (id: string) => void;
+  className?: string;
+}
+
+/**
+ * Tabbed container for the right side of the SplitView.
+ * Every tab stays mounted so hidden panels (e.g. terminals) keep their state.
+ */
+export const DockPanel: React.FC<DockPanelProps> = ({
+  tabs,
+  activeTab,
+  onTabChange,
+  className = ''
+}) => {
+  return (
+    <div className={`dock-panel ${className}`}>
+      <div className="dock-panel__tabs" role="tablist">
+        {tabs.map(tab => (
+          <button
+            key={tab.id}
+            role="tab"
+            aria-selected={tab.id === activeTab}
+            className={`dock-panel__tab ${tab.id === activeTab ? 'dock-panel__tab--active' : ''}`}
+            onClick={() => onTabChange(tab.id)}
+          >
+            {tab.icon && <span className="dock-panel__tab-icon">{tab.icon}</span>}
+            <span>{tab.label}</span>
+          </button>
+        ))}
+      </div>
+      {tabs.map(tab => (
+        <div
+          key={tab.id}
+          role="tabpanel"
+          className="dock-panel__content"
+          hidden={tab.id !== activeTab}
+        >
+          {tab.content}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DockPanel;
@@ -1,5 +1,8 @@
-import { useRef, useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
+import React, { useRef, useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
 import { EditorComponent, EditorComponentRef, LanguageType, Position, Selection } from '../../core/editor';
+import type { RunScope } from '../../core/runner/babel/RunRange.js';
+import { useContextMenu, type ContextMenuItem } from '../hooks/useContextMenu';
+import ContextMenu from './ContextMenu';
 import './EditorPanel.css';
 
 export interface EditorPanelProps {
@@ -15,6 +18,8 @@ export interface EditorPanelProps {
   onCursorMove?: (position: Position) => void;
   onFocusChange?: (focused: boolean) => void;
   onRunCode?: () => void;
+  /** Runs part of the tab: the selection, the statement under the cursor or up to the cursor */
+  onRunRange?: (scope: RunScope) => void;
   className?: string;
 }
 
@@ -25,6 +30,7 @@ export const EditorPanel = forwardRef<EditorComponentRef, EditorPanelProps>(({
   onCursorMove,
   onFocusChange,
   onRunCode,
+  onRunRange,
   className = ''
 }, ref) => {
   const editorRef = useRef<EditorComponentRef>(null);
@@ -34,13 +40,17 @@ export const EditorPanel = forwardRef<EditorComponentRef, EditorPanelProps>(({
     focus: () => editorRef.current?.focus(),
     getContent: () => editorRef.current?.getContent() || '',
     setContent: (content: string) => editorRef.current?.setContent(content),
-    getEditor: () => editorRef.current?.getEditor() || null
+    getEditor: () => editorRef.current?.getEditor() || null,
+    setAnnotations: (annotations) => editorRef.current?.setAnnotations(annotations),
+    setTestMarkers: (markers) => editorRef.current?.setTestMarkers(markers),
+    setRuntimeError: (marker) => editorRef.current?.setRuntimeError(marker)
   }), []);
   const containerRef = useRef<HTMLDivElement>(null);
   const [editorFocused, setEditorFocused] = useState(false);
   const [hasSelection, setHasSelection] = useState(false);
   const [cursorPosition, setCursorPosition] = useState<Position>({ line: 1, column: 1 });
   const [panelWidth, setPanelWidth] = useState(0);
+  const { contextMenu, showContextMenu, hideContextMenu } = useContextMenu();
 
   // Handle editor focus management
   const handleEditorFocus = useCallback(() => {
@@ -53,6 +63,66 @@ export const EditorPanel = forwardRef<EditorComponentRef, EditorPanelProps>(({
     onFocusChange?.(false);
   }, [onFocusChange]);
 
+  // Run shortcuts are caught before CodeMirror, whose Mod-Enter inserts a blank line
+  const handleRunShortcut = useCallback((event: React.KeyboardEvent) => {
+    if (event.key !== 'Enter') return;
+
+    const mod = event.ctrlKey || event.metaKey;
+    let run: (() => void) | undefined;
+    if (mod && event.altKey) {
+      run = onRunRange && (() => onRunRange('to-cursor'));
+    } else if (event.altKey && !event.shiftKey) {
+      run = onRunRange && (() => onRunRange('statement'));
+    } else if (mod && event.shiftKey) {
+      run = onRunRange && (() => onRunRange('selection'));
+    } else if (mod) {
+      run = onRunCode;
+    }
+
+    if (run) {
+      event.preventDefault();
+      event.stopPropagation();
+      run();
+    }
+  }, [onRunCode, onRunRange]);
+
+  const handleContextMenu = useCallback((event: React.MouseEvent) => {
+    if (!onRunCode && !onRunRange) return;
+
+    const parsed = activeTab?.language === 'javascript' || activeTab?.language === 'typescript';
+    const items: ContextMenuItem[] = [];
+    if (onRunCode) {
+      items.push({ id: 'run-code', label: 'Run Code', action: onRunCode, shortcut: 'Ctrl+Enter' });
+    }
+    if (onRunRange) {
+      items.push(
+        { id: 'separator', label: '', action: () => {}, separator: true },
+        {
+          id: 'run-selection',
+          label: 'Run Selection',
+          action: () => onRunRange('selection'),
+          shortcut: 'Ctrl+Shift+Enter',
+          disabled: !hasSelection
+        },
+        {
+          id: 'run-statement',
+          label: 'Run Statement at Cursor',
+          action: () => onRunRange('statement'),
+          shortcut: 'Alt+Enter',
+          disabled: !parsed
+        },
+        {
+          id: 'run-to-cursor',
+          label: 'Run to Cursor',
+          action: () => onRunRange('to-cursor'),
+          shortcut: 'Ctrl+Alt+Enter',
+          disabled: !parsed
+        }
+      );
+    }
+    showContextMenu(event, items);
+  }, [activeTab?.language, hasSelection, onRunCode, onRunRange, showContextMenu]);
+
   // Handle selection changes
   const handleSelectionChange = useCallback((selection: Selection | null) => {
     const hasSelectionValue = selection !== null && selection.from !== selection.to;
@@ -126,6 +196,8 @@ export const EditorPanel = forwardRef<EditorComponentRef, EditorPanelProps>(({
           className="editor-panel__editor-wrapper"
           onFocus={handleEditorFocus}
           onBlur={handleEditorBlur}
+          onKeyDownCapture={handleRunShortcut}
+          onContextMenu={handleContextMenu}
           tabIndex={-1}
         >
           <EditorComponent
@@ -151,6 +223,14 @@ export const EditorPanel = forwardRef<EditorComponentRef, EditorPanelProps>(({
         {/* Focus overlay for better visual feedback */}
         {editorFocused && <div className="editor-panel__focus-overlay" />}
       </div>
+
+      <ContextMenu
+        visible={contextMenu.visible}
+        x={contextMenu.x}
+        y={contextMenu.y}
+        items={contextMenu.items}
+        onClose={hideContextMenu}
+      />
     </div>
   );
 });
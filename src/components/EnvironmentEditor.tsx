@@ -0,0 +1,181 @@
+import React, { useState, useMemo } from 'react';
+import { parseEnvFile, isSecretEnvKey, maskEnvValue } from '../utils/EnvFile';
+import './EnvironmentEditor.css';
+
+export interface EnvironmentEditorProps {
+  /** File name of the active tab, e.g. 'main.js' */
+  fileName: string;
+  workspaceEnv: string;
+  fileEnv: string;
+  onWorkspaceEnvChange: (text: string) => void;
+  onFileEnvChange: (text: string) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+type EnvironmentScope = 'workspace' | 'file';
+
+export const EnvironmentEditor: React.FC<EnvironmentEditorProps> = ({
+  fileName,
+  workspaceEnv,
+  fileEnv,
+  onWorkspaceEnvChange,
+  onFileEnvChange,
+  onClose,
+  className = ''
+}) => {
+  const [scope, setScope] = useState<EnvironmentScope>('workspace');
+  const [draft, setDraft] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+
+  const text = scope === 'workspace' ? workspaceEnv : fileEnv;
+  const { variables, errors } = useMemo(() => parseEnvFile(draft ?? text), [draft, text]);
+  const workspaceKeys = useMemo(() => new Set(Object.keys(parseEnvFile(workspaceEnv).variables)), [workspaceEnv]);
+  const entries = Object.entries(variables);
+
+  const switchScope = (next: EnvironmentScope) => {
+    setScope(next);
+    setDraft(null);
+    setRevealed(new Set());
+  };
+
+  const toggleReveal = (key: string) => {
+    setRevealed(current => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    if (draft === null) {
+      return;
+    }
+    if (scope === 'workspace') {
+      onWorkspaceEnvChange(draft);
+    } else {
+      onFileEnvChange(draft);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className={`environment-editor ${className}`}>
+      <div className="environment-editor__header">
+        <h3>Environment Variables</h3>
+        {onClose && (
+          <button className="environment-editor__close" onClick={onClose} title="Close">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div className="environment-editor__scopes" role="tablist">
+        <button
+          className={`environment-editor__scope ${scope === 'workspace' ? 'environment-editor__scope--active' : ''}`}
+          onClick={() => switchScope('workspace')}
+          role="tab"
+          aria-selected={scope === 'workspace'}
+        >
+          Workspace
+        </button>
+        <button
+          className={`environment-editor__scope ${scope === 'file' ? 'environment-editor__scope--active' : ''}`}
+          onClick={() => switchScope('file')}
+          role="tab"
+          aria-selected={scope === 'file'}
+          title="Only for this tab; overrides workspace variables with the same name"
+        >
+          {fileName}
+        </button>
+      </div>
+
+      <div className="environment-editor__warning" role="note">
+        ⚠ Values, secrets included, are saved in this browser's localStorage as plain text.
+        Masking only hides them on screen.
+      </div>
+
+      <div className="environment-editor__body">
+        {draft !== null ? (
+          <textarea
+            className="environment-editor__textarea"
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            placeholder={'# .env syntax\nAPI_URL=https://example.com\nAPI_TOKEN="secret"'}
+            spellCheck={false}
+            autoFocus
+          />
+        ) : entries.length === 0 ? (
+          <div className="environment-editor__empty">
+            No variables{scope === 'file' ? ` for ${fileName}` : ''}. Click Edit to paste a .env file.
+          </div>
+        ) : (
+          <table className="environment-editor__table">
+            <tbody>
+              {entries.map(([key, value]) => {
+                const secret = isSecretEnvKey(key);
+                const shown = !secret || revealed.has(key);
+                return (
+                  <tr key={key}>
+                    <td className="environment-editor__key">
+                      {key}
+                      {scope === 'file' && workspaceKeys.has(key) && (
+                        <span className="environment-editor__badge" title="Overrides the workspace value">override</span>
+                      )}
+                    </td>
+                    <td className={`environment-editor__value ${shown ? '' : 'environment-editor__value--masked'}`}>
+                      {shown ? value : maskEnvValue(value)}
+                    </td>
+                    <td className="environment-editor__actions">
+                      {secret && (
+                        <button
+                          className="environment-editor__reveal"
+                          onClick={() => toggleReveal(key)}
+                          title={shown ? 'Hide value' : 'Show value'}
+                        >
+                          {shown ? '🙈' : '👁'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {errors.length > 0 && (
+          <ul className="environment-editor__errors">
+            {errors.map(error => (
+              <li key={`${error.line}-${error.message}`}>Line {error.line}: {error.message}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="environment-editor__footer">
+        <span className="environment-editor__note">
+          Passed to runs, auto-execution, npm and the preview server.
+        </span>
+        {draft !== null ? (
+          <span className="environment-editor__buttons">
+            <button className="environment-editor__button" onClick={() => setDraft(null)}>Cancel</button>
+            <button className="environment-editor__button environment-editor__button--primary" onClick={handleSave}>
+              Save
+            </button>
+          </span>
+        ) : (
+          <button className="environment-editor__button" onClick={() => setDraft(text)} title="Editing shows every value">
+            Edit
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EnvironmentEditor;
@@ -1,5 +1,6 @@
 import React from 'react';
 import type { ExecutionStatus, ExecutionProgress } from '../../core/runner/auto-execution/types.js';
+import type { ReplSessionInfo } from '../../core/runner/types.js';
 import './ExecutionStatusIndicator.css';
 
 export interface ExecutionStatusIndicatorProps {
@@ -8,14 +9,23 @@ export interface ExecutionStatusIndicatorProps {
   isEnabled: boolean;
   className?: string;
   compact?: boolean;
+  session?: ReplSessionInfo | null; // REPL session of the active tab; null before its first run
 }
 
+const SESSION_STATUS_TEXT: Record<ReplSessionInfo['status'], string> = {
+  starting: 'Starting',
+  idle: 'Idle',
+  busy: 'Evaluating',
+  stopped: 'Stopped'
+};
+
 export const ExecutionStatusIndicator: React.FC<ExecutionStatusIndicatorProps> = ({
   status,
   progress,
   isEnabled,
   className = '',
-  compact = false
+  compact = false,
+  session
 }) => {
   const getStatusIcon = () => {
     if (!isEnabled) return '⏸️';
@@ -53,12 +63,28 @@ export const ExecutionStatusIndicator: React.FC<ExecutionStatusIndicatorProps> =
     });
   };
 
+  const getSessionText = () => {
+    if (!session) return 'Not started';
+    const statements = `${session.statements} statement${session.statements !== 1 ? 's' : ''}`;
+    if (session.status === 'stopped' && session.exitCode !== null) {
+      return `Exited with code ${session.exitCode}`;
+    }
+    return session.status === 'idle' ? `${SESSION_STATUS_TEXT.idle} · ${statements}` : SESSION_STATUS_TEXT[session.status];
+  };
+
+  const sessionClass = `repl-session--${session ? session.status : 'stopped'}`;
+
   if (compact) {
     return (
       <div className={`execution-status-indicator execution-status-indicator--compact ${getStatusClass()} ${className}`}>
         <span className="status-icon" title={getStatusText()}>
           {getStatusIcon()}
         </span>
+        {session !== undefined && (
+          <span className={`repl-session-badge ${sessionClass}`} title={`REPL session: ${getSessionText()}`}>
+            REPL · {getSessionText()}
+          </span>
+        )}
         {status.isRunning && progress && (
           <div className="compact-progress">
             <div 
@@ -86,6 +112,22 @@ export const ExecutionStatusIndicator: React.FC<ExecutionStatusIndicatorProps> =
         </div>
       </div>
 
+      {/* REPL Session */}
+      {session !== undefined && (
+        <div className={`repl-session ${sessionClass}`}>
+          <div className="repl-session-header">
+            <span className="repl-session-title">REPL session</span>
+            <span className="repl-session-status">{getSessionText()}</span>
+          </div>
+          {session?.startedAt && (
+            <div className="status-subtitle">
+              Started: {formatTime(session.startedAt)}
+              {session.lastEvaluation && ` · Last evaluation: ${formatTime(session.lastEvaluation)}`}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Progress Bar */}
       {status.isRunning && progress && progress.stage !== 'completed' && progress.stage !== 'cancelled' && (
         <div className="status-progress">
@@ -230,6 +230,18 @@ const DEFAULT_TOOLS: Record<LanguageType, ToolbarItem[]> = {
       group: 'preview',
       tooltip: 'Preview HTML in browser'
     }
+  ],
+  python: [
+    {
+      id: 'run',
+      icon: '▶️',
+      label: 'Run Code',
+      action: () => console.log('Run Python'),
+      shortcut: 'Ctrl+Enter',
+      visible: true,
+      group: 'execution',
+      tooltip: 'Execute Python code with Pyodide'
+    }
   ]
 };
 
@@ -499,6 +511,7 @@ export const FloatingToolbar: React.FC<FloatingToolbarProps> = ({
                 <option value="json">JSON</option>
                 <option value="css">CSS</option>
                 <option value="html">HTML</option>
+                <option value="python">Python</option>
               </select>
               
               {/* Status indicators */}
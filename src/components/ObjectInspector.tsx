@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import type { InspectedValue } from '../../core/runner/types.js';
+import { formatInspectedValue } from '../utils/ConsoleEntries';
+import './ObjectInspector.css';
+
+export interface ObjectInspectorProps {
+  value: InspectedValue;
+  /** Property name or index; an inspected value is a Map key */
+  name?: string | InspectedValue;
+  /** Console arguments: strings are shown without quotes */
+  topLevel?: boolean;
+  defaultExpanded?: boolean;
+  className?: string;
+}
+
+function isExpandable(value: InspectedValue): boolean {
+  return (value.entries?.length ?? 0) > 0 || (value.kind === 'error' && !!value.stack);
+}
+
+export const ObjectInspector: React.FC<ObjectInspectorProps> = ({
+  value,
+  name,
+  topLevel = false,
+  defaultExpanded = false,
+  className = ''
+}) => {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  const expandable = isExpandable(value);
+  const entries = value.entries || [];
+  // Large containers are capped when serialized
+  const hidden = (value.size ?? entries.length) - entries.length;
+
+  const renderName = () => {
+    if (name === undefined) {
+      return null;
+    }
+    const isMapKey = typeof name === 'object';
+    return (
+      <>
+        <span className={`object-inspector__key ${isMapKey ? 'object-inspector__key--value' : ''}`}>
+          {isMapKey ? formatInspectedValue(name, { short: true }) : name}
+        </span>
+        <span className="object-inspector__separator">{isMapKey ? ' => ' : ': '}</span>
+      </>
+    );
+  };
+
+  return (
+    <div className={`object-inspector ${topLevel ? 'object-inspector--top' : ''} ${className}`}>
+      <div
+        className={`object-inspector__row ${expandable ? 'object-inspector__row--expandable' : ''}`}
+        onClick={expandable ? () => setExpanded(!expanded) : undefined}
+        role={expandable ? 'button' : undefined}
+        aria-expanded={expandable ? expanded : undefined}
+      >
+        {expandable && <span className="object-inspector__toggle">{expanded ? '▾' : '▸'}</span>}
+        {renderName()}
+        {value.id !== undefined && value.kind !== 'circular' && (
+          <span className="object-inspector__ref">{`<ref *${value.id}> `}</span>
+        )}
+        <span className={`object-inspector__value object-inspector__value--${value.kind}`}>
+          {formatInspectedValue(value, { short: expanded, quote: !topLevel })}
+        </span>
+      </div>
+      {expanded && (
+        <div className="object-inspector__children">
+          {value.kind === 'error' && value.stack && (
+            <pre className="object-inspector__stack">{value.stack}</pre>
+          )}
+          {entries.map((entry, index) => (
+            <ObjectInspector
+              key={index}
+              value={entry.value}
+              name={entry.key ?? (value.kind === 'set' ? String(index) : undefined)}
+            />
+          ))}
+          {hidden > 0 && (
+            <div className="object-inspector__more">… {hidden} more</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ObjectInspector;
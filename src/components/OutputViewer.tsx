@@ -1,9 +1,11 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { EditorView, basicSetup } from 'codemirror';
 import { EditorState } from '@codemirror/state';
 import { oneDark } from '@codemirror/theme-one-dark';
 import { javascript } from '@codemirror/lang-javascript';
 import { json } from '@codemirror/lang-json';
+import type { ConsoleEntry } from '../../core/runner/types.js';
+import { ConsoleOutput } from './ConsoleOutput';
 import './OutputViewer.css';
 
 export interface OutputViewerProps {
@@ -12,6 +14,10 @@ export interface OutputViewerProps {
   isError?: boolean;
   className?: string;
   maxHeight?: string;
+  /** Structured console calls; when present they are shown instead of the raw text (which stays one click away) */
+  entries?: ConsoleEntry[];
+  /** Jumps to the line of a console call in the editor */
+  onSelectLine?: (line: number) => void;
 }
 
 export const OutputViewer: React.FC<OutputViewerProps> = ({
@@ -19,10 +25,15 @@ export const OutputViewer: React.FC<OutputViewerProps> = ({
   language = 'text',
   isError = false,
   className = '',
-  maxHeight = '300px'
+  maxHeight = '300px',
+  entries = [],
+  onSelectLine
 }) => {
   const editorRef = useRef<HTMLDivElement>(null);
   const viewRef = useRef<EditorView | null>(null);
+  const [showRaw, setShowRaw] = useState(false);
+  const [query, setQuery] = useState('');
+  const showConsole = entries.length > 0 && !showRaw;
 
   useEffect(() => {
     if (!editorRef.current) return;
@@ -105,11 +116,43 @@ export const OutputViewer: React.FC<OutputViewerProps> = ({
         viewRef.current = null;
       }
     };
-  }, [content, language, isError, maxHeight]);
+  }, [content, language, isError, maxHeight, showConsole]);
 
   return (
     <div className={`output-viewer ${isError ? 'error' : ''} ${className}`}>
-      <div ref={editorRef} className="output-viewer__editor" />
+      {entries.length > 0 && (
+        <div className="output-viewer__toolbar">
+          {showConsole && (
+            <input
+              className="output-viewer__search"
+              type="search"
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder="Filter console output"
+              aria-label="Filter console output"
+            />
+          )}
+          <div className="output-viewer__modes" role="group" aria-label="Output view">
+            <button
+              className={`output-viewer__mode ${showConsole ? 'output-viewer__mode--active' : ''}`}
+              onClick={() => setShowRaw(false)}
+              aria-pressed={showConsole}
+            >
+              Console
+            </button>
+            <button
+              className={`output-viewer__mode ${showConsole ? '' : 'output-viewer__mode--active'}`}
+              onClick={() => setShowRaw(true)}
+              aria-pressed={!showConsole}
+            >
+              Raw
+            </button>
+          </div>
+        </div>
+      )}
+      {showConsole
+        ? <ConsoleOutput entries={entries} query={query} onSelectLine={onSelectLine} />
+        : <div ref={editorRef} className="output-viewer__editor" />}
     </div>
   );
 };
@@ -0,0 +1,116 @@
+import React from 'react';
+import type { CachedPackage, RunnerBackend } from '../../core/runner/types.js';
+import { formatFileSize } from '../utils/FileUtils';
+import './PackageCachePanel.css';
+
+export interface PackageCachePanelProps {
+  packages: CachedPackage[];
+  totalSize: number;
+  /** Backend whose cache is shown */
+  backend: RunnerBackend | null;
+  isLoading?: boolean;
+  error?: string;
+  onEvict: (name: string, version: string) => void;
+  onClear: () => void;
+  onRefresh: () => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+const CACHE_LOCATIONS: Record<RunnerBackend, string> = {
+  webcontainer: 'Stored in the browser (IndexedDB)',
+  native: 'Stored in the app data folder'
+};
+
+export const PackageCachePanel: React.FC<PackageCachePanelProps> = ({
+  packages,
+  totalSize,
+  backend,
+  isLoading = false,
+  error = '',
+  onEvict,
+  onClear,
+  onRefresh,
+  onClose,
+  className = ''
+}) => {
+  return (
+    <div className={`package-cache ${className}`}>
+      <div className="package-cache__header">
+        <h3>Package Cache</h3>
+        {onClose && (
+          <button className="package-cache__close" onClick={onClose} title="Close">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div className="package-cache__body">
+        {packages.length === 0 ? (
+          <div className="package-cache__empty">
+            {isLoading
+              ? 'Loading...'
+              : 'No cached packages. Packages are cached after npm installs them, then repeat installs use the cache.'}
+          </div>
+        ) : (
+          <table className="package-cache__table">
+            <thead>
+              <tr>
+                <th>Package</th>
+                <th>Version</th>
+                <th>Size</th>
+                <th>Last used</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {packages.map(pkg => (
+                <tr key={`${pkg.name}@${pkg.version}`}>
+                  <td className="package-cache__name" title={pkg.requires.length > 0 ? `Needs ${pkg.requires.join(', ')}` : undefined}>
+                    {pkg.name}
+                  </td>
+                  <td className="package-cache__version">{pkg.version}</td>
+                  <td className="package-cache__size">{formatFileSize(pkg.size)}</td>
+                  <td className="package-cache__date">{pkg.lastUsed.toLocaleDateString()}</td>
+                  <td className="package-cache__actions">
+                    <button
+                      className="package-cache__evict"
+                      onClick={() => onEvict(pkg.name, pkg.version)}
+                      disabled={isLoading}
+                      title={`Remove ${pkg.name}@${pkg.version} from the cache`}
+                    >
+                      🗑
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {error && <div className="package-cache__error">{error}</div>}
+      </div>
+
+      <div className="package-cache__footer">
+        <span className="package-cache__note">
+          {packages.length} package{packages.length === 1 ? '' : 's'}, {formatFileSize(totalSize)}
+          {backend && ` · ${CACHE_LOCATIONS[backend]}`}
+        </span>
+        <span className="package-cache__buttons">
+          <button className="package-cache__button" onClick={onRefresh} disabled={isLoading}>
+            Refresh
+          </button>
+          <button
+            className="package-cache__button package-cache__button--danger"
+            onClick={onClear}
+            disabled={isLoading || packages.length === 0}
+          >
+            Clear All
+          </button>
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default PackageCachePanel;
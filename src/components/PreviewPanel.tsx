@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { WebContainerRunner } from '../../core/runner/WebContainerRunner.js';
+import type { PreviewServer } from '../../core/runner/types.js';
+import { usePreviewServers } from '../hooks/usePreviewServers';
+import './PreviewPanel.css';
+
+export interface PreviewPanelProps {
+  runner: WebContainerRunner | null;
+  /** Called when a server becomes ready, e.g. to bring the preview to front */
+  onServerReady?: (server: PreviewServer) => void;
+  className?: string;
+}
+
+interface DevicePreset {
+  id: string;
+  label: string;
+  width?: number;
+  height?: number;
+}
+
+const DEVICE_PRESETS: DevicePreset[] = [
+  { id: 'responsive', label: 'Responsive' },
+  { id: 'mobile', label: 'Mobile (375×667)', width: 375, height: 667 },
+  { id: 'tablet', label: 'Tablet (768×1024)', width: 768, height: 1024 },
+  { id: 'desktop', label: 'Desktop (1280×800)', width: 1280, height: 800 }
+];
+
+export const PreviewPanel: React.FC<PreviewPanelProps> = ({
+  runner,
+  onServerReady,
+  className = ''
+}) => {
+  const { servers, lastEvent } = usePreviewServers(runner);
+  const [selectedPort, setSelectedPort] = useState<number | null>(null);
+  const [path, setPath] = useState('/');
+  const [addressInput, setAddressInput] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+  const [deviceId, setDeviceId] = useState('responsive');
+  const onServerReadyRef = useRef(onServerReady);
+  const serversRef = useRef(servers);
+
+  useEffect(() => {
+    onServerReadyRef.current = onServerReady;
+    serversRef.current = servers;
+  });
+
+  const selectedServer = servers.find(server => server.port === selectedPort) || null;
+  const device = DEVICE_PRESETS.find(preset => preset.id === deviceId) || DEVICE_PRESETS[0];
+  const currentUrl = selectedServer ? `${selectedServer.url.replace(/\/$/, '')}${path}` : '';
+
+  // Attach automatically to whatever server just became available
+  useEffect(() => {
+    if (!lastEvent) return;
+
+    if (lastEvent.type === 'ready') {
+      setSelectedPort(lastEvent.port);
+      setPath('/');
+      setReloadKey(key => key + 1);
+      const server = serversRef.current.find(item => item.port === lastEvent.port);
+      if (server) {
+        onServerReadyRef.current?.(server);
+      }
+    } else if (lastEvent.type === 'open') {
+      setSelectedPort(current => current ?? lastEvent.port);
+    }
+  }, [lastEvent]);
+
+  // The selected server went away: fall back to the newest one left
+  useEffect(() => {
+    if (selectedPort !== null && !servers.some(server => server.port === selectedPort)) {
+      setSelectedPort(servers.length > 0 ? servers[servers.length - 1].port : null);
+      setPath('/');
+    }
+  }, [servers, selectedPort]);
+
+  useEffect(() => {
+    setAddressInput(currentUrl);
+  }, [currentUrl]);
+
+  const navigate = (address: string) => {
+    const value = address.trim();
+    if (!value) return;
+
+    // A full preview URL may point at another port
+    const server = servers.find(item => value.startsWith(item.url.replace(/\/$/, '')));
+    if (server) {
+      const rest = value.slice(server.url.replace(/\/$/, '').length);
+      setSelectedPort(server.port);
+      setPath(rest.startsWith('/') ? rest : `/${rest}`);
+    } else {
+      setPath(value.startsWith('/') ? value : `/${value}`);
+    }
+    setReloadKey(key => key + 1);
+  };
+
+  const handleAddressSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    navigate(addressInput);
+  };
+
+  return (
+    <div className={`preview-panel ${className}`}>
+      <form className="preview-panel__toolbar" onSubmit={handleAddressSubmit}>
+        <button
+          type="button"
+          className="preview-panel__action"
+          onClick={() => setReloadKey(key => key + 1)}
+          disabled={!selectedServer}
+          title="Reload"
+        >
+          ⟳
+        </button>
+        <input
+          className="preview-panel__address"
+          type="text"
+          value={addressInput}
+          onChange={event => setAddressInput(event.target.value)}
+          placeholder="Waiting for a server to open a port..."
+          disabled={!selectedServer}
+          aria-label="Preview URL"
+          spellCheck={false}
+        />
+        <select
+          className="preview-panel__device"
+          value={deviceId}
+          onChange={event => setDeviceId(event.target.value)}
+          aria-label="Device size"
+        >
+          {DEVICE_PRESETS.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.label}</option>
+          ))}
+        </select>
+        {selectedServer && (
+          <a
+            className="preview-panel__action"
+            href={currentUrl}
+            target="_blank"
+            rel="noreferrer"
+            title="Open in a new window"
+          >
+            ↗
+          </a>
+        )}
+      </form>
+
+      {servers.length > 0 && (
+        <div className="preview-panel__ports" role="list" aria-label="Open ports">
+          {servers.map(server => (
+            <button
+              key={server.port}
+              role="listitem"
+              className={`preview-panel__port ${server.port === selectedPort ? 'preview-panel__port--active' : ''}`}
+              onClick={() => {
+                setSelectedPort(server.port);
+                setPath('/');
+              }}
+              title={server.url}
+            >
+              <span className={`preview-panel__port-dot ${server.ready ? 'preview-panel__port-dot--ready' : ''}`} />
+              :{server.port}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="preview-panel__viewport">
+        {selectedServer ? (
+          <div
+            className={`preview-panel__frame-wrapper ${device.width ? 'preview-panel__frame-wrapper--device' : ''}`}
+            style={device.width ? { width: device.width, height: device.height } : undefined}
+          >
+            <iframe
+              key={`${selectedServer.port}-${reloadKey}`}
+              className="preview-panel__frame"
+              src={currentUrl}
+              title={`Preview of port ${selectedServer.port}`}
+              allow="cross-origin-isolated; clipboard-read; clipboard-write"
+            />
+          </div>
+        ) : (
+          <div className="preview-panel__empty">
+            <div className="preview-panel__empty-icon">🌐</div>
+            <p>No server running</p>
+            <small>Run an HTML tab, or start a server (Express, Vite, <code>npx serve</code>) and it will show up here</small>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PreviewPanel;
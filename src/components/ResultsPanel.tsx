@@ -1,10 +1,55 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
 import { OutputViewer } from './OutputViewer';
+import { TestResultsTree } from './TestResultsTree';
+import { BenchmarkTable } from './BenchmarkTable';
+import type { BenchmarkResult, ConsoleEntry, ModuleFormatInfo, OutputEvent, ResolvedDependency, RuntimeStackFrame, TestCaseResult } from '../../core/runner/types.js';
+import type { RunRange } from '../../core/runner/babel/RunRange.js';
+import { diffLines, getEntryText, type DiffLine, type ExecutionHistoryEntry } from '../utils/ExecutionHistory';
+import type { GoldenComparison, GoldenFile, GoldenMode } from '../utils/GoldenOutput';
 import './ResultsPanel.css';
 
 export interface ResultsPanelProps {
   output: string;
+  /** Lines streamed by the running process, shown while isRunning */
+  liveOutput?: OutputEvent[];
   error: string;
+  /** Per-test results when the last run used the built-in test harness */
+  tests?: TestCaseResult[];
+  /** Jumps to a line in the editor (a test or a console call) */
+  onSelectLine?: (line: number) => void;
+  /** Timing statistics when the last run was a benchmark */
+  benchmarks?: BenchmarkResult[];
+  /** Structured console calls of the last run, shown in the object inspector */
+  consoleEntries?: ConsoleEntry[];
+  /** How Node loaded the last JavaScript/TypeScript run (ES module or CommonJS) */
+  moduleFormat?: ModuleFormatInfo;
+  /** The last run was stopped by the user before it finished */
+  wasStopped?: boolean;
+  /** Part of the tab the last run executed; unset when it ran the whole tab */
+  runRange?: RunRange | null;
+  /** Expected output of the active tab (golden file) */
+  golden?: GoldenFile | null;
+  /** The last run's output checked against the golden */
+  goldenComparison?: GoldenComparison | null;
+  /** Edits the golden; null removes it */
+  onGoldenChange?: (golden: GoldenFile | null) => void;
+  /** Saves the last run's output as the golden; unset while there is no output to accept */
+  onAcceptGolden?: () => void;
+  /** Sends a line to the running program's stdin; enables the input line while running */
+  onSendInput?: (text: string) => void;
+  /** Predefined stdin of the active tab (when set, stdin is closed after it and the input line is hidden) */
+  stdinFixture?: string;
+  onStdinFixtureChange?: (stdin: string) => void;
+  /** Package manifest of the active tab: package.json or one name@version per line */
+  dependencyManifest?: string;
+  onDependencyManifestChange?: (manifest: string) => void;
+  /** Packages the active tab imports, with the version each one will be installed at */
+  resolvedDependencies?: ResolvedDependency[];
+  /** Manifest lines that couldn't be read and code that couldn't be parsed */
+  dependencyErrors?: string[];
+  /** Past runs of the active tab, oldest first */
+  history?: ExecutionHistoryEntry[];
+  onClearHistory?: () => void;
   isRunning: boolean;
   isInitializing?: boolean;
   initError?: string;
@@ -14,15 +59,53 @@ export interface ResultsPanelProps {
   className?: string;
   errorDetails?: {
     type: 'runtime' | 'syntax' | 'network' | 'timeout' | 'unknown';
+    source?: string;
     line?: number;
     column?: number;
     stack?: string;
+    /** Stack frames mapped back to the sources, innermost first */
+    frames?: RuntimeStackFrame[];
   };
+  /** Opens the file and line of a stack frame that maps back to the user's code */
+  onSelectFrame?: (frame: RuntimeStackFrame) => void;
 }
 
+const GOLDEN_MODE_LABELS: Record<GoldenMode, string> = {
+  exact: 'Exact',
+  regex: 'Regex per line',
+  json: 'JSON structure'
+};
+
+const RUN_SCOPE_LABELS: Record<RunRange['scope'], string> = {
+  selection: 'Selection',
+  statement: 'Statement',
+  'to-cursor': 'To cursor'
+};
+
 export const ResultsPanel: React.FC<ResultsPanelProps> = ({
   output,
+  liveOutput = [],
   error,
+  tests = [],
+  onSelectLine,
+  benchmarks = [],
+  consoleEntries = [],
+  moduleFormat,
+  wasStopped = false,
+  runRange,
+  golden = null,
+  goldenComparison = null,
+  onGoldenChange,
+  onAcceptGolden,
+  onSendInput,
+  stdinFixture = '',
+  onStdinFixtureChange,
+  dependencyManifest = '',
+  onDependencyManifestChange,
+  resolvedDependencies = [],
+  dependencyErrors = [],
+  history = [],
+  onClearHistory,
   isRunning,
   isInitializing = false,
   initError,
@@ -30,10 +113,17 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
   onHardReset,
   onClear,
   className = '',
-  errorDetails
+  errorDetails,
+  onSelectFrame
 }) => {
   const panelRef = useRef<HTMLDivElement>(null);
   const [panelWidth, setPanelWidth] = useState<number>(0);
+  const liveOutputEndRef = useRef<HTMLDivElement>(null);
+  const [inputText, setInputText] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [openedRunId, setOpenedRunId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [goldenMode, setGoldenMode] = useState<GoldenMode>('exact');
 
   // Update panel width when component mounts or resizes
   useEffect(() => {
@@ -58,6 +148,70 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
     }
   }, []);
 
+  // Keep the newest streamed line in view
+  useEffect(() => {
+    if (isRunning && liveOutput.length > 0) {
+      liveOutputEndRef.current?.scrollIntoView?.({ block: 'end' });
+    }
+  }, [isRunning, liveOutput]);
+
+  // A new run brings the panel back to the latest result
+  useEffect(() => {
+    if (isRunning) {
+      setShowHistory(false);
+      setOpenedRunId(null);
+    }
+  }, [isRunning]);
+
+  // Forget selections that left the history (cleared, trimmed or another tab)
+  useEffect(() => {
+    const ids = new Set(history.map(entry => entry.id));
+    setOpenedRunId(current => (current && ids.has(current) ? current : null));
+    setCompareIds(current => current.filter(id => ids.has(id)));
+  }, [history]);
+
+  const openedRun = history.find(entry => entry.id === openedRunId) || null;
+
+  const comparedRuns = useMemo(() => {
+    if (compareIds.length !== 2) return null;
+    // Always diff from the older run to the newer one
+    const runs = history.filter(entry => compareIds.includes(entry.id));
+    return runs.length === 2 ? { before: runs[0], after: runs[1] } : null;
+  }, [compareIds, history]);
+
+  const diff = useMemo(
+    () => (comparedRuns ? diffLines(getEntryText(comparedRuns.before), getEntryText(comparedRuns.after)) : []),
+    [comparedRuns]
+  );
+
+  const getRunNumber = (entry: ExecutionHistoryEntry) => history.indexOf(entry) + 1;
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(current => {
+      if (current.includes(id)) {
+        return current.filter(item => item !== id);
+      }
+      // Keep the most recent pick when a third run is selected
+      return [...current, id].slice(-2);
+    });
+  };
+
+  const openRun = (id: string) => {
+    setOpenedRunId(id);
+    setShowHistory(false);
+  };
+
+  const formatDuration = (duration?: number) => {
+    if (duration === undefined) return '';
+    return duration < 1000 ? `${Math.round(duration)}ms` : `${(duration / 1000).toFixed(2)}s`;
+  };
+
+  const handleInputSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSendInput?.(inputText);
+    setInputText('');
+  };
+
   // Determine layout classes based on panel width
   const isNarrow = panelWidth > 0 && panelWidth < 400;
   const isVeryNarrow = panelWidth > 0 && panelWidth < 250;
@@ -139,6 +293,103 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
     return 'text';
   };
 
+  const renderDiffLines = (lines: DiffLine[]) => (
+    <pre className="results-panel__diff-lines">
+      {lines.length === 0 ? (
+        <div className="results-panel__diff-line">(no output)</div>
+      ) : lines.map((line, lineIndex) => (
+        <div key={lineIndex} className={`results-panel__diff-line results-panel__diff-line--${line.type}`}>
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+        </div>
+      ))}
+    </pre>
+  );
+
+  // Pass/fail against the golden, with the diff from the expected to the actual output when it fails
+  const renderGoldenComparison = (comparison: GoldenComparison, expected: GoldenFile) => (
+    <div
+      className={`results-panel__golden results-panel__golden--${comparison.passed ? 'pass' : 'fail'}`}
+      role="status"
+    >
+      <div className="results-panel__golden-header">
+        <span>{comparison.passed ? '✓ Output matches the golden' : '✗ Output differs from the golden'}</span>
+        <span className="results-panel__diff-stats">
+          {GOLDEN_MODE_LABELS[expected.mode]}
+          {!comparison.passed && comparison.diff.length > 0 &&
+            ` · +${comparison.diff.filter(line => line.type === 'added').length} −${comparison.diff.filter(line => line.type === 'removed').length}`}
+        </span>
+      </div>
+      {comparison.message && <div className="results-panel__golden-message">{comparison.message}</div>}
+      {!comparison.passed && comparison.diff.length > 0 && renderDiffLines(comparison.diff)}
+    </div>
+  );
+
+  const renderHistory = () => (
+    <div className={`results-panel__history ${isNarrow ? 'narrow' : ''}`}>
+      <div className="results-panel__history-header">
+        <span>
+          {history.length} run{history.length === 1 ? '' : 's'}
+          {!isVeryNarrow && ' — select two to compare their output'}
+        </span>
+        {onClearHistory && (
+          <button className="results-panel__history-action" onClick={onClearHistory} title="Clear history">
+            Clear
+          </button>
+        )}
+      </div>
+      <ul className="results-panel__history-list">
+        {[...history].reverse().map(entry => {
+          const index = history.indexOf(entry);
+          const codeChanged = index > 0 && history[index - 1].codeHash !== entry.codeHash;
+          const outcome = entry.status === 'killed' ? 'killed' : entry.success ? 'success' : 'error';
+          return (
+            <li
+              key={entry.id}
+              className={`results-panel__history-item ${entry.id === openedRunId ? 'results-panel__history-item--opened' : ''}`}
+            >
+              <input
+                type="checkbox"
+                checked={compareIds.includes(entry.id)}
+                onChange={() => toggleCompare(entry.id)}
+                aria-label={`Compare run ${index + 1}`}
+              />
+              <span className={`results-panel__history-status results-panel__history-status--${outcome}`}>
+                {outcome === 'killed' ? '⏹' : outcome === 'success' ? '✓' : '✗'}
+              </span>
+              <span className="results-panel__history-run">#{index + 1}</span>
+              <span className="results-panel__history-time">{entry.timestamp.toLocaleTimeString()}</span>
+              <span className="results-panel__history-meta" title={entry.trigger === 'auto' ? 'Auto-execution' : 'Manual run'}>
+                {entry.trigger === 'auto' ? '⚡ auto' : '▶ manual'}
+              </span>
+              {!isVeryNarrow && <span className="results-panel__history-meta">{entry.language}</span>}
+              {!isVeryNarrow && <span className="results-panel__history-meta">{formatDuration(entry.duration)}</span>}
+              <span
+                className={`results-panel__history-hash ${codeChanged ? 'results-panel__history-hash--changed' : ''}`}
+                title={codeChanged ? 'Code changed since the previous run' : 'Code hash'}
+              >
+                {entry.codeHash.slice(0, 7)}
+              </span>
+              <button className="results-panel__history-action" onClick={() => openRun(entry.id)}>
+                Open
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {comparedRuns && (
+        <div className="results-panel__diff">
+          <div className="results-panel__diff-header">
+            Run #{getRunNumber(comparedRuns.before)} → #{getRunNumber(comparedRuns.after)}
+            <span className="results-panel__diff-stats">
+              +{diff.filter(line => line.type === 'added').length} −{diff.filter(line => line.type === 'removed').length}
+            </span>
+          </div>
+          {renderDiffLines(diff)}
+        </div>
+      )}
+    </div>
+  );
+
   const renderContent = () => {
     // Show initialization error if present
     if (initError) {
@@ -182,35 +433,132 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
       );
     }
 
+    // Show streamed output while the process is still running
+    if (isRunning && liveOutput.length > 0) {
+      return (
+        <div className={`results-panel__live-output ${isNarrow ? 'narrow' : ''} ${isVeryNarrow ? 'very-narrow' : ''}`}>
+          <pre className="results-panel__live-lines">
+            {liveOutput.map((event, index) => (
+              <div
+                key={index}
+                className={`results-panel__live-line results-panel__live-line--${event.type}${event.partial ? ' results-panel__live-line--partial' : ''}`}
+              >
+                {event.content}
+              </div>
+            ))}
+          </pre>
+          <div className="results-panel__live-status">
+            <div className="results-panel__running-spinner"></div>
+            <span>{isVeryNarrow ? 'Running...' : `Running... (${liveOutput.length} lines)`}</span>
+          </div>
+          <div ref={liveOutputEndRef} />
+        </div>
+      );
+    }
+
+    if (showHistory && !isRunning) {
+      return renderHistory();
+    }
+
+    // A past run re-opened from the history replaces the latest result
+    const shownOutput = openedRun ? openedRun.output : output;
+    const shownError = openedRun ? openedRun.error || '' : error;
+    const shownStopped = openedRun ? openedRun.status === 'killed' : wasStopped;
+    const shownTests = openedRun ? [] : tests;
+    const shownBenchmarks = openedRun ? [] : benchmarks;
+    const shownConsole = openedRun ? [] : consoleEntries;
+    const shownErrorDetails = openedRun ? undefined : errorDetails;
+    const shownModuleFormat = openedRun ? undefined : moduleFormat;
+    const shownRange = openedRun ? null : runRange;
+    const shownComparison = openedRun ? null : goldenComparison;
+
     // Show output or error if available
-    if (output || error) {
+    if (shownOutput || shownError || shownTests.length > 0 || shownBenchmarks.length > 0 || (shownStopped && !isRunning)) {
       return (
         <div className={`results-panel__output-display ${isNarrow ? 'narrow' : ''} ${isVeryNarrow ? 'very-narrow' : ''}`}>
-          {output && (
+          {shownStopped && (
+            <div className="results-panel__stopped-banner" role="status">
+              <span className="results-panel__stopped-icon">⏹</span>
+              <span>
+                {isVeryNarrow
+                  ? 'Stopped'
+                  : shownOutput ? 'Execution stopped — output up to the stop is shown below' : 'Execution stopped before producing output'}
+              </span>
+            </div>
+          )}
+          {shownRange && (
+            <div className="results-panel__run-range" title={shownRange.text}>
+              {RUN_SCOPE_LABELS[shownRange.scope]}
+              <span>
+                {shownRange.startLine === shownRange.endLine
+                  ? `line ${shownRange.startLine}`
+                  : `lines ${shownRange.startLine}–${shownRange.endLine}`}
+              </span>
+            </div>
+          )}
+          {shownModuleFormat && !isVeryNarrow && (
+            <div className="results-panel__module-format" title={`Module format: ${shownModuleFormat.reason}`}>
+              {shownModuleFormat.format === 'commonjs' ? 'CJS' : 'ESM'}
+              <span>{shownModuleFormat.reason}</span>
+            </div>
+          )}
+          {shownComparison && golden && renderGoldenComparison(shownComparison, golden)}
+          {shownTests.length > 0 && (
+            <TestResultsTree tests={shownTests} onSelectLine={onSelectLine} />
+          )}
+          {shownBenchmarks.length > 0 && (
+            <BenchmarkTable benchmarks={shownBenchmarks} />
+          )}
+          {shownOutput && (
             <div className="results-panel__output-section">
               <OutputViewer
-                content={output}
-                language={detectOutputLanguage(output)}
+                content={shownOutput}
+                language={detectOutputLanguage(shownOutput)}
                 maxHeight="100%"
                 className="results-panel__output-viewer"
+                entries={shownConsole}
+                onSelectLine={onSelectLine}
               />
             </div>
           )}
-          {error && (
+          {shownError && (
             <div className="results-panel__error-section">
               <div className="results-panel__error-content">
                  <OutputViewer
-                   content={cleanErrorMessage(error)}
+                   content={cleanErrorMessage(shownError)}
                    language="text"
                    isError={true}
                    maxHeight="100%"
                    className="results-panel__error-viewer"
                  />
-                 {errorDetails && errorDetails.line && (
+                 {shownErrorDetails && shownErrorDetails.line && (
                    <div className="results-panel__error-location">
-                     📍 Línea {errorDetails.line}{errorDetails.column ? `, columna ${errorDetails.column}` : ''}
+                     📍 {shownErrorDetails.source ? `${shownErrorDetails.source} · ` : ''}Línea {shownErrorDetails.line}{shownErrorDetails.column ? `, columna ${shownErrorDetails.column}` : ''}
                    </div>
                  )}
+                 {shownErrorDetails?.frames && shownErrorDetails.frames.length > 0 && (
+                   <ol className="results-panel__stack">
+                     {shownErrorDetails.frames.map((frame, index) => (
+                       <li key={index}>
+                         {frame.source && frame.line ? (
+                           <button
+                             className="results-panel__frame"
+                             onClick={() => onSelectFrame?.(frame)}
+                             disabled={!onSelectFrame}
+                             title={frame.text}
+                           >
+                             <span className="results-panel__frame-name">{frame.functionName || '<anonymous>'}</span>
+                             <span className="results-panel__frame-location">
+                               {frame.source}:{frame.line}{frame.column ? `:${frame.column}` : ''}
+                             </span>
+                           </button>
+                         ) : (
+                           <span className="results-panel__frame results-panel__frame--external">{frame.text}</span>
+                         )}
+                       </li>
+                     ))}
+                   </ol>
+                 )}
                </div>
             </div>
           )}
@@ -249,9 +597,137 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
       className={`results-panel ${className} ${isNarrow ? 'narrow' : ''} ${isVeryNarrow ? 'very-narrow' : ''}`}
       data-width={panelWidth}
     >
+      {history.length > 0 && !isRunning && (
+        <div className="results-panel__history-bar">
+          {openedRun ? (
+            <span className="results-panel__history-viewing">
+              Run #{getRunNumber(openedRun)} · {openedRun.timestamp.toLocaleTimeString()}
+              <button className="results-panel__history-action" onClick={() => setOpenedRunId(null)}>
+                Back to latest
+              </button>
+            </span>
+          ) : <span />}
+          <button
+            className={`results-panel__history-toggle ${showHistory ? 'results-panel__history-toggle--active' : ''}`}
+            onClick={() => setShowHistory(current => !current)}
+            aria-pressed={showHistory}
+          >
+            🕘 History ({history.length})
+          </button>
+        </div>
+      )}
       <div className="results-panel__content">
         {renderContent()}
       </div>
+      {isRunning && onSendInput && !stdinFixture && (
+        <form className="results-panel__stdin" onSubmit={handleInputSubmit}>
+          <span className="results-panel__stdin-prompt">›</span>
+          <input
+            className="results-panel__stdin-input"
+            type="text"
+            value={inputText}
+            onChange={event => setInputText(event.target.value)}
+            placeholder={isVeryNarrow ? 'stdin' : 'Type input for the program and press Enter'}
+            aria-label="Program input"
+            autoFocus
+          />
+        </form>
+      )}
+      {onStdinFixtureChange && (
+        <details className="results-panel__stdin-fixture" open={!!stdinFixture || undefined}>
+          <summary>
+            stdin fixture{stdinFixture ? ` (${stdinFixture.split('\n').length} lines)` : ''}
+          </summary>
+          <textarea
+            className="results-panel__stdin-fixture-input"
+            value={stdinFixture}
+            onChange={event => onStdinFixtureChange(event.target.value)}
+            placeholder="Input fed to every run of this tab, one line per prompt"
+            rows={3}
+            spellCheck={false}
+          />
+        </details>
+      )}
+      {onGoldenChange && (
+        <details className="results-panel__stdin-fixture results-panel__golden-editor" open={!!golden || undefined}>
+          <summary>
+            expected output{golden ? ` (${GOLDEN_MODE_LABELS[golden.mode].toLowerCase()})` : ''}
+            {goldenComparison && (goldenComparison.passed ? ' ✓' : ' ✗')}
+          </summary>
+          <div className="results-panel__golden-controls">
+            <select
+              value={golden?.mode ?? goldenMode}
+              onChange={event => {
+                const mode = event.target.value as GoldenMode;
+                setGoldenMode(mode);
+                if (golden) {
+                  onGoldenChange({ ...golden, mode });
+                }
+              }}
+              aria-label="Comparison mode"
+            >
+              {(Object.keys(GOLDEN_MODE_LABELS) as GoldenMode[]).map(mode => (
+                <option key={mode} value={mode}>{GOLDEN_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            <button
+              className="results-panel__history-action"
+              onClick={onAcceptGolden}
+              disabled={!onAcceptGolden || isRunning}
+              title="Save the output of the last run as the expected output"
+            >
+              Accept current output
+            </button>
+            {golden && (
+              <button className="results-panel__history-action" onClick={() => onGoldenChange(null)}>
+                Remove
+              </button>
+            )}
+          </div>
+          <textarea
+            className="results-panel__stdin-fixture-input"
+            value={golden?.expected ?? ''}
+            onChange={event => onGoldenChange(
+              event.target.value ? { mode: golden?.mode ?? goldenMode, expected: event.target.value } : null
+            )}
+            placeholder="Expected stdout of this tab; every run is checked against it"
+            rows={3}
+            spellCheck={false}
+          />
+        </details>
+      )}
+      {onDependencyManifestChange && (
+        <details className="results-panel__dependencies" open={!!dependencyManifest || undefined}>
+          <summary>
+            dependencies{resolvedDependencies.length > 0 ? ` (${resolvedDependencies.length})` : ''}
+          </summary>
+          {resolvedDependencies.length > 0 && (
+            <ul className="results-panel__dependency-list">
+              {resolvedDependencies.map(dep => (
+                <li key={dep.name}>
+                  <span className="results-panel__dependency-name">{dep.name}</span>@{dep.version}
+                  {dep.pinnedBy && (
+                    <span className="results-panel__dependency-source">
+                      {dep.pinnedBy === 'comment' ? '// @version' : 'manifest'}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <textarea
+            className="results-panel__stdin-fixture-input"
+            value={dependencyManifest}
+            onChange={event => onDependencyManifestChange(event.target.value)}
+            placeholder="Versions for the imported packages, one per line (lodash@4.17.21) or a package.json"
+            rows={3}
+            spellCheck={false}
+          />
+          {dependencyErrors.map(message => (
+            <div key={message} className="results-panel__dependency-error">{message}</div>
+          ))}
+        </details>
+      )}
     </div>
   );
 };
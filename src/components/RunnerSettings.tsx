@@ -0,0 +1,104 @@
+import React from 'react';
+import type { RunnerBackend } from '../../core/runner/types.js';
+import type { RunnerBackendPreference } from '../hooks/useWebContainer';
+import './RunnerSettings.css';
+
+export interface RunnerSettingsProps {
+  preference: RunnerBackendPreference;
+  /** Backend of the runner currently in use */
+  activeBackend: RunnerBackend | null;
+  isNativeAvailable: boolean;
+  isSwitching?: boolean;
+  onChange: (preference: RunnerBackendPreference) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+interface BackendOption {
+  id: RunnerBackendPreference;
+  label: string;
+  description: string;
+  requiresNative?: boolean;
+}
+
+const BACKEND_OPTIONS: BackendOption[] = [
+  {
+    id: 'auto',
+    label: 'Automatic',
+    description: 'WebContainer, falling back to the system Node.js when it cannot start'
+  },
+  {
+    id: 'webcontainer',
+    label: 'WebContainer',
+    description: 'Sandboxed Node.js in the page. Needed for the terminal and the web preview'
+  },
+  {
+    id: 'native',
+    label: 'Native Node.js',
+    description: 'The node installed on this machine, in a temporary folder. Desktop app only',
+    requiresNative: true
+  }
+];
+
+const BACKEND_LABELS: Record<RunnerBackend, string> = {
+  webcontainer: 'WebContainer',
+  native: 'Native Node.js'
+};
+
+export const RunnerSettings: React.FC<RunnerSettingsProps> = ({
+  preference,
+  activeBackend,
+  isNativeAvailable,
+  isSwitching = false,
+  onChange,
+  onClose,
+  className = ''
+}) => {
+  return (
+    <div className={`runner-settings ${className}`}>
+      <div className="runner-settings__header">
+        <h3>Execution Backend</h3>
+        {onClose && (
+          <button className="runner-settings__close" onClick={onClose} title="Close settings">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div className="runner-settings__options" role="radiogroup" aria-label="Execution backend">
+        {BACKEND_OPTIONS.map(option => {
+          const disabled = isSwitching || (option.requiresNative && !isNativeAvailable);
+          return (
+            <label
+              key={option.id}
+              className={`runner-settings__option ${preference === option.id ? 'runner-settings__option--selected' : ''} ${disabled ? 'runner-settings__option--disabled' : ''}`}
+            >
+              <input
+                type="radio"
+                name="runner-backend"
+                value={option.id}
+                checked={preference === option.id}
+                disabled={disabled}
+                onChange={() => onChange(option.id)}
+              />
+              <span className="runner-settings__option-text">
+                <span className="runner-settings__option-label">{option.label}</span>
+                <span className="runner-settings__option-description">{option.description}</span>
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="runner-settings__status">
+        {isSwitching
+          ? 'Starting backend...'
+          : activeBackend
+            ? `In use: ${BACKEND_LABELS[activeBackend]}`
+            : 'No backend running'}
+      </div>
+    </div>
+  );
+};
+
+export default RunnerSettings;
@@ -51,6 +51,7 @@ export const TabBar: React.FC<TabBarProps> = ({
       case 'json': return '📋';
       case 'css': return '🎨';
       case 'html': return '🌐';
+      case 'python': return '🐍';
       default: return '📄';
     }
   };
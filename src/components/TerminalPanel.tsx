@@ -0,0 +1,364 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import type { WebContainerRunner } from '../../core/runner/WebContainerRunner.js';
+import type { TerminalSession } from '../../core/runner/TerminalSession.js';
+import { useTerminalSessions } from '../hooks/useTerminalSessions';
+import { TerminalBuffer, type TerminalStyle } from '../utils/TerminalBuffer';
+import './TerminalPanel.css';
+
+export interface TerminalPanelProps {
+  runner: WebContainerRunner | null;
+  /** The panel is visible; the first session is opened the first time it becomes active */
+  isActive?: boolean;
+  className?: string;
+}
+
+const MAX_HISTORY = 200;
+const DEFAULT_DIMENSIONS = { cols: 80, rows: 24 };
+
+const toCss = (style: TerminalStyle): React.CSSProperties => ({
+  color: style.fg,
+  backgroundColor: style.bg,
+  fontWeight: style.bold ? 'bold' : undefined,
+  opacity: style.dim ? 0.7 : undefined,
+  fontStyle: style.italic ? 'italic' : undefined,
+  textDecoration: style.underline ? 'underline' : undefined
+});
+
+export const TerminalPanel: React.FC<TerminalPanelProps> = ({
+  runner,
+  isActive = true,
+  className = ''
+}) => {
+  const {
+    sessions,
+    activeSession,
+    isCreating,
+    error,
+    createSession,
+    closeSession,
+    setActiveSession
+  } = useTerminalSessions(runner);
+
+  const [input, setInput] = useState('');
+  const [, setVersion] = useState(0);
+  const buffersRef = useRef(new Map<string, TerminalBuffer>());
+  const subscriptionsRef = useRef(new Map<string, () => void>());
+  const historyRef = useRef<string[]>([]);
+  const historyIndexRef = useRef(-1);
+  const dimensionsRef = useRef(DEFAULT_DIMENSIONS);
+  const renderFrameRef = useRef<number | null>(null);
+  const screenRef = useRef<HTMLDivElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const autoOpenedRef = useRef(false);
+
+  const canCreate = !!runner && runner.isReady() && !isCreating;
+
+  // Batch re-renders: shells can emit many small chunks per frame
+  const scheduleRender = useCallback(() => {
+    if (renderFrameRef.current !== null) return;
+    renderFrameRef.current = requestAnimationFrame(() => {
+      renderFrameRef.current = null;
+      setVersion(version => version + 1);
+    });
+  }, []);
+
+  // Keep one screen buffer per session, fed even while the session is in the background
+  useEffect(() => {
+    const buffers = buffersRef.current;
+    const subscriptions = subscriptionsRef.current;
+    const liveIds = new Set(sessions.map(session => session.id));
+
+    for (const session of sessions) {
+      if (subscriptions.has(session.id)) continue;
+
+      const { cols, rows } = dimensionsRef.current;
+      const buffer = new TerminalBuffer(cols, rows);
+      buffer.write(session.getReplay());
+      buffers.set(session.id, buffer);
+
+      const offData = session.onData(data => {
+        buffer.write(data);
+        scheduleRender();
+      });
+      const offExit = session.onExit(exitCode => {
+        buffer.write(`\r\n[process exited with code ${exitCode}]\r\n`);
+        scheduleRender();
+      });
+      subscriptions.set(session.id, () => {
+        offData();
+        offExit();
+      });
+    }
+
+    for (const [id, unsubscribe] of subscriptions) {
+      if (!liveIds.has(id)) {
+        unsubscribe();
+        subscriptions.delete(id);
+        buffers.delete(id);
+      }
+    }
+  }, [sessions, scheduleRender]);
+
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      subscriptions.forEach(unsubscribe => unsubscribe());
+      subscriptions.clear();
+      if (renderFrameRef.current !== null) {
+        cancelAnimationFrame(renderFrameRef.current);
+      }
+    };
+  }, []);
+
+  // Open a first shell the first time the panel is shown
+  useEffect(() => {
+    if (isActive && canCreate && sessions.length === 0 && !autoOpenedRef.current) {
+      autoOpenedRef.current = true;
+      createSession(dimensionsRef.current);
+    }
+  }, [isActive, canCreate, sessions.length, createSession]);
+
+  // Fit the pseudoterminal to the visible area
+  const fitToScreen = useCallback(() => {
+    const screen = screenRef.current;
+    const measure = measureRef.current;
+    if (!screen || !measure || screen.clientWidth === 0) return;
+
+    const charWidth = measure.getBoundingClientRect().width / 10 || 8;
+    const lineHeight = measure.getBoundingClientRect().height || 17;
+    const style = getComputedStyle(screen);
+    const width = screen.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight);
+    const height = screen.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom);
+
+    const dimensions = {
+      cols: Math.max(20, Math.floor(width / charWidth)),
+      rows: Math.max(5, Math.floor(height / lineHeight))
+    };
+    dimensionsRef.current = dimensions;
+
+    for (const session of sessions) {
+      session.resize(dimensions);
+      buffersRef.current.get(session.id)?.setSize(dimensions.cols, dimensions.rows);
+    }
+  }, [sessions]);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    fitToScreen();
+
+    if (typeof ResizeObserver !== 'undefined' && screenRef.current) {
+      const resizeObserver = new ResizeObserver(fitToScreen);
+      resizeObserver.observe(screenRef.current);
+      return () => resizeObserver.disconnect();
+    }
+
+    window.addEventListener('resize', fitToScreen);
+    return () => window.removeEventListener('resize', fitToScreen);
+  }, [isActive, fitToScreen]);
+
+  // Follow the output
+  useEffect(() => {
+    const screen = screenRef.current;
+    if (screen) {
+      screen.scrollTop = screen.scrollHeight;
+    }
+  });
+
+  const sendToSession = (session: TerminalSession | null, data: string) => {
+    session?.write(data);
+  };
+
+  const runCommand = () => {
+    if (!activeSession) return;
+
+    if (input.trim()) {
+      const history = historyRef.current.filter(entry => entry !== input);
+      history.push(input);
+      historyRef.current = history.slice(-MAX_HISTORY);
+    }
+    historyIndexRef.current = -1;
+
+    sendToSession(activeSession, `${input}\r`);
+    setInput('');
+  };
+
+  const browseHistory = (direction: -1 | 1) => {
+    const history = historyRef.current;
+    if (history.length === 0) return;
+
+    let index = historyIndexRef.current === -1 ? history.length : historyIndexRef.current;
+    index += direction;
+
+    if (index >= history.length) {
+      historyIndexRef.current = -1;
+      setInput('');
+      return;
+    }
+
+    index = Math.max(0, index);
+    historyIndexRef.current = index;
+    setInput(history[index]);
+  };
+
+  const getSelectedText = (): string => window.getSelection()?.toString() || '';
+
+  const copyOutput = async () => {
+    const text = getSelectedText() || (activeSession ? buffersRef.current.get(activeSession.id)?.toString() : '') || '';
+    if (!text) return;
+
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (err) {
+      console.warn('Could not copy terminal output:', err);
+    }
+  };
+
+  const pasteInput = async () => {
+    try {
+      const text = await navigator.clipboard.readText();
+      setInput(current => current + text.replace(/\r?\n/g, ' '));
+      inputRef.current?.focus();
+    } catch (err) {
+      console.warn('Could not read clipboard:', err);
+    }
+  };
+
+  const clearScreen = () => {
+    if (!activeSession) return;
+    buffersRef.current.get(activeSession.id)?.clear();
+    scheduleRender();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      runCommand();
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      browseHistory(-1);
+    } else if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      browseHistory(1);
+    } else if (event.ctrlKey && event.shiftKey && event.key.toLowerCase() === 'c') {
+      event.preventDefault();
+      copyOutput();
+    } else if (event.ctrlKey && event.key === 'c' && !getSelectedText()) {
+      // Interrupt the foreground command, like a real terminal
+      event.preventDefault();
+      sendToSession(activeSession, '\x03');
+      setInput('');
+    } else if (event.ctrlKey && event.key === 'l') {
+      event.preventDefault();
+      clearScreen();
+    }
+  };
+
+  const focusInput = () => {
+    // Don't steal the selection the user is making to copy
+    if (!getSelectedText()) {
+      inputRef.current?.focus();
+    }
+  };
+
+  const activeBuffer = activeSession ? buffersRef.current.get(activeSession.id) : undefined;
+  const lines = activeBuffer?.getRuns() || [];
+
+  return (
+    <div className={`terminal-panel ${className}`}>
+      <div className="terminal-panel__toolbar">
+        <div className="terminal-panel__sessions" role="tablist">
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              role="tab"
+              aria-selected={session.id === activeSession?.id}
+              className={`terminal-panel__session ${session.id === activeSession?.id ? 'terminal-panel__session--active' : ''}`}
+              onClick={() => setActiveSession(session.id)}
+            >
+              <span>{session.title}</span>
+              <button
+                className="terminal-panel__session-close"
+                onClick={event => {
+                  event.stopPropagation();
+                  closeSession(session.id);
+                }}
+                title="Close terminal"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            className="terminal-panel__action"
+            onClick={() => createSession(dimensionsRef.current)}
+            disabled={!canCreate}
+            title="New terminal"
+          >
+            +
+          </button>
+        </div>
+        <div className="terminal-panel__actions">
+          <button className="terminal-panel__action" onClick={copyOutput} disabled={!activeSession} title="Copy selection or whole output (Ctrl+Shift+C)">
+            📋
+          </button>
+          <button className="terminal-panel__action" onClick={pasteInput} disabled={!activeSession} title="Paste into the command line">
+            📥
+          </button>
+          <button className="terminal-panel__action" onClick={clearScreen} disabled={!activeSession} title="Clear (Ctrl+L)">
+            🧹
+          </button>
+        </div>
+      </div>
+
+      <div className="terminal-panel__screen" ref={screenRef} onMouseUp={focusInput}>
+        <span className="terminal-panel__measure" ref={measureRef} aria-hidden="true">WWWWWWWWWW</span>
+        {activeSession ? (
+          <pre className="terminal-panel__lines">
+            {lines.map((runs, lineIndex) => (
+              <div key={lineIndex} className="terminal-panel__line">
+                {runs.length === 0 ? ' ' : runs.map((run, runIndex) => (
+                  <span key={runIndex} style={toCss(run.style)}>{run.text}</span>
+                ))}
+              </div>
+            ))}
+          </pre>
+        ) : (
+          <div className="terminal-panel__empty">
+            {error ? (
+              <p className="terminal-panel__error">{error}</p>
+            ) : (
+              <p>{isCreating ? 'Starting shell...' : 'No terminal open'}</p>
+            )}
+            <button className="terminal-panel__open-btn" onClick={() => createSession(dimensionsRef.current)} disabled={!canCreate}>
+              Open terminal
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="terminal-panel__input-line">
+        <span className="terminal-panel__prompt">$</span>
+        <input
+          ref={inputRef}
+          className="terminal-panel__input"
+          type="text"
+          value={input}
+          onChange={event => {
+            setInput(event.target.value);
+            historyIndexRef.current = -1;
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={activeSession?.isRunning() ? 'Type a command, e.g. npm ls or node -v' : 'Open a terminal to run commands'}
+          disabled={!activeSession?.isRunning()}
+          aria-label="Terminal command"
+          spellCheck={false}
+          autoComplete="off"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TerminalPanel;
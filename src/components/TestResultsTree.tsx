@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import type { TestCaseResult } from '../../core/runner/types.js';
+import { diffLines } from '../utils/ExecutionHistory';
+import './TestResultsTree.css';
+
+export interface TestResultsTreeProps {
+  tests: TestCaseResult[];
+  /** Jumps to the line of a test in the editor */
+  onSelectLine?: (line: number) => void;
+  className?: string;
+}
+
+interface SuiteNode {
+  name: string;
+  suites: SuiteNode[];
+  tests: TestCaseResult[];
+}
+
+const STATUS_ICONS: Record<TestCaseResult['status'], string> = {
+  passed: '✓',
+  failed: '✗',
+  skipped: '○'
+};
+
+function buildTree(tests: TestCaseResult[]): SuiteNode {
+  const root: SuiteNode = { name: '', suites: [], tests: [] };
+  for (const test of tests) {
+    let node = root;
+    for (const name of test.suite) {
+      let child = node.suites.find(suite => suite.name === name);
+      if (!child) {
+        child = { name, suites: [], tests: [] };
+        node.suites.push(child);
+      }
+      node = child;
+    }
+    node.tests.push(test);
+  }
+  return root;
+}
+
+function collectTests(node: SuiteNode): TestCaseResult[] {
+  return [...node.tests, ...node.suites.flatMap(collectTests)];
+}
+
+function getSuiteStatus(tests: TestCaseResult[]): TestCaseResult['status'] {
+  if (tests.some(test => test.status === 'failed')) return 'failed';
+  return tests.some(test => test.status === 'passed') ? 'passed' : 'skipped';
+}
+
+const AssertionDiff: React.FC<{ expected: string; actual: string }> = ({ expected, actual }) => {
+  const diff = useMemo(() => diffLines(expected, actual), [expected, actual]);
+  return (
+    <pre className="test-results__diff">
+      <div className="test-results__diff-legend">
+        <span className="test-results__diff-line--removed">- Expected</span>
+        <span className="test-results__diff-line--added">+ Received</span>
+      </div>
+      {diff.map((line, index) => (
+        <div key={index} className={`test-results__diff-line test-results__diff-line--${line.type}`}>
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+        </div>
+      ))}
+    </pre>
+  );
+};
+
+export const TestResultsTree: React.FC<TestResultsTreeProps> = ({ tests, onSelectLine, className = '' }) => {
+  const tree = useMemo(() => buildTree(tests), [tests]);
+  const count = (status: TestCaseResult['status']) => tests.filter(test => test.status === status).length;
+
+  const renderTest = (test: TestCaseResult, index: number) => (
+    <li key={`${test.line}-${index}`} className={`test-results__test test-results__test--${test.status}`}>
+      <div className="test-results__row">
+        <span className={`test-results__icon test-results__icon--${test.status}`}>{STATUS_ICONS[test.status]}</span>
+        <button
+          className="test-results__name"
+          onClick={() => onSelectLine?.(test.line)}
+          disabled={!onSelectLine}
+          title={`Line ${test.line}`}
+        >
+          {test.name}
+        </button>
+        <span className="test-results__duration">
+          {test.status === 'skipped' ? 'skipped' : `${test.duration}ms`}
+        </span>
+      </div>
+      {test.error && (
+        <div className="test-results__failure">
+          <pre className="test-results__message">{test.error.message}</pre>
+          {test.error.expected !== undefined && test.error.actual !== undefined && (
+            <AssertionDiff expected={test.error.expected} actual={test.error.actual} />
+          )}
+        </div>
+      )}
+    </li>
+  );
+
+  const renderSuite = (suite: SuiteNode, index: number) => {
+    const suiteTests = collectTests(suite);
+    const status = getSuiteStatus(suiteTests);
+    return (
+      <li key={`${suite.name}-${index}`} className="test-results__suite">
+        <details open={status === 'failed' || undefined}>
+          <summary className="test-results__row">
+            <span className={`test-results__icon test-results__icon--${status}`}>{STATUS_ICONS[status]}</span>
+            <span className="test-results__suite-name">{suite.name}</span>
+            <span className="test-results__duration">
+              {suiteTests.filter(test => test.status === 'passed').length}/{suiteTests.length}
+            </span>
+          </summary>
+          {renderChildren(suite)}
+        </details>
+      </li>
+    );
+  };
+
+  const renderChildren = (node: SuiteNode) => (
+    <ul className="test-results__list">
+      {node.tests.map(renderTest)}
+      {node.suites.map(renderSuite)}
+    </ul>
+  );
+
+  return (
+    <div className={`test-results ${className}`}>
+      <div className="test-results__summary">
+        <span className="test-results__icon--passed">{count('passed')} passed</span>
+        {count('failed') > 0 && <span className="test-results__icon--failed">{count('failed')} failed</span>}
+        {count('skipped') > 0 && <span className="test-results__icon--skipped">{count('skipped')} skipped</span>}
+        <span className="test-results__total">{tests.length} tests</span>
+      </div>
+      {renderChildren(tree)}
+    </div>
+  );
+};
+
+export default TestResultsTree;
@@ -0,0 +1,132 @@
+import React, { useRef, useState } from 'react';
+import type { WorkspaceSnapshotInfo, WorkspaceSnapshotOptions } from '../../core/runner/types.js';
+import { formatFileSize } from '../utils/FileUtils';
+import './WorkspaceSnapshotPanel.css';
+
+export interface WorkspaceSnapshotPanelProps {
+  isBusy?: boolean;
+  error?: string;
+  /** Summary of the last snapshot imported */
+  lastImported?: WorkspaceSnapshotInfo | null;
+  /** The container mounts the imported snapshot whenever it boots */
+  mountsOnBoot?: boolean;
+  onExport: (options: WorkspaceSnapshotOptions) => void;
+  onImport: (file: File, mountOnBoot: boolean) => void;
+  onClearBootSnapshot: () => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+export const WorkspaceSnapshotPanel: React.FC<WorkspaceSnapshotPanelProps> = ({
+  isBusy = false,
+  error = '',
+  lastImported = null,
+  mountsOnBoot = false,
+  onExport,
+  onImport,
+  onClearBootSnapshot,
+  onClose,
+  className = ''
+}) => {
+  const [includeNodeModules, setIncludeNodeModules] = useState(false);
+  const [mountOnBoot, setMountOnBoot] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onImport(file, mountOnBoot);
+    }
+    // Allow picking the same file again
+    event.target.value = '';
+  };
+
+  return (
+    <div className={`workspace-snapshot ${className}`}>
+      <div className="workspace-snapshot__header">
+        <h3>Workspace Snapshot</h3>
+        {onClose && (
+          <button className="workspace-snapshot__close" onClick={onClose} title="Close">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div className="workspace-snapshot__section">
+        <h4>Export</h4>
+        <p className="workspace-snapshot__description">
+          Saves the container file system, generated files included, as a single compressed file.
+        </p>
+        <label className="workspace-snapshot__option">
+          <input
+            type="checkbox"
+            checked={includeNodeModules}
+            disabled={isBusy}
+            onChange={e => setIncludeNodeModules(e.target.checked)}
+          />
+          Include node_modules (ready to run without npm install, but larger)
+        </label>
+        <button
+          className="workspace-snapshot__button workspace-snapshot__button--primary"
+          onClick={() => onExport({ includeNodeModules })}
+          disabled={isBusy}
+        >
+          {isBusy ? 'Working...' : 'Export Snapshot'}
+        </button>
+      </div>
+
+      <div className="workspace-snapshot__section">
+        <h4>Import</h4>
+        <p className="workspace-snapshot__description">
+          Mounts a snapshot over the current workspace. Files it contains replace the existing ones.
+        </p>
+        <label className="workspace-snapshot__option">
+          <input
+            type="checkbox"
+            checked={mountOnBoot}
+            disabled={isBusy}
+            onChange={e => setMountOnBoot(e.target.checked)}
+          />
+          Mount it again whenever the container boots
+        </label>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gz,application/gzip"
+          onChange={handleFileChange}
+          style={{ display: 'none' }}
+        />
+        <button
+          className="workspace-snapshot__button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+        >
+          Import Snapshot...
+        </button>
+
+        {lastImported && (
+          <div className="workspace-snapshot__summary">
+            Restored {lastImported.fileCount} files ({formatFileSize(lastImported.size)}) from a snapshot of{' '}
+            {lastImported.createdAt.toLocaleString()}
+            {!lastImported.includesNodeModules && ' — without node_modules, run npm install'}
+          </div>
+        )}
+      </div>
+
+      {error && <div className="workspace-snapshot__error">{error}</div>}
+
+      <div className="workspace-snapshot__footer">
+        <span className="workspace-snapshot__note">
+          {mountsOnBoot ? 'The container boots with the imported snapshot.' : 'The container boots empty.'}
+        </span>
+        {mountsOnBoot && (
+          <button className="workspace-snapshot__button" onClick={onClearBootSnapshot} disabled={isBusy}>
+            Boot Empty
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceSnapshotPanel;
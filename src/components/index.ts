@@ -13,4 +13,25 @@ export type {
 export { default as OutputViewer } from './OutputViewer';export 
 { default as AutoExecutionPanel } from './AutoExecutionPanel';
 export { default as AutoExecutionSettings } from './AutoExecutionSettings';
-export { default as ExecutionStatusIndicator } from './ExecutionStatusIndicator';
\ No newline at end of file
+export { default as ExecutionStatusIndicator } from './ExecutionStatusIndicator';
+export { default as DockPanel } from './DockPanel';
+export type { DockPanelProps, DockPanelTab } from './DockPanel';
+export { default as TerminalPanel } from './TerminalPanel';
+export type { TerminalPanelProps } from './TerminalPanel';export { default as PreviewPanel } from './PreviewPanel';
+export type { PreviewPanelProps } from './PreviewPanel';
+export { default as RunnerSettings } from './RunnerSettings';
+export type { RunnerSettingsProps } from './RunnerSettings';
+export { default as EnvironmentEditor } from './EnvironmentEditor';
+export type { EnvironmentEditorProps } from './EnvironmentEditor';
+export { default as TestResultsTree } from './TestResultsTree';
+export type { TestResultsTreeProps } from './TestResultsTree';
+export { default as BenchmarkTable } from './BenchmarkTable';
+export type { BenchmarkTableProps } from './BenchmarkTable';
+export { default as ObjectInspector } from './ObjectInspector';
+export type { ObjectInspectorProps } from './ObjectInspector';
+export { default as ConsoleOutput } from './ConsoleOutput';
+export type { ConsoleOutputProps } from './ConsoleOutput';
+export { default as WorkspaceSnapshotPanel } from './WorkspaceSnapshotPanel';
+export type { WorkspaceSnapshotPanelProps } from './WorkspaceSnapshotPanel';
+export { default as PackageCachePanel } from './PackageCachePanel';
+export type { PackageCachePanelProps } from './PackageCachePanel';
@@ -0,0 +1,66 @@
+/**
+ * Tabs Hook Tests
+ * Verifies that the workspace's tabs, and the golden attached to each, are kept across remounts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useTabs } from '../useTabs';
+
+describe('useTabs', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should start with the default tab when nothing is saved', () => {
+    const { result } = renderHook(() => useTabs());
+
+    expect(result.current.tabs).toHaveLength(1);
+    expect(result.current.activeTab?.id).toBe('tab-1');
+  });
+
+  it('should keep a tab\'s golden after a remount', () => {
+    const first = renderHook(() => useTabs());
+    act(() => {
+      first.result.current.updateTab('tab-1', { golden: { mode: 'exact', expected: 'A' } });
+    });
+    first.unmount();
+
+    const second = renderHook(() => useTabs());
+
+    expect(second.result.current.activeTab?.golden).toEqual({ mode: 'exact', expected: 'A' });
+  });
+
+  it('should keep the golden on its tab after a rename and a remount', () => {
+    const first = renderHook(() => useTabs());
+    let id = '';
+    act(() => {
+      id = first.result.current.createTab('main', 'console.log(1)');
+    });
+    act(() => {
+      first.result.current.updateTab(id, { golden: { mode: 'regex', expected: '^\\d$' } });
+      first.result.current.renameTab(id, 'renamed');
+    });
+    first.unmount();
+
+    const second = renderHook(() => useTabs());
+    const tab = second.result.current.tabs.find(saved => saved.id === id);
+
+    expect(tab?.name).toBe('renamed');
+    expect(tab?.golden).toEqual({ mode: 'regex', expected: '^\\d$' });
+    expect(second.result.current.tabs.find(saved => saved.id === 'tab-1')?.golden).toBeUndefined();
+  });
+
+  it('should fall back to the default tab when the saved tabs are unreadable', () => {
+    localStorage.setItem('orbisjs-tabs', '{not json');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { result } = renderHook(() => useTabs());
+
+    expect(result.current.tabs.map(tab => tab.id)).toEqual(['tab-1']);
+    expect(warn).toHaveBeenCalled();
+  });
+});
@@ -1,14 +1,16 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { AutoExecutionManager } from '../../core/runner/auto-execution/AutoExecutionManager.js';
-import type { WebContainerRunner } from '../../core/runner/WebContainerRunner.js';
+import type { CodeRunner } from '../../core/runner/types.js';
 import type { 
   FileChangeEvent, 
   ExecutionStatus, 
   ExecutionProgress,
   ExecutionStrategy,
+  ExecutionQueueEntry,
   AutoExecutionConfig 
 } from '../../core/runner/auto-execution/types.js';
+import type { ConsoleEntry, ExecutionAnnotation, ModuleFormatInfo, OutputEvent, ProcessStatus, RuntimeErrorDetails, TestCaseResult } from '../../core/runner/types.js';
 
 interface UseAutoExecutionOptions {
   enabled?: boolean;
@@ -42,13 +44,32 @@ const DEFAULT_OPTIONS: UseAutoExecutionOptions = {
 };
 
 export interface AutoExecutionCallbacks {
-  onExecutionResult?: (result: { success: boolean; output?: string; error?: string }) => void;
+  onExecutionResult?: (result: {
+    success: boolean;
+    output?: string;
+    error?: string;
+    annotations?: ExecutionAnnotation[];
+    /** Resultado de cada prueba cuando el archivo se ejecutó en modo de pruebas */
+    tests?: TestCaseResult[];
+    /** Llamadas a console con sus argumentos serializados */
+    console?: ConsoleEntry[];
+    /** Error no capturado, con la pila en posiciones del código original */
+    errorDetails?: RuntimeErrorDetails;
+    /** Formato de módulo con el que se cargó el archivo */
+    moduleFormat?: ModuleFormatInfo;
+    status?: ProcessStatus;
+    duration?: number;
+    /** Código y lenguaje de la entrada ejecutada */
+    code?: string;
+    language?: string;
+  }) => void;
   onExecutionStart?: () => void;
   onExecutionEnd?: () => void;
+  onExecutionOutput?: (event: OutputEvent) => void;
 }
 
 export function useAutoExecution(
-  runner: WebContainerRunner | null,
+  runner: CodeRunner | null,
   options: AutoExecutionOptions = {},
   callbacks?: AutoExecutionCallbacks
 ): UseAutoExecutionReturn {
@@ -118,7 +139,16 @@ export function useAutoExecution(
           callbacks.onExecutionResult({
             success: result.success,
             output: result.output,
-            error: result.error
+            error: result.error,
+            annotations: result.annotations,
+            tests: result.tests,
+            console: result.console,
+            errorDetails: result.errorDetails,
+            moduleFormat: result.moduleFormat,
+            status: result.status,
+            duration: result.duration,
+            code: entry.code,
+            language: entry.language
           });
         }
         
@@ -136,13 +166,19 @@ export function useAutoExecution(
         if (callbacks?.onExecutionResult) {
           callbacks.onExecutionResult({
             success: false,
-            error: error instanceof Error ? error.message : String(error)
+            error: error instanceof Error ? error.message : String(error),
+            code: entry.code,
+            language: entry.language
           });
         }
         
         callbacks?.onExecutionEnd?.();
       };
 
+      const executionOutputCallback = (_entry: ExecutionQueueEntry, event: OutputEvent) => {
+        callbacks?.onExecutionOutput?.(event);
+      };
+
       const progressCallback = (progressData: any) => {
         if (isMountedRef.current) {
           setProgress(progressData);
@@ -152,6 +188,7 @@ export function useAutoExecution(
       manager.onBeforeExecution(beforeExecutionCallback);
       manager.onAfterExecution(afterExecutionCallback);
       manager.onExecutionError(executionErrorCallback);
+      manager.onExecutionOutput(executionOutputCallback);
       manager.onProgress(progressCallback);
 
       setAutoExecutionManager(manager);
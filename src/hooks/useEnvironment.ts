@@ -0,0 +1,94 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { parseEnvFile, type EnvVariables } from '../utils/EnvFile';
+
+const ENVIRONMENT_STORAGE_KEY = 'orbisjs-environment';
+
+/**
+ * Texto .env guardado: uno para todo el espacio de trabajo y uno por archivo
+ */
+export interface StoredEnvironment {
+  workspace: string;
+  files: Record<string, string>; // Clave: nombre de archivo de la pestaña (p. ej. 'main.js')
+}
+
+function loadEnvironment(): StoredEnvironment {
+  try {
+    const stored = localStorage.getItem(ENVIRONMENT_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<StoredEnvironment>;
+      return { workspace: parsed.workspace || '', files: parsed.files || {} };
+    }
+  } catch (error) {
+    console.warn('Failed to load environment variables:', error);
+  }
+  return { workspace: '', files: {} };
+}
+
+function saveEnvironment(environment: StoredEnvironment): void {
+  try {
+    localStorage.setItem(ENVIRONMENT_STORAGE_KEY, JSON.stringify(environment));
+  } catch (error) {
+    console.warn('Failed to save environment variables:', error);
+  }
+}
+
+export interface UseEnvironmentReturn {
+  /** Texto .env del espacio de trabajo */
+  workspaceEnv: string;
+  /** Texto .env propio de un archivo */
+  getFileEnv: (filePath: string) => string;
+  setWorkspaceEnv: (text: string) => void;
+  setFileEnv: (filePath: string, text: string) => void;
+  /** Variables del espacio de trabajo */
+  workspaceVariables: EnvVariables;
+  /** Variables de una ejecución: las del espacio de trabajo más las del archivo, que tienen prioridad */
+  getEnvironment: (filePath: string) => EnvVariables;
+}
+
+/**
+ * Hook que guarda localmente las variables de entorno en formato .env
+ */
+export function useEnvironment(): UseEnvironmentReturn {
+  const [environment, setEnvironment] = useState<StoredEnvironment>(loadEnvironment);
+
+  useEffect(() => {
+    saveEnvironment(environment);
+  }, [environment]);
+
+  const workspaceVariables = useMemo(
+    () => parseEnvFile(environment.workspace).variables,
+    [environment.workspace]
+  );
+
+  const getFileEnv = useCallback((filePath: string) => environment.files[filePath] || '', [environment.files]);
+
+  const setWorkspaceEnv = useCallback((text: string) => {
+    setEnvironment(current => ({ ...current, workspace: text }));
+  }, []);
+
+  const setFileEnv = useCallback((filePath: string, text: string) => {
+    setEnvironment(current => {
+      const files = { ...current.files };
+      if (text.trim()) {
+        files[filePath] = text;
+      } else {
+        delete files[filePath];
+      }
+      return { ...current, files };
+    });
+  }, []);
+
+  const getEnvironment = useCallback((filePath: string): EnvVariables => ({
+    ...workspaceVariables,
+    ...parseEnvFile(environment.files[filePath] || '').variables
+  }), [workspaceVariables, environment.files]);
+
+  return {
+    workspaceEnv: environment.workspace,
+    getFileEnv,
+    setWorkspaceEnv,
+    setFileEnv,
+    workspaceVariables,
+    getEnvironment
+  };
+}
@@ -0,0 +1,36 @@
+import { useState, useCallback } from 'react';
+import { createHistoryEntry, type ExecutionHistoryEntry } from '../utils/ExecutionHistory';
+
+export interface UseExecutionHistoryReturn {
+  /** Ejecuciones de una pestaña, de la más antigua a la más reciente */
+  getHistory: (tabId: string) => ExecutionHistoryEntry[];
+  recordRun: (entry: Parameters<typeof createHistoryEntry>[0]) => void;
+  clearHistory: (tabId: string) => void;
+}
+
+/**
+ * Hook que guarda un historial acotado de ejecuciones por pestaña
+ */
+export function useExecutionHistory(maxEntriesPerTab: number = 20): UseExecutionHistoryReturn {
+  const [historyByTab, setHistoryByTab] = useState<Record<string, ExecutionHistoryEntry[]>>({});
+
+  const getHistory = useCallback((tabId: string) => historyByTab[tabId] || [], [historyByTab]);
+
+  const recordRun = useCallback((entry: Parameters<typeof createHistoryEntry>[0]) => {
+    const historyEntry = createHistoryEntry(entry);
+    setHistoryByTab(current => ({
+      ...current,
+      [entry.tabId]: [...(current[entry.tabId] || []), historyEntry].slice(-maxEntriesPerTab)
+    }));
+  }, [maxEntriesPerTab]);
+
+  const clearHistory = useCallback((tabId: string) => {
+    setHistoryByTab(current => {
+      const next = { ...current };
+      delete next[tabId];
+      return next;
+    });
+  }, []);
+
+  return { getHistory, recordRun, clearHistory };
+}
@@ -3,16 +3,38 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { WebContainerRunner } from '../../core/runner/WebContainerRunner.js';
 import type { LanguageType } from '../../core/editor/index.js';
+import type { CodeRunner, OutputEvent, ProjectFile } from '../../core/runner/types.js';
 import type { AutoExecutionManager } from '../../core/runner/auto-execution/AutoExecutionManager.js';
-import { ExecutionService, type ExecutionServiceResult, type ExecutionOptions } from '../services/ExecutionService.js';
+import {
+  ExecutionService,
+  type BenchmarkSource,
+  type ExecutionServiceResult,
+  type ExecutionOptions,
+  type ExecutionRuntime
+} from '../services/ExecutionService.js';
+
+// Máximo de líneas en vivo que se conservan para no degradar el render
+const MAX_LIVE_OUTPUT_LINES = 5000;
 
 interface UseExecutionServiceReturn {
   executeCode: (content: string, tabName: string, language: LanguageType, options?: ExecutionOptions) => Promise<ExecutionServiceResult>;
+  /** Ejecuta varios programas en modo benchmark y reúne sus resultados */
+  executeBenchmarks: (sources: BenchmarkSource[], options?: ExecutionOptions) => Promise<ExecutionServiceResult>;
+  stopExecution: () => Promise<boolean>;
+  /** Sirve una página HTML con los demás archivos para la vista previa */
+  previewWebProject: (html: string, files?: ProjectFile[], env?: Record<string, string>) => Promise<ExecutionServiceResult>;
+  /** Envía texto a la entrada estándar del programa en ejecución */
+  sendInput: (text: string) => Promise<boolean>;
+  /** Indica si el código puede ejecutarse mientras el backend arranca (QuickJS o el navegador) */
+  canRunWithoutBackend: (content: string, language: LanguageType, runtime?: ExecutionRuntime) => boolean;
   isExecuting: boolean;
   lastResult: ExecutionServiceResult | null;
   isReady: boolean;
+  /** Líneas emitidas por la ejecución en curso (o la última), en orden de llegada */
+  liveOutput: OutputEvent[];
+  appendLiveOutput: (event: OutputEvent) => void;
+  clearLiveOutput: () => void;
 }
 
 /**
@@ -20,24 +42,21 @@ interface UseExecutionServiceReturn {
  * usando el ExecutionService centralizado
  */
 export function useExecutionService(
-  runner: WebContainerRunner | null,
+  runner: CodeRunner | null,
   autoExecutionManager?: AutoExecutionManager | null
 ): UseExecutionServiceReturn {
   const [isExecuting, setIsExecuting] = useState(false);
   const [lastResult, setLastResult] = useState<ExecutionServiceResult | null>(null);
   const [isReady, setIsReady] = useState(false);
+  const [liveOutput, setLiveOutput] = useState<OutputEvent[]>([]);
   
   const executionServiceRef = useRef<ExecutionService | null>(null);
 
-  // Inicializar ExecutionService cuando el runner esté disponible
+  // Inicializar ExecutionService; sin runner listo solo ejecuta en QuickJS y en el navegador
   useEffect(() => {
-    if (runner && runner.isReady()) {
-      executionServiceRef.current = new ExecutionService(runner, autoExecutionManager || undefined);
-      setIsReady(true);
-    } else {
-      executionServiceRef.current = null;
-      setIsReady(false);
-    }
+    const readyRunner = runner && runner.isReady() ? runner : null;
+    executionServiceRef.current = new ExecutionService(readyRunner, autoExecutionManager || undefined);
+    setIsReady(!!readyRunner);
   }, [runner, autoExecutionManager]);
 
   // Actualizar AutoExecutionManager cuando cambie
@@ -47,6 +66,19 @@ export function useExecutionService(
     }
   }, [autoExecutionManager]);
 
+  const appendLiveOutput = useCallback((event: OutputEvent) => {
+    setLiveOutput(prev => {
+      // Una línea parcial (p. ej. un prompt) se reemplaza por la siguiente versión
+      const base = prev.length > 0 && prev[prev.length - 1].partial ? prev.slice(0, -1) : prev;
+      const next = [...base, event];
+      return next.length > MAX_LIVE_OUTPUT_LINES ? next.slice(-MAX_LIVE_OUTPUT_LINES) : next;
+    });
+  }, []);
+
+  const clearLiveOutput = useCallback(() => {
+    setLiveOutput([]);
+  }, []);
+
   const executeCode = useCallback(async (
     content: string,
     tabName: string,
@@ -63,13 +95,20 @@ export function useExecutionService(
     }
 
     setIsExecuting(true);
+    setLiveOutput([]);
     
     try {
       const result = await executionServiceRef.current.executeCode(
         content,
         tabName,
         language,
-        options
+        {
+          ...options,
+          onOutput: event => {
+            appendLiveOutput(event);
+            options.onOutput?.(event);
+          }
+        }
       );
       
       setLastResult(result);
@@ -84,12 +123,107 @@ export function useExecutionService(
     } finally {
       setIsExecuting(false);
     }
+  }, [appendLiveOutput]);
+
+  const executeBenchmarks = useCallback(async (
+    sources: BenchmarkSource[],
+    options: ExecutionOptions = {}
+  ): Promise<ExecutionServiceResult> => {
+    if (!executionServiceRef.current) {
+      const errorResult: ExecutionServiceResult = {
+        success: false,
+        error: 'Servicio de ejecución no disponible'
+      };
+      setLastResult(errorResult);
+      return errorResult;
+    }
+
+    setIsExecuting(true);
+    setLiveOutput([]);
+
+    try {
+      const result = await executionServiceRef.current.executeBenchmarks(sources, {
+        ...options,
+        onOutput: event => {
+          appendLiveOutput(event);
+          options.onOutput?.(event);
+        }
+      });
+      setLastResult(result);
+      return result;
+    } finally {
+      setIsExecuting(false);
+    }
+  }, [appendLiveOutput]);
+
+  const stopExecution = useCallback(async (): Promise<boolean> => {
+    if (!executionServiceRef.current) {
+      return false;
+    }
+
+    try {
+      return await executionServiceRef.current.stopExecution();
+    } catch (error) {
+      console.error('Error deteniendo la ejecución:', error);
+      return false;
+    }
+  }, []);
+
+  const previewWebProject = useCallback(async (
+    html: string,
+    files: ProjectFile[] = [],
+    env?: Record<string, string>
+  ): Promise<ExecutionServiceResult> => {
+    if (!executionServiceRef.current) {
+      const errorResult: ExecutionServiceResult = {
+        success: false,
+        error: 'Servicio de ejecución no disponible'
+      };
+      setLastResult(errorResult);
+      return errorResult;
+    }
+
+    setIsExecuting(true);
+    setLiveOutput([]);
+
+    try {
+      const result = await executionServiceRef.current.previewWebProject(html, files, appendLiveOutput, env);
+      setLastResult(result);
+      return result;
+    } finally {
+      setIsExecuting(false);
+    }
+  }, [appendLiveOutput]);
+
+  const canRunWithoutBackend = useCallback((content: string, language: LanguageType, runtime?: ExecutionRuntime): boolean => {
+    return executionServiceRef.current?.canRunWithoutBackend(content, language, runtime) ?? false;
+  }, []);
+
+  const sendInput = useCallback(async (text: string): Promise<boolean> => {
+    if (!executionServiceRef.current) {
+      return false;
+    }
+
+    try {
+      return await executionServiceRef.current.sendInput(text);
+    } catch (error) {
+      console.error('Error enviando entrada al proceso:', error);
+      return false;
+    }
   }, []);
 
   return {
     executeCode,
+    executeBenchmarks,
+    stopExecution,
+    previewWebProject,
+    sendInput,
+    canRunWithoutBackend,
     isExecuting,
     lastResult,
-    isReady: isReady && !!executionServiceRef.current
+    isReady: isReady && !!executionServiceRef.current,
+    liveOutput,
+    appendLiveOutput,
+    clearLiveOutput
   };
 }
\ No newline at end of file
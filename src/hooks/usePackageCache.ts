@@ -0,0 +1,69 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { CachedPackage, PackageCache } from '../../core/runner/types.js';
+
+export interface UsePackageCacheReturn {
+  packages: CachedPackage[];
+  /** Tamaño total en bytes */
+  totalSize: number;
+  isLoading: boolean;
+  error: string;
+  refresh: () => Promise<void>;
+  /** Sin versión se eliminan todas las versiones del paquete */
+  evict: (name: string, version?: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/**
+ * Hook que lista la caché de paquetes npm del runner y permite vaciarla
+ */
+export function usePackageCache(cache: PackageCache | null): UsePackageCacheReturn {
+  const [packages, setPackages] = useState<CachedPackage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Cada cambio recarga la lista completa: la caché también cambia con cada instalación
+  const withReload = useCallback(async (action?: (target: PackageCache) => Promise<void>) => {
+    if (!cache) {
+      setPackages([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      if (action) {
+        await action(cache);
+      }
+      const listed = await cache.list();
+      setPackages([...listed].sort((a, b) => a.name.localeCompare(b.name) || b.cachedAt.getTime() - a.cachedAt.getTime()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cache]);
+
+  useEffect(() => {
+    withReload();
+  }, [withReload]);
+
+  const refresh = useCallback(() => withReload(), [withReload]);
+
+  const evict = useCallback(
+    (name: string, version?: string) => withReload(target => target.evict(name, version)),
+    [withReload]
+  );
+
+  const clear = useCallback(() => withReload(target => target.clear()), [withReload]);
+
+  return {
+    packages,
+    totalSize: packages.reduce((total, pkg) => total + pkg.size, 0),
+    isLoading,
+    error,
+    refresh,
+    evict,
+    clear
+  };
+}
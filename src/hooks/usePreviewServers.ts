@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import type { WebContainerRunner } from '../../core/runner/WebContainerRunner.js';
+import type { PreviewServer, PreviewServerEvent } from '../../core/runner/types.js';
+
+export interface UsePreviewServersReturn {
+  servers: PreviewServer[];
+  /** Último cambio de puertos, para adjuntar la vista previa automáticamente */
+  lastEvent: PreviewServerEvent | null;
+}
+
+/**
+ * Hook que expone los servidores que escuchan en algún puerto del contenedor
+ */
+export function usePreviewServers(runner: WebContainerRunner | null): UsePreviewServersReturn {
+  const [servers, setServers] = useState<PreviewServer[]>([]);
+  const [lastEvent, setLastEvent] = useState<PreviewServerEvent | null>(null);
+
+  useEffect(() => {
+    if (!runner) {
+      setServers([]);
+      return;
+    }
+
+    setServers(runner.getPreviewServers());
+    return runner.onPreviewServersChange((nextServers, event) => {
+      setServers(nextServers);
+      setLastEvent(event);
+    });
+  }, [runner]);
+
+  return { servers, lastEvent };
+}
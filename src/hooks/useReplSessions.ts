@@ -0,0 +1,63 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { WebContainerRunner } from '../../core/runner/WebContainerRunner.js';
+import type { ReplSessionInfo } from '../../core/runner/types.js';
+
+export interface UseReplSessionsReturn {
+  /** Estado de cada sesión, por id (el de la pestaña que la usa) */
+  sessions: Record<string, ReplSessionInfo>;
+  error: string;
+  /** Olvida las variables de la sesión sin reiniciar su proceso */
+  resetSession: (id: string) => Promise<void>;
+  /** Reemplaza el proceso de la sesión (p. ej. si quedó bloqueado) */
+  restartSession: (id: string) => Promise<void>;
+  closeSession: (id: string) => void;
+}
+
+/**
+ * Hook que expone las sesiones REPL del runner y las acciones sobre ellas
+ */
+export function useReplSessions(runner: WebContainerRunner | null): UseReplSessionsReturn {
+  const [sessions, setSessions] = useState<Record<string, ReplSessionInfo>>({});
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const toRecord = (list: ReplSessionInfo[]) =>
+      Object.fromEntries(list.map(session => [session.id, session]));
+
+    if (!runner) {
+      setSessions({});
+      return;
+    }
+
+    setSessions(toRecord(runner.getReplSessions()));
+    return runner.onReplSessionsChange(nextSessions => setSessions(toRecord(nextSessions)));
+  }, [runner]);
+
+  const resetSession = useCallback(async (id: string) => {
+    if (!runner) return;
+
+    setError('');
+    try {
+      await runner.resetReplSession(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [runner]);
+
+  const restartSession = useCallback(async (id: string) => {
+    if (!runner) return;
+
+    setError('');
+    try {
+      await runner.restartReplSession(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [runner]);
+
+  const closeSession = useCallback((id: string) => {
+    runner?.closeReplSession(id);
+  }, [runner]);
+
+  return { sessions, error, resetSession, restartSession, closeSession };
+}
@@ -1,5 +1,7 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { LanguageType } from '../../core/editor';
+import type { ExecutionRuntime } from '../services/ExecutionService';
+import type { GoldenFile } from '../utils/GoldenOutput';
 
 export interface Tab {
   id: string;
@@ -8,6 +10,12 @@ export interface Tab {
   language: LanguageType;
   modified: boolean;
   isActive: boolean;
+  stdin?: string; // Predefined input fed to every run of this tab
+  dependencies?: string; // Package manifest: package.json or one name@version per line
+  loopGuard?: boolean; // Abort runaway loops; unset: on for auto-execution, off for manual runs
+  runtime?: ExecutionRuntime; // Where JavaScript/TypeScript runs; unset: picked from the code
+  repl?: boolean; // Keep a REPL session: variables persist and runs evaluate only changed statements
+  golden?: GoldenFile; // Expected output each full run is checked against
 }
 
 export interface UseTabsReturn {
@@ -20,17 +28,49 @@ export interface UseTabsReturn {
   renameTab: (id: string, newName: string) => void;
 }
 
-export const useTabs = (): UseTabsReturn => {
-  const [tabs, setTabs] = useState<Tab[]>([
-    {
-      id: 'tab-1',
-      name: 'untitled',
-      content: `console.log('A')`,
-      language: 'javascript',
-      modified: false,
-      isActive: true
+const TABS_STORAGE_KEY = 'orbisjs-tabs';
+
+const DEFAULT_TABS: Tab[] = [
+  {
+    id: 'tab-1',
+    name: 'untitled',
+    content: `console.log('A')`,
+    language: 'javascript',
+    modified: false,
+    isActive: true
+  }
+];
+
+// The workspace's tabs, with what is attached to them (stdin, golden...), are kept across reloads
+function loadTabs(): Tab[] {
+  try {
+    const stored = localStorage.getItem(TABS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Tab[];
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        return parsed.some(tab => tab.isActive) ? parsed : parsed.map((tab, index) => ({ ...tab, isActive: index === 0 }));
+      }
     }
-  ]);
+  } catch (error) {
+    console.warn('Failed to load tabs:', error);
+  }
+  return DEFAULT_TABS;
+}
+
+function saveTabs(tabs: Tab[]): void {
+  try {
+    localStorage.setItem(TABS_STORAGE_KEY, JSON.stringify(tabs));
+  } catch (error) {
+    console.warn('Failed to save tabs:', error);
+  }
+}
+
+export const useTabs = (): UseTabsReturn => {
+  const [tabs, setTabs] = useState<Tab[]>(loadTabs);
+
+  useEffect(() => {
+    saveTabs(tabs);
+  }, [tabs]);
 
   const activeTab = tabs.find(tab => tab.isActive) || null;
 
@@ -0,0 +1,74 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { WebContainerRunner } from '../../core/runner/WebContainerRunner.js';
+import type { TerminalSession } from '../../core/runner/TerminalSession.js';
+import type { TerminalDimensions } from '../../core/runner/types.js';
+
+export interface UseTerminalSessionsReturn {
+  sessions: TerminalSession[];
+  activeSession: TerminalSession | null;
+  isCreating: boolean;
+  error: string;
+  createSession: (dimensions?: TerminalDimensions) => Promise<void>;
+  closeSession: (id: string) => void;
+  setActiveSession: (id: string) => void;
+}
+
+/**
+ * Hook que gestiona las sesiones de terminal (jsh) abiertas en el runner
+ */
+export function useTerminalSessions(runner: WebContainerRunner | null): UseTerminalSessionsReturn {
+  const [sessions, setSessions] = useState<TerminalSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState('');
+
+  // Un runner nuevo (reinicio) trae su propio contenedor: las sesiones anteriores ya no existen
+  useEffect(() => {
+    const existing = runner?.getTerminalSessions() || [];
+    setSessions(existing);
+    setActiveSessionId(existing.length > 0 ? existing[existing.length - 1].id : null);
+  }, [runner]);
+
+  const createSession = useCallback(async (dimensions?: TerminalDimensions) => {
+    if (!runner || !runner.isReady()) {
+      setError('El sistema de ejecución no está listo');
+      return;
+    }
+
+    setIsCreating(true);
+    setError('');
+
+    try {
+      const session = await runner.createTerminalSession(dimensions);
+      setSessions(runner.getTerminalSessions());
+      setActiveSessionId(session.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsCreating(false);
+    }
+  }, [runner]);
+
+  const closeSession = useCallback((id: string) => {
+    if (!runner) return;
+
+    runner.closeTerminalSession(id);
+    const remaining = runner.getTerminalSessions();
+    setSessions(remaining);
+    setActiveSessionId(current =>
+      current === id ? (remaining.length > 0 ? remaining[remaining.length - 1].id : null) : current
+    );
+  }, [runner]);
+
+  const activeSession = sessions.find(session => session.id === activeSessionId) || null;
+
+  return {
+    sessions,
+    activeSession,
+    isCreating,
+    error,
+    createSession,
+    closeSession,
+    setActiveSession: setActiveSessionId
+  };
+}
@@ -1,8 +1,40 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { WebContainerRunner } from '../../core/runner/index.js';
+import { NativeNodeRunner } from '../../core/runner/native/NativeNodeRunner.js';
+import type { CodeRunner, RunnerBackend } from '../../core/runner/types.js';
+
+/**
+ * Backend elegido en ajustes; 'auto' usa WebContainer y recurre a Node.js nativo si falla
+ */
+export type RunnerBackendPreference = 'auto' | RunnerBackend;
+
+const BACKEND_STORAGE_KEY = 'orbisjs-runner-backend';
+
+function loadBackendPreference(): RunnerBackendPreference {
+  try {
+    const stored = localStorage.getItem(BACKEND_STORAGE_KEY);
+    return stored === 'webcontainer' || stored === 'native' ? stored : 'auto';
+  } catch {
+    return 'auto';
+  }
+}
+
+function saveBackendPreference(preference: RunnerBackendPreference): void {
+  try {
+    localStorage.setItem(BACKEND_STORAGE_KEY, preference);
+  } catch (error) {
+    console.warn('Failed to save runner backend preference:', error);
+  }
+}
 
 interface UseWebContainerReturn {
-  runner: WebContainerRunner | null;
+  runner: CodeRunner | null;
+  /** Backend del runner activo */
+  backend: RunnerBackend | null;
+  backendPreference: RunnerBackendPreference;
+  setBackendPreference: (preference: RunnerBackendPreference) => Promise<void>;
+  /** La app corre en Electron con el puente a Node.js nativo */
+  isNativeAvailable: boolean;
   isInitializing: boolean;
   initError: string;
   retryInitialization: () => Promise<void>;
@@ -10,13 +42,16 @@ interface UseWebContainerReturn {
 }
 
 export function useWebContainer(): UseWebContainerReturn {
-  const [runner, setRunner] = useState<WebContainerRunner | null>(null);
+  const [runner, setRunner] = useState<CodeRunner | null>(null);
   const [isInitializing, setIsInitializing] = useState(true);
   const [initError, setInitError] = useState('');
+  const [backendPreference, setBackendPreferenceState] = useState<RunnerBackendPreference>(loadBackendPreference);
   
   const initializationAttempted = useRef(false);
   const lastInitAttempt = useRef(0);
   const isMounted = useRef(true);
+  const backendPreferenceRef = useRef(backendPreference);
+  const isNativeAvailable = NativeNodeRunner.isAvailable();
 
   const checkForExistingWebContainer = useCallback(() => {
     if (typeof window !== 'undefined') {
@@ -29,6 +64,65 @@ export function useWebContainer(): UseWebContainerReturn {
     return false;
   }, []);
 
+  const startNativeRunner = useCallback(async (): Promise<CodeRunner> => {
+    console.log('🚀 Initializing native Node.js runner...');
+    const nativeRunner = new NativeNodeRunner();
+    await nativeRunner.initialize();
+    console.log(`✅ Native runner ready (Node.js ${nativeRunner.getNodeVersion()})`);
+    return nativeRunner;
+  }, []);
+
+  const startWebContainerRunner = useCallback(async (): Promise<CodeRunner> => {
+    console.log('🚀 Initializing WebContainer Runner...');
+
+    // Check for existing instance first
+    if (checkForExistingWebContainer()) {
+      console.log('🔄 Existing WebContainer detected, performing cleanup...');
+      const { WebContainerManager } = await import('../../core/runner/WebContainerManager.js');
+      await WebContainerManager.forceCleanup();
+      await new Promise(resolve => setTimeout(resolve, 3000));
+    }
+
+    const newRunner = new WebContainerRunner();
+
+    // Inicialización con timeout personalizado
+    const initPromise = newRunner.initialize();
+    const timeoutPromise = new Promise((_, reject) => {
+      setTimeout(() => reject(new Error('Initialization timeout after 30 seconds')), 30000);
+    });
+
+    await Promise.race([initPromise, timeoutPromise]);
+
+    // Verificación adicional de que el runner está realmente listo
+    if (!newRunner.isReady()) {
+      throw new Error('Runner initialized but not ready');
+    }
+
+    return newRunner;
+  }, [checkForExistingWebContainer]);
+
+  /**
+   * Arranca el backend según la preferencia. En 'auto', sin aislamiento de origen
+   * (necesario para WebContainer) o si WebContainer falla, se usa Node.js nativo.
+   */
+  const startRunner = useCallback(async (preference: RunnerBackendPreference): Promise<CodeRunner> => {
+    const nativeAvailable = NativeNodeRunner.isAvailable();
+
+    if (preference === 'native' || (preference === 'auto' && nativeAvailable && !window.crossOriginIsolated)) {
+      return startNativeRunner();
+    }
+
+    try {
+      return await startWebContainerRunner();
+    } catch (err) {
+      if (preference === 'auto' && nativeAvailable) {
+        console.warn('⚠️ WebContainer no disponible, usando Node.js nativo:', err);
+        return startNativeRunner();
+      }
+      throw err;
+    }
+  }, [startNativeRunner, startWebContainerRunner]);
+
   const initRunner = useCallback(async () => {
     const now = Date.now();
     
@@ -47,39 +141,16 @@ export function useWebContainer(): UseWebContainerReturn {
     setInitError('');
     
     try {
-      console.log('🚀 Initializing WebContainer Runner...');
-      
-      // Check for existing instance first
-      if (checkForExistingWebContainer()) {
-        console.log('🔄 Existing WebContainer detected, performing cleanup...');
-        const { WebContainerManager } = await import('../../core/runner/WebContainerManager.js');
-        await WebContainerManager.forceCleanup();
-        await new Promise(resolve => setTimeout(resolve, 3000));
-      }
-      
-      const newRunner = new WebContainerRunner();
-      
-      // Inicialización con timeout personalizado
-      const initPromise = newRunner.initialize();
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Initialization timeout after 30 seconds')), 30000);
-      });
-      
-      await Promise.race([initPromise, timeoutPromise]);
+      const newRunner = await startRunner(backendPreferenceRef.current);
       
       if (!isMounted.current) {
         await newRunner.cleanup();
         return;
       }
       
-      // Verificación adicional de que el runner está realmente listo
-      if (!newRunner.isReady()) {
-        throw new Error('Runner initialized but not ready');
-      }
-      
       setRunner(newRunner);
       setIsInitializing(false);
-      console.log('✅ WebContainer Runner initialized successfully');
+      console.log(`✅ Runner initialized successfully (${newRunner.backend})`);
       
     } catch (err) {
       if (!isMounted.current) return;
@@ -101,10 +172,10 @@ export function useWebContainer(): UseWebContainerReturn {
       } else if (errorMessage.includes('Runner initialized but not ready')) {
         setInitError('⚠️ WebContainer se inicializó pero no está listo. Intenta "Reintentar" o "Reset Completo".');
       } else {
-        setInitError('❌ Error al inicializar WebContainer: ' + errorMessage);
+        setInitError('❌ Error al inicializar el runner: ' + errorMessage);
       }
     }
-  }, [runner, checkForExistingWebContainer]);
+  }, [runner, startRunner]);
 
   const retryInitialization = useCallback(async () => {
     const now = Date.now();
@@ -140,15 +211,13 @@ export function useWebContainer(): UseWebContainerReturn {
       await new Promise(resolve => setTimeout(resolve, 5000));
       
       // Try to initialize fresh
-      console.log('🚀 Creating new WebContainer instance...');
-      const newRunner = new WebContainerRunner();
-      await newRunner.initialize();
+      const newRunner = await startRunner(backendPreferenceRef.current);
       
       setRunner(newRunner);
       setIsInitializing(false);
       setInitError('');
       initializationAttempted.current = true; // Mark as successful
-      console.log('✅ WebContainer retry successful!');
+      console.log(`✅ Runner retry successful (${newRunner.backend})!`);
       
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : String(err);
@@ -166,7 +235,40 @@ export function useWebContainer(): UseWebContainerReturn {
       }
       setIsInitializing(false);
     }
-  }, [isInitializing, runner]);
+  }, [isInitializing, runner, startRunner]);
+
+  /**
+   * Guarda el backend elegido y reinicia el runner con él
+   */
+  const setBackendPreference = useCallback(async (preference: RunnerBackendPreference) => {
+    saveBackendPreference(preference);
+    backendPreferenceRef.current = preference;
+    setBackendPreferenceState(preference);
+
+    if (isInitializing) {
+      return;
+    }
+
+    setIsInitializing(true);
+    setInitError('');
+
+    try {
+      if (runner) {
+        await runner.cleanup();
+        setRunner(null);
+      }
+
+      const newRunner = await startRunner(preference);
+      setRunner(newRunner);
+      initializationAttempted.current = true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error('❌ Backend switch failed:', errorMessage);
+      setInitError('❌ No se pudo iniciar el backend de ejecución: ' + errorMessage);
+    } finally {
+      setIsInitializing(false);
+    }
+  }, [isInitializing, runner, startRunner]);
 
   const hardReset = useCallback(async () => {
     setIsInitializing(true);
@@ -235,6 +337,10 @@ export function useWebContainer(): UseWebContainerReturn {
 
   return {
     runner,
+    backend: runner?.backend ?? null,
+    backendPreference,
+    setBackendPreference,
+    isNativeAvailable,
     isInitializing,
     initError,
     retryInitialization,
@@ -0,0 +1,94 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { WebContainerRunner } from '../../core/runner/WebContainerRunner.js';
+import type { WorkspaceSnapshotInfo, WorkspaceSnapshotOptions } from '../../core/runner/types.js';
+
+export interface UseWorkspaceSnapshotReturn {
+  isBusy: boolean;
+  error: string;
+  /** Resumen de la última instantánea importada */
+  lastImported: WorkspaceSnapshotInfo | null;
+  /** El contenedor monta la instantánea importada cada vez que arranca */
+  mountsOnBoot: boolean;
+  exportSnapshot: (options?: WorkspaceSnapshotOptions) => Promise<void>;
+  importSnapshot: (file: File, mountOnBoot: boolean) => Promise<void>;
+  clearBootSnapshot: () => Promise<void>;
+}
+
+/**
+ * Hook que exporta el sistema de archivos del contenedor como instantánea
+ * (descarga un .json.gz) y la restaura desde un archivo
+ */
+export function useWorkspaceSnapshot(runner: WebContainerRunner | null): UseWorkspaceSnapshotReturn {
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [lastImported, setLastImported] = useState<WorkspaceSnapshotInfo | null>(null);
+  const [mountsOnBoot, setMountsOnBoot] = useState(false);
+
+  // La instantánea de arranque vive en el gestor del contenedor (guardada en IndexedDB)
+  // y sobrevive a los reinicios del runner y a las recargas
+  useEffect(() => {
+    setMountsOnBoot(runner?.hasBootSnapshot() ?? false);
+  }, [runner]);
+
+  const exportSnapshot = useCallback(async (options?: WorkspaceSnapshotOptions) => {
+    if (!runner || !runner.isReady()) {
+      setError('El sistema de ejecución no está listo');
+      return;
+    }
+
+    setIsBusy(true);
+    setError('');
+
+    try {
+      const data = await runner.exportSnapshot(options);
+      const blob = new Blob([data], { type: 'application/gzip' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `orbisjs-workspace-${Date.now()}.json.gz`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  }, [runner]);
+
+  const importSnapshot = useCallback(async (file: File, mountOnBoot: boolean) => {
+    if (!runner || !runner.isReady()) {
+      setError('El sistema de ejecución no está listo');
+      return;
+    }
+
+    setIsBusy(true);
+    setError('');
+
+    try {
+      const info = await runner.importSnapshot(await file.arrayBuffer(), { mountOnBoot });
+      setLastImported(info);
+      setMountsOnBoot(runner.hasBootSnapshot());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  }, [runner]);
+
+  const clearBootSnapshot = useCallback(async () => {
+    await runner?.clearBootSnapshot();
+    setMountsOnBoot(false);
+  }, [runner]);
+
+  return {
+    isBusy,
+    error,
+    lastImported,
+    mountsOnBoot,
+    exportSnapshot,
+    importSnapshot,
+    clearBootSnapshot
+  };
+}
@@ -3,18 +3,84 @@
  * Integra LanguageDetector y AutoExecutionManager para eliminar duplicación
  */
 
-import type { WebContainerRunner } from '../../core/runner/WebContainerRunner.js';
-import type { ExecutionResult, SupportedLanguage } from '../../core/runner/types.js';
+import { WebContainerRunner } from '../../core/runner/WebContainerRunner.js';
+import { BrowserRunner } from '../../core/runner/browser/BrowserRunner.js';
+import { QuickJSRunner } from '../../core/runner/quickjs/QuickJSRunner.js';
+import type {
+  BenchmarkOptions,
+  BenchmarkResult,
+  CodeRunner,
+  ConsoleEntry,
+  ExecutionAnnotation,
+  ExecutionResult,
+  ModuleFormatInfo,
+  OutputListener,
+  ProcessStatus,
+  ProjectFile,
+  RuntimeErrorDetails,
+  SupportedLanguage,
+  TestCaseResult
+} from '../../core/runner/types.js';
 import type { LanguageType } from '../../core/editor/index.js';
 import type { ExecutionQueueEntry } from '../../core/runner/auto-execution/types.js';
 import { LanguageDetector } from '../../core/runner/babel/LanguageDetector.js';
+import type { RuntimeTarget } from '../../core/runner/babel/types.js';
 import { AutoExecutionManager } from '../../core/runner/auto-execution/AutoExecutionManager.js';
-import { generateFileName, getLanguageExtension } from '../utils/FileUtils.js';
+import { detectLanguageFromExtension, generateFileName, getLanguageExtension } from '../utils/FileUtils.js';
 
 export interface ExecutionOptions {
   filename?: string;
   useAutoExecution?: boolean;
   timeout?: number;
+  /** Recibe cada línea de salida en cuanto el proceso la emite */
+  onOutput?: OutputListener;
+  /**
+   * Modo proyecto: todos los archivos abiertos se montan juntos y `filename`
+   * (que debe coincidir con uno de ellos) se ejecuta como punto de entrada
+   */
+  projectFiles?: ProjectFile[];
+  /** Entrada predefinida para la ejecución; sin ella stdin queda abierto para sendInput */
+  stdin?: string;
+  /** Corta bucles y recursiones sin fin indicando la línea que los causó */
+  loopGuard?: boolean;
+  /** Variables de entorno del programa (también para la instalación de dependencias) */
+  env?: Record<string, string>;
+  /** Versiones de paquetes del manifiesto de la pestaña; los comentarios `// @version` tienen prioridad */
+  dependencies?: Record<string, string>;
+  /**
+   * Ejecuta las llamadas describe/it/test con el arnés de pruebas integrado.
+   * Sin valor se decide según el contenido (LanguageDetector)
+   */
+  testMode?: boolean;
+  /** Mide el rendimiento de las funciones marcadas con `// @bench` (o del programa entero) */
+  benchmark?: boolean | BenchmarkOptions;
+  /**
+   * Dónde se ejecuta JavaScript/TypeScript: Node (el backend), un iframe aislado o QuickJS.
+   * Sin valor se decide según el contenido (LanguageDetector); los proyectos siempre usan Node
+   */
+  runtime?: ExecutionRuntime;
+  /**
+   * Evalúa en la sesión REPL con este id (normalmente el de la pestaña): las
+   * variables sobreviven entre ejecuciones y solo se evalúan las sentencias que cambiaron
+   */
+  replSession?: string;
+  /** Con replSession: evalúa solo este fragmento (la selección del editor) */
+  selection?: string;
+}
+
+/**
+ * Entorno de ejecución de JavaScript/TypeScript. QuickJS ejecuta al instante
+ * el código sin imports ni APIs de Node o del DOM, aunque el backend siga arrancando
+ */
+export type ExecutionRuntime = 'node' | 'browser' | 'quickjs';
+
+/**
+ * Programa que participa en una comparación de rendimiento (normalmente una pestaña)
+ */
+export interface BenchmarkSource {
+  content: string;
+  tabName: string;
+  language: LanguageType;
 }
 
 export interface ExecutionServiceResult {
@@ -23,6 +89,24 @@ export interface ExecutionServiceResult {
   error?: string;
   detectedLanguage?: string;
   detectedFramework?: string;
+  /** Valores por línea registrados durante la ejecución */
+  annotations?: ExecutionAnnotation[];
+  /** Resultado de cada prueba cuando se ejecutó en modo de pruebas */
+  tests?: TestCaseResult[];
+  /** Estadísticas de cada candidato cuando se ejecutó en modo benchmark */
+  benchmarks?: BenchmarkResult[];
+  /** Llamadas a console con sus argumentos serializados, para el inspector de objetos */
+  console?: ConsoleEntry[];
+  /** Error no capturado, con su pila traducida a las posiciones del código original */
+  errorDetails?: RuntimeErrorDetails;
+  /** Formato de módulo con el que Node cargó el archivo y por qué */
+  moduleFormat?: ModuleFormatInfo;
+  /** 'killed' cuando la ejecución se detuvo antes de terminar */
+  status?: ProcessStatus;
+  /** Duración de la ejecución en milisegundos */
+  duration?: number;
+  /** Entorno en el que se ejecutó el código (sin valor para Python y la vista previa) */
+  runtime?: ExecutionRuntime;
 }
 
 /**
@@ -31,9 +115,14 @@ export interface ExecutionServiceResult {
 export class ExecutionService {
   private languageDetector: LanguageDetector;
   private autoExecutionManager: AutoExecutionManager | null = null;
+  private browserRunner: BrowserRunner | null = null;
+  private quickJSRunner: QuickJSRunner | null = null;
 
+  /**
+   * @param runner Backend de ejecución; null mientras arranca (solo QuickJS y el navegador están disponibles)
+   */
   constructor(
-    private runner: WebContainerRunner,
+    private runner: CodeRunner | null,
     autoExecutionManager?: AutoExecutionManager
   ) {
     this.languageDetector = new LanguageDetector();
@@ -50,32 +139,51 @@ export class ExecutionService {
     options: ExecutionOptions = {}
   ): Promise<ExecutionServiceResult> {
     try {
-      // Verificar que el runner esté listo
-      if (!this.runner.isReady()) {
+      // Detectar lenguaje automáticamente del contenido
+      const languageInfo = this.languageDetector.detectFromContent(content);
+      console.log('🔍 Lenguaje detectado:', languageInfo);
+
+      // Usar currentLanguage como fallback si la detección automática no es confiable.
+      // En modo proyecto manda la extensión del archivo de entrada.
+      // El detector solo conoce JavaScript y sus variantes: una pestaña Python sigue siendo Python.
+      const finalLanguage = options.projectFiles && options.filename
+        ? detectLanguageFromExtension(options.filename)
+        : currentLanguage === 'python' ? 'python' : languageInfo.language || currentLanguage || 'javascript';
+
+      let runtime = this.resolveRuntime(content, finalLanguage, options, languageInfo.runtime);
+
+      // Si QuickJS no carga (p. ej. sin conexión) se usa Node
+      if (runtime === 'quickjs' && !(await this.loadQuickJS())) {
+        runtime = 'node';
+      }
+
+      // Verificar que el runner esté listo (QuickJS y el navegador no lo necesitan)
+      if ((runtime === undefined || runtime === 'node') && !this.runner?.isReady()) {
         return {
           success: false,
           error: 'El sistema de ejecución no está listo. Por favor, espera a que se complete la inicialización.'
         };
       }
 
-      // Detectar lenguaje automáticamente del contenido
-      const languageInfo = this.languageDetector.detectFromContent(content);
-      console.log('🔍 Lenguaje detectado:', languageInfo);
-
-      // Usar currentLanguage como fallback si la detección automática no es confiable
-      const finalLanguage = languageInfo.language || currentLanguage || 'javascript';
-
       // Generar nombre de archivo usando utilidades centralizadas
       const filename = options.filename || generateFileName(tabName, finalLanguage);
       
-      // Intentar usar auto-ejecución si está disponible y habilitada
-      if (options.useAutoExecution && this.autoExecutionManager) {
+      // Intentar usar auto-ejecución si está disponible y habilitada (solo ejecuta en Node)
+      if (options.useAutoExecution && this.autoExecutionManager && !options.projectFiles && !options.benchmark && !options.replSession && runtime !== 'browser' && runtime !== 'quickjs') {
         try {
           const result = await this.executeViaAutoExecution(filename, content);
           return {
             success: result.success,
             output: result.output,
             error: result.error,
+            annotations: result.annotations,
+            tests: result.tests,
+            console: result.console,
+            errorDetails: result.errorDetails,
+            moduleFormat: result.moduleFormat,
+            status: result.status,
+            duration: result.duration,
+            runtime,
             detectedLanguage: finalLanguage,
             detectedFramework: languageInfo.framework
           };
@@ -85,13 +193,23 @@ export class ExecutionService {
         }
       }
 
-      // Ejecución directa usando el runner
-      const result = await this.executeDirectly(content, finalLanguage, filename, options.timeout);
+      // Ejecución directa usando el runner; el código de pruebas usa el arnés integrado
+      const testMode = !options.benchmark && !options.replSession && finalLanguage !== 'python' && (options.testMode ?? languageInfo.isTest === true);
+      const result = await this.executeDirectly(content, finalLanguage, filename, { ...options, testMode, runtime });
       
       return {
         success: result.success,
         output: result.output,
         error: result.error,
+        annotations: result.annotations,
+        tests: result.tests,
+        benchmarks: result.benchmarks,
+        console: result.console,
+        errorDetails: result.errorDetails,
+        moduleFormat: result.moduleFormat,
+        status: result.status,
+        duration: result.duration,
+        runtime,
         detectedLanguage: finalLanguage,
         detectedFramework: languageInfo.framework
       };
@@ -104,6 +222,116 @@ export class ExecutionService {
     }
   }
 
+  /**
+   * Detiene la ejecución en curso (manual o automática) terminando el proceso.
+   * La llamada pendiente a executeCode devuelve status 'killed' conservando la salida.
+   */
+  async stopExecution(): Promise<boolean> {
+    this.autoExecutionManager?.cancelExecution();
+    const stoppedInBrowser = await this.browserRunner?.stopExecution() ?? false;
+    const stoppedInQuickJS = await this.quickJSRunner?.stopExecution() ?? false;
+    const stoppedInBackend = await this.runner?.stopExecution() ?? false;
+    return stoppedInBackend || stoppedInBrowser || stoppedInQuickJS;
+  }
+
+  /**
+   * Indica si el código puede ejecutarse sin esperar al backend (en QuickJS o en el navegador)
+   */
+  canRunWithoutBackend(content: string, language: LanguageType, runtime?: ExecutionRuntime): boolean {
+    const resolved = this.resolveRuntime(content, language, { runtime }, this.languageDetector.detectRuntime(content));
+    return resolved === 'quickjs' || resolved === 'browser';
+  }
+
+  /**
+   * Sirve una página HTML (y los demás archivos del proyecto) para el panel de vista previa.
+   * El servidor sigue activo tras devolver el resultado.
+   */
+  async previewWebProject(
+    html: string,
+    files: ProjectFile[] = [],
+    onOutput?: OutputListener,
+    env?: Record<string, string>
+  ): Promise<ExecutionServiceResult> {
+    if (!this.runner?.isReady()) {
+      return {
+        success: false,
+        error: 'El sistema de ejecución no está listo. Por favor, espera a que se complete la inicialización.'
+      };
+    }
+
+    // Servir páginas necesita los puertos y URLs de vista previa de WebContainer
+    if (!(this.runner instanceof WebContainerRunner)) {
+      return {
+        success: false,
+        error: 'La vista previa web solo está disponible con el backend WebContainer.',
+        detectedLanguage: 'html'
+      };
+    }
+
+    try {
+      const result = await this.runner.createWebProject(html, '', '', files, { onOutput, env });
+      return {
+        success: result.success,
+        output: result.output,
+        error: result.error,
+        status: result.status,
+        detectedLanguage: 'html'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.formatError(error)
+      };
+    }
+  }
+
+  /**
+   * Compara el rendimiento de varios programas: cada uno se ejecuta por separado
+   * en modo benchmark y sus resultados se reúnen en una sola tabla
+   */
+  async executeBenchmarks(
+    sources: BenchmarkSource[],
+    options: ExecutionOptions = {}
+  ): Promise<ExecutionServiceResult> {
+    const outputs: string[] = [];
+    const errors: string[] = [];
+    const benchmarks: BenchmarkResult[] = [];
+    let duration = 0;
+
+    for (const source of sources) {
+      const result = await this.executeCode(source.content, source.tabName, source.language, {
+        ...options,
+        useAutoExecution: false,
+        benchmark: options.benchmark || true
+      });
+      outputs.push(result.output || '');
+      benchmarks.push(...(result.benchmarks || []));
+      duration += result.duration || 0;
+      if (result.error) {
+        errors.push(`${source.tabName}: ${result.error}`);
+      }
+      // Detenido por el usuario: no se ejecutan los programas restantes
+      if (result.status === 'killed') {
+        return { success: false, output: outputs.join('\n'), benchmarks, status: 'killed', duration };
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      output: outputs.join('\n'),
+      error: errors.length > 0 ? errors.join('\n') : undefined,
+      benchmarks,
+      duration
+    };
+  }
+
+  /**
+   * Envía una línea de texto a la entrada estándar del programa en ejecución
+   */
+  async sendInput(text: string): Promise<boolean> {
+    return this.runner?.writeInput(text) ?? false;
+  }
+
   /**
    * Ejecuta código usando AutoExecutionManager
    */
@@ -149,19 +377,121 @@ export class ExecutionService {
     content: string, 
     language: string, 
     filename: string,
-    timeout?: number
+    options: ExecutionOptions
   ): Promise<ExecutionResult> {
     const runnerLanguage = this.mapToRunnerLanguage(language);
     
-    // Asegurar que el filename tenga la extensión correcta para el lenguaje detectado
-    const validatedFilename = this.ensureCorrectExtension(filename, language);
+    // Asegurar que el filename tenga la extensión correcta para el lenguaje detectado.
+    // En modo proyecto se respeta tal cual: los imports de otras pestañas dependen de él.
+    const validatedFilename = options.projectFiles
+      ? filename
+      : this.ensureCorrectExtension(filename, language);
     
-    const options = {
+    const runOptions = {
       filename: validatedFilename,
-      timeout: timeout || 30000
+      timeout: options.timeout || 30000,
+      files: options.projectFiles,
+      stdin: options.stdin,
+      loopGuard: options.loopGuard,
+      env: options.env,
+      dependencies: options.dependencies,
+      testMode: options.testMode,
+      benchmark: options.benchmark,
+      onOutput: options.onOutput
     };
 
-    return await this.runner.runCode(content, runnerLanguage, options);
+    if (options.runtime === 'browser') {
+      return await this.getBrowserRunner().runCode(content, runnerLanguage, runOptions);
+    }
+    if (options.runtime === 'quickjs') {
+      return await this.getQuickJSRunner().runCode(content, runnerLanguage, runOptions);
+    }
+    if (!this.runner) {
+      throw new Error('Runner not initialized');
+    }
+    if (options.replSession && (runnerLanguage === 'javascript' || runnerLanguage === 'typescript')) {
+      // Las sesiones REPL necesitan un proceso de Node que siga vivo: solo WebContainer lo ofrece
+      if (this.runner instanceof WebContainerRunner) {
+        return await this.runner.evaluateInSession(options.replSession, options.selection ?? content, runnerLanguage, {
+          filename: validatedFilename,
+          selection: options.selection !== undefined,
+          env: options.env,
+          dependencies: options.dependencies,
+          onOutput: options.onOutput
+        });
+      }
+      options.onOutput?.({
+        type: 'log',
+        content: 'Las sesiones REPL requieren el backend WebContainer; se ejecuta el programa completo',
+        timestamp: new Date()
+      });
+      return await this.runner.runCode(options.selection ?? content, runnerLanguage, runOptions);
+    }
+    return await this.runner.runCode(content, runnerLanguage, runOptions);
+  }
+
+  /**
+   * Elige dónde se ejecuta el código. Python y los proyectos usan el backend;
+   * si la pestaña no fija el entorno, el código con DOM va al navegador y el
+   * código puro (sin imports ni APIs de Node) a QuickJS. Los benchmarks usan
+   * Node: un intérprete daría tiempos que no se parecen a los reales.
+   */
+  private resolveRuntime(
+    content: string,
+    language: string,
+    options: Pick<ExecutionOptions, 'runtime' | 'projectFiles' | 'benchmark' | 'replSession'>,
+    detected?: RuntimeTarget
+  ): ExecutionRuntime | undefined {
+    if (language === 'python') {
+      return undefined;
+    }
+    if (options.projectFiles || options.replSession) {
+      return 'node';
+    }
+    if (options.runtime) {
+      return options.runtime;
+    }
+    if (detected === 'browser') {
+      return 'browser';
+    }
+    const instant = !options.benchmark &&
+      (language === 'javascript' || language === 'typescript') &&
+      QuickJSRunner.isAvailable() &&
+      QuickJSRunner.canRun(content);
+    return instant ? 'quickjs' : 'node';
+  }
+
+  /**
+   * Carga QuickJS en su worker; false si no se pudo
+   */
+  private async loadQuickJS(): Promise<boolean> {
+    try {
+      await this.getQuickJSRunner().initialize();
+      return true;
+    } catch (error) {
+      console.warn('⚠️ QuickJS no disponible, ejecutando con Node:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Runner de QuickJS, creado con la primera ejecución que lo necesita
+   */
+  private getQuickJSRunner(): QuickJSRunner {
+    if (!this.quickJSRunner) {
+      this.quickJSRunner = new QuickJSRunner();
+    }
+    return this.quickJSRunner;
+  }
+
+  /**
+   * Runner del iframe aislado, creado con la primera ejecución que lo necesita
+   */
+  private getBrowserRunner(): BrowserRunner {
+    if (!this.browserRunner) {
+      this.browserRunner = new BrowserRunner();
+    }
+    return this.browserRunner;
   }
 
   /**
@@ -200,7 +530,8 @@ export class ExecutionService {
       'css': 'javascript',
       'html': 'javascript',
       'vue': 'javascript',
-      'svelte': 'javascript'
+      'svelte': 'javascript',
+      'python': 'python'
     };
 
     return languageMap[detectedLanguage] || 'javascript';
@@ -268,6 +599,6 @@ export class ExecutionService {
    * Verifica si el servicio está listo para ejecutar código
    */
   isReady(): boolean {
-    return this.runner.isReady();
+    return this.runner?.isReady() ?? false;
   }
 }
\ No newline at end of file
@@ -0,0 +1,142 @@
+/**
+ * Utilidades para las entradas de consola estructuradas: vista previa en una
+ * línea de los valores inspeccionados, texto para la búsqueda y anidación de
+ * console.group
+ */
+
+import type { ConsoleEntry, InspectedValue } from '../../core/runner/types.js';
+
+export interface ConsoleNode {
+  entry: ConsoleEntry;
+  children: ConsoleNode[]; // Entradas dentro de un console.group
+}
+
+// Elementos mostrados en la vista previa de un contenedor
+const PREVIEW_ITEMS = 5;
+
+// Los errores se resumen con su mensaje
+const CONTAINER_KINDS = new Set<InspectedValue['kind']>(['object', 'array', 'map', 'set']);
+
+/**
+ * Texto de una línea para un valor. Los contenedores anidados dentro de la
+ * vista previa solo muestran su resumen corto (`{…}`, `Array(3)`).
+ * `short` da siempre el resumen corto; los strings van entre comillas salvo `quote: false`.
+ */
+export function formatInspectedValue(
+  value: InspectedValue,
+  { short = false, quote = true }: { short?: boolean; quote?: boolean } = {}
+): string {
+  if (value.kind === 'string') {
+    return quote ? quoteString(value.preview) : value.preview;
+  }
+  if (!CONTAINER_KINDS.has(value.kind) || short || !value.entries) {
+    return value.preview;
+  }
+
+  const entries = value.entries.slice(0, PREVIEW_ITEMS);
+  const hidden = (value.size ?? value.entries.length) > entries.length;
+  const nested = (item: InspectedValue) => formatInspectedValue(item, { short: true });
+  let items: string[];
+  let open = '{';
+  let close = '}';
+
+  if (value.kind === 'array') {
+    items = entries.map(entry => nested(entry.value));
+    open = '[';
+    close = ']';
+  } else if (value.kind === 'map') {
+    items = entries.map(entry => `${typeof entry.key === 'object' ? nested(entry.key) : entry.key} => ${nested(entry.value)}`);
+  } else if (value.kind === 'set') {
+    items = entries.map(entry => nested(entry.value));
+  } else {
+    items = entries.map(entry => `${entry.key}: ${nested(entry.value)}`);
+  }
+
+  if (hidden) {
+    items.push('…');
+  }
+
+  const body = `${open}${items.join(', ')}${close}`;
+  if (value.kind === 'object') {
+    return value.className && value.className !== 'Object' ? `${value.className} ${body}` : body;
+  }
+  if (value.kind === 'array' && value.className === 'Array') {
+    return `(${value.size}) ${body}`;
+  }
+  return `${value.preview} ${body}`;
+}
+
+function quoteString(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * Todo el texto de una entrada (argumentos, claves anidadas y tabla), para buscar en él
+ */
+export function getConsoleEntryText(entry: ConsoleEntry): string {
+  const parts: string[] = [];
+  const visit = (value: InspectedValue) => {
+    parts.push(value.preview);
+    for (const item of value.entries || []) {
+      if (typeof item.key === 'string') {
+        parts.push(item.key);
+      } else if (item.key) {
+        visit(item.key);
+      }
+      visit(item.value);
+    }
+  };
+
+  entry.args.forEach(visit);
+  if (entry.table) {
+    parts.push(...entry.table.columns);
+    for (const row of entry.table.rows) {
+      parts.push(row.key);
+      Object.values(row.cells).forEach(visit);
+    }
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Agrupa las entradas según su profundidad: lo que sigue a un console.group
+ * con mayor profundidad queda dentro de él
+ */
+export function buildConsoleTree(entries: ConsoleEntry[]): ConsoleNode[] {
+  const roots: ConsoleNode[] = [];
+  const groups: ConsoleNode[] = [];
+
+  for (const entry of entries) {
+    const node: ConsoleNode = { entry, children: [] };
+    while (groups.length > 0 && groups[groups.length - 1].entry.depth >= entry.depth) {
+      groups.pop();
+    }
+
+    const parent = groups[groups.length - 1];
+    (parent ? parent.children : roots).push(node);
+    if (entry.level === 'group') {
+      groups.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Deja los nodos cuyo texto contiene la búsqueda (sin distinguir mayúsculas).
+ * Un grupo se conserva si coincide él o alguna de sus entradas.
+ */
+export function filterConsoleTree(nodes: ConsoleNode[], query: string): ConsoleNode[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return nodes;
+  }
+
+  return nodes.flatMap(node => {
+    const children = filterConsoleTree(node.children, needle);
+    if (children.length > 0 || getConsoleEntryText(node.entry).toLowerCase().includes(needle)) {
+      return [{ ...node, children: children.length > 0 ? children : node.children }];
+    }
+    return [];
+  });
+}
@@ -0,0 +1,122 @@
+/**
+ * Utilidades para archivos .env: análisis de la sintaxis habitual de dotenv
+ * y enmascarado de valores secretos en la interfaz
+ */
+
+export type EnvVariables = Record<string, string>;
+
+export interface EnvParseError {
+  line: number; // Línea (1-based) del texto original
+  message: string;
+}
+
+export interface EnvParseResult {
+  variables: EnvVariables;
+  errors: EnvParseError[];
+}
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+// Nombres que suelen contener credenciales
+const SECRET_KEY_PATTERN = /(SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|AUTH(?!OR)|API_?KEY|ACCESS_?KEY|_KEY$|^KEY$)/i;
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+
+/**
+ * Analiza texto con sintaxis .env:
+ * - `CLAVE=valor`, con `export` opcional delante
+ * - comentarios con `#` (en valores sin comillas, solo si van precedidos de un espacio)
+ * - valores entre comillas simples (literales) o dobles (con escapes y varias líneas)
+ * Las líneas inválidas se informan en `errors` y se ignoran; la última definición gana.
+ */
+export function parseEnvFile(text: string): EnvParseResult {
+  const variables: EnvVariables = {};
+  const errors: EnvParseError[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const line = lines[index].trim();
+
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const assignment = line.replace(/^export\s+/, '');
+    const separator = assignment.indexOf('=');
+    if (separator === -1) {
+      errors.push({ line: lineNumber, message: `Missing "=" in "${assignment}"` });
+      continue;
+    }
+
+    const key = assignment.slice(0, separator).trim();
+    if (!KEY_PATTERN.test(key)) {
+      errors.push({ line: lineNumber, message: `Invalid variable name "${key}"` });
+      continue;
+    }
+
+    let rawValue = assignment.slice(separator + 1).trim();
+    const quote = rawValue[0];
+
+    if (quote !== '"' && quote !== "'") {
+      variables[key] = rawValue.replace(/\s+#.*$/, '');
+      continue;
+    }
+
+    // Las comillas dobles pueden abarcar varias líneas
+    const startIndex = index;
+    while (quote === '"' && findClosingQuote(rawValue, quote) === -1 && index + 1 < lines.length) {
+      index++;
+      rawValue += `\n${lines[index]}`;
+    }
+
+    const closing = findClosingQuote(rawValue, quote);
+    if (closing === -1) {
+      // Sin cierre hasta el final: se descarta solo esta línea
+      errors.push({ line: lineNumber, message: `Unterminated quote in "${key}"` });
+      index = startIndex;
+      continue;
+    }
+
+    const rest = rawValue.slice(closing + 1).trim();
+    if (rest && !rest.startsWith('#')) {
+      errors.push({ line: lineNumber, message: `Unexpected text after the value of "${key}"` });
+      continue;
+    }
+
+    const inner = rawValue.slice(1, closing);
+    variables[key] = quote === '"'
+      ? inner.replace(/\\(.)/g, (match, char: string) => ESCAPES[char] ?? match)
+      : inner;
+  }
+
+  return { variables, errors };
+}
+
+/**
+ * Posición de la comilla que cierra el valor (ignorando las escapadas en comillas dobles)
+ */
+function findClosingQuote(value: string, quote: string): number {
+  for (let i = 1; i < value.length; i++) {
+    if (quote === '"' && value[i] === '\\') {
+      i++;
+    } else if (value[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Indica si el nombre de la variable sugiere un valor secreto
+ */
+export function isSecretEnvKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key);
+}
+
+/**
+ * Versión enmascarada de un valor para mostrarlo en pantalla (no revela su longitud)
+ */
+export function maskEnvValue(value: string): string {
+  return value ? '••••••••' : '';
+}
@@ -0,0 +1,141 @@
+/**
+ * ExecutionHistory - Historial de ejecuciones por pestaña y diff de salidas entre ejecuciones
+ */
+
+import type { ProcessStatus } from '../../core/runner/types.js';
+
+/**
+ * Origen de la ejecución: el botón Run/atajo o la auto-ejecución al editar
+ */
+export type ExecutionTrigger = 'manual' | 'auto';
+
+export interface ExecutionHistoryEntry {
+  id: string;
+  tabId: string;
+  timestamp: Date;
+  /** Hash del código ejecutado, para saber si cambió entre dos ejecuciones */
+  codeHash: string;
+  language: string;
+  trigger: ExecutionTrigger;
+  success: boolean;
+  output: string;
+  error?: string;
+  /** Duración en milisegundos (si el runner la informó) */
+  duration?: number;
+  status?: ProcessStatus;
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Número máximo de celdas de la tabla LCS; por encima el diff se simplifica
+ */
+const MAX_DIFF_CELLS = 2000000;
+
+let entryCounter = 0;
+
+/**
+ * Hash FNV-1a de 32 bits en hexadecimal (identifica versiones del código, no es criptográfico)
+ */
+export function hashCode(code: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < code.length; i++) {
+    hash ^= code.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Crea una entrada de historial con id y fecha
+ */
+export function createHistoryEntry(
+  entry: Omit<ExecutionHistoryEntry, 'id' | 'timestamp' | 'codeHash'> & { code: string }
+): ExecutionHistoryEntry {
+  const { code, ...rest } = entry;
+  return {
+    ...rest,
+    id: `run-${Date.now()}-${++entryCounter}`,
+    timestamp: new Date(),
+    codeHash: hashCode(code)
+  };
+}
+
+/**
+ * Texto comparable de una ejecución: la salida seguida del error, si lo hubo
+ */
+export function getEntryText(entry: ExecutionHistoryEntry): string {
+  return [entry.output, entry.error].filter(Boolean).join('\n');
+}
+
+/**
+ * Diff por líneas (LCS) entre dos textos
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // Las partes comunes al principio y al final no necesitan la tabla
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  const tail: DiffLine[] = a.slice(endA).map(text => ({ type: 'same', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // Salidas enormes: todo lo distinto se marca como borrado y añadido
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map(text => ({ type: 'removed' as const, text })),
+      ...midB.map(text => ({ type: 'added' as const, text })),
+      ...tail
+    ];
+  }
+
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) {
+    middle.push({ type: 'removed', text: midA[i++] });
+  }
+  while (j < midB.length) {
+    middle.push({ type: 'added', text: midB[j++] });
+  }
+
+  return [...head, ...middle, ...tail];
+}
@@ -20,7 +20,8 @@ const LANGUAGE_EXTENSIONS: Record<string, string> = {
   'svelte': 'svelte',
   'markdown': 'md',
   'yaml': 'yml',
-  'xml': 'xml'
+  'xml': 'xml',
+  'python': 'py'
 };
 
 /**
@@ -31,7 +32,8 @@ const EDITOR_LANGUAGE_EXTENSIONS: Record<LanguageType, string> = {
   'typescript': 'ts',
   'json': 'json',
   'css': 'css',
-  'html': 'html'
+  'html': 'html',
+  'python': 'py'
 };
 
 /**
@@ -107,7 +109,8 @@ export function detectLanguageFromExtension(filename: string): string {
     'md': 'markdown',
     'yml': 'yaml',
     'yaml': 'yaml',
-    'xml': 'xml'
+    'xml': 'xml',
+    'py': 'python'
   };
 
   return extensionToLanguage[extension] || 'javascript';
@@ -129,7 +132,8 @@ export function mapToEditorLanguage(detectedLanguage: string): LanguageType {
     'svelte': 'html',
     'markdown': 'html',
     'yaml': 'json',
-    'xml': 'html'
+    'xml': 'html',
+    'python': 'python'
   };
 
   return languageMap[detectedLanguage.toLowerCase()] || 'javascript';
@@ -203,4 +207,13 @@ export function generateUniqueFileName(baseName: string, existingNames: string[]
   }
 
   return fileName;
-}
\ No newline at end of file
+}
+
+/**
+ * Formatea un tamaño en bytes para mostrarlo (p. ej. '1.5 MB')
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,139 @@
+/**
+ * GoldenOutput - Salida esperada de una pestaña (golden file) y su comparación con la de cada ejecución
+ */
+
+import { diffLines, type DiffLine } from './ExecutionHistory';
+
+/**
+ * Cómo se compara la salida con la esperada:
+ * - exact: el mismo texto (sin contar los finales de línea \r\n ni el salto final)
+ * - regex: cada línea esperada es una expresión regular que debe cubrir la línea entera
+ * - json: la salida es un documento JSON con la misma estructura y valores (el orden de las claves no importa)
+ */
+export type GoldenMode = 'exact' | 'regex' | 'json';
+
+export interface GoldenFile {
+  mode: GoldenMode;
+  expected: string;
+}
+
+export interface GoldenComparison {
+  passed: boolean;
+  /** Diff de lo esperado a lo obtenido (en modo regex, las líneas que no coinciden) */
+  diff: DiffLine[];
+  /** Motivo cuando ni siquiera se pudo comparar (regex o JSON inválidos) */
+  message?: string;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\r\n/g, '\n').replace(/\n+$/, '');
+}
+
+function splitLines(text: string): string[] {
+  const normalized = normalize(text);
+  return normalized ? normalized.split('\n') : [];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * JSON con las claves ordenadas, para que dos objetos iguales se escriban igual
+ */
+function canonicalJson(value: unknown): string {
+  const sortKeys = (current: unknown): unknown => {
+    if (Array.isArray(current)) {
+      return current.map(sortKeys);
+    }
+    if (current && typeof current === 'object') {
+      return Object.fromEntries(
+        Object.keys(current as Record<string, unknown>)
+          .sort()
+          .map(key => [key, sortKeys((current as Record<string, unknown>)[key])])
+      );
+    }
+    return current;
+  };
+  return JSON.stringify(sortKeys(value), null, 2);
+}
+
+function compareRegex(output: string, expected: string): GoldenComparison {
+  let patterns: RegExp[];
+  try {
+    patterns = splitLines(expected).map(line => new RegExp(`^(?:${line})$`));
+  } catch (error) {
+    return { passed: false, diff: [], message: `Expresión regular inválida: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const expectedLines = splitLines(expected);
+  const actualLines = splitLines(output);
+  const diff: DiffLine[] = [];
+  for (let i = 0; i < Math.max(patterns.length, actualLines.length); i++) {
+    if (i < patterns.length && i < actualLines.length && patterns[i].test(actualLines[i])) {
+      diff.push({ type: 'same', text: actualLines[i] });
+      continue;
+    }
+    if (i < patterns.length) {
+      diff.push({ type: 'removed', text: expectedLines[i] });
+    }
+    if (i < actualLines.length) {
+      diff.push({ type: 'added', text: actualLines[i] });
+    }
+  }
+  return { passed: diff.every(line => line.type === 'same'), diff };
+}
+
+function compareJson(output: string, expected: string): GoldenComparison {
+  let expectedJson: string;
+  try {
+    expectedJson = canonicalJson(JSON.parse(expected));
+  } catch {
+    return { passed: false, diff: [], message: 'La salida esperada no es JSON válido' };
+  }
+
+  let actualJson: string;
+  try {
+    actualJson = canonicalJson(JSON.parse(output));
+  } catch {
+    return { passed: false, diff: diffLines(expectedJson, normalize(output)), message: 'La salida no es JSON válido' };
+  }
+
+  return { passed: expectedJson === actualJson, diff: diffLines(expectedJson, actualJson) };
+}
+
+/**
+ * Compara la salida de una ejecución (ExecutionResult.output) con la esperada
+ */
+export function compareWithGolden(output: string, golden: GoldenFile): GoldenComparison {
+  switch (golden.mode) {
+    case 'regex':
+      return compareRegex(output, golden.expected);
+    case 'json':
+      return compareJson(output, golden.expected);
+    default: {
+      const diff = diffLines(normalize(golden.expected), normalize(output));
+      return { passed: diff.every(line => line.type === 'same'), diff };
+    }
+  }
+}
+
+/**
+ * Salida esperada a partir de una salida real: en modo regex cada línea se
+ * escapa para que coincida tal cual y en modo JSON se guarda formateada.
+ * Lanza un error si el modo es JSON y la salida no lo es.
+ */
+export function createGolden(output: string, mode: GoldenMode): GoldenFile {
+  switch (mode) {
+    case 'regex':
+      return { mode, expected: splitLines(output).map(escapeRegExp).join('\n') };
+    case 'json':
+      try {
+        return { mode, expected: JSON.stringify(JSON.parse(output), null, 2) };
+      } catch {
+        throw new Error('La salida no es JSON válido: no se puede guardar como salida esperada JSON');
+      }
+    default:
+      return { mode, expected: normalize(output) };
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * TerminalBuffer - Pantalla de texto mínima para la salida de un pseudoterminal
+ * Interpreta lo que usa jsh: colores SGR, retorno de carro, borrado de línea
+ * y movimientos de cursor; el resto de secuencias se ignora.
+ */
+
+export interface TerminalStyle {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+/**
+ * Fragmento de una línea con el mismo estilo
+ */
+export interface TerminalRun {
+  text: string;
+  style: TerminalStyle;
+}
+
+interface Cell {
+  char: string;
+  style: TerminalStyle;
+}
+
+/**
+ * Paleta ANSI de 16 colores (tema oscuro)
+ */
+const ANSI_COLORS = [
+  '#1e1e1e', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#e5e5e5',
+  '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff'
+];
+
+const DEFAULT_STYLE: TerminalStyle = {};
+
+/**
+ * Color de la paleta xterm de 256 colores
+ */
+function xtermColor(index: number): string {
+  if (index < 16) {
+    return ANSI_COLORS[index];
+  }
+  if (index < 232) {
+    const value = index - 16;
+    const channel = (n: number) => (n === 0 ? 0 : 55 + n * 40);
+    return `rgb(${channel(Math.floor(value / 36))}, ${channel(Math.floor(value / 6) % 6)}, ${channel(value % 6)})`;
+  }
+  const gray = 8 + (index - 232) * 10;
+  return `rgb(${gray}, ${gray}, ${gray})`;
+}
+
+export class TerminalBuffer {
+  private lines: Cell[][] = [[]];
+  private row = 0;
+  private col = 0;
+  private style: TerminalStyle = DEFAULT_STYLE;
+  private pending = '';
+  private cols: number;
+  private rows: number;
+  private maxLines: number;
+
+  constructor(cols: number = 80, rows: number = 24, maxLines: number = 2000) {
+    this.cols = cols;
+    this.rows = rows;
+    this.maxLines = maxLines;
+  }
+
+  /**
+   * Actualiza el tamaño usado para el ajuste de línea y el posicionamiento absoluto
+   */
+  setSize(cols: number, rows: number): void {
+    this.cols = Math.max(1, cols);
+    this.rows = Math.max(1, rows);
+  }
+
+  /**
+   * Procesa un bloque de salida; las secuencias incompletas esperan al siguiente
+   */
+  write(data: string): void {
+    const text = this.pending + data;
+    this.pending = '';
+
+    let i = 0;
+    while (i < text.length) {
+      const char = text[i];
+
+      if (char === '\x1b') {
+        const consumed = this.handleEscape(text, i);
+        if (consumed === 0) {
+          this.pending = text.slice(i);
+          break;
+        }
+        i += consumed;
+        continue;
+      }
+
+      switch (char) {
+        case '\n':
+          this.lineFeed();
+          break;
+        case '\r':
+          this.col = 0;
+          break;
+        case '\b':
+          this.col = Math.max(0, this.col - 1);
+          break;
+        case '\t':
+          this.col = Math.min(this.cols - 1, (Math.floor(this.col / 8) + 1) * 8);
+          break;
+        default:
+          if (char >= ' ') {
+            this.putChar(char);
+          }
+      }
+      i++;
+    }
+
+    this.trimScrollback();
+  }
+
+  /**
+   * Borra toda la pantalla y el historial
+   */
+  clear(): void {
+    this.lines = [[]];
+    this.row = 0;
+    this.col = 0;
+  }
+
+  /**
+   * Líneas agrupadas en fragmentos del mismo estilo, para renderizar
+   */
+  getRuns(): TerminalRun[][] {
+    return this.lines.map(line => {
+      const runs: TerminalRun[] = [];
+      for (const cell of line) {
+        const last = runs[runs.length - 1];
+        if (last && last.style === cell.style) {
+          last.text += cell.char;
+        } else {
+          runs.push({ text: cell.char, style: cell.style });
+        }
+      }
+      return runs;
+    });
+  }
+
+  /**
+   * Contenido en texto plano (para copiar)
+   */
+  toString(): string {
+    return this.lines
+      .map(line => line.map(cell => cell.char).join('').replace(/\s+$/, ''))
+      .join('\n')
+      .replace(/\n+$/, '');
+  }
+
+  private putChar(char: string): void {
+    if (this.col >= this.cols) {
+      this.lineFeed();
+    }
+
+    const line = this.currentLine();
+    while (line.length < this.col) {
+      line.push({ char: ' ', style: DEFAULT_STYLE });
+    }
+    line[this.col] = { char, style: this.style };
+    this.col++;
+  }
+
+  private lineFeed(): void {
+    this.row++;
+    this.col = 0;
+    this.currentLine();
+  }
+
+  private currentLine(): Cell[] {
+    while (this.lines.length <= this.row) {
+      this.lines.push([]);
+    }
+    return this.lines[this.row];
+  }
+
+  /**
+   * Primera línea de la pantalla visible (las anteriores son historial)
+   */
+  private screenTop(): number {
+    return Math.max(0, this.lines.length - this.rows);
+  }
+
+  private trimScrollback(): void {
+    const excess = this.lines.length - this.maxLines;
+    if (excess > 0) {
+      this.lines.splice(0, excess);
+      this.row = Math.max(0, this.row - excess);
+    }
+  }
+
+  /**
+   * Interpreta una secuencia de escape que empieza en `start`.
+   * Devuelve los caracteres consumidos, o 0 si la secuencia está incompleta.
+   */
+  private handleEscape(text: string, start: number): number {
+    const next = text[start + 1];
+    if (next === undefined) {
+      return 0;
+    }
+
+    // CSI: ESC [ parámetros byte-final
+    if (next === '[') {
+      let end = start + 2;
+      while (end < text.length && !/[@-~]/.test(text[end])) {
+        end++;
+      }
+      if (end >= text.length) {
+        return 0;
+      }
+      this.handleCsi(text.slice(start + 2, end), text[end]);
+      return end - start + 1;
+    }
+
+    // OSC (título de ventana, etc.): termina en BEL o ESC \
+    if (next === ']') {
+      const bell = text.indexOf('\x07', start);
+      const st = text.indexOf('\x1b\\', start + 2);
+      const ends = [bell, st].filter(index => index !== -1);
+      if (ends.length === 0) {
+        return 0;
+      }
+      const end = Math.min(...ends);
+      return end - start + (end === st ? 2 : 1);
+    }
+
+    return 2;
+  }
+
+  private handleCsi(params: string, command: string): void {
+    // Modos privados (?2004h, ?25l...) no afectan al texto
+    if (params.startsWith('?') || params.startsWith('>')) {
+      return;
+    }
+
+    const values = params.split(';').map(value => parseInt(value, 10));
+    const first = Number.isNaN(values[0]) ? undefined : values[0];
+    const count = first || 1;
+
+    switch (command) {
+      case 'm':
+        this.applySgr(values.map(value => (Number.isNaN(value) ? 0 : value)));
+        break;
+      case 'K':
+        this.eraseLine(first || 0);
+        break;
+      case 'J':
+        this.eraseDisplay(first || 0);
+        break;
+      case 'G':
+        this.col = Math.max(0, count - 1);
+        break;
+      case 'C':
+        this.col = Math.min(this.cols - 1, this.col + count);
+        break;
+      case 'D':
+        this.col = Math.max(0, this.col - count);
+        break;
+      case 'A':
+        this.row = Math.max(this.screenTop(), this.row - count);
+        break;
+      case 'B':
+        this.row += count;
+        this.currentLine();
+        break;
+      case 'H':
+      case 'f': {
+        const row = Number.isNaN(values[0]) ? 1 : values[0] || 1;
+        const col = Number.isNaN(values[1]) ? 1 : values[1] || 1;
+        this.row = this.screenTop() + row - 1;
+        this.col = col - 1;
+        this.currentLine();
+        break;
+      }
+    }
+  }
+
+  private eraseLine(mode: number): void {
+    const line = this.currentLine();
+    if (mode === 0) {
+      line.length = Math.min(line.length, this.col);
+    } else if (mode === 1) {
+      for (let i = 0; i <= this.col && i < line.length; i++) {
+        line[i] = { char: ' ', style: DEFAULT_STYLE };
+      }
+    } else {
+      line.length = 0;
+    }
+  }
+
+  private eraseDisplay(mode: number): void {
+    if (mode === 2 || mode === 3) {
+      this.clear();
+      return;
+    }
+
+    this.eraseLine(0);
+    if (mode === 0) {
+      this.lines.length = this.row + 1;
+    }
+  }
+
+  private applySgr(codes: number[]): void {
+    let style: TerminalStyle = { ...this.style };
+
+    for (let i = 0; i < codes.length; i++) {
+      const code = codes[i];
+
+      if (code === 0) {
+        style = {};
+      } else if (code === 1) {
+        style.bold = true;
+      } else if (code === 2) {
+        style.dim = true;
+      } else if (code === 3) {
+        style.italic = true;
+      } else if (code === 4) {
+        style.underline = true;
+      } else if (code === 22) {
+        style.bold = false;
+        style.dim = false;
+      } else if (code === 23) {
+        style.italic = false;
+      } else if (code === 24) {
+        style.underline = false;
+      } else if (code >= 30 && code <= 37) {
+        style.fg = ANSI_COLORS[code - 30];
+      } else if (code >= 90 && code <= 97) {
+        style.fg = ANSI_COLORS[code - 90 + 8];
+      } else if (code >= 40 && code <= 47) {
+        style.bg = ANSI_COLORS[code - 40];
+      } else if (code >= 100 && code <= 107) {
+        style.bg = ANSI_COLORS[code - 100 + 8];
+      } else if (code === 39) {
+        delete style.fg;
+      } else if (code === 49) {
+        delete style.bg;
+      } else if (code === 38 || code === 48) {
+        // 38;5;n (256 colores) o 38;2;r;g;b (color verdadero)
+        let color: string | undefined;
+        if (codes[i + 1] === 5) {
+          color = xtermColor(codes[i + 2] ?? 0);
+          i += 2;
+        } else if (codes[i + 1] === 2) {
+          color = `rgb(${codes[i + 2] ?? 0}, ${codes[i + 3] ?? 0}, ${codes[i + 4] ?? 0})`;
+          i += 4;
+        }
+        if (color) {
+          style[code === 38 ? 'fg' : 'bg'] = color;
+        }
+      }
+    }
+
+    // Cada cambio crea un objeto nuevo: getRuns agrupa celdas por identidad de estilo
+    this.style = Object.keys(style).length === 0 ? DEFAULT_STYLE : style;
+  }
+}
@@ -0,0 +1,93 @@
+// @vitest-environment node
+/**
+ * Env File Tests
+ * Verifies the .env syntax accepted by the environment editor and how secret values are detected and masked
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseEnvFile, isSecretEnvKey, maskEnvValue } from '../EnvFile';
+
+describe('EnvFile', () => {
+  describe('parseEnvFile', () => {
+    it('should read plain assignments with an optional export', () => {
+      const { variables, errors } = parseEnvFile('API_URL=https://example.com\nexport PORT = 3000\r\nEMPTY=');
+
+      expect(variables).toEqual({ API_URL: 'https://example.com', PORT: '3000', EMPTY: '' });
+      expect(errors).toEqual([]);
+    });
+
+    it('should skip comment lines and trailing comments of unquoted values', () => {
+      const { variables } = parseEnvFile('# settings\n\nCOLOR=red # favourite\nHASH=a#b');
+      expect(variables).toEqual({ COLOR: 'red', HASH: 'a#b' });
+    });
+
+    it('should keep single-quoted values literally and unescape double-quoted ones', () => {
+      const { variables } = parseEnvFile([
+        "LITERAL='a\\nb # not a comment'",
+        'ESCAPED="line1\\nline2 \\"quoted\\""',
+        'COMMENTED="value" # comment'
+      ].join('\n'));
+
+      expect(variables).toEqual({
+        LITERAL: 'a\\nb # not a comment',
+        ESCAPED: 'line1\nline2 "quoted"',
+        COMMENTED: 'value'
+      });
+    });
+
+    it('should let double-quoted values span several lines', () => {
+      const { variables, errors } = parseEnvFile('KEY="-----BEGIN-----\nabc\n-----END-----"\nNEXT=1');
+
+      expect(variables).toEqual({ KEY: '-----BEGIN-----\nabc\n-----END-----', NEXT: '1' });
+      expect(errors).toEqual([]);
+    });
+
+    it('should report invalid lines with their line number and keep the rest', () => {
+      const { variables, errors } = parseEnvFile([
+        'GOOD=1',
+        'no equals sign',
+        '1BAD=2',
+        'EXTRA="value" trailing',
+        'OPEN="never closed',
+        'AFTER=3'
+      ].join('\n'));
+
+      expect(variables).toEqual({ GOOD: '1', AFTER: '3' });
+      expect(errors).toEqual([
+        { line: 2, message: 'Missing "=" in "no equals sign"' },
+        { line: 3, message: 'Invalid variable name "1BAD"' },
+        { line: 4, message: 'Unexpected text after the value of "EXTRA"' },
+        { line: 5, message: 'Unterminated quote in "OPEN"' }
+      ]);
+    });
+
+    it('should keep the last definition of a variable', () => {
+      expect(parseEnvFile('MODE=dev\nMODE=prod').variables).toEqual({ MODE: 'prod' });
+    });
+  });
+
+  describe('isSecretEnvKey', () => {
+    it('should flag names that usually hold credentials', () => {
+      for (const key of ['API_KEY', 'apiKey', 'GITHUB_TOKEN', 'DB_PASSWORD', 'CLIENT_SECRET', 'AUTH_HEADER', 'SSH_PRIVATE', 'STRIPE_KEY', 'KEY']) {
+        expect(isSecretEnvKey(key)).toBe(true);
+      }
+    });
+
+    it('should not flag ordinary names', () => {
+      for (const key of ['API_URL', 'PORT', 'NODE_ENV', 'AUTHOR', 'KEYBOARD_LAYOUT']) {
+        expect(isSecretEnvKey(key)).toBe(false);
+      }
+    });
+  });
+
+  describe('maskEnvValue', () => {
+    it('should hide the value and its length', () => {
+      expect(maskEnvValue('a')).toBe(maskEnvValue('a much longer secret value'));
+      expect(maskEnvValue('secret')).not.toContain('secret');
+    });
+
+    it('should leave empty values empty', () => {
+      expect(maskEnvValue('')).toBe('');
+    });
+  });
+});
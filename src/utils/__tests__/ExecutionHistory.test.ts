@@ -0,0 +1,87 @@
+// @vitest-environment node
+/**
+ * Execution History Tests
+ * Verifies the code hash that tells runs apart and the line diff between two outputs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffLines, hashCode, createHistoryEntry, getEntryText } from '../ExecutionHistory';
+
+describe('ExecutionHistory', () => {
+  describe('hashCode', () => {
+    it('should return the same 8-digit hex hash for the same code', () => {
+      expect(hashCode('console.log(1)')).toBe(hashCode('console.log(1)'));
+      expect(hashCode('console.log(1)')).toMatch(/^[0-9a-f]{8}$/);
+    });
+
+    it('should tell different code apart', () => {
+      expect(hashCode('a')).not.toBe(hashCode('b'));
+      expect(hashCode('')).toBe('811c9dc5');
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should mark every line the same when nothing changed', () => {
+      expect(diffLines('a\nb', 'a\nb')).toEqual([
+        { type: 'same', text: 'a' },
+        { type: 'same', text: 'b' }
+      ]);
+    });
+
+    it('should mark inserted lines as added', () => {
+      expect(diffLines('a\nc', 'a\nb\nc')).toEqual([
+        { type: 'same', text: 'a' },
+        { type: 'added', text: 'b' },
+        { type: 'same', text: 'c' }
+      ]);
+    });
+
+    it('should mark deleted lines as removed', () => {
+      expect(diffLines('a\nb\nc', 'a\nc')).toEqual([
+        { type: 'same', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'same', text: 'c' }
+      ]);
+    });
+
+    it('should show a replaced line as removed then added', () => {
+      expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+        { type: 'same', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'added', text: 'x' },
+        { type: 'same', text: 'c' }
+      ]);
+    });
+
+    it('should keep the longest common lines when the middle moves around', () => {
+      const diff = diffLines('1\n2\n3\n4', '2\n3\n5\n4');
+
+      expect(diff.filter(line => line.type === 'same').map(line => line.text)).toEqual(['2', '3', '4']);
+      expect(diff.filter(line => line.type === 'removed').map(line => line.text)).toEqual(['1']);
+      expect(diff.filter(line => line.type === 'added').map(line => line.text)).toEqual(['5']);
+    });
+
+    it('should handle empty outputs', () => {
+      expect(diffLines('', '')).toEqual([]);
+      expect(diffLines('', 'a')).toEqual([{ type: 'added', text: 'a' }]);
+      expect(diffLines('a', '')).toEqual([{ type: 'removed', text: 'a' }]);
+    });
+  });
+
+  describe('history entries', () => {
+    it('should hash the code and compare output followed by the error', () => {
+      const entry = createHistoryEntry({
+        tabId: 'tab-1',
+        code: 'throw 1',
+        language: 'javascript',
+        trigger: 'manual',
+        success: false,
+        output: 'before',
+        error: 'Uncaught 1'
+      });
+
+      expect(entry.codeHash).toBe(hashCode('throw 1'));
+      expect(getEntryText(entry)).toBe('before\nUncaught 1');
+    });
+  });
+});
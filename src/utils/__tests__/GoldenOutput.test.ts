@@ -0,0 +1,103 @@
+// @vitest-environment node
+/**
+ * Golden Output Tests
+ * Verifies how a run's output is checked against the tab's expected output in each mode
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareWithGolden, createGolden } from '../GoldenOutput';
+
+describe('GoldenOutput', () => {
+  describe('compareWithGolden', () => {
+    describe('exact', () => {
+      it('should pass on the same text, ignoring line endings and trailing newlines', () => {
+        const comparison = compareWithGolden('a\r\nb\n\n', { mode: 'exact', expected: 'a\nb' });
+
+        expect(comparison.passed).toBe(true);
+        expect(comparison.diff.every(line => line.type === 'same')).toBe(true);
+      });
+
+      it('should fail with the diff from the expected to the actual output', () => {
+        const comparison = compareWithGolden('a\nc', { mode: 'exact', expected: 'a\nb' });
+
+        expect(comparison.passed).toBe(false);
+        expect(comparison.diff).toEqual([
+          { type: 'same', text: 'a' },
+          { type: 'removed', text: 'b' },
+          { type: 'added', text: 'c' }
+        ]);
+      });
+    });
+
+    describe('regex', () => {
+      it('should match each line against its pattern as a whole', () => {
+        const golden = { mode: 'regex' as const, expected: 'took \\d+ms\n[a-z]+' };
+
+        expect(compareWithGolden('took 12ms\nabc', golden).passed).toBe(true);
+        expect(compareWithGolden('took 12ms!\nabc', golden).passed).toBe(false);
+      });
+
+      it('should report missing and extra lines', () => {
+        const golden = { mode: 'regex' as const, expected: 'one\ntwo' };
+
+        expect(compareWithGolden('one', golden).diff).toEqual([
+          { type: 'same', text: 'one' },
+          { type: 'removed', text: 'two' }
+        ]);
+        expect(compareWithGolden('one\ntwo\nthree', golden).diff.at(-1)).toEqual({ type: 'added', text: 'three' });
+      });
+
+      it('should fail with a message on an invalid pattern', () => {
+        const comparison = compareWithGolden('anything', { mode: 'regex', expected: 'broken(' });
+
+        expect(comparison.passed).toBe(false);
+        expect(comparison.diff).toEqual([]);
+        expect(comparison.message).toMatch(/^Expresión regular inválida/);
+      });
+    });
+
+    describe('json', () => {
+      it('should compare values regardless of key order and formatting', () => {
+        const golden = { mode: 'json' as const, expected: '{ "b": [1, 2], "a": { "y": 1, "x": null } }' };
+
+        expect(compareWithGolden('{"a":{"x":null,"y":1},"b":[1,2]}', golden).passed).toBe(true);
+        expect(compareWithGolden('{"a":{"x":null,"y":1},"b":[2,1]}', golden).passed).toBe(false);
+      });
+
+      it('should fail with a message and a diff when the output is not JSON', () => {
+        const comparison = compareWithGolden('Error: nope', { mode: 'json', expected: '{"ok":true}' });
+
+        expect(comparison.passed).toBe(false);
+        expect(comparison.message).toBe('La salida no es JSON válido');
+        expect(comparison.diff.filter(line => line.type === 'added')).toEqual([{ type: 'added', text: 'Error: nope' }]);
+      });
+
+      it('should fail with a message when the expected output is not JSON', () => {
+        const comparison = compareWithGolden('{}', { mode: 'json', expected: 'not json' });
+
+        expect(comparison.passed).toBe(false);
+        expect(comparison.message).toBe('La salida esperada no es JSON válido');
+      });
+    });
+  });
+
+  describe('createGolden', () => {
+    it('should save the output as it is in exact mode', () => {
+      expect(createGolden('done\r\n', 'exact')).toEqual({ mode: 'exact', expected: 'done' });
+    });
+
+    it('should escape each line in regex mode so the output matches itself', () => {
+      const output = 'total: $4.50 (2 items)\n[ok]';
+      const golden = createGolden(output, 'regex');
+
+      expect(golden.expected).toBe('total: \\$4\\.50 \\(2 items\\)\n\\[ok\\]');
+      expect(compareWithGolden(output, golden).passed).toBe(true);
+      expect(compareWithGolden('total: $4x50 (2 items)\n[ok]', golden).passed).toBe(false);
+    });
+
+    it('should format JSON output and reject output that is not JSON', () => {
+      expect(createGolden('{"a":1}', 'json')).toEqual({ mode: 'json', expected: '{\n  "a": 1\n}' });
+      expect(() => createGolden('plain text', 'json')).toThrow('La salida no es JSON válido');
+    });
+  });
+});
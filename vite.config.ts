@@ -35,4 +35,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['@webcontainer/api'],
   },
+  worker: {
+    // The Pyodide worker is a module worker: it imports pyodide.mjs at runtime
+    format: 'es',
+  },
 })